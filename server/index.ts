@@ -0,0 +1,25 @@
+import { createServer } from 'node:http';
+import { PROXY_PATH, createWeatherProxy, proxyOptionsFromEnv, sendProxyError } from './weatherProxy.ts';
+
+// --- STANDALONE PROXY ---
+// `npm run proxy` serves the weather proxy on its own, for deployments where
+// the built app is static. Route PROXY_PATH on the app's origin to it.
+
+const port = Number(process.env.PORT) || 8787;
+const options = proxyOptionsFromEnv(process.env);
+const proxy = createWeatherProxy(options);
+
+createServer((req, res) => {
+  const path = req.url ?? '/';
+  if (!path.startsWith(`${PROXY_PATH}/`)) {
+    sendProxyError(res, 404, 'not_found', `The weather proxy only answers under ${PROXY_PATH}.`);
+    return;
+  }
+  req.url = path.slice(PROXY_PATH.length);
+  void proxy(req, res);
+}).listen(port, () => {
+  console.log(`Weather proxy listening on http://localhost:${port}${PROXY_PATH}`);
+  if (!options.apiKey) {
+    console.warn('WEATHER_API_KEY is not set; every request will be answered with not_configured.');
+  }
+});
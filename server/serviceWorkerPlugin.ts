@@ -0,0 +1,71 @@
+import { createHash } from 'node:crypto';
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { join, resolve, sep } from 'node:path';
+import { build } from 'vite';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+const SERVICE_WORKER_ENTRY = 'src/pwa/serviceWorker.ts';
+
+/** Files of public/, as paths relative to it */
+const publicFiles = (dir: string) => readdirSync(dir, { recursive: true, encoding: 'utf8' })
+  .filter((file) => statSync(join(dir, file)).isFile())
+  .map((file) => file.split(sep).join('/'));
+
+/**
+ * Builds the service worker into sw.js once the app is built. It gets a
+ * bundle of its own, with no chunks shared with the app, and the list of
+ * files to precache: everything the build emitted plus public/. The list's
+ * hash names the cache, so each deploy installs as an update.
+ */
+export const serviceWorkerPlugin = (): Plugin => {
+  let config: ResolvedConfig;
+  const files = new Map<string, string | Uint8Array>(); // path -> contents
+
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    configResolved: (resolved) => {
+      config = resolved;
+    },
+    writeBundle: (_options, bundle) => {
+      Object.values(bundle)
+        .filter((file) => !file.fileName.endsWith('.map'))
+        .forEach((file) => files.set(file.fileName, file.type === 'chunk' ? file.code : file.source));
+    },
+    closeBundle: async () => {
+      if (config.publicDir) {
+        publicFiles(config.publicDir).forEach((file) => files.set(file, readFileSync(join(config.publicDir, file))));
+      }
+      const hash = createHash('sha256');
+      const urls = [...files.keys()].sort().map((file) => {
+        hash.update(file).update(files.get(file)!);
+        return file === 'index.html' ? config.base : `${config.base}${file}`;
+      });
+
+      await build({
+        configFile: false,
+        root: config.root,
+        mode: config.mode,
+        envDir: config.envDir,
+        envPrefix: config.envPrefix,
+        logLevel: 'warn',
+        define: {
+          __PRECACHE_URLS__: JSON.stringify(urls),
+          __PRECACHE_VERSION__: JSON.stringify(hash.digest('hex').slice(0, 12)),
+        },
+        build: {
+          outDir: config.build.outDir,
+          emptyOutDir: false,
+          copyPublicDir: false,
+          minify: config.build.minify,
+          lib: {
+            entry: resolve(config.root, SERVICE_WORKER_ENTRY),
+            formats: ['iife'],
+            name: 'serviceWorker',
+            fileName: () => 'sw.js',
+          },
+        },
+      });
+    },
+  };
+};
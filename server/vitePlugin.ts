@@ -0,0 +1,19 @@
+import type { Connect, Plugin } from 'vite';
+import { PROXY_PATH, createWeatherProxy, proxyOptionsFromEnv } from './weatherProxy.ts';
+
+/**
+ * Mounts the weather proxy on the dev and preview servers, so `npm run dev`
+ * needs no second process
+ */
+export const weatherProxyPlugin = (env: Record<string, string | undefined>): Plugin => {
+  const mount = (middlewares: Connect.Server) => {
+    const proxy = createWeatherProxy(proxyOptionsFromEnv(env));
+    middlewares.use(PROXY_PATH, (req, res) => void proxy(req, res));
+  };
+
+  return {
+    name: 'weather-proxy',
+    configureServer: (server) => mount(server.middlewares),
+    configurePreviewServer: (server) => mount(server.middlewares),
+  };
+};
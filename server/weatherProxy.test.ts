@@ -0,0 +1,99 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { describe, expect, it, vi } from 'vitest';
+import { createWeatherProxy } from './weatherProxy.ts';
+import type { WeatherProxyOptions } from './weatherProxy.ts';
+
+const UPSTREAM = 'https://api.weatherapi.com/v1';
+
+/**
+ * Sends one request through the proxy and collects what it answers
+ */
+const call = async (proxy: ReturnType<typeof createWeatherProxy>, url: string, { method = 'GET', client = '10.0.0.1' } = {}) => {
+  const req = { method, url, headers: {}, socket: { remoteAddress: client } } as unknown as IncomingMessage;
+  const sent = { status: 0, headers: {} as Record<string, string>, body: '' };
+  const res = {
+    writeHead: (status: number, headers: Record<string, string>) => Object.assign(sent, { status, headers }),
+    end: (body: string) => Object.assign(sent, { body }),
+  } as unknown as ServerResponse;
+  await proxy(req, res);
+  return { ...sent, json: JSON.parse(sent.body) as unknown };
+};
+
+const createProxy = (upstream: (url: URL) => Response | Promise<Response>, options: Partial<WeatherProxyOptions> = {}) => {
+  const fetch = vi.fn(async (url: URL) => upstream(url));
+  const proxy = createWeatherProxy({
+    apiKey: 'secret', upstream: UPSTREAM, rateLimit: 100, trustForwarded: false, fetch: fetch as unknown as typeof globalThis.fetch, ...options,
+  });
+  return { proxy, fetch };
+};
+
+describe('weather proxy', () => {
+  it('adds its own key and answers repeated queries from its cache', async () => {
+    const { proxy, fetch } = createProxy(() => Response.json({ forecast: 'sunny' }));
+
+    const first = await call(proxy, '/forecast.json?q=51.5,-0.1&days=14&key=stolen');
+    const second = await call(proxy, '/forecast.json?days=14&q=51.5,-0.1');
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const url = fetch.mock.calls[0][0];
+    expect(`${url.origin}${url.pathname}`).toBe(`${UPSTREAM}/forecast.json`);
+    expect(url.searchParams.getAll('key')).toEqual(['secret']);
+    expect(first).toMatchObject({ status: 200, json: { forecast: 'sunny' }, headers: { 'X-Cache': 'MISS' } });
+    expect(second).toMatchObject({ status: 200, json: { forecast: 'sunny' }, headers: { 'X-Cache': 'HIT' } });
+  });
+
+  it('reuses a forecast for less than the minute between refreshes', async () => {
+    let now = 1_000_000;
+    const { proxy, fetch } = createProxy(() => Response.json({ forecast: 'sunny' }), { now: () => now });
+
+    await call(proxy, '/forecast.json?q=51.5,-0.1');
+    now += 29 * 1000;
+    expect((await call(proxy, '/forecast.json?q=51.5,-0.1')).headers).toMatchObject({ 'X-Cache': 'HIT' });
+    now += 31 * 1000;
+    expect((await call(proxy, '/forecast.json?q=51.5,-0.1')).headers).toMatchObject({ 'X-Cache': 'MISS' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a missing key as a configuration error', async () => {
+    const { proxy, fetch } = createProxy(() => Response.json({}), { apiKey: undefined });
+
+    const response = await call(proxy, '/forecast.json?q=London');
+    expect(response).toMatchObject({ status: 503, json: { error: { code: 'not_configured' } } });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('limits each client separately', async () => {
+    const { proxy } = createProxy(() => Response.json([]), { rateLimit: 2, now: () => 1_000_000 });
+
+    await call(proxy, '/search.json?q=a');
+    await call(proxy, '/search.json?q=b');
+    const limited = await call(proxy, '/search.json?q=c');
+    expect(limited).toMatchObject({ status: 429, json: { error: { code: 'rate_limited' } }, headers: { 'Retry-After': '60' } });
+    expect((await call(proxy, '/search.json?q=c', { client: '10.0.0.2' })).status).toBe(200);
+  });
+
+  it('turns upstream failures into its own error body, without caching them', async () => {
+    const answers: (() => Response)[] = [
+      () => Response.json({ error: { code: 1006, message: 'No matching location found.' } }, { status: 400 }),
+      () => Response.json({ error: { code: 2006, message: 'API key is invalid.' } }, { status: 401 }),
+      () => { throw new TypeError('fetch failed'); },
+    ];
+    const { proxy, fetch } = createProxy(() => answers[fetch.mock.calls.length - 1]());
+
+    expect(await call(proxy, '/search.json?q=nowhere')).toMatchObject({
+      status: 400, json: { error: { code: 'bad_request', message: 'No matching location found.' } },
+    });
+    expect(await call(proxy, '/search.json?q=nowhere')).toMatchObject({ status: 503, json: { error: { code: 'invalid_key' } } });
+    expect(await call(proxy, '/search.json?q=nowhere')).toMatchObject({ status: 504, json: { error: { code: 'upstream_unreachable' } } });
+  });
+
+  it('only forwards the endpoints the dashboard uses', async () => {
+    const { proxy, fetch } = createProxy(() => Response.json({}));
+
+    expect(await call(proxy, '/marine.json?q=London')).toMatchObject({ status: 404, json: { error: { code: 'not_found' } } });
+    expect(await call(proxy, '/forecast.json?q=London', { method: 'POST' })).toMatchObject({
+      status: 405, json: { error: { code: 'method_not_allowed' } },
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
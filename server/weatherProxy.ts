@@ -0,0 +1,227 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ProxyErrorBody, ProxyErrorCode } from '../src/weather/proxyErrors.ts';
+
+// --- WEATHER PROXY ---
+// Stands between the browser and WeatherAPI.com so the API key stays on the
+// server. It adds the key, limits how often each client may call, reuses
+// answers for a while and turns every failure into the same error body.
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/** Where the dashboard reaches the proxy, on the dev server or beside the built app */
+export const PROXY_PATH = '/api/weather';
+
+/**
+ * Endpoints the dashboard uses, and how long their answers are reused.
+ * Forecasts are kept for less than the minute between refreshes of an open
+ * city, so every refresh gets data no older than that.
+ */
+const CACHE_TTL_MS: Record<string, number> = {
+  'search.json': 24 * HOUR_MS,
+  'forecast.json': 30 * 1000,
+  'history.json': 12 * HOUR_MS,
+  'future.json': 6 * HOUR_MS,
+};
+
+const MAX_CACHE_ENTRIES = 1000;
+const MAX_TRACKED_CLIENTS = 10_000;
+const UPSTREAM_TIMEOUT_MS = 10_000;
+
+export interface WeatherProxyOptions {
+  /** WeatherAPI.com key; without one every request is answered with not_configured */
+  apiKey: string | undefined;
+  upstream: string;
+  /** Requests each client may make per minute */
+  rateLimit: number;
+  /** Take the client's address from X-Forwarded-For, for use behind a trusted reverse proxy */
+  trustForwarded: boolean;
+  fetch?: typeof fetch;
+  now?: () => number;
+}
+
+/**
+ * Options from WEATHER_* environment variables. None of them has a VITE_
+ * prefix, so Vite never puts them in the bundle.
+ */
+export const proxyOptionsFromEnv = (env: Record<string, string | undefined>): WeatherProxyOptions => ({
+  apiKey: env.WEATHER_API_KEY?.trim() || undefined,
+  upstream: env.WEATHER_API_BASE || 'https://api.weatherapi.com/v1',
+  rateLimit: Number(env.WEATHER_PROXY_RATE_LIMIT) || 120,
+  trustForwarded: env.WEATHER_PROXY_TRUST_FORWARDED === 'true',
+});
+
+interface ProxyResponse {
+  status: number;
+  body: string;
+  /** Epoch ms until which the response may be reused; 0 for errors */
+  expires: number;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: string, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(body);
+};
+
+const errorResponse = (status: number, code: ProxyErrorCode, message: string): ProxyResponse => ({
+  status,
+  body: JSON.stringify({ error: { code, message } } satisfies ProxyErrorBody),
+  expires: 0,
+});
+
+export const sendProxyError = (
+  res: ServerResponse, status: number, code: ProxyErrorCode, message: string, headers: Record<string, string> = {}
+) => sendJson(res, status, errorResponse(status, code, message).body, headers);
+
+/**
+ * What a WeatherAPI.com error becomes. Its own codes are listed at
+ * https://www.weatherapi.com/docs/#intro-error-codes
+ */
+const fromUpstreamError = (status: number, raw: unknown): ProxyResponse => {
+  const upstream = (raw as { error?: { code?: number; message?: string } } | null)?.error;
+  const message = upstream?.message ?? `WeatherAPI.com answered with status ${status}.`;
+  // 2006: key invalid, 2008: key disabled
+  if (status === 401 || upstream?.code === 2006 || upstream?.code === 2008) {
+    return errorResponse(503, 'invalid_key', 'WeatherAPI.com rejected the configured API key.');
+  }
+  if (status === 400) {
+    return errorResponse(400, 'bad_request', message);
+  }
+  // Over the monthly quota, or not included in the plan
+  if (status === 403) {
+    return errorResponse(403, 'not_available', message);
+  }
+  if (status === 429) {
+    return errorResponse(429, 'rate_limited', message);
+  }
+  return errorResponse(502, 'upstream_error', message);
+};
+
+/**
+ * Fixed one-minute windows per client. Returns the seconds to wait, or 0
+ * when the request may go ahead.
+ */
+const createRateLimiter = (limit: number, now: () => number) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return (client: string): number => {
+    const at = now();
+    let window = windows.get(client);
+    if (!window || at - window.start >= MINUTE_MS) {
+      if (windows.size >= MAX_TRACKED_CLIENTS) {
+        for (const [key, stale] of windows) {
+          if (at - stale.start >= MINUTE_MS) {
+            windows.delete(key);
+          }
+        }
+      }
+      window = { start: at, count: 0 };
+      windows.set(client, window);
+    }
+    window.count += 1;
+    return window.count > limit ? Math.ceil((window.start + MINUTE_MS - at) / 1000) : 0;
+  };
+};
+
+/**
+ * Builds the request handler. It expects URLs relative to PROXY_PATH, as
+ * Connect passes them to middleware mounted there.
+ */
+export const createWeatherProxy = ({
+  apiKey, upstream, rateLimit, trustForwarded, fetch: fetchUpstream = fetch, now = Date.now,
+}: WeatherProxyOptions) => {
+  const cache = new Map<string, ProxyResponse>();
+  const inFlight = new Map<string, Promise<ProxyResponse>>();
+  const limit = createRateLimiter(rateLimit, now);
+  const base = upstream.replace(/\/$/, '');
+
+  const clientOf = (req: IncomingMessage) => {
+    const forwarded = trustForwarded ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+    return forwarded || req.socket.remoteAddress || 'unknown';
+  };
+
+  const remember = (cacheKey: string, response: ProxyResponse) => {
+    cache.delete(cacheKey);
+    cache.set(cacheKey, response);
+    if (cache.size > MAX_CACHE_ENTRIES) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      cache.delete(cache.keys().next().value as string);
+    }
+  };
+
+  const fetchFromUpstream = async (endpoint: string, params: URLSearchParams, key: string): Promise<ProxyResponse> => {
+    const url = new URL(`${base}/${endpoint}`);
+    url.search = params.toString();
+    url.searchParams.set('key', key);
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetchUpstream(url, { signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) });
+      text = await response.text();
+    } catch {
+      return errorResponse(504, 'upstream_unreachable', 'WeatherAPI.com could not be reached.');
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      return errorResponse(502, 'upstream_error', 'WeatherAPI.com sent a response that is not JSON.');
+    }
+    return response.ok
+      ? { status: 200, body: text, expires: now() + CACHE_TTL_MS[endpoint] }
+      : fromUpstreamError(response.status, raw);
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://proxy');
+    const endpoint = url.pathname.replace(/^\//, '');
+
+    if (!(endpoint in CACHE_TTL_MS)) {
+      sendProxyError(res, 404, 'not_found', `The weather proxy has no /${endpoint} endpoint.`);
+      return;
+    }
+    if (req.method !== 'GET') {
+      sendProxyError(res, 405, 'method_not_allowed', 'The weather proxy only answers GET requests.', { Allow: 'GET' });
+      return;
+    }
+    if (!apiKey) {
+      sendProxyError(res, 503, 'not_configured', 'The weather proxy has no WEATHER_API_KEY.');
+      return;
+    }
+    const retryAfter = limit(clientOf(req));
+    if (retryAfter > 0) {
+      sendProxyError(res, 429, 'rate_limited', 'Too many requests; slow down.', { 'Retry-After': String(retryAfter) });
+      return;
+    }
+
+    // The key is ours to add, so a client's own is dropped. Sorting lets
+    // the same query in a different order share a cache entry.
+    url.searchParams.delete('key');
+    url.searchParams.sort();
+    const cacheKey = `${endpoint}?${url.searchParams}`;
+
+    const cached = cache.get(cacheKey);
+    if (cached && cached.expires > now()) {
+      sendJson(res, cached.status, cached.body, { 'X-Cache': 'HIT' });
+      return;
+    }
+
+    // Identical requests that arrive together share one upstream call
+    let pending = inFlight.get(cacheKey);
+    if (!pending) {
+      pending = fetchFromUpstream(endpoint, url.searchParams, apiKey).then((response) => {
+        if (response.expires > 0) {
+          remember(cacheKey, response);
+        }
+        return response;
+      }).finally(() => inFlight.delete(cacheKey));
+      inFlight.set(cacheKey, pending);
+    }
+    const response = await pending;
+    sendJson(res, response.status, response.body, { 'X-Cache': 'MISS' });
+  };
+};
+
+export type WeatherProxy = ReturnType<typeof createWeatherProxy>;
@@ -0,0 +1,22 @@
+import { Route, Routes } from 'react-router-dom';
+import { ComparisonView } from './comparison';
+import { Dashboard, WeatherDashboard } from './dashboard';
+import { CityDetailRoute } from './detail';
+import { NotFound } from './shared';
+
+/**
+ * Every page of the app, inside the shared header and notifications
+ */
+export default function AppRoutes() {
+  return (
+    <Routes>
+      <Route element={<WeatherDashboard />}>
+        <Route path="/" element={<Dashboard />}>
+          <Route path="city/:locationId" element={<CityDetailRoute />} />
+        </Route>
+        <Route path="/compare" element={<ComparisonView />} />
+        <Route path="*" element={<NotFound />} />
+      </Route>
+    </Routes>
+  );
+}
@@ -0,0 +1,119 @@
+import { useMemo } from 'react';
+import { Download } from 'lucide-react';
+import { CSV_BOM, downloadFile, exportFileName } from '../export';
+import { useTranslation } from '../i18n';
+import { Spinner } from '../shared';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { ACCURACY_RETENTION_OPTIONS, setAccuracyRetention } from '../store/slices/settings';
+import type { Formatter } from '../weather/units';
+import { accuracyByLead, historyToJson, MIN_OBSERVED_HOURS, RAIN_THRESHOLD, scoredForecasts, scoredToCsv } from './stats';
+import { useForecastHistory } from './useForecastHistory';
+
+/**
+ * How well past forecasts for a favorite matched what was observed, by how
+ * far ahead they were made, with the history's retention and export
+ */
+export const AccuracySection = ({ favoriteId, label, today, format }: {
+  favoriteId: string;
+  /** City name as the user sees it, for export file names */
+  label: string;
+  /** The location's current date, "YYYY-MM-DD" */
+  today: string;
+  format: Formatter;
+}) => {
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const retentionDays = useAppSelector((state) => state.settings.accuracyRetentionDays);
+  const records = useForecastHistory(favoriteId);
+  const scored = useMemo(() => (records ? scoredForecasts(records, today) : []), [records, today]);
+  const leads = useMemo(() => accuracyByLead(scored), [scored]);
+  const observedDays = new Set(scored.map((forecast) => forecast.date)).size;
+
+  const exportCsv = () => {
+    const at = Date.now();
+    downloadFile(CSV_BOM + scoredToCsv(scored, format), exportFileName(label, 'forecast-accuracy', 'csv', at), 'text/csv');
+  };
+  const exportJson = () => {
+    const at = Date.now();
+    downloadFile(historyToJson(records ?? [], label, at), exportFileName(label, 'forecast-history', 'json', at), 'application/json');
+  };
+
+  return (
+    <div className="p-6 border-b border-line">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-semibold text-fg">{t('accuracy.title')}</h3>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="text-muted">{t('accuracy.retention')}</span>
+            <select
+              value={retentionDays}
+              onChange={(e) => dispatch(setAccuracyRetention(Number(e.target.value)))}
+              className="px-2 py-1 bg-raised text-fg border border-line-strong rounded-md"
+            >
+              {ACCURACY_RETENTION_OPTIONS.map((days) => (
+                <option key={days} value={days}>{t('detail.days', { count: days })}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={exportCsv}
+            disabled={scored.length === 0}
+            className="flex items-center gap-1 px-3 py-1 rounded-md bg-raised hover:bg-raised-hover text-fg-soft disabled:opacity-50"
+          >
+            <Download size={14} />
+            {t('accuracy.exportCsv')}
+          </button>
+          <button
+            onClick={exportJson}
+            disabled={!records || records.length === 0}
+            className="flex items-center gap-1 px-3 py-1 rounded-md bg-raised hover:bg-raised-hover text-fg-soft disabled:opacity-50"
+          >
+            <Download size={14} />
+            {t('accuracy.exportJson')}
+          </button>
+        </div>
+      </div>
+      {!records ? (
+        <div className="flex justify-center py-4"><Spinner /></div>
+      ) : leads.length === 0 ? (
+        <p className="text-sm text-muted">{t('accuracy.empty', { hours: MIN_OBSERVED_HOURS })}</p>
+      ) : (
+        <>
+          <p className="text-sm text-muted mb-2">
+            {t('accuracy.basedOn', { count: observedDays, threshold: format.percent(RAIN_THRESHOLD) })}
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted text-start">
+                  <th scope="col" className="font-normal text-start">{t('accuracy.lead')}</th>
+                  <th scope="col" className="font-normal">{t('accuracy.days')}</th>
+                  <th scope="col" className="font-normal">{t('accuracy.highError')}</th>
+                  <th scope="col" className="font-normal">{t('accuracy.lowError')}</th>
+                  <th scope="col" className="font-normal">{t('accuracy.rainRight')}</th>
+                  <th scope="col" className="font-normal">{t('accuracy.rainMissed')}</th>
+                  <th scope="col" className="font-normal">{t('accuracy.falseAlarms')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leads.map(({ lead, days, maxTempError, minTempError, rain }) => (
+                  <tr key={lead} className="text-center">
+                    <th scope="row" className="font-semibold text-start">
+                      {lead === 0 ? t('accuracy.sameDay') : t('accuracy.daysAhead', { count: lead })}
+                    </th>
+                    <td>{days}</td>
+                    <td>{format.temperatureDifference(maxTempError)}</td>
+                    <td>{format.temperatureDifference(minTempError)}</td>
+                    <td>{format.percent(((rain.hits + rain.correctDry) / days) * 100)}</td>
+                    <td>{rain.misses}</td>
+                    <td>{rain.falseAlarms}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
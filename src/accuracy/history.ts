@@ -0,0 +1,208 @@
+import { localDateTime } from '../weather/dates';
+import type { ConditionKind, Forecast } from '../weather/types';
+
+// --- FORECAST HISTORY ---
+// One record per favorite and local date: the forecast as first fetched that
+// day, and what the current conditions showed through the day. Kept in
+// IndexedDB, which holds far more than localStorage; like the forecast cache,
+// every call is a no-op without it.
+
+const DB_NAME = 'weatherDashboardAccuracy';
+const STORE_NAME = 'days';
+const FAVORITE_INDEX = 'favoriteId';
+
+/** One forecast day, as predicted on the record's date */
+export interface PredictedDay {
+  date: string;
+  maxTempC: number;
+  minTempC: number;
+  /** 0-100 */
+  chanceOfRain: number;
+}
+
+/** The day's current conditions so far */
+export interface ObservedDay {
+  maxTempC: number;
+  minTempC: number;
+  rained: boolean;
+  /** Bit per local hour that had an observation */
+  hours: number;
+}
+
+export interface HistoryRecord {
+  /** "<favorite id>:<YYYY-MM-DD>" */
+  key: string;
+  favoriteId: string;
+  /** Local date at the location */
+  date: string;
+  /** Null when the app only saw this date's weather after midnight had passed elsewhere */
+  forecast: PredictedDay[] | null;
+  observed: ObservedDay | null;
+}
+
+// Anything the provider calls wet, even when no rain has been measured yet
+const RAIN_KINDS = new Set<ConditionKind>(['drizzle', 'rain', 'freezingRain', 'sleet', 'thunderstorm']);
+
+const recordKey = (favoriteId: string, date: string) => `${favoriteId}:${date}`;
+
+const emptyRecord = (favoriteId: string, date: string): HistoryRecord => ({
+  key: recordKey(favoriteId, date), favoriteId, date, forecast: null, observed: null,
+});
+
+/**
+ * Keeps the first forecast of the day, so every lead time is measured from
+ * the same point
+ */
+export const withForecast = (record: HistoryRecord, forecast: Forecast): HistoryRecord => record.forecast ? record : {
+  ...record,
+  forecast: forecast.days
+    .filter((day) => day.date >= record.date)
+    .map(({ date, maxTempC, minTempC, chanceOfRain }) => ({ date, maxTempC, minTempC, chanceOfRain })),
+};
+
+/**
+ * Widens the day's observed range with the current conditions
+ */
+export const withObservation = (record: HistoryRecord, forecast: Forecast): HistoryRecord => {
+  const { current, location } = forecast;
+  const hour = Number(localDateTime(current.observedAt, location.utcOffsetSeconds).slice(11, 13));
+  const rained = current.precipMm > 0 || RAIN_KINDS.has(current.condition.kind);
+  const observed = record.observed;
+  return {
+    ...record,
+    observed: {
+      maxTempC: Math.max(observed?.maxTempC ?? -Infinity, current.tempC),
+      minTempC: Math.min(observed?.minTempC ?? Infinity, current.tempC),
+      rained: (observed?.rained ?? false) || rained,
+      hours: (observed?.hours ?? 0) | (1 << hour),
+    },
+  };
+};
+
+// --- STORAGE ---
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' }).createIndex(FAVORITE_INDEX, FAVORITE_INDEX);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Forecast history unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs `action` in one transaction and settles when it commits, so a read
+ * and the write based on it can't interleave with another fetch's
+ */
+const transact = async (mode: IDBTransactionMode, action: (store: IDBObjectStore) => void) => {
+  const db = await openDb();
+  if (!db) {
+    return false;
+  }
+  return new Promise<boolean>((resolve) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    transaction.oncomplete = () => resolve(true);
+    transaction.onerror = () => {
+      console.warn('Forecast history request failed:', transaction.error);
+      resolve(false);
+    };
+    action(transaction.objectStore(STORE_NAME));
+  });
+};
+
+// Lets open views re-read after a write
+let version = 0;
+const subscribers = new Set<() => void>();
+
+const changed = () => {
+  version += 1;
+  subscribers.forEach((notify) => notify());
+};
+
+export const subscribeHistory = (notify: () => void) => {
+  subscribers.add(notify);
+  return () => subscribers.delete(notify);
+};
+
+export const historyVersion = () => version;
+
+/**
+ * Records a fetched forecast for a favorite: the day's forecast if it's the
+ * first today, and the current conditions
+ */
+export const recordForecast = async (favoriteId: string, forecast: Forecast) => {
+  const { current, location } = forecast;
+  const today = location.localtime.slice(0, 10);
+  // An observation from just before midnight belongs to the day before
+  const observedOn = localDateTime(current.observedAt, location.utcOffsetSeconds).slice(0, 10);
+
+  const written = await transact('readwrite', (store) => {
+    const update = (date: string, apply: (record: HistoryRecord) => HistoryRecord) => {
+      const request = store.get(recordKey(favoriteId, date));
+      request.onsuccess = () => {
+        store.put(apply((request.result as HistoryRecord | undefined) ?? emptyRecord(favoriteId, date)));
+      };
+    };
+    if (observedOn === today) {
+      update(today, (record) => withObservation(withForecast(record, forecast), forecast));
+    } else {
+      update(today, (record) => withForecast(record, forecast));
+      update(observedOn, (record) => withObservation(record, forecast));
+    }
+  });
+  if (written) {
+    changed();
+  }
+};
+
+/**
+ * A favorite's records, oldest first
+ */
+export const readHistory = async (favoriteId: string): Promise<HistoryRecord[]> => {
+  let records: HistoryRecord[] = [];
+  await transact('readonly', (store) => {
+    const request = store.index(FAVORITE_INDEX).getAll(favoriteId);
+    request.onsuccess = () => {
+      records = request.result as HistoryRecord[];
+    };
+  });
+  return records.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Drops every record dated before `date`
+ */
+export const pruneHistory = async (date: string) => {
+  let removed = false;
+  const written = await transact('readwrite', (store) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        return;
+      }
+      if ((cursor.value as HistoryRecord).date < date) {
+        cursor.delete();
+        removed = true;
+      }
+      cursor.continue();
+    };
+  });
+  if (written && removed) {
+    changed();
+  }
+};
@@ -0,0 +1 @@
+export { AccuracySection } from './AccuracySection';
@@ -0,0 +1,46 @@
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+import { isNearby } from '../store/slices/favorites';
+import { setAccuracyRetention } from '../store/slices/settings';
+import { weatherApi } from '../weather/api';
+import { addDays, localDate } from '../weather/dates';
+import type { RootState } from '../store';
+import { pruneHistory, recordForecast } from './history';
+
+// --- FORECAST HISTORY RECORDING ---
+// Every fresh forecast for a favorite's location is added to its history,
+// and history past the retention setting is dropped.
+
+export const accuracyListener = createListenerMiddleware();
+
+// The cutoff last pruned to; pruning again only pays off once a day has passed
+let prunedBefore: string | null = null;
+
+const prune = (retentionDays: number) => {
+  const cutoff = addDays(localDate(Date.now() / 1000, 0), -retentionDays);
+  if (cutoff !== prunedBefore) {
+    prunedBefore = cutoff;
+    void pruneHistory(cutoff);
+  }
+};
+
+accuracyListener.startListening({
+  matcher: weatherApi.endpoints.getForecast.matchFulfilled,
+  effect: async (action, api) => {
+    if (action.payload.stale) {
+      return; // Cached copies were recorded when they were fresh
+    }
+    const { lat, lon } = action.meta.arg.originalArgs;
+    const { favorites, settings } = api.getState() as RootState;
+    const matching = favorites.locations.filter((favorite) => isNearby(favorite, { lat, lon }));
+    if (matching.length === 0) {
+      return;
+    }
+    await Promise.all(matching.map((favorite) => recordForecast(favorite.id, action.payload)));
+    prune(settings.accuracyRetentionDays);
+  },
+});
+
+accuracyListener.startListening({
+  actionCreator: setAccuracyRetention,
+  effect: (action) => prune(action.payload),
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { withForecast, withObservation } from './history';
+import type { HistoryRecord, ObservedDay, PredictedDay } from './history';
+import { accuracyByLead, scoredForecasts } from './stats';
+import type { Forecast } from '../weather/types';
+
+const ALL_DAY = 0xffffff;
+
+const record = (date: string, forecast: PredictedDay[] | null, observed: ObservedDay | null): HistoryRecord => ({
+  key: `london:${date}`, favoriteId: 'london', date, forecast, observed,
+});
+
+const predicted = (date: string, maxTempC: number, minTempC: number, chanceOfRain: number): PredictedDay => ({
+  date, maxTempC, minTempC, chanceOfRain,
+});
+
+/** The parts of a fetched forecast the history reads */
+const fetched = (observedAt: string, tempC: number, precipMm = 0) => ({
+  location: { localtime: observedAt.slice(0, 16).replace('T', ' '), utcOffsetSeconds: 0 },
+  current: { observedAt: Date.parse(observedAt) / 1000, tempC, precipMm, condition: { kind: 'cloudy' } },
+  days: [{ date: '2026-10-18', maxTempC: 15, minTempC: 8, chanceOfRain: 20 }],
+}) as unknown as Forecast;
+
+describe('forecast accuracy', () => {
+  it('scores each forecast by how far ahead it was made', () => {
+    const records = [
+      record('2026-10-16', [predicted('2026-10-16', 14, 6, 10), predicted('2026-10-17', 15, 7, 70)], {
+        maxTempC: 15, minTempC: 5, rained: false, hours: ALL_DAY,
+      }),
+      record('2026-10-17', [predicted('2026-10-17', 12, 9, 80), predicted('2026-10-18', 13, 9, 0)], {
+        maxTempC: 13, minTempC: 8, rained: true, hours: ALL_DAY,
+      }),
+      // Today isn't over, so its forecast can't be scored yet
+      record('2026-10-18', [predicted('2026-10-18', 13, 9, 0)], { maxTempC: 11, minTempC: 10, rained: true, hours: ALL_DAY }),
+    ];
+
+    const leads = accuracyByLead(scoredForecasts(records, '2026-10-18'));
+
+    expect(leads).toEqual([
+      { lead: 0, days: 2, maxTempError: 1, minTempError: 1, rain: { hits: 1, misses: 0, falseAlarms: 0, correctDry: 1 } },
+      { lead: 1, days: 1, maxTempError: 2, minTempError: 1, rain: { hits: 1, misses: 0, falseAlarms: 0, correctDry: 0 } },
+    ]);
+  });
+
+  it('ignores days that were barely watched', () => {
+    const records = [
+      record('2026-10-16', [predicted('2026-10-16', 14, 6, 10)], { maxTempC: 9, minTempC: 9, rained: false, hours: 0b111 }),
+    ];
+
+    expect(scoredForecasts(records, '2026-10-18')).toEqual([]);
+  });
+
+  it('keeps the first forecast of the day and widens the observed range', () => {
+    const empty = record('2026-10-18', null, null);
+    const morning = withObservation(withForecast(empty, fetched('2026-10-18T07:00Z', 9)), fetched('2026-10-18T07:00Z', 9));
+    const afternoon = withObservation(withForecast(morning, {
+      ...fetched('2026-10-18T15:00Z', 14, 0.4), days: [],
+    }), fetched('2026-10-18T15:00Z', 14, 0.4));
+
+    expect(afternoon.forecast).toEqual([predicted('2026-10-18', 15, 8, 20)]);
+    expect(afternoon.observed).toEqual({ maxTempC: 14, minTempC: 9, rained: true, hours: (1 << 7) | (1 << 15) });
+  });
+});
@@ -0,0 +1,132 @@
+import { csvField } from '../export';
+import { countDays } from '../weather/dates';
+import type { Formatter } from '../weather/units';
+import type { HistoryRecord, ObservedDay } from './history';
+
+// --- FORECAST ACCURACY ---
+// Each past forecast is scored against the day it predicted. Observed highs
+// and lows come from the current conditions seen while the app was open, so
+// only days watched for a good part of the day count.
+
+/** Hours with an observation before a day's high and low are trusted */
+export const MIN_OBSERVED_HOURS = 6;
+
+/** A chance of rain at or above this counts as forecasting rain */
+export const RAIN_THRESHOLD = 50;
+
+export interface LeadAccuracy {
+  /** Days between the forecast and the day it predicted; 0 is the same day */
+  lead: number;
+  days: number;
+  /** Mean absolute error, °C */
+  maxTempError: number;
+  minTempError: number;
+  rain: {
+    /** Rain forecast and seen */
+    hits: number;
+    /** Rain seen but not forecast */
+    misses: number;
+    /** Rain forecast but not seen */
+    falseAlarms: number;
+    /** Dry forecast and seen */
+    correctDry: number;
+  };
+}
+
+/** One forecast day set against what happened */
+export interface ScoredForecast {
+  issued: string;
+  date: string;
+  lead: number;
+  maxTempC: number;
+  minTempC: number;
+  chanceOfRain: number;
+  observed: ObservedDay;
+}
+
+const observedHours = (observed: ObservedDay) => {
+  let count = 0;
+  for (let bits = observed.hours; bits; bits >>>= 1) {
+    count += bits & 1;
+  }
+  return count;
+};
+
+/**
+ * Every recorded forecast of a day that's over and was watched long enough.
+ * `today` is the location's current date.
+ */
+export const scoredForecasts = (records: HistoryRecord[], today: string): ScoredForecast[] => {
+  const observations = new Map(records
+    .filter((record) => record.date < today && record.observed && observedHours(record.observed) >= MIN_OBSERVED_HOURS)
+    .map((record) => [record.date, record.observed as ObservedDay]));
+
+  return records.flatMap((record) => (record.forecast ?? []).flatMap((day) => {
+    const observed = observations.get(day.date);
+    return observed ? [{ issued: record.date, lead: countDays(record.date, day.date) - 1, ...day, observed }] : [];
+  }));
+};
+
+/**
+ * Errors and rain calls for each lead time, nearest first
+ */
+export const accuracyByLead = (scored: ScoredForecast[]): LeadAccuracy[] => {
+  const byLead = new Map<number, ScoredForecast[]>();
+  scored.forEach((forecast) => byLead.set(forecast.lead, [...(byLead.get(forecast.lead) ?? []), forecast]));
+
+  return [...byLead.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([lead, forecasts]) => {
+      const mean = (error: (forecast: ScoredForecast) => number) =>
+        forecasts.reduce((sum, forecast) => sum + Math.abs(error(forecast)), 0) / forecasts.length;
+      const count = (predicate: (forecastRain: boolean, rained: boolean) => boolean) =>
+        forecasts.filter((forecast) => predicate(forecast.chanceOfRain >= RAIN_THRESHOLD, forecast.observed.rained)).length;
+      return {
+        lead,
+        days: forecasts.length,
+        maxTempError: mean((forecast) => forecast.maxTempC - forecast.observed.maxTempC),
+        minTempError: mean((forecast) => forecast.minTempC - forecast.observed.minTempC),
+        rain: {
+          hits: count((forecastRain, rained) => forecastRain && rained),
+          misses: count((forecastRain, rained) => !forecastRain && rained),
+          falseAlarms: count((forecastRain, rained) => forecastRain && !rained),
+          correctDry: count((forecastRain, rained) => !forecastRain && !rained),
+        },
+      };
+    });
+};
+
+// --- EXPORT ---
+
+/**
+ * One row per scored forecast, temperatures in the user's units
+ */
+export const scoredToCsv = (scored: ScoredForecast[], format: Formatter) => {
+  const unit = `°${format.temperatureUnit}`;
+  const header = [
+    'Forecast made', 'Date', 'Days ahead', `Forecast high (${unit})`, `Observed high (${unit})`,
+    `Forecast low (${unit})`, `Observed low (${unit})`, 'Chance of rain (%)', 'Rain observed',
+  ];
+  const rows = scored.map((forecast) => [
+    forecast.issued,
+    forecast.date,
+    forecast.lead,
+    format.temperatureValue(forecast.maxTempC),
+    format.temperatureValue(forecast.observed.maxTempC),
+    format.temperatureValue(forecast.minTempC),
+    format.temperatureValue(forecast.observed.minTempC),
+    forecast.chanceOfRain,
+    forecast.observed.rained ? 'yes' : 'no',
+  ]);
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n');
+};
+
+/**
+ * The raw records, metric, for re-importing or analysis elsewhere
+ */
+export const historyToJson = (records: HistoryRecord[], place: string, exportedAt: number) => JSON.stringify({
+  place,
+  exportedAt: new Date(exportedAt).toISOString(),
+  units: { temperature: 'c', chanceOfRain: '%' },
+  records: records.map(({ date, forecast, observed }) => ({ date, forecast, observed })),
+}, null, 2);
@@ -0,0 +1,27 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { historyVersion, readHistory, subscribeHistory } from './history';
+import type { HistoryRecord } from './history';
+
+/**
+ * A favorite's forecast history, re-read whenever it's written to; null
+ * until the first read finishes
+ */
+export const useForecastHistory = (favoriteId: string) => {
+  const version = useSyncExternalStore(subscribeHistory, historyVersion);
+  const [history, setHistory] = useState<{ favoriteId: string; records: HistoryRecord[] } | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    void readHistory(favoriteId).then((records) => {
+      if (isCurrent) {
+        setHistory({ favoriteId, records });
+      }
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [favoriteId, version]);
+
+  // Another city's history stays hidden while this one loads
+  return history?.favoriteId === favoriteId ? history.records : null;
+};
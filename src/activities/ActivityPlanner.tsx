@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Pencil, Plus } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { addActivityProfile, selectActivityProfile, selectedActivityProfile } from '../store/slices/activityProfiles';
+import type { Formatter } from '../weather/units';
+import { ActivityProfileEditor } from './ActivityProfileEditor';
+import { profileName } from './planner';
+import type { ActivityWindow } from './planner';
+
+// Enough to plan around without turning into a timetable
+const LISTED_WINDOWS = 3;
+
+/**
+ * Activity picker and today's windows for it, most comfortable first. The
+ * same windows are highlighted on the hourly chart.
+ */
+export const ActivityPlanner = ({ windows, utcOffsetSeconds, format }: {
+  windows: ActivityWindow[];
+  utcOffsetSeconds: number;
+  format: Formatter;
+}) => {
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const { profiles } = useAppSelector((state) => state.activityProfiles);
+  const profile = useAppSelector((state) => selectedActivityProfile(state.activityProfiles));
+  const [isEditing, setIsEditing] = useState(false);
+  const activity = profileName(profile, t);
+
+  const handleAdd = () => {
+    // Starts from the selected profile's limits, which are usually close
+    dispatch(addActivityProfile({ ...profile, name: t('activities.newName') }));
+    setIsEditing(true);
+  };
+
+  return (
+    <div className="p-6 border-b border-line">
+      <h3 className="text-xl font-semibold mb-4 text-fg">{t('activities.title')}</h3>
+      <div className="flex flex-wrap items-center gap-2">
+        {profiles.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => dispatch(selectActivityProfile(option.id))}
+            aria-pressed={option.id === profile.id}
+            className={`px-3 py-1 rounded-md text-sm transition-colors ${
+              option.id === profile.id
+                ? 'bg-blue-600 text-white'
+                : 'bg-raised hover:bg-raised-hover text-fg-soft'
+            }`}
+          >
+            {profileName(option, t)}
+          </button>
+        ))}
+        <button
+          onClick={() => setIsEditing((editing) => !editing)}
+          aria-label={t('activities.edit', { activity })}
+          aria-expanded={isEditing}
+          className="p-1.5 text-subtle hover:text-blue-400 light:hover:text-blue-600"
+        >
+          <Pencil size={16} />
+        </button>
+        <button
+          onClick={handleAdd}
+          aria-label={t('activities.add')}
+          className="p-1.5 text-subtle hover:text-blue-400 light:hover:text-blue-600"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+
+      {isEditing && (
+        <ActivityProfileEditor key={profile.id} profile={profile} format={format} onDone={() => setIsEditing(false)} />
+      )}
+
+      {windows.length > 0 ? (
+        <ol className="mt-4 space-y-2">
+          {windows.slice(0, LISTED_WINDOWS).map((slot, i) => (
+            <li key={slot.start} className="flex items-center gap-3 text-fg-soft">
+              <span className={`font-semibold ${i === 0 ? 'text-yellow-400 light:text-yellow-700' : 'text-fg'}`}>
+                {t('activities.window', {
+                  from: format.hour(slot.start, utcOffsetSeconds), to: format.hour(slot.end, utcOffsetSeconds),
+                })}
+              </span>
+              <span className="text-sm text-muted">{t('activities.comfort', { score: slot.score })}</span>
+              {i === 0 && <span className="text-sm text-muted">{t('activities.best')}</span>}
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="mt-4 text-sm text-muted">{t('activities.noneToday', { activity })}</p>
+      )}
+    </div>
+  );
+};
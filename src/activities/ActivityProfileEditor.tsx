@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { useTranslation } from '../i18n';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { removeActivityProfile, updateActivityProfile } from '../store/slices/activityProfiles';
+import { toCelsius, toKph } from '../weather/units';
+import type { Formatter } from '../weather/units';
+import { builtInProfileName, profileName } from './planner';
+import type { ActivityProfile } from './planner';
+
+/**
+ * Edits one activity profile. Limits are shown in the user's units and
+ * stored metric; an empty field means no limit.
+ */
+export const ActivityProfileEditor = ({ profile, format, onDone }: {
+  profile: ActivityProfile;
+  format: Formatter;
+  onDone: () => void;
+}) => {
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const canRemove = useAppSelector((state) => state.activityProfiles.profiles.length > 1);
+  const { units } = format;
+
+  const toDisplay = (value: number | null, convert: (metric: number) => number) =>
+    value === null ? '' : String(convert(value));
+
+  const [name, setName] = useState(profileName(profile, t));
+  const [minTemp, setMinTemp] = useState(toDisplay(profile.minTempC, format.temperatureValue));
+  const [maxTemp, setMaxTemp] = useState(toDisplay(profile.maxTempC, format.temperatureValue));
+  const [maxRain, setMaxRain] = useState(toDisplay(profile.maxRainChance, (value) => value));
+  const [maxWind, setMaxWind] = useState(toDisplay(profile.maxWindKph, format.windValue));
+  const [maxUv, setMaxUv] = useState(toDisplay(profile.maxUv, (value) => value));
+  const [daylightOnly, setDaylightOnly] = useState(profile.daylightOnly);
+
+  const parse = (value: string, toMetric: (display: number) => number) =>
+    value.trim() === '' || Number.isNaN(Number(value)) ? null : toMetric(Number(value));
+
+  // A built-in profile keeps following the interface language until it's renamed
+  const nextName = () => {
+    const trimmed = name.trim();
+    const builtIn = builtInProfileName(profile.id, t);
+    if (trimmed === '' || trimmed === builtIn) {
+      return builtIn === null ? profile.name : null;
+    }
+    return trimmed;
+  };
+
+  const handleSave = () => {
+    dispatch(updateActivityProfile({
+      id: profile.id,
+      name: nextName(),
+      minTempC: parse(minTemp, (value) => toCelsius(value, units.temperature)),
+      maxTempC: parse(maxTemp, (value) => toCelsius(value, units.temperature)),
+      maxRainChance: parse(maxRain, (value) => value),
+      maxWindKph: parse(maxWind, (value) => toKph(value, units.wind)),
+      maxUv: parse(maxUv, (value) => value),
+      daylightOnly,
+    }));
+    onDone();
+  };
+
+  const fields = [
+    { label: t('activities.minTemp', { unit: format.temperatureUnit }), value: minTemp, onChange: setMinTemp },
+    { label: t('activities.maxTemp', { unit: format.temperatureUnit }), value: maxTemp, onChange: setMaxTemp },
+    { label: t('activities.maxRain'), value: maxRain, onChange: setMaxRain },
+    { label: t('activities.maxWind', { unit: format.windUnit }), value: maxWind, onChange: setMaxWind },
+    { label: t('activities.maxUv'), value: maxUv, onChange: setMaxUv },
+  ];
+
+  return (
+    <div className="mt-4 p-4 bg-surface rounded-lg">
+      <label className="block text-sm text-muted">
+        {t('activities.name')}
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="mt-1 w-full px-3 py-2 bg-raised text-fg border border-line-strong rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4">
+        {fields.map(({ label, value, onChange }) => (
+          <label key={label} className="text-sm text-muted">
+            {label}
+            <input
+              type="number"
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              placeholder={t('activities.noLimit')}
+              className="mt-1 w-full px-3 py-2 bg-raised text-fg border border-line-strong rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 mt-4 text-fg-soft">
+        <input
+          type="checkbox"
+          checked={daylightOnly}
+          onChange={(e) => setDaylightOnly(e.target.checked)}
+          className="w-4 h-4 accent-blue-600"
+        />
+        {t('activities.daylightOnly')}
+      </label>
+      <div className="flex items-center gap-4 mt-4">
+        <button onClick={handleSave} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg">
+          {t('activities.save')}
+        </button>
+        {canRemove && (
+          <button
+            onClick={() => {
+              dispatch(removeActivityProfile(profile.id));
+              onDone();
+            }}
+            className="text-sm text-red-400 light:text-red-600 hover:text-red-300 light:hover:text-red-700"
+          >
+            {t('activities.remove')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import { Sparkles } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import { useAppSelector } from '../store/hooks';
+import { selectedActivityProfile } from '../store/slices/activityProfiles';
+import type { Forecast } from '../weather/types';
+import type { Formatter } from '../weather/units';
+import { bestWindowToday, profileName } from './planner';
+
+/**
+ * Today's best window for the selected activity, in the city's local time.
+ * `compact` shows only the times, with the sentence as a tooltip.
+ */
+export const BestTimeHint = ({ forecast, format, compact = false }: {
+  forecast: Forecast;
+  format: Formatter;
+  compact?: boolean;
+}) => {
+  const profile = useAppSelector((state) => selectedActivityProfile(state.activityProfiles));
+  const { t } = useTranslation();
+  const best = bestWindowToday(profile, forecast);
+  const activity = profileName(profile, t);
+  const offset = forecast.location.utcOffsetSeconds;
+  const times = best && t('activities.window', { from: format.hour(best.start, offset), to: format.hour(best.end, offset) });
+  const sentence = times ? t('activities.bestToday', { activity, window: times }) : t('activities.noneToday', { activity });
+
+  if (compact) {
+    return (
+      <span className="flex items-center gap-1 text-sm text-fg-soft" title={sentence}>
+        <Sparkles size={14} /> {times ?? '—'}
+      </span>
+    );
+  }
+
+  return (
+    <p className="flex items-center gap-1 text-sm text-fg-soft">
+      <Sparkles size={14} className="shrink-0" /> {sentence}
+    </p>
+  );
+};
@@ -0,0 +1,4 @@
+export { ActivityPlanner } from './ActivityPlanner';
+export { BestTimeHint } from './BestTimeHint';
+export { activityWindows, bestWindowToday, profileName, remainingHoursToday } from './planner';
+export type { ActivityProfile, ActivityWindow } from './planner';
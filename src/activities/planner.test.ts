@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { activityWindows, DEFAULT_PROFILES } from './planner';
+import type { ActivityProfile } from './planner';
+import type { HourlyForecast } from '../weather/types';
+
+const START = 1_760_000_000;
+
+const hour = (index: number, overrides: Partial<HourlyForecast> = {}): HourlyForecast => ({
+  time: START + index * 3600,
+  tempC: 18,
+  feelsLikeC: 18,
+  isDay: true,
+  condition: { text: 'Sunny', code: 1000, kind: 'clear' },
+  humidity: 50,
+  windKph: 10,
+  precipMm: 0,
+  chanceOfRain: 0,
+  uv: 3,
+  airQuality: null,
+  ...overrides,
+});
+
+const running: ActivityProfile = DEFAULT_PROFILES.find((profile) => profile.id === 'running')!;
+
+describe('activityWindows', () => {
+  it('joins consecutive fitting hours and ranks windows by comfort', () => {
+    const hours = [
+      hour(0, { tempC: 10 }),
+      hour(1, { tempC: 11 }),
+      hour(2, { chanceOfRain: 80 }), // too wet
+      hour(3),
+      hour(4),
+      hour(5, { windKph: 40 }), // too windy
+      hour(6, { isDay: false }), // dark
+    ];
+
+    const windows = activityWindows(running, hours);
+
+    expect(windows.map(({ start, end }) => [(start - START) / 3600, (end - START) / 3600])).toEqual([[3, 5], [0, 2]]);
+    expect(windows[0].score).toBeGreaterThan(windows[1].score);
+  });
+
+  it('treats empty limits as no limit', () => {
+    const anything: ActivityProfile = {
+      ...running, minTempC: null, maxTempC: null, maxRainChance: null, maxWindKph: null, maxUv: null, daylightOnly: false,
+    };
+
+    expect(activityWindows(anything, [hour(0, { tempC: -20, isDay: false }), hour(1, { uv: 11 })])).toHaveLength(1);
+    expect(activityWindows(running, [hour(0, { tempC: -20 })])).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import type { MessageKey, Translate } from '../i18n';
+import { hourComfort } from '../weather/comfort';
+import type { Forecast, HourlyForecast } from '../weather/types';
+
+// --- ACTIVITY PLANNER ---
+// A profile is the weather an activity can live with. Hours that fit it are
+// joined into windows, and the most comfortable window is the best time.
+// Limits are stored metric, like notification rules.
+
+export interface ActivityProfile {
+  id: string;
+  /** Null for the built-in profiles, which are named in the interface language */
+  name: string | null;
+  minTempC: number | null;
+  maxTempC: number | null;
+  /** 0-100 */
+  maxRainChance: number | null;
+  maxWindKph: number | null;
+  maxUv: number | null;
+  daylightOnly: boolean;
+}
+
+const PRESET_NAMES: Record<string, MessageKey> = {
+  running: 'activities.running',
+  cycling: 'activities.cycling',
+  siteWork: 'activities.siteWork',
+};
+
+export const DEFAULT_PROFILES: ActivityProfile[] = [
+  { id: 'running', name: null, minTempC: 5, maxTempC: 22, maxRainChance: 30, maxWindKph: 25, maxUv: 6, daylightOnly: true },
+  { id: 'cycling', name: null, minTempC: 8, maxTempC: 28, maxRainChance: 20, maxWindKph: 20, maxUv: 7, daylightOnly: true },
+  { id: 'siteWork', name: null, minTempC: 0, maxTempC: 32, maxRainChance: 40, maxWindKph: 40, maxUv: 8, daylightOnly: true },
+];
+
+/**
+ * Name of a built-in profile in the interface language, null for the user's own
+ */
+export const builtInProfileName = (id: string, t: Translate) => (PRESET_NAMES[id] ? t(PRESET_NAMES[id]) : null);
+
+export const profileName = (profile: ActivityProfile, t: Translate) => profile.name ?? builtInProfileName(profile.id, t) ?? '';
+
+const within = (value: number, min: number | null, max: number | null) =>
+  (min === null || value >= min) && (max === null || value <= max);
+
+export const fitsProfile = (profile: ActivityProfile, hour: HourlyForecast) =>
+  (!profile.daylightOnly || hour.isDay)
+  && within(hour.tempC, profile.minTempC, profile.maxTempC)
+  && within(hour.chanceOfRain, null, profile.maxRainChance)
+  && within(hour.windKph, null, profile.maxWindKph)
+  && within(hour.uv, null, profile.maxUv);
+
+/**
+ * A run of consecutive hours that all fit a profile
+ */
+export interface ActivityWindow {
+  /** Unix seconds at the start of the first hour */
+  start: number;
+  /** Unix seconds at the end of the last hour */
+  end: number;
+  hours: HourlyForecast[];
+  /** Mean comfort score of the hours */
+  score: number;
+}
+
+const toWindow = (hours: HourlyForecast[]): ActivityWindow => ({
+  start: hours[0].time,
+  end: hours[hours.length - 1].time + 3600,
+  hours,
+  score: Math.round(hours.reduce((sum, hour) => sum + hourComfort(hour).score, 0) / hours.length),
+});
+
+/**
+ * Windows in `hours` that fit `profile`, most comfortable first (longer first on a tie)
+ */
+export const activityWindows = (profile: ActivityProfile, hours: HourlyForecast[]): ActivityWindow[] => {
+  const runs: HourlyForecast[][] = [];
+  hours.forEach((hour, i) => {
+    if (!fitsProfile(profile, hour)) {
+      return;
+    }
+    const run = runs[runs.length - 1];
+    if (run && i > 0 && run[run.length - 1] === hours[i - 1] && hours[i - 1].time + 3600 === hour.time) {
+      run.push(hour);
+    } else {
+      runs.push([hour]);
+    }
+  });
+  return runs.map(toWindow).sort((a, b) => b.score - a.score || b.hours.length - a.hours.length);
+};
+
+/**
+ * Hours of the location's current day that haven't ended yet
+ */
+export const remainingHoursToday = (forecast: Forecast, nowEpoch = Date.now() / 1000) =>
+  (forecast.days[0]?.hours ?? []).filter((hour) => hour.time + 3600 > nowEpoch);
+
+/**
+ * Best window in what's left of today, or null when nothing fits
+ */
+export const bestWindowToday = (profile: ActivityProfile, forecast: Forecast, nowEpoch = Date.now() / 1000) =>
+  activityWindows(profile, remainingHoursToday(forecast, nowEpoch))[0] ?? null;
@@ -0,0 +1,21 @@
+import { TriangleAlert } from 'lucide-react';
+import type { WeatherAlert } from '../weather/types';
+import { SEVERITY_ORDER, SEVERITY_STYLES } from './severity';
+
+/**
+ * Compact count of active alerts, colored by the most severe one
+ */
+export const AlertBadge = ({ alerts }: { alerts: WeatherAlert[] }) => {
+  if (alerts.length === 0) {
+    return null;
+  }
+  const worst = SEVERITY_ORDER.find(severity => alerts.some(alert => alert.severity === severity)) ?? 'unknown';
+  return (
+    <span
+      title={alerts.map(alert => alert.event).join(', ')}
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold ${SEVERITY_STYLES[worst]}`}
+    >
+      <TriangleAlert size={12} /> {alerts.length}
+    </span>
+  );
+};
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { useTranslation } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { setAlertRule } from '../store/slices/alertRules';
+import type { FavoriteLocation } from '../store/slices/favorites';
+import { toCelsius, toKph } from '../weather/units';
+import type { Formatter } from '../weather/units';
+import { requestNotificationPermission } from './browserNotifications';
+import { EMPTY_RULE, isRuleActive } from './rules';
+import type { AlertRule } from './rules';
+
+/**
+ * Per-favorite notification rules. Thresholds are edited in the user's
+ * units and stored metric.
+ */
+export const AlertRulesPanel = ({ favorite, format }: { favorite: FavoriteLocation; format: Formatter }) => {
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const rule = useAppSelector((state) => state.alertRules.rules[favorite.id]) ?? EMPTY_RULE;
+  const { units } = format;
+
+  const toDisplay = (value: number | null, convert: (metric: number) => number) =>
+    value === null ? '' : String(convert(value));
+
+  const [officialAlerts, setOfficialAlerts] = useState(rule.officialAlerts);
+  const [windAbove, setWindAbove] = useState(toDisplay(rule.windAboveKph, format.windValue));
+  const [tempAbove, setTempAbove] = useState(toDisplay(rule.tempAboveC, format.temperatureValue));
+  const [tempBelow, setTempBelow] = useState(toDisplay(rule.tempBelowC, format.temperatureValue));
+  const [rainAbove, setRainAbove] = useState(toDisplay(rule.rainChanceAbove, (value) => value));
+  const [status, setStatus] = useState<MessageKey | null>(null);
+
+  const parse = (value: string, toMetric: (display: number) => number) =>
+    value.trim() === '' || Number.isNaN(Number(value)) ? null : toMetric(Number(value));
+
+  const handleSave = async () => {
+    const next: AlertRule = {
+      officialAlerts,
+      windAboveKph: parse(windAbove, (value) => toKph(value, units.wind)),
+      tempAboveC: parse(tempAbove, (value) => toCelsius(value, units.temperature)),
+      tempBelowC: parse(tempBelow, (value) => toCelsius(value, units.temperature)),
+      rainChanceAbove: parse(rainAbove, (value) => value),
+    };
+    dispatch(setAlertRule({ id: favorite.id, rule: next }));
+
+    if (isRuleActive(next)) {
+      const permission = await requestNotificationPermission();
+      setStatus(permission === 'granted' ? 'rules.savedBrowser' : 'rules.savedInApp');
+    } else {
+      setStatus('rules.savedInactive');
+    }
+  };
+
+  const fields = [
+    { label: t('rules.windAbove', { unit: format.windUnit }), value: windAbove, onChange: setWindAbove },
+    { label: t('rules.tempAbove', { unit: format.temperatureUnit }), value: tempAbove, onChange: setTempAbove },
+    { label: t('rules.tempBelow', { unit: format.temperatureUnit }), value: tempBelow, onChange: setTempBelow },
+    { label: t('rules.rainAbove'), value: rainAbove, onChange: setRainAbove },
+  ];
+
+  return (
+    <div className="p-6 border-b border-line">
+      <h3 className="text-xl font-semibold mb-4 text-fg">{t('rules.title')}</h3>
+      <label className="flex items-center gap-2 mb-4 text-fg-soft">
+        <input
+          type="checkbox"
+          checked={officialAlerts}
+          onChange={(e) => setOfficialAlerts(e.target.checked)}
+          className="w-4 h-4 accent-blue-600"
+        />
+        {t('rules.officialAlerts')}
+      </label>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {fields.map(({ label, value, onChange }) => (
+          <label key={label} className="text-sm text-muted">
+            {label}
+            <input
+              type="number"
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              placeholder={t('rules.off')}
+              className="mt-1 w-full px-3 py-2 bg-raised text-fg border border-line-strong rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center gap-4 mt-4">
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg"
+        >
+          {t('rules.save')}
+        </button>
+        {status && <p className="text-sm text-muted">{t(status)}</p>}
+      </div>
+    </div>
+  );
+};
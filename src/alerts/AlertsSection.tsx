@@ -0,0 +1,42 @@
+import { useTranslation } from '../i18n';
+import type { WeatherAlert } from '../weather/types';
+import type { Formatter } from '../weather/units';
+import { SEVERITY_ORDER, SEVERITY_STYLES } from './severity';
+
+/**
+ * Official alerts for a location, most severe first
+ */
+export const AlertsSection = ({ alerts, format }: { alerts: WeatherAlert[]; format: Formatter }) => {
+  const { t } = useTranslation();
+  const sorted = [...alerts].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+
+  return (
+    <div className="p-6 space-y-3 border-b border-line">
+      <h3 className="text-xl font-semibold text-fg">{t('alerts.title')}</h3>
+      {sorted.map(alert => (
+        <div key={alert.id} className="p-4 bg-surface rounded-lg">
+          <div className="flex items-center gap-2">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold uppercase ${SEVERITY_STYLES[alert.severity]}`}>
+              {t(`severity.${alert.severity}`)}
+            </span>
+            <p className="font-semibold">{alert.event}</p>
+          </div>
+          <p className="mt-2 text-fg-soft">{alert.headline}</p>
+          {(alert.effective !== null || alert.expires !== null) && (
+            <p className="mt-1 text-sm text-muted">
+              {alert.effective === null
+                ? t('alerts.until', { until: format.dateTime(alert.expires ?? 0) })
+                : alert.expires === null
+                  ? t('alerts.from', { from: format.dateTime(alert.effective) })
+                  : t('alerts.fromUntil', { from: format.dateTime(alert.effective), until: format.dateTime(alert.expires) })}
+            </p>
+          )}
+          {alert.description && <p className="mt-2 text-sm text-fg-soft whitespace-pre-line">{alert.description}</p>}
+          {alert.instruction && <p className="mt-2 text-sm text-blue-300 light:text-blue-700 whitespace-pre-line">{alert.instruction}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import { Bell, X } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { dismissNotification } from '../store/slices/notifications';
+import { SEVERITY_STYLES } from './severity';
+
+/**
+ * In-app notifications, stacked in the bottom corner
+ */
+export const NotificationToasts = () => {
+  const notifications = useAppSelector((state) => state.notifications.items);
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+
+  if (notifications.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 end-4 z-50 flex flex-col gap-2 w-full max-w-sm">
+      {notifications.map(({ id, title, body, severity }) => (
+        <div key={id} className="flex items-start gap-3 p-4 bg-surface border border-line rounded-lg shadow-xl">
+          <span className={`p-1 rounded-full ${SEVERITY_STYLES[severity]}`}>
+            <Bell size={16} />
+          </span>
+          <div className="flex-1">
+            <p className="font-semibold text-fg">{title}</p>
+            <p className="text-sm text-fg-soft">{body}</p>
+          </div>
+          <button
+            onClick={() => dispatch(dismissNotification(id))}
+            aria-label={t('notifications.dismiss')}
+            className="text-muted hover:text-fg"
+          >
+            <X size={18} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
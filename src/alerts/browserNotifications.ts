@@ -0,0 +1,42 @@
+// --- BROWSER NOTIFICATIONS ---
+// Thin wrapper over the Notification API. Callers fall back to in-app
+// notifications whenever `canNotify()` is false.
+
+export const isNotificationSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const canNotify = () => isNotificationSupported() && Notification.permission === 'granted';
+
+/**
+ * Asks for permission if the user hasn't decided yet. Must be called from a
+ * user gesture in most browsers.
+ */
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!isNotificationSupported()) {
+    return 'unsupported';
+  }
+  if (Notification.permission !== 'default') {
+    return Notification.permission;
+  }
+  return Notification.requestPermission();
+};
+
+/**
+ * Shows a system notification. `tag` replaces an earlier notification with the same tag.
+ */
+export const showBrowserNotification = (title: string, body: string, tag: string) => {
+  // The service worker, when running, can also notify where the constructor can't
+  if (navigator.serviceWorker?.controller) {
+    void navigator.serviceWorker.ready
+      .then((registration) => registration.showNotification(title, { body, tag, icon: '/icons/icon-192.png' }))
+      .catch((err) => console.error('Could not show notification:', err));
+    return true;
+  }
+  try {
+    new Notification(title, { body, tag });
+    return true;
+  } catch (err) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error('Could not show notification:', err);
+    return false;
+  }
+};
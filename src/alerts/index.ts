@@ -0,0 +1,4 @@
+export { AlertBadge } from './AlertBadge';
+export { AlertsSection } from './AlertsSection';
+export { AlertRulesPanel } from './AlertRulesPanel';
+export { NotificationToasts } from './NotificationToasts';
@@ -0,0 +1,64 @@
+import { http, HttpResponse } from 'msw';
+import { describe, expect, it } from 'vitest';
+import { setupStore } from '../store';
+import { dismissNotification } from '../store/slices/notifications';
+import type { FavoriteLocation } from '../store/slices/favorites';
+import { forecastResponse } from '../test/fixtures';
+import { server, WEATHER_API } from '../test/server';
+import { weatherApi } from '../weather/api';
+import { EMPTY_RULE } from './rules';
+
+/**
+ * A store with London saved under `id` and a rule for temperatures above
+ * 25°C. The listener remembers triggers per favorite, so each test uses its own id.
+ */
+const setup = (id: string) => {
+  const london: FavoriteLocation = { id, name: 'London', region: '', country: 'United Kingdom', lat: 51.52, lon: -0.11 };
+  let tempC = 18;
+  server.use(http.get(`${WEATHER_API}/forecast.json`, () => HttpResponse.json(forecastResponse({ tempC }))));
+  const store = setupStore({
+    favorites: { locations: [london], groups: [], legacyNames: [] },
+    alertRules: { rules: { [id]: { ...EMPTY_RULE, tempAboveC: 25 } } },
+  });
+  const fetchAt = async (temperature: number) => {
+    tempC = temperature;
+    await store.dispatch(weatherApi.endpoints.getForecast.initiate(
+      { lat: london.lat, lon: london.lon }, { subscribe: false, forceRefetch: true }
+    ));
+  };
+  /** Notifications shown so far; each is dismissed, so a repeat would show up again */
+  const shown: string[] = [];
+  const takeShown = () => {
+    store.getState().notifications.items.forEach((item) => {
+      shown.push(item.title);
+      store.dispatch(dismissNotification(item.id));
+    });
+    return shown;
+  };
+  return { fetchAt, takeShown };
+};
+
+describe('alertsListener', () => {
+  it("doesn't announce a condition again while it lasts", async () => {
+    const { fetchAt, takeShown } = setup('london-1');
+    await fetchAt(18);
+    expect(takeShown()).toEqual([]);
+
+    await fetchAt(27);
+    expect(takeShown()).toEqual(['London: high temperature']);
+
+    // The same forecast again, and a different one that still breaks the rule
+    await fetchAt(27);
+    await fetchAt(29);
+    expect(takeShown()).toEqual(['London: high temperature']);
+  });
+
+  it('announces it again once it has cleared', async () => {
+    const { fetchAt, takeShown } = setup('london-2');
+    await fetchAt(27);
+    expect(takeShown()).toEqual(['London: high temperature']);
+    await fetchAt(20);
+    await fetchAt(27);
+    expect(takeShown()).toEqual(['London: high temperature', 'London: high temperature']);
+  });
+});
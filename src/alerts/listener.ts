@@ -0,0 +1,47 @@
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+import { evaluateRule, isRuleActive } from './rules';
+import { canNotify, showBrowserNotification } from './browserNotifications';
+import { createTranslator } from '../i18n';
+import { createFormatter } from '../weather/units';
+import { weatherApi } from '../weather/api';
+import { favoriteLabel, isNearby } from '../store/slices/favorites';
+import { pushNotification } from '../store/slices/notifications';
+import type { RootState } from '../store';
+
+// --- ALERT RULE EVALUATION ---
+// Every fetched forecast is checked against the rules of the favorites at
+// that location. A trigger is announced once, then again only after it clears.
+
+export const alertsListener = createListenerMiddleware();
+const activeTriggers = new Map<string, Set<string>>(); // favorite id -> trigger keys
+
+alertsListener.startListening({
+  matcher: weatherApi.endpoints.getForecast.matchFulfilled,
+  effect: (action, api) => {
+    if (action.payload.stale) {
+      return; // Last-known data says nothing about conditions now
+    }
+    const { lat, lon } = action.meta.arg.originalArgs;
+    const { favorites, alertRules, settings } = api.getState() as RootState;
+    const format = createFormatter(settings.units, settings.locale);
+    const t = createTranslator(settings.locale);
+
+    favorites.locations
+      .filter(favorite => isNearby(favorite, { lat, lon }))
+      .forEach(favorite => {
+        const rule = alertRules.rules[favorite.id];
+        const triggers = isRuleActive(rule) ? evaluateRule(rule, action.payload, favoriteLabel(favorite), format, t) : [];
+        const previous = activeTriggers.get(favorite.id) ?? new Set<string>();
+
+        triggers
+          .filter(trigger => !previous.has(trigger.key))
+          .forEach(trigger => {
+            const tag = `${favorite.id}:${trigger.key}`;
+            if (!(canNotify() && showBrowserNotification(trigger.title, trigger.body, tag))) {
+              api.dispatch(pushNotification({ id: tag, title: trigger.title, body: trigger.body, severity: trigger.severity }));
+            }
+          });
+        activeTriggers.set(favorite.id, new Set(triggers.map(trigger => trigger.key)));
+      });
+  },
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createTranslator } from '../i18n/translate';
+import { forecastResponse } from '../test/fixtures';
+import { parseWeatherApiForecast } from '../weather/providers/weatherApiCom';
+import type { WeatherAlert } from '../weather/types';
+import { createFormatter, DEFAULT_UNITS, toCelsius, toKph } from '../weather/units';
+import { EMPTY_RULE, evaluateRule } from './rules';
+import type { AlertRule } from './rules';
+
+const t = createTranslator('en');
+const celsius = createFormatter(DEFAULT_UNITS);
+const fahrenheit = createFormatter({ ...DEFAULT_UNITS, temperature: 'f', wind: 'mph' });
+
+/**
+ * A parsed forecast whose current conditions and hourly rain chances are set
+ */
+const forecastWith = ({ tempC = 18, windKph = 12, chanceOfRain = 10 } = {}) => {
+  const raw = forecastResponse({ tempC });
+  const [day] = raw.forecast.forecastday;
+  return parseWeatherApiForecast({
+    ...raw,
+    current: { ...raw.current, wind_kph: windKph },
+    forecast: { forecastday: [{ ...day, hour: day.hour.map((hour) => ({ ...hour, chance_of_rain: chanceOfRain })) }] },
+  });
+};
+
+const keys = (rule: Partial<AlertRule>, forecast: ReturnType<typeof forecastWith>, format = celsius) =>
+  evaluateRule({ ...EMPTY_RULE, ...rule }, forecast, 'London', format, t).map((trigger) => trigger.key);
+
+describe('evaluateRule', () => {
+  it('triggers only beyond a threshold, not at it', () => {
+    const forecast = forecastWith({ tempC: 30, windKph: 40, chanceOfRain: 60 });
+    expect(keys({ tempAboveC: 30, tempBelowC: 30, windAboveKph: 40, rainChanceAbove: 60 }, forecast)).toEqual([]);
+    expect(keys({ tempAboveC: 29.9, tempBelowC: 30.1, windAboveKph: 39.9, rainChanceAbove: 59 }, forecast))
+      .toEqual(['wind', 'heat', 'cold', 'rain']);
+  });
+
+  it('checks thresholds typed in °F and mph against the metric forecast', () => {
+    // 86°F is 30°C, 25 mph is about 40 km/h
+    const rule = { tempAboveC: toCelsius(86, 'f'), windAboveKph: toKph(25, 'mph') };
+    expect(keys(rule, forecastWith({ tempC: 30, windKph: 40 }), fahrenheit)).toEqual([]);
+    expect(keys(rule, forecastWith({ tempC: 30.5, windKph: 41 }), fahrenheit)).toEqual(['wind', 'heat']);
+  });
+
+  it("words the message in the user's units", () => {
+    const [heat] = evaluateRule(
+      { ...EMPTY_RULE, tempAboveC: toCelsius(86, 'f') }, forecastWith({ tempC: 31 }), 'London', fahrenheit, t
+    );
+    expect(heat.body).toBe("It's 88°F, above 86°F.");
+    const [cold] = evaluateRule({ ...EMPTY_RULE, tempBelowC: 0 }, forecastWith({ tempC: -5 }), 'London', celsius, t);
+    expect(cold.body).toBe("It's -5°C, below 0°C.");
+  });
+
+  it('ignores official alerts that have expired or that the rule leaves out', () => {
+    const now = Date.now() / 1000;
+    const alert: WeatherAlert = {
+      id: 'a', event: 'Flood Warning', headline: 'Flooding expected', severity: 'severe', areas: '', description: '',
+      instruction: '', effective: now - 3600, expires: now + 3600,
+    };
+    const forecast = { ...forecastWith(), alerts: [alert, { ...alert, id: 'b', expires: now - 60 }] };
+    expect(keys({ officialAlerts: true }, forecast)).toEqual(['alert:a']);
+    expect(keys({}, forecast)).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import type { Translate } from '../i18n/translate';
+import type { Formatter } from '../weather/units';
+import type { AlertSeverity, Forecast } from '../weather/types';
+
+// --- NOTIFICATION RULES ---
+// A rule belongs to one favorite and is checked against every forecast
+// fetched for it. Thresholds are stored metric, like the weather model.
+
+export interface AlertRule {
+  /** Notify when the provider issues an official alert */
+  officialAlerts: boolean;
+  windAboveKph: number | null;
+  tempAboveC: number | null;
+  tempBelowC: number | null;
+  /** Highest chance of rain (0-100) over the next RAIN_LOOKAHEAD_HOURS */
+  rainChanceAbove: number | null;
+}
+
+export const EMPTY_RULE: AlertRule = {
+  officialAlerts: false,
+  windAboveKph: null,
+  tempAboveC: null,
+  tempBelowC: null,
+  rainChanceAbove: null,
+};
+
+export const RAIN_LOOKAHEAD_HOURS = 3;
+
+export const isRuleActive = (rule: AlertRule | undefined): rule is AlertRule =>
+  !!rule && (rule.officialAlerts || rule.windAboveKph !== null || rule.tempAboveC !== null
+    || rule.tempBelowC !== null || rule.rainChanceAbove !== null);
+
+/**
+ * A rule condition that currently holds. `key` stays the same while the
+ * condition persists, so callers can notify once per occurrence.
+ */
+export interface RuleTrigger {
+  key: string;
+  title: string;
+  body: string;
+  severity: AlertSeverity;
+}
+
+/**
+ * Lists every condition of `rule` met by `forecast`
+ */
+export const evaluateRule = (
+  rule: AlertRule,
+  forecast: Forecast,
+  placeName: string,
+  format: Formatter,
+  t: Translate,
+  nowEpoch = Date.now() / 1000
+): RuleTrigger[] => {
+  const { current } = forecast;
+  const triggers: RuleTrigger[] = [];
+
+  if (rule.officialAlerts) {
+    forecast.alerts
+      .filter((alert) => alert.expires === null || alert.expires > nowEpoch)
+      .forEach((alert) => triggers.push({
+        key: `alert:${alert.id}`,
+        title: `${placeName}: ${alert.event}`,
+        body: alert.headline,
+        severity: alert.severity,
+      }));
+  }
+
+  if (rule.windAboveKph !== null && current.windKph > rule.windAboveKph) {
+    triggers.push({
+      key: 'wind',
+      title: t('rules.windTitle', { place: placeName }),
+      body: t('rules.windBody', { wind: format.wind(current.windKph), limit: format.wind(rule.windAboveKph) }),
+      severity: 'moderate',
+    });
+  }
+
+  if (rule.tempAboveC !== null && current.tempC > rule.tempAboveC) {
+    triggers.push({
+      key: 'heat',
+      title: t('rules.heatTitle', { place: placeName }),
+      body: t('rules.heatBody', {
+        temperature: format.temperature(current.tempC, { withUnit: true }),
+        limit: format.temperature(rule.tempAboveC, { withUnit: true }),
+      }),
+      severity: 'moderate',
+    });
+  }
+
+  if (rule.tempBelowC !== null && current.tempC < rule.tempBelowC) {
+    triggers.push({
+      key: 'cold',
+      title: t('rules.coldTitle', { place: placeName }),
+      body: t('rules.coldBody', {
+        temperature: format.temperature(current.tempC, { withUnit: true }),
+        limit: format.temperature(rule.tempBelowC, { withUnit: true }),
+      }),
+      severity: 'moderate',
+    });
+  }
+
+  if (rule.rainChanceAbove !== null) {
+    const upcoming = forecast.days
+      .flatMap((day) => day.hours)
+      .filter((hour) => hour.time + 3600 > nowEpoch && hour.time < nowEpoch + RAIN_LOOKAHEAD_HOURS * 3600);
+    const chance = Math.max(0, ...upcoming.map((hour) => hour.chanceOfRain));
+    if (chance > rule.rainChanceAbove) {
+      triggers.push({
+        key: 'rain',
+        title: t('rules.rainTitle', { place: placeName }),
+        body: t('rules.rainBody', { chance: format.percent(chance), count: RAIN_LOOKAHEAD_HOURS }),
+        severity: 'minor',
+      });
+    }
+  }
+
+  return triggers;
+};
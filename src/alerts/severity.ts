@@ -0,0 +1,11 @@
+import type { AlertSeverity } from '../weather/types';
+
+export const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  extreme: 'bg-red-700 text-white',
+  severe: 'bg-red-600 text-white',
+  moderate: 'bg-orange-500 text-white',
+  minor: 'bg-yellow-500 text-gray-900',
+  unknown: 'bg-gray-600 text-white',
+};
+
+export const SEVERITY_ORDER: AlertSeverity[] = ['extreme', 'severe', 'moderate', 'minor', 'unknown'];
@@ -0,0 +1,78 @@
+import { useTranslation } from '../i18n';
+import type { Formatter } from '../weather/units';
+
+/**
+ * A chart row. Metric source values are kept for the tooltip; plotted
+ * series are converted by each chart.
+ */
+export interface ChartPoint {
+  tempC?: number;
+  feelsLikeC?: number;
+  maxTempC?: number;
+  minTempC?: number;
+  meanTempC?: number;
+  chanceOfRain?: number;
+  windKph?: number;
+  precipMm?: number;
+  /** 0-100, see weather/comfort.ts */
+  comfort?: number;
+  /** Hours between sunrise and sunset */
+  daylightHours?: number;
+}
+
+/**
+ * A custom tooltip for Recharts
+ */
+export const CustomTooltip = ({ active, payload, label, format }: {
+  active?: boolean;
+  payload?: { payload: ChartPoint }[];
+  label?: string | number;
+  format: Formatter;
+}) => {
+  const { t } = useTranslation();
+  if (active && payload && payload.length) {
+    const data = payload[0].payload;
+    const temperature = (celsius: number) => format.temperature(celsius, { decimals: 1, withUnit: true });
+    const daylight = (hours: number) => {
+      const minutes = Math.round(hours * 60);
+      return t('astro.duration', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+    };
+
+    return (
+      <div className="p-3 bg-surface bg-opacity-90 border border-line rounded-lg shadow-lg text-fg">
+        <p className="text-sm font-bold">{label}</p>
+        {data.tempC !== undefined && (
+          <p className="text-xs text-blue-300 light:text-blue-700">{t('tooltip.temperature', { value: temperature(data.tempC) })}</p>
+        )}
+        {data.feelsLikeC !== undefined && (
+          <p className="text-xs text-green-300 light:text-green-700">{t('tooltip.feelsLike', { value: temperature(data.feelsLikeC) })}</p>
+        )}
+        {data.maxTempC !== undefined && (
+          <p className="text-xs text-red-300 light:text-red-700">{t('tooltip.high', { value: temperature(data.maxTempC) })}</p>
+        )}
+        {data.minTempC !== undefined && (
+          <p className="text-xs text-blue-300 light:text-blue-700">{t('tooltip.low', { value: temperature(data.minTempC) })}</p>
+        )}
+        {data.meanTempC !== undefined && (
+          <p className="text-xs text-fg-soft">{t('tooltip.mean', { value: temperature(data.meanTempC) })}</p>
+        )}
+        {data.chanceOfRain !== undefined && (
+          <p className="text-xs text-cyan-300">{t('tooltip.rain', { value: format.percent(data.chanceOfRain) })}</p>
+        )}
+        {data.precipMm !== undefined && (
+          <p className="text-xs text-cyan-300">{t('tooltip.precipitation', { value: format.precipitation(data.precipMm) })}</p>
+        )}
+        {data.windKph !== undefined && (
+          <p className="text-xs text-fg-soft">{t('tooltip.wind', { value: format.wind(data.windKph) })}</p>
+        )}
+        {data.comfort !== undefined && (
+          <p className="text-xs text-yellow-300 light:text-yellow-700">{t('tooltip.comfort', { value: data.comfort })}</p>
+        )}
+        {data.daylightHours !== undefined && (
+          <p className="text-xs text-amber-300 light:text-amber-700">{t('tooltip.daylight', { value: daylight(data.daylightHours) })}</p>
+        )}
+      </div>
+    );
+  }
+  return null;
+};
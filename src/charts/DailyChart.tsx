@@ -0,0 +1,81 @@
+import { useMemo } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useTranslation } from '../i18n';
+import { localDayStart, sunTimes } from '../weather/astronomy';
+import type { DailyForecast, ForecastLocation } from '../weather/types';
+import type { Formatter } from '../weather/units';
+import { CustomTooltip } from './CustomTooltip';
+import { CHART_AXIS, CHART_GRID } from './theme';
+
+/**
+ * Daily Forecast Chart. Given the location, it also plots the hours of
+ * daylight on a second axis.
+ */
+export const DailyChart = ({ dailyData, format, location }: {
+  dailyData: DailyForecast[];
+  format: Formatter;
+  location?: Pick<ForecastLocation, 'lat' | 'lon' | 'utcOffsetSeconds'>;
+}) => {
+  const { t } = useTranslation();
+  // Format data for chart
+  const chartData = useMemo(() => {
+    return dailyData.map(day => ({
+      maxTempC: day.maxTempC,
+      minTempC: day.minTempC,
+      chanceOfRain: day.chanceOfRain,
+      precipMm: day.totalPrecipMm,
+      maxTemp: format.temperatureValue(day.maxTempC),
+      minTemp: format.temperatureValue(day.minTempC),
+      daylightHours: location
+        ? Math.round(sunTimes(localDayStart(day.date, location.utcOffsetSeconds), location.lat, location.lon).dayLength / 60) / 60
+        : undefined,
+      // Past a week, weekday names repeat, so the day of the month joins them
+      date: format.date(day.date, dailyData.length > 7 ? { weekday: 'short', day: 'numeric' } : { weekday: 'short' }),
+    }));
+  }, [dailyData, format, location]);
+
+  return (
+    <div className="w-full h-64">
+      <h3 className="text-xl font-semibold mb-4 text-fg">{t('charts.dailyTrend', { count: dailyData.length })}</h3>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart
+          data={chartData}
+          margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke={CHART_GRID} />
+          <XAxis dataKey="date" stroke={CHART_AXIS} />
+          <YAxis stroke={CHART_AXIS} tickFormatter={(value) => `${format.number(value, 1)}°`} />
+          {location && (
+            <YAxis yAxisId="daylight" orientation="right" stroke={CHART_AXIS} domain={[0, 24]} tickFormatter={(value) => format.number(value, 0)} />
+          )}
+          <Tooltip content={<CustomTooltip format={format} />} />
+          <Legend />
+          <Line
+            type="monotone"
+            dataKey="maxTemp"
+            name={t('charts.maxTemp')}
+            stroke="#ef4444"
+            activeDot={{ r: 8 }}
+          />
+          <Line
+            type="monotone"
+            dataKey="minTemp"
+            name={t('charts.minTemp')}
+            stroke="#3b82f6"
+          />
+          {location && (
+            <Line
+              type="monotone"
+              dataKey="daylightHours"
+              yAxisId="daylight"
+              name={t('charts.daylight')}
+              stroke="#f59e0b"
+              strokeDasharray="4 3"
+              dot={false}
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import { useMemo } from 'react';
+import { Area, AreaChart, CartesianGrid, ReferenceArea, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useTranslation } from '../i18n';
+import { hourComfort } from '../weather/comfort';
+import type { HourlyForecast } from '../weather/types';
+import type { Formatter } from '../weather/units';
+import { CustomTooltip } from './CustomTooltip';
+import { CHART_AXIS, CHART_GRID } from './theme';
+
+// Beyond a day of hours the chart gets wider than its box and scrolls sideways
+const HOURS_PER_SCREEN = 24;
+const PIXELS_PER_HOUR = 32;
+
+/**
+ * Spans of time shaded on the chart, e.g. good hours for an activity. The
+ * first is labelled.
+ */
+export interface ChartHighlights {
+  label: string;
+  /** Unix seconds */
+  spans: { start: number; end: number }[];
+}
+
+/**
+ * Hourly Forecast Chart. Spans as many days as `hourlyData` covers. Hours
+ * are labelled in the location's time when its UTC offset is given.
+ */
+export const HourlyChart = ({ hourlyData, format, title, highlights, utcOffsetSeconds }: {
+  hourlyData: HourlyForecast[];
+  format: Formatter;
+  title?: string;
+  highlights?: ChartHighlights;
+  utcOffsetSeconds?: number;
+}) => {
+  const { t } = useTranslation();
+  const spansDays = hourlyData.length > HOURS_PER_SCREEN;
+
+  // Format data for chart
+  const chartData = useMemo(() => {
+    return hourlyData.map(hour => ({
+      tempC: hour.tempC,
+      feelsLikeC: hour.feelsLikeC,
+      chanceOfRain: hour.chanceOfRain,
+      windKph: hour.windKph,
+      comfort: hourComfort(hour).score,
+      epoch: hour.time,
+      temp: format.temperatureValue(hour.tempC),
+      time: spansDays
+        ? `${format.weekday(hour.time, utcOffsetSeconds)} ${format.hour(hour.time, utcOffsetSeconds)}`
+        : format.hour(hour.time, utcOffsetSeconds),
+    }));
+  }, [hourlyData, format, spansDays, utcOffsetSeconds]);
+
+  // Areas run between hour labels: from the first charted hour of a span to
+  // the hour after it ends, or its last hour at the end of the chart
+  const highlightAreas = (highlights?.spans ?? []).flatMap(({ start, end }) => {
+    const inSpan = chartData.filter((point) => point.epoch >= start && point.epoch < end);
+    const x1 = inSpan[0]?.time;
+    const x2 = chartData.find((point) => point.epoch === end)?.time ?? inSpan[inSpan.length - 1]?.time;
+    return x1 && x2 ? [{ x1, x2 }] : [];
+  });
+
+  return (
+    <div className="w-full min-w-0">
+      <h3 className="text-xl font-semibold mb-4 text-fg">{title ?? t('charts.hourly')}</h3>
+      <div className="overflow-x-auto">
+        <div className="h-56" style={spansDays ? { minWidth: hourlyData.length * PIXELS_PER_HOUR } : undefined}>
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart
+              data={chartData}
+              margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+            >
+              <defs>
+                <linearGradient id="colorTemp" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#8884d8" stopOpacity={0.8}/>
+                  <stop offset="95%" stopColor="#8884d8" stopOpacity={0}/>
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke={CHART_GRID} />
+              <XAxis dataKey="time" stroke={CHART_AXIS} />
+              <YAxis 
+                stroke={CHART_AXIS} 
+                domain={['dataMin - 2', 'dataMax + 2']} 
+                tickFormatter={(value) => `${format.number(value, 1)}°`}
+              />
+              <YAxis
+                yAxisId="right"
+                orientation="right"
+                stroke={CHART_AXIS}
+                domain={[0, 100]}
+                tickFormatter={(value) => format.percent(value)}
+              />
+              {highlightAreas.map(({ x1, x2 }, i) => (
+                <ReferenceArea
+                  key={x1}
+                  x1={x1}
+                  x2={x2}
+                  fill="#facc15"
+                  fillOpacity={i === 0 ? 0.25 : 0.12}
+                  label={i === 0 ? { value: highlights?.label, position: 'insideTop', fill: '#facc15', fontSize: 12 } : undefined}
+                />
+              ))}
+              <Tooltip content={<CustomTooltip format={format} />} />
+              <Area
+                type="monotone"
+                dataKey="temp"
+                name={t('charts.temperature')}
+                stroke="#8884d8"
+                fillOpacity={1}
+                fill="url(#colorTemp)"
+              />
+              <Area
+                type="monotone"
+                dataKey="chanceOfRain"
+                name={t('charts.chanceOfRain')}
+                stroke="#34d399"
+                fillOpacity={0.1}
+                fill="#34d399"
+                yAxisId="right"
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
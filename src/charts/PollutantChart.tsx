@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useTranslation } from '../i18n';
+import type { AirQuality, HourlyForecast } from '../weather/types';
+import type { Formatter } from '../weather/units';
+import { CHART_AXIS, CHART_GRID, CHART_TOOLTIP_STYLE } from './theme';
+
+/**
+ * Pollutant concentrations over the coming hours. CO is left out: at
+ * hundreds of µg/m³ it would flatten the other lines.
+ */
+const POLLUTANT_LINES = [
+  { key: 'pm2_5', name: 'PM2.5', color: '#f97316' },
+  { key: 'pm10', name: 'PM10', color: '#eab308' },
+  { key: 'o3', name: 'O₃', color: '#38bdf8' },
+  { key: 'no2', name: 'NO₂', color: '#a78bfa' },
+  { key: 'so2', name: 'SO₂', color: '#f472b6' },
+] as const;
+
+export const PollutantChart = ({ hourlyData, format }: { hourlyData: HourlyForecast[]; format: Formatter }) => {
+  const { t } = useTranslation();
+  const chartData = useMemo(() => {
+    return hourlyData
+      .filter((hour): hour is HourlyForecast & { airQuality: AirQuality } => hour.airQuality !== null)
+      .map(hour => ({ ...hour.airQuality, time: format.hour(hour.time) }));
+  }, [hourlyData, format]);
+
+  if (chartData.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full h-64">
+      <h3 className="text-xl font-semibold mb-4 text-fg">{t('charts.pollutants')}</h3>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart
+          data={chartData}
+          margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke={CHART_GRID} />
+          <XAxis dataKey="time" stroke={CHART_AXIS} />
+          <YAxis stroke={CHART_AXIS} />
+          <Tooltip
+            contentStyle={CHART_TOOLTIP_STYLE}
+            formatter={(value) => `${format.number(Number(value), 1)} µg/m³`}
+          />
+          <Legend />
+          {POLLUTANT_LINES.map(({ key, name, color }) => (
+            <Line key={key} type="monotone" dataKey={key} name={name} stroke={color} dot={false} />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useTranslation } from '../i18n';
+import type { PeriodSummary } from '../weather/summaries';
+import type { Formatter } from '../weather/units';
+import { CustomTooltip } from './CustomTooltip';
+import { CHART_AXIS, CHART_GRID } from './theme';
+
+/**
+ * Temperature range and rainfall per day or week, for spans too long to
+ * chart hour by hour
+ */
+export const SummaryChart = ({ summaries, format, title }: {
+  summaries: PeriodSummary[];
+  format: Formatter;
+  title: string;
+}) => {
+  const { t } = useTranslation();
+  const chartData = useMemo(() => {
+    return summaries.map(summary => ({
+      maxTempC: summary.maxTempC,
+      minTempC: summary.minTempC,
+      meanTempC: summary.meanTempC,
+      precipMm: summary.totalPrecipMm,
+      maxTemp: format.temperatureValue(summary.maxTempC),
+      minTemp: format.temperatureValue(summary.minTempC),
+      precip: format.precipitationValue(summary.totalPrecipMm),
+      date: summary.from === summary.to
+        ? format.date(summary.from)
+        : `${format.date(summary.from)} – ${format.date(summary.to)}`,
+    }));
+  }, [summaries, format]);
+
+  return (
+    <div className="w-full h-64">
+      <h3 className="text-xl font-semibold mb-4 text-fg">{title}</h3>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart
+          data={chartData}
+          margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke={CHART_GRID} />
+          <XAxis dataKey="date" stroke={CHART_AXIS} />
+          <YAxis stroke={CHART_AXIS} tickFormatter={(value) => `${format.number(value, 1)}°`} />
+          <YAxis yAxisId="right" orientation="right" stroke={CHART_AXIS} />
+          <Tooltip content={<CustomTooltip format={format} />} />
+          <Legend />
+          <Bar dataKey="precip" name={t('charts.precipitation')} fill="#34d399" fillOpacity={0.4} yAxisId="right" />
+          <Line type="monotone" dataKey="maxTemp" name={t('charts.maxTemp')} stroke="#ef4444" dot={false} />
+          <Line type="monotone" dataKey="minTemp" name={t('charts.minTemp')} stroke="#3b82f6" dot={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
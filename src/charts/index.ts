@@ -0,0 +1,5 @@
+export { HourlyChart } from './HourlyChart';
+export { DailyChart } from './DailyChart';
+export { SummaryChart } from './SummaryChart';
+export { PollutantChart } from './PollutantChart';
+export { CHART_AXIS, CHART_GRID, CHART_TOOLTIP_STYLE } from './theme';
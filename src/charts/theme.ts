@@ -0,0 +1,17 @@
+import type { CSSProperties } from 'react';
+
+// --- CHART THEME ---
+// Recharts takes colors as props, so the grid, axes and tooltips use the
+// theme's CSS variables (src/index.css) and follow the light/dark switch.
+// Series colors are the same in both themes.
+
+export const CHART_GRID = 'var(--color-line-strong)';
+export const CHART_AXIS = 'var(--color-muted)';
+
+/** For Recharts' default tooltip; CustomTooltip styles itself */
+export const CHART_TOOLTIP_STYLE: CSSProperties = {
+  backgroundColor: 'var(--color-surface)',
+  border: '1px solid var(--color-line)',
+  borderRadius: '0.5rem',
+  color: 'var(--color-fg)',
+};
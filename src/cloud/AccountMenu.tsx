@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { LogIn, LogOut } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import { useAppSelector } from '../store/hooks';
+import { signInWithGoogle, signOutOfCloud } from './auth';
+import { getCloud } from './firebase';
+
+const cloud = getCloud();
+
+/**
+ * Sign-in button, or the signed-in user with a sign-out button. Hidden when
+ * cloud sync isn't configured.
+ */
+export const AccountMenu = () => {
+  const account = useAppSelector((state) => state.account);
+  const { t } = useTranslation();
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (!cloud || account.status === 'unavailable' || account.status === 'loading') {
+    return null;
+  }
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Account action failed:', err);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!account.user) {
+    return (
+      <button
+        onClick={() => run(() => signInWithGoogle(cloud))}
+        disabled={isBusy}
+        title={t('account.signInHint')}
+        className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white font-medium transition-colors whitespace-nowrap"
+      >
+        <LogIn size={18} />
+        <span>{t('account.signIn')}</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-fg-soft">
+      <span className="max-w-32 truncate" title={account.user.email ?? undefined}>
+        {account.user.displayName || account.user.email}
+      </span>
+      <button
+        onClick={() => run(() => signOutOfCloud(cloud))}
+        disabled={isBusy}
+        title={t('account.signOut')}
+        aria-label={t('account.signOut')}
+        className="p-2 bg-raised hover:bg-raised-hover rounded-lg text-fg transition-colors"
+      >
+        <LogOut size={18} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import { GoogleAuthProvider, onAuthStateChanged, signInWithPopup, signOut } from 'firebase/auth';
+import type { Cloud } from './firebase';
+
+// --- ACCOUNTS ---
+// Google sign-in. Against the emulators the popup offers fake test accounts.
+
+export interface AccountUser {
+  uid: string;
+  displayName: string | null;
+  email: string | null;
+}
+
+export const signInWithGoogle = (cloud: Cloud) => signInWithPopup(cloud.auth, new GoogleAuthProvider());
+
+export const signOutOfCloud = (cloud: Cloud) => signOut(cloud.auth);
+
+/**
+ * Calls `onChange` with the signed-in user (or null) now and on every change.
+ * Returns an unsubscribe function.
+ */
+export const watchAccount = (cloud: Cloud, onChange: (user: AccountUser | null) => void) =>
+  onAuthStateChanged(cloud.auth, (user) => onChange(
+    user ? { uid: user.uid, displayName: user.displayName, email: user.email } : null
+  ));
@@ -0,0 +1,59 @@
+import { initializeApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth } from 'firebase/auth';
+import type { Auth } from 'firebase/auth';
+import {
+  connectFirestoreEmulator, initializeFirestore, persistentLocalCache, persistentMultipleTabManager,
+} from 'firebase/firestore';
+import type { Firestore } from 'firebase/firestore';
+
+// --- FIREBASE SETUP ---
+// Accounts and cloud sync are optional. They turn on when a Firebase project
+// is configured in .env, or when VITE_FIREBASE_EMULATORS=true points the app
+// at the Local Emulator Suite (no real project needed).
+
+export interface Cloud {
+  auth: Auth;
+  db: Firestore;
+}
+
+// "demo-" projects only ever talk to the emulators
+const EMULATOR_PROJECT_ID = 'demo-weather-dashboard';
+
+let cloud: Cloud | null | undefined;
+
+/**
+ * The Firebase services, or null when cloud sync isn't configured
+ */
+export const getCloud = (env: ImportMetaEnv = import.meta.env): Cloud | null => {
+  if (cloud !== undefined) {
+    return cloud;
+  }
+
+  const useEmulators = env.VITE_FIREBASE_EMULATORS === 'true';
+  if (!env.VITE_FIREBASE_PROJECT_ID && !useEmulators) {
+    cloud = null;
+    return cloud;
+  }
+
+  const app = initializeApp({
+    apiKey: env.VITE_FIREBASE_API_KEY || 'demo-api-key',
+    authDomain: env.VITE_FIREBASE_AUTH_DOMAIN,
+    projectId: env.VITE_FIREBASE_PROJECT_ID || EMULATOR_PROJECT_ID,
+    appId: env.VITE_FIREBASE_APP_ID,
+  });
+  const auth = getAuth(app);
+  // The local cache queues writes made offline and sends them on reconnect
+  const db = initializeFirestore(app, {
+    localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    ignoreUndefinedProperties: true,
+  });
+
+  if (useEmulators) {
+    const host = env.VITE_FIREBASE_EMULATOR_HOST || '127.0.0.1';
+    connectAuthEmulator(auth, `http://${host}:9099`, { disableWarnings: true });
+    connectFirestoreEmulator(db, host, 8080);
+  }
+
+  cloud = { auth, db };
+  return cloud;
+};
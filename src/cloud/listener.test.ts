@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { signOut } from 'firebase/auth';
+import { collection, disableNetwork, doc, enableNetwork, getDocs, setDoc } from 'firebase/firestore';
+import { setupStore } from '../store';
+import { addFavorite } from '../store/slices/favorites';
+import {
+  allowEmulatorRequests, clearFirestore, createTestCloud, disposeTestCloud, hasEmulators, signInTestUser,
+} from '../test/cloud';
+import type { Cloud } from './firebase';
+import { startCloudSync } from './listener';
+import { saveFavorite, saveSetting, saveUnitPreference } from './sync';
+
+// The app's own Firebase connection, pointed at the emulators
+const { appCloud } = vi.hoisted(() => ({ appCloud: { current: null as Cloud | null } }));
+vi.mock('./firebase', async () => {
+  const { createTestCloud: create, hasEmulators: enabled } = await import('../test/cloud');
+  appCloud.current = enabled ? create() : null;
+  return { getCloud: () => appCloud.current };
+});
+
+const london = { id: '2801268', name: 'London', region: 'City of London', country: 'United Kingdom', lat: 51.52, lon: -0.11 };
+const paris = { id: '2802985', name: 'Paris', region: 'Ile-de-France', country: 'France', lat: 48.87, lon: 2.33 };
+
+const remoteFavorites = async (cloud: Cloud, uid: string) =>
+  (await getDocs(collection(cloud.db, 'users', uid, 'favorites'))).docs.map((favoriteDoc) => favoriteDoc.data());
+
+/**
+ * A store that's signed in and has uploaded its favorites, like a browser
+ * after its first sign-in
+ */
+const signedInStore = async (otherDevice: Cloud) => {
+  const store = setupStore({ favorites: { locations: [london], groups: [], legacyNames: [] } });
+  startCloudSync(store.dispatch, store.getState);
+  const uid = await signInTestUser(appCloud.current!, otherDevice);
+  await vi.waitFor(async () => expect(await remoteFavorites(otherDevice, uid)).toHaveLength(1), { timeout: 5000 });
+  return { store, uid };
+};
+
+describe.skipIf(!hasEmulators)('cloud sync listener', () => {
+  let otherDevice: Cloud;
+
+  beforeEach(async () => {
+    allowEmulatorRequests();
+    await clearFirestore();
+    otherDevice = createTestCloud();
+  });
+
+  afterEach(async () => {
+    await signOut(appCloud.current!.auth);
+    await disposeTestCloud(otherDevice);
+  });
+
+  it("applies another device's changes to the store", async () => {
+    const { store, uid } = await signedInStore(otherDevice);
+
+    await saveFavorite(otherDevice, uid, { ...paris, nickname: 'Trip' }, Date.now() + 60_000);
+    await saveUnitPreference(otherDevice, uid, 'temperature', 'f');
+    await saveSetting(otherDevice, uid, 'theme', 'dark');
+    await saveSetting(otherDevice, uid, 'locale', 'de');
+    // A value this version doesn't know is left out
+    await setDoc(doc(otherDevice.db, 'users', uid), { units: { wind: 'furlongs' } }, { merge: true });
+
+    await vi.waitFor(() => {
+      const { favorites, settings } = store.getState();
+      expect(favorites.locations).toEqual([london, { ...paris, nickname: 'Trip' }]);
+      expect(settings).toMatchObject({ units: { temperature: 'f', wind: 'kph' }, theme: 'dark', locale: 'de' });
+    }, { timeout: 5000 });
+  });
+
+  it("doesn't move a favorite that's added again", async () => {
+    const { store, uid } = await signedInStore(otherDevice);
+    const [{ order }] = await remoteFavorites(otherDevice, uid);
+
+    store.dispatch(addFavorite(london));
+    store.dispatch(addFavorite(paris));
+
+    // Writes from one device arrive in order, so London's would have landed before Paris
+    await vi.waitFor(async () => expect(await remoteFavorites(otherDevice, uid)).toHaveLength(2), { timeout: 5000 });
+    const favorites = await remoteFavorites(otherDevice, uid);
+    expect(favorites.find((favorite) => favorite.id === london.id)).toMatchObject({ order });
+  });
+
+  it("keeps this browser's favorites until they're uploaded", async () => {
+    const store = setupStore({ favorites: { locations: [london], groups: [], legacyNames: [] } });
+    await disableNetwork(appCloud.current!.db);
+    startCloudSync(store.dispatch, store.getState);
+    const uid = await signInTestUser(appCloud.current!, otherDevice);
+    await saveFavorite(otherDevice, uid, paris, 1);
+
+    await vi.waitFor(() => expect(store.getState().notifications.items).toHaveLength(1), { timeout: 15000 });
+    expect(store.getState().favorites.locations).toEqual([london]);
+
+    await enableNetwork(appCloud.current!.db);
+    window.dispatchEvent(new Event('online'));
+    await vi.waitFor(() => {
+      expect(store.getState().favorites.locations).toEqual([paris, london]);
+      expect(store.getState().notifications.items).toEqual([]);
+    }, { timeout: 5000 });
+  }, 30000);
+});
@@ -0,0 +1,143 @@
+import { createListenerMiddleware, isAnyOf } from '@reduxjs/toolkit';
+import { getCloud } from './firebase';
+import type { Cloud } from './firebase';
+import { watchAccount } from './auth';
+import {
+  deleteFavorite, importLocalData, saveFavorite, saveFavoriteOrder, saveGroups, saveSetting, saveUnitPreference,
+  watchFavorites, watchProfile,
+} from './sync';
+import { createTranslator } from '../i18n';
+import { accountChanged } from '../store/slices/account';
+import {
+  addFavorite, favoriteMoved, favoritesSynced, groupAdded, groupRemoved, groupRenamed, groupsSynced, groupToggled,
+  isSameLocation, removeFavorite, renameFavorite,
+} from '../store/slices/favorites';
+import { dismissNotification, pushNotification } from '../store/slices/notifications';
+import { setLocale, setTheme, setUnitPreference, settingsSynced } from '../store/slices/settings';
+import type { AppDispatch, RootState } from '../store';
+
+// --- CLOUD SYNC LISTENER ---
+// While signed in, favorites, units, theme and language follow the user across devices. Local
+// edits are written to Firestore as they happen (queued while offline);
+// remote changes come back through snapshot listeners as *Synced actions,
+// which this listener ignores, so nothing echoes.
+
+const cloud = getCloud();
+
+export const cloudSyncListener = createListenerMiddleware();
+
+cloudSyncListener.startListening({
+  matcher: isAnyOf(
+    addFavorite, removeFavorite, renameFavorite, favoriteMoved, groupAdded, groupRenamed, groupToggled, groupRemoved,
+    setUnitPreference, setTheme, setLocale
+  ),
+  effect: async (action, api) => {
+    const { account, favorites } = api.getState() as RootState;
+    if (!cloud || !account.user) {
+      return;
+    }
+    const { uid } = account.user;
+    try {
+      if (addFavorite.match(action)) {
+        // Re-adding a saved city changes nothing, so its synced order stays put
+        const previous = (api.getOriginalState() as RootState).favorites.locations;
+        const added = favorites.locations.find(location => isSameLocation(location, action.payload));
+        if (added && favorites.locations.length > previous.length) {
+          await saveFavorite(cloud, uid, added, Date.now());
+        }
+      } else if (removeFavorite.match(action)) {
+        await deleteFavorite(cloud, uid, action.payload);
+      } else if (renameFavorite.match(action)) {
+        const renamed = favorites.locations.find(location => location.id === action.payload.id);
+        if (renamed) {
+          await saveFavorite(cloud, uid, renamed);
+        }
+      } else if (favoriteMoved.match(action)) {
+        await saveFavoriteOrder(cloud, uid, favorites.locations);
+      } else if (groupRemoved.match(action)) {
+        // Its favorites were ungrouped too
+        await Promise.all([saveGroups(cloud, uid, favorites.groups), saveFavoriteOrder(cloud, uid, favorites.locations)]);
+      } else if (groupAdded.match(action) || groupRenamed.match(action) || groupToggled.match(action)) {
+        await saveGroups(cloud, uid, favorites.groups);
+      } else if (setUnitPreference.match(action)) {
+        await saveUnitPreference(cloud, uid, action.payload.key, action.payload.value);
+      } else if (setTheme.match(action)) {
+        await saveSetting(cloud, uid, 'theme', action.payload);
+      } else if (setLocale.match(action)) {
+        await saveSetting(cloud, uid, 'locale', action.payload);
+      }
+    } catch (err) {
+      console.error('Could not sync change to the cloud:', err);
+    }
+  },
+});
+
+const IMPORT_FAILED_ID = 'cloud-import-failed';
+
+/**
+ * Uploads this browser's data on the user's first sign-in, then mirrors
+ * their cloud data into the store. Nothing from the cloud replaces local
+ * data until the upload has gone through; a failed one is retried once the
+ * browser is back online. Returns a function that stops syncing.
+ */
+const syncAccount = (cloud: Cloud, dispatch: AppDispatch, getState: () => RootState, uid: string) => {
+  let stopped = false;
+  let stopWatching: (() => void)[] = [];
+
+  const start = async () => {
+    const { favorites, settings } = getState();
+    try {
+      const { units, theme, locale } = settings;
+      await importLocalData(cloud, uid, favorites.locations, favorites.groups, { units, theme, locale });
+    } catch (err) {
+      console.error('Could not import local favorites:', err);
+      if (!stopped) {
+        const t = createTranslator(getState().settings.locale);
+        dispatch(pushNotification({
+          id: IMPORT_FAILED_ID, title: t('account.syncFailed'), body: t('account.syncFailedBody'), severity: 'moderate',
+        }));
+        window.addEventListener('online', start, { once: true });
+      }
+      return;
+    }
+    if (stopped) {
+      return;
+    }
+    dispatch(dismissNotification(IMPORT_FAILED_ID));
+    stopWatching = [
+      watchFavorites(cloud, uid, locations => dispatch(favoritesSynced(locations))),
+      watchProfile(cloud, uid, ({ settings, groups }) => {
+        dispatch(settingsSynced(settings));
+        if (groups) {
+          dispatch(groupsSynced(groups));
+        }
+      }),
+    ];
+  };
+
+  void start();
+  return () => {
+    stopped = true;
+    window.removeEventListener('online', start);
+    stopWatching.forEach(stop => stop());
+  };
+};
+
+/**
+ * Follows the signed-in user, syncing each one's data while they're signed in
+ */
+export const startCloudSync = (dispatch: AppDispatch, getState: () => RootState) => {
+  if (!cloud) {
+    return;
+  }
+  let stopSyncing = () => {};
+
+  watchAccount(cloud, (user) => {
+    stopSyncing();
+    stopSyncing = () => {};
+    dispatch(accountChanged(user));
+    if (user) {
+      stopSyncing = syncAccount(cloud, dispatch, getState, user.uid);
+    }
+  });
+};
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { collection, disableNetwork, doc, enableNetwork, getDoc, getDocs } from 'firebase/firestore';
+import {
+  allowEmulatorRequests, clearFirestore, createTestCloud, disposeTestCloud, hasEmulators, signInTestUser,
+} from '../test/cloud';
+import type { Cloud } from './firebase';
+import { importLocalData, saveFavorite, saveSetting, saveUnitPreference } from './sync';
+import { DEFAULT_UNITS } from '../weather/units';
+
+const london = { id: '2801268', name: 'London', region: 'City of London', country: 'United Kingdom', lat: 51.52, lon: -0.11 };
+const paris = { id: '2802985', name: 'Paris', region: 'Ile-de-France', country: 'France', lat: 48.87, lon: 2.33 };
+const tokyo = { id: '3125563', name: 'Tokyo', region: 'Tokyo', country: 'Japan', lat: 35.69, lon: 139.69 };
+
+const LOCAL_SETTINGS = { units: DEFAULT_UNITS, theme: 'dark', locale: 'fr' } as const;
+
+const remoteFavorites = async ({ db }: Cloud, uid: string) =>
+  (await getDocs(collection(db, 'users', uid, 'favorites'))).docs.map((favoriteDoc) => favoriteDoc.data());
+
+const remoteProfile = async ({ db }: Cloud, uid: string) => (await getDoc(doc(db, 'users', uid))).data();
+
+describe.skipIf(!hasEmulators)('cloud sync', () => {
+  let device: Cloud;
+  let otherDevice: Cloud;
+  let uid: string;
+
+  beforeEach(async () => {
+    allowEmulatorRequests();
+    await clearFirestore();
+    device = createTestCloud();
+    otherDevice = createTestCloud();
+    uid = await signInTestUser(device, otherDevice);
+  });
+
+  afterEach(async () => {
+    await Promise.all([disposeTestCloud(device), disposeTestCloud(otherDevice)]);
+  });
+
+  it("uploads this browser's data on the first sign-in only, keeping what the account already has", async () => {
+    await saveFavorite(otherDevice, uid, paris, 1);
+    await saveUnitPreference(otherDevice, uid, 'temperature', 'f');
+    await saveSetting(otherDevice, uid, 'theme', 'light');
+
+    await importLocalData(device, uid, [{ ...london, nickname: 'Office' }, paris], [], LOCAL_SETTINGS);
+    await importLocalData(device, uid, [tokyo], [], LOCAL_SETTINGS);
+
+    const favorites = await remoteFavorites(device, uid);
+    expect(favorites.map((favorite) => favorite.name).sort()).toEqual(['London', 'Paris']);
+    expect(favorites.find((favorite) => favorite.id === paris.id)).toMatchObject({ order: 1 });
+    expect(favorites.find((favorite) => favorite.id === london.id)).toMatchObject({ nickname: 'Office' });
+    expect(await remoteProfile(device, uid)).toMatchObject({
+      units: { ...DEFAULT_UNITS, temperature: 'f' },
+      theme: 'light',
+      locale: 'fr',
+      importedLocalAt: expect.anything(),
+    });
+  });
+
+  it('merges changes queued offline with changes made on another device meanwhile', async () => {
+    await disableNetwork(device.db);
+    // Offline writes settle only once they reach the server
+    const queued = Promise.all([
+      saveFavorite(device, uid, london, 1),
+      saveUnitPreference(device, uid, 'wind', 'mph'),
+    ]);
+    await saveFavorite(otherDevice, uid, paris, 2);
+    await saveUnitPreference(otherDevice, uid, 'temperature', 'f');
+
+    await enableNetwork(device.db);
+    await queued;
+
+    const favorites = await remoteFavorites(otherDevice, uid);
+    expect(favorites.map((favorite) => favorite.name).sort()).toEqual(['London', 'Paris']);
+    expect(await remoteProfile(otherDevice, uid)).toMatchObject({ units: { wind: 'mph', temperature: 'f' } });
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  collection, deleteDoc, deleteField, doc, getDoc, getDocs, onSnapshot, serverTimestamp, setDoc, writeBatch,
+} from 'firebase/firestore';
+import type { Cloud } from './firebase';
+import { isLocale } from '../i18n/locales';
+import type { FavoriteGroup } from '../store/slices/favorites';
+import { isThemePreference } from '../store/slices/settings';
+import type { SyncedSettings, SyncedSettingsUpdate } from '../store/slices/settings';
+import type { LocationSummary } from '../weather/types';
+import { pickUnitPreferences } from '../weather/units';
+import type { UnitPreferences } from '../weather/units';
+
+// --- CLOUD SYNC ---
+// Firestore layout, one tree per signed-in user:
+//   users/{uid}                  { units, theme, locale, groups, importedLocalAt }
+//   users/{uid}/favorites/{id}   { ...location, nickname?, groupId?, order }
+// Each favorite is its own document and units are merged key by key, so
+// edits from two devices (or queued while offline) merge instead of one
+// overwriting the other.
+
+export interface SyncedFavorite extends LocationSummary {
+  nickname?: string;
+  groupId?: string;
+}
+
+/**
+ * What the user document holds besides favorites. Only what's stored there
+ * and valid is set.
+ */
+export interface SyncedProfile {
+  settings: SyncedSettingsUpdate;
+  groups?: FavoriteGroup[];
+}
+
+// Document ids can't contain "/"
+const favoriteDocId = (id: string) => encodeURIComponent(id);
+
+const userDoc = ({ db }: Cloud, uid: string) => doc(db, 'users', uid);
+const favoritesCollection = ({ db }: Cloud, uid: string) => collection(db, 'users', uid, 'favorites');
+
+const isSyncedFavorite = (value: Record<string, unknown>): boolean =>
+  typeof value.id === 'string' && typeof value.name === 'string'
+  && typeof value.lat === 'number' && typeof value.lon === 'number';
+
+const toSyncedFavorite = (data: Record<string, unknown>): SyncedFavorite => ({
+  id: data.id as string,
+  name: data.name as string,
+  region: typeof data.region === 'string' ? data.region : '',
+  country: typeof data.country === 'string' ? data.country : '',
+  lat: data.lat as number,
+  lon: data.lon as number,
+  ...(typeof data.nickname === 'string' ? { nickname: data.nickname } : {}),
+  ...(typeof data.groupId === 'string' ? { groupId: data.groupId } : {}),
+});
+
+const isGroup = (value: unknown): value is FavoriteGroup =>
+  typeof value === 'object' && value !== null
+  && typeof (value as FavoriteGroup).id === 'string' && typeof (value as FavoriteGroup).name === 'string';
+
+const toGroups = (value: unknown): FavoriteGroup[] | undefined =>
+  Array.isArray(value)
+    ? value.filter(isGroup).map(({ id, name, collapsed }) => ({ id, name, collapsed: collapsed === true }))
+    : undefined;
+
+/**
+ * Calls `onChange` with the user's favorites, in the user's order, now and
+ * after every change. Returns an unsubscribe function.
+ */
+export const watchFavorites = (cloud: Cloud, uid: string, onChange: (favorites: SyncedFavorite[]) => void) =>
+  onSnapshot(favoritesCollection(cloud, uid), (snapshot) => {
+    const favorites = snapshot.docs
+      .map((favoriteDoc) => favoriteDoc.data())
+      .filter(isSyncedFavorite)
+      .sort((a, b) => Number(a.order ?? 0) - Number(b.order ?? 0))
+      .map(toSyncedFavorite);
+    onChange(favorites);
+  }, (err) => console.error('Favorites sync stopped:', err));
+
+const toProfile = (data: Record<string, unknown> | undefined): SyncedProfile => {
+  const groups = toGroups(data?.groups);
+  return {
+    settings: {
+      units: pickUnitPreferences(data?.units),
+      ...(isThemePreference(data?.theme) ? { theme: data.theme } : {}),
+      ...(isLocale(data?.locale) ? { locale: data.locale } : {}),
+    },
+    ...(groups ? { groups } : {}),
+  };
+};
+
+/**
+ * Calls `onChange` with the user's settings and favorite groups, now and
+ * after every change. Returns an unsubscribe function.
+ */
+export const watchProfile = (cloud: Cloud, uid: string, onChange: (profile: SyncedProfile) => void) =>
+  onSnapshot(userDoc(cloud, uid), (snapshot) => onChange(toProfile(snapshot.data())),
+    (err) => console.error('Settings sync stopped:', err));
+
+/**
+ * Creates or updates a favorite. `order` is only given when it's first added.
+ */
+export const saveFavorite = (cloud: Cloud, uid: string, favorite: SyncedFavorite, order?: number) =>
+  setDoc(doc(favoritesCollection(cloud, uid), favoriteDocId(favorite.id)), {
+    ...favorite,
+    nickname: favorite.nickname ?? deleteField(),
+    groupId: favorite.groupId ?? deleteField(),
+    ...(order === undefined ? {} : { order }),
+  }, { merge: true });
+
+/**
+ * Rewrites every favorite's position and group after a move. Favorites
+ * added later are ordered by time, so they still land at the end.
+ */
+export const saveFavoriteOrder = (cloud: Cloud, uid: string, favorites: SyncedFavorite[]) => {
+  const batch = writeBatch(cloud.db);
+  favorites.forEach((favorite, order) => {
+    batch.set(doc(favoritesCollection(cloud, uid), favoriteDocId(favorite.id)), {
+      order,
+      groupId: favorite.groupId ?? deleteField(),
+    }, { merge: true });
+  });
+  return batch.commit();
+};
+
+/**
+ * Replaces the user's list of groups
+ */
+export const saveGroups = (cloud: Cloud, uid: string, groups: FavoriteGroup[]) =>
+  setDoc(userDoc(cloud, uid), { groups }, { merge: true });
+
+export const deleteFavorite = (cloud: Cloud, uid: string, id: string) =>
+  deleteDoc(doc(favoritesCollection(cloud, uid), favoriteDocId(id)));
+
+export const saveUnitPreference = <K extends keyof UnitPreferences>(
+  cloud: Cloud,
+  uid: string,
+  key: K,
+  value: UnitPreferences[K]
+) => setDoc(userDoc(cloud, uid), { units: { [key]: value } }, { merge: true });
+
+/**
+ * Saves the theme or the interface language
+ */
+export const saveSetting = <K extends 'theme' | 'locale'>(cloud: Cloud, uid: string, key: K, value: SyncedSettings[K]) =>
+  setDoc(userDoc(cloud, uid), { [key]: value }, { merge: true });
+
+/**
+ * On a user's first sign-in, uploads the favorites, groups and settings this
+ * browser already had. Remote data wins where both exist.
+ */
+export const importLocalData = async (
+  cloud: Cloud,
+  uid: string,
+  favorites: SyncedFavorite[],
+  groups: FavoriteGroup[],
+  { units, theme, locale }: SyncedSettings
+) => {
+  const profile = await getDoc(userDoc(cloud, uid));
+  if (profile.data()?.importedLocalAt) {
+    return;
+  }
+
+  const existing = await getDocs(favoritesCollection(cloud, uid));
+  const existingIds = new Set(existing.docs.map((favoriteDoc) => favoriteDoc.data().id));
+  const batch = writeBatch(cloud.db);
+  const start = Date.now();
+  favorites
+    .filter((favorite) => !existingIds.has(favorite.id))
+    .forEach((favorite, i) => {
+      batch.set(doc(favoritesCollection(cloud, uid), favoriteDocId(favorite.id)), {
+        ...favorite,
+        order: start + i,
+      });
+    });
+  const remote = toProfile(profile.data());
+  const remoteGroups = remote.groups ?? [];
+  batch.set(userDoc(cloud, uid), {
+    units: { ...units, ...remote.settings.units },
+    theme: remote.settings.theme ?? theme,
+    locale: remote.settings.locale ?? locale,
+    groups: [...remoteGroups, ...groups.filter((group) => !remoteGroups.some((remote) => remote.id === group.id))],
+    importedLocalAt: serverTimestamp(),
+  }, { merge: true });
+  await batch.commit();
+};
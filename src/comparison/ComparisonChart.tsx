@@ -0,0 +1,71 @@
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CHART_AXIS, CHART_GRID, CHART_TOOLTIP_STYLE } from '../charts';
+import { useTranslation } from '../i18n';
+import { favoriteLabel } from '../store/slices/favorites';
+import type { Formatter } from '../weather/units';
+import type { ComparedCity } from './comparison';
+
+/**
+ * Overlaid series on a shared time axis. The axis is in the viewer's time;
+ * the tooltip adds each city's own local time.
+ */
+export const ComparisonChart = ({ title, cities, rows, unit, format, domain }: {
+  title: string;
+  cities: ComparedCity[];
+  rows: Record<string, number>[];
+  unit: string;
+  format: Formatter;
+  domain?: [number | string, number | string];
+}) => {
+  const { t } = useTranslation();
+  const cityById = new Map(cities.map((city) => [city.favorite.id, city]));
+
+  return (
+    <div className="w-full h-64">
+      <h3 className="text-xl font-semibold mb-4 text-fg">{title}</h3>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={rows} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={CHART_GRID} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            stroke={CHART_AXIS}
+            tickFormatter={(time: number) => format.hour(time)}
+          />
+          <YAxis stroke={CHART_AXIS} domain={domain} tickFormatter={(value) => `${value}${unit}`} />
+          <Tooltip
+            contentStyle={CHART_TOOLTIP_STYLE}
+            labelFormatter={(time) => format.dateTime(Number(time))}
+            formatter={(value, _name, item) => {
+              const city = cityById.get(String(item.dataKey));
+              const time = (item.payload as { time: number }).time;
+              return [
+                `${value}${unit}`,
+                city
+                  ? t('compare.cityLocalTime', {
+                    name: favoriteLabel(city.favorite),
+                    time: format.hour(time, city.forecast.location.utcOffsetSeconds),
+                  })
+                  : '',
+              ];
+            }}
+          />
+          <Legend />
+          {cities.map(({ favorite, color }) => (
+            <Line
+              key={favorite.id}
+              type="monotone"
+              dataKey={favorite.id}
+              name={favoriteLabel(favorite)}
+              stroke={color}
+              dot={false}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import { useTranslation } from '../i18n';
+import { favoriteLabel } from '../store/slices/favorites';
+import type { Formatter } from '../weather/units';
+import type { ComparedCity } from './comparison';
+
+/**
+ * Daily highs and lows per city. Dates are each city's local dates.
+ */
+export const ComparisonTable = ({ cities, format }: { cities: ComparedCity[]; format: Formatter }) => {
+  const { t } = useTranslation();
+  const dates = [...new Set(cities.flatMap(({ forecast }) => forecast.days.map((day) => day.date)))].sort();
+
+  return (
+    <div className="overflow-x-auto">
+      <h3 className="text-xl font-semibold mb-4 text-fg">{t('compare.dailyLowHigh')}</h3>
+      <table className="w-full text-sm text-start">
+        <thead>
+          <tr className="text-muted border-b border-line">
+            <th className="py-2 pe-4 font-medium">{t('compare.date')}</th>
+            {cities.map(({ favorite, color }) => (
+              <th key={favorite.id} className="py-2 pe-4 font-medium" style={{ color }}>
+                {favoriteLabel(favorite)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {dates.map((date) => (
+            <tr key={date} className="border-b border-line">
+              <td className="py-2 pe-4 text-fg-soft">
+                {format.date(date, { weekday: 'short', month: 'short', day: 'numeric' })}
+              </td>
+              {cities.map(({ favorite, forecast }) => {
+                const day = forecast.days.find((candidate) => candidate.date === date);
+                return (
+                  <td key={favorite.id} className="py-2 pe-4">
+                    {day ? `${format.temperature(day.minTempC)} / ${format.temperature(day.maxTempC)}` : '—'}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
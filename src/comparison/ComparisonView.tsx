@@ -0,0 +1,96 @@
+import { Link, useSearchParams } from 'react-router-dom';
+import { useTranslation } from '../i18n';
+import { dashboardPath, useForecastRange, useFormatter } from '../routing';
+import { NotFound, Spinner } from '../shared';
+import { useAppSelector } from '../store/hooks';
+import { favoriteLabel } from '../store/slices/favorites';
+import { ComparisonChart } from './ComparisonChart';
+import { ComparisonTable } from './ComparisonTable';
+import { COMPARISON_COLORS, MAX_COMPARED, MIN_COMPARED, mergeHourly } from './comparison';
+import type { ComparedCity } from './comparison';
+import { useForecasts } from './useForecasts';
+
+/**
+ * `/compare?ids=a,b`: overlaid forecasts for 2-6 favorites
+ */
+export const ComparisonView = () => {
+  const [searchParams] = useSearchParams();
+  const [range] = useForecastRange();
+  const format = useFormatter();
+  const { t } = useTranslation();
+  const favorites = useAppSelector((state) => state.favorites.locations);
+
+  const ids = (searchParams.get('ids') ?? '').split(',').filter(Boolean);
+  const selected = favorites.filter((favorite) => ids.includes(favorite.id)).slice(0, MAX_COMPARED);
+  const results = useForecasts(selected.map(({ lat, lon }) => ({ lat, lon })));
+
+  if (selected.length < MIN_COMPARED) {
+    return (
+      <NotFound
+        title={t('compare.nothing')}
+        message={t('compare.pickFavorites', { min: MIN_COMPARED, max: MAX_COMPARED })}
+      />
+    );
+  }
+
+  if (results.some((result) => result.isUninitialized || result.isLoading)) {
+    return <div className="h-64"><Spinner /></div>;
+  }
+
+  const cities: ComparedCity[] = selected.flatMap((favorite, i) => {
+    const forecast = results[i]?.data;
+    return forecast
+      ? [{ favorite, forecast: { ...forecast, days: forecast.days.slice(0, range) }, color: COMPARISON_COLORS[i] }]
+      : [];
+  });
+  const failed = selected.filter((_, i) => !results[i]?.data);
+  const now = Date.now() / 1000;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold text-fg">{t('compare.comparing', { count: cities.length })}</h2>
+        <Link to={dashboardPath(searchParams)} className="text-blue-400 light:text-blue-600 hover:text-blue-300 light:hover:text-blue-700">{t('notFound.back')}</Link>
+      </div>
+      {failed.length > 0 && (
+        <p className="text-red-400 light:text-red-600">
+          {t('compare.loadFailed', { names: new Intl.ListFormat(format.locale).format(failed.map(favoriteLabel)) })}
+        </p>
+      )}
+      <div className="flex flex-wrap gap-3">
+        {cities.map(({ favorite, forecast, color }) => (
+          <span key={favorite.id} className="px-3 py-1 bg-surface rounded-full text-sm" style={{ color }}>
+            {t('compare.cityLocalTime', {
+              name: favoriteLabel(favorite),
+              time: format.hour(now, forecast.location.utcOffsetSeconds),
+            })}
+          </span>
+        ))}
+      </div>
+      <ComparisonChart
+        title={t('charts.temperature')}
+        cities={cities}
+        rows={mergeHourly(cities, (hour) => format.temperatureValue(hour.tempC), now)}
+        unit="°"
+        format={format}
+        domain={['dataMin - 2', 'dataMax + 2']}
+      />
+      <ComparisonChart
+        title={t('charts.chanceOfRain')}
+        cities={cities}
+        rows={mergeHourly(cities, (hour) => hour.chanceOfRain, now)}
+        unit="%"
+        format={format}
+        domain={[0, 100]}
+      />
+      <ComparisonChart
+        title={t('detail.wind')}
+        cities={cities}
+        rows={mergeHourly(cities, (hour) => format.windValue(hour.windKph), now)}
+        unit={` ${format.windUnit}`}
+        format={format}
+      />
+      <ComparisonTable cities={cities} format={format} />
+    </div>
+  );
+};
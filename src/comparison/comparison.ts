@@ -0,0 +1,39 @@
+import type { FavoriteLocation } from '../store/slices/favorites';
+import type { Forecast, HourlyForecast } from '../weather/types';
+
+// --- CITY COMPARISON ---
+
+export const MIN_COMPARED = 2;
+
+export const MAX_COMPARED = 6;
+
+export const COMPARISON_COLORS = ['#60a5fa', '#f87171', '#34d399', '#fbbf24', '#a78bfa', '#f472b6'];
+
+// Hourly overlays cover the next two days
+export const COMPARISON_HOURS = 48;
+
+export interface ComparedCity {
+  favorite: FavoriteLocation;
+  forecast: Forecast;
+  color: string;
+}
+
+/**
+ * One row per instant, with a column per city. Rows are keyed by UTC epoch,
+ * so cities in different time zones line up on the same moment; places with
+ * half-hour offsets simply land between the others' rows.
+ */
+export const mergeHourly = (cities: ComparedCity[], value: (hour: HourlyForecast) => number, fromEpoch: number) => {
+  const rows = new Map<number, Record<string, number>>();
+  cities.forEach(({ favorite, forecast }) => {
+    forecast.days
+      .flatMap((day) => day.hours)
+      .filter((hour) => hour.time + 3600 > fromEpoch && hour.time < fromEpoch + COMPARISON_HOURS * 3600)
+      .forEach((hour) => {
+        const row = rows.get(hour.time) ?? { time: hour.time };
+        row[favorite.id] = value(hour);
+        rows.set(hour.time, row);
+      });
+  });
+  return [...rows.values()].sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,3 @@
+export { ComparisonView } from './ComparisonView';
+export { MIN_COMPARED, MAX_COMPARED } from './comparison';
+export { useForecasts } from './useForecasts';
@@ -0,0 +1,27 @@
+import { useEffect, useMemo } from 'react';
+import { shallowEqual } from 'react-redux';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { weatherApi } from '../weather/api';
+import type { ForecastArgs } from '../weather/api';
+
+/**
+ * Forecasts for a varying list of places. RTK Query hooks take one argument
+ * each, so this subscribes to every cache entry by hand.
+ */
+export const useForecasts = (args: ForecastArgs[]) => {
+  const dispatch = useAppDispatch();
+  const key = JSON.stringify(args);
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- `key` identifies `args`
+  const stableArgs = useMemo(() => args, [key]);
+
+  useEffect(() => {
+    const subscriptions = stableArgs.map((arg) => dispatch(weatherApi.endpoints.getForecast.initiate(arg)));
+    return () => subscriptions.forEach((subscription) => subscription.unsubscribe());
+  }, [dispatch, stableArgs]);
+
+  const selectors = useMemo(
+    () => stableArgs.map((arg) => weatherApi.endpoints.getForecast.select(arg)),
+    [stableArgs]
+  );
+  return useAppSelector((state) => selectors.map((select) => select(state)), shallowEqual);
+};
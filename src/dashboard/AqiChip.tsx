@@ -0,0 +1,22 @@
+import { useTranslation } from '../i18n';
+import { usEpaBand } from '../weather/airQuality';
+import type { AirQuality } from '../weather/types';
+
+/**
+ * Compact US EPA index chip for the dashboard cards
+ */
+export const AqiChip = ({ airQuality }: { airQuality: AirQuality | null }) => {
+  const { t } = useTranslation();
+  if (!airQuality) {
+    return null;
+  }
+  const band = usEpaBand(airQuality.usEpaIndex);
+  return (
+    <span
+      title={t('aqi.title', { category: t(`aqi.epa.${band.category}`) })}
+      className={`px-2 py-0.5 rounded-full text-xs font-semibold ${band.className}`}
+    >
+      {t('aqi.chip', { index: airQuality.usEpaIndex })}
+    </span>
+  );
+};
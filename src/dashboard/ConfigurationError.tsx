@@ -0,0 +1,26 @@
+import { Settings } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import type { ConfigurationErrorCode } from '../weather/proxyErrors';
+
+/**
+ * Shown instead of the dashboard while the weather proxy can't serve any
+ * request, with what the person running it needs to fix
+ */
+export const ConfigurationError = ({ code }: { code: ConfigurationErrorCode }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div role="alert" className="w-full max-w-lg mx-auto mt-16 p-8 bg-surface rounded-lg shadow-xl text-center text-fg">
+      <Settings size={40} className="mx-auto text-yellow-400 light:text-yellow-700" />
+      <h2 className="mt-4 text-2xl font-bold">{t('config.title')}</h2>
+      <p className="mt-2 text-muted">{t(code === 'invalid_key' ? 'config.invalidKey' : 'config.notConfigured')}</p>
+      <p className="mt-2 text-sm text-subtle">{t('config.hint')}</p>
+      <button
+        onClick={() => window.location.reload()}
+        className="mt-6 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white font-medium transition-colors"
+      >
+        {t('config.reload')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { http, HttpResponse } from 'msw';
+import { describe, expect, it } from 'vitest';
+import { renderWithProviders } from '../test/renderWithProviders';
+import { forecastResponse } from '../test/fixtures';
+import { server, WEATHER_API } from '../test/server';
+import { DEFAULT_UNITS } from '../weather/units';
+import type { FavoriteGroup, FavoriteLocation } from '../store/slices/favorites';
+import { Dashboard } from './Dashboard';
+
+const london: FavoriteLocation = {
+  id: '2801268', name: 'London', region: 'City of London, Greater London', country: 'United Kingdom', lat: 51.52, lon: -0.11,
+};
+const paris: FavoriteLocation = { id: '2802985', name: 'Paris', region: 'Ile-de-France', country: 'France', lat: 48.87, lon: 2.33 };
+const tokyo: FavoriteLocation = { id: '3125553', name: 'Tokyo', region: 'Tokyo', country: 'Japan', lat: 35.69, lon: 139.69 };
+const travel: FavoriteGroup = { id: 'travel', name: 'Travel', collapsed: false };
+
+/**
+ * London is 12°, Paris 18° and Tokyo 25°
+ */
+const serveTemperatures = () => server.use(
+  http.get(`${WEATHER_API}/forecast.json`, ({ request }) => {
+    const [lat, lon] = (new URL(request.url).searchParams.get('q') ?? '').split(',').map(Number);
+    const city = [london, paris, tokyo].find((favorite) => favorite.lat === lat) ?? london;
+    const tempC = { London: 12, Paris: 18, Tokyo: 25 }[city.name];
+    return HttpResponse.json(forecastResponse({ name: city.name, lat, lon, tempC }));
+  }),
+);
+
+const renderDashboard = (locations: FavoriteLocation[], groups: FavoriteGroup[] = []) => renderWithProviders(<Dashboard />, {
+  preloadedState: {
+    favorites: { locations, groups, legacyNames: [] },
+    settings: { units: DEFAULT_UNITS, dashboard: { sort: 'manual', density: 'cards' }, theme: 'dark', locale: 'en', accuracyRetentionDays: 90 },
+  },
+});
+
+const cityHeadings = () => screen.getAllByRole('heading', { level: 3 }).map((heading) => heading.textContent);
+
+describe('Dashboard', () => {
+  it('reorders favorites with the arrow keys, into the next group at the end', async () => {
+    const user = userEvent.setup();
+    const { store } = renderDashboard([london, paris, { ...tokyo, groupId: travel.id }], [travel]);
+    await screen.findByRole('heading', { name: 'London' });
+
+    const handle = screen.getByRole('button', { name: 'Reorder London' });
+    handle.focus();
+    await user.keyboard('{ArrowDown}');
+    expect(store.getState().favorites.locations.map((favorite) => favorite.name)).toEqual(['Paris', 'London', 'Tokyo']);
+    expect(screen.getByText('London moved to position 2 of 2 in Ungrouped.')).toBeInTheDocument();
+
+    await user.keyboard('{ArrowDown}');
+    expect(store.getState().favorites.locations[1]).toEqual({ ...london, groupId: travel.id });
+    expect(screen.getByText('London moved to position 1 of 2 in Travel.')).toBeInTheDocument();
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Reorder London' })).toHaveFocus());
+  });
+
+  it('moves a favorite dropped on another', async () => {
+    const { store } = renderDashboard([london, paris, tokyo]);
+    await screen.findByRole('heading', { name: 'Tokyo' });
+
+    const item = (name: string) => screen.getByRole('button', { name: `Reorder ${name}` }).parentElement as HTMLElement;
+    const dataTransfer = { setData: () => {}, effectAllowed: 'none' };
+    fireEvent.dragStart(item('Tokyo'), { dataTransfer });
+    fireEvent.dragOver(item('London'), { dataTransfer });
+    fireEvent.drop(item('London'), { dataTransfer });
+
+    expect(store.getState().favorites.locations.map((favorite) => favorite.name)).toEqual(['Tokyo', 'London', 'Paris']);
+  });
+
+  it('collapses a group, and sorts within groups in a compact list', async () => {
+    serveTemperatures();
+    const user = userEvent.setup();
+    const { store } = renderDashboard([london, { ...paris, groupId: travel.id }, { ...tokyo, groupId: travel.id }], [travel]);
+
+    const toggle = await screen.findByRole('button', { name: 'Travel (2)' });
+    await user.click(toggle);
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByRole('heading', { name: 'Paris' })).not.toBeInTheDocument();
+    expect(store.getState().favorites.groups[0].collapsed).toBe(true);
+    await user.click(toggle);
+
+    await user.click(screen.getByRole('button', { name: 'Compact list' }));
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Sort' }), 'Warmest first');
+
+    const group = screen.getByRole('region', { name: 'Travel' });
+    await waitFor(() => expect(within(group).getAllByRole('heading', { level: 3 }).map((h) => h.textContent))
+      .toEqual(['Tokyo', 'Paris']));
+    expect(cityHeadings()).toEqual(['London', 'Tokyo', 'Paris']);
+    expect(within(group).getByText('25°')).toBeInTheDocument();
+    // Sorted favorites can't be dragged
+    expect(screen.queryByRole('button', { name: 'Reorder Tokyo' })).not.toBeInTheDocument();
+    expect(store.getState().settings.dashboard).toEqual({ sort: 'temperature', density: 'list' });
+  });
+});
@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from 'react';
+import { Outlet, useNavigate, useSearchParams } from 'react-router-dom';
+import { MAX_COMPARED, MIN_COMPARED, useForecasts } from '../comparison';
+import { useTranslation } from '../i18n';
+import { CurrentLocationCard } from '../location';
+import { cityPath, comparePath } from '../routing';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { favoriteLabel, favoriteMoved, groupOf } from '../store/slices/favorites';
+import type { FavoriteGroup, FavoriteLocation } from '../store/slices/favorites';
+import { FavoriteSection } from './FavoriteSection';
+import { ReorderableItem } from './ReorderableItem';
+import { sortFavorites } from './sorting';
+import { ViewControls } from './ViewControls';
+import { WeatherCard } from './WeatherCard';
+import { WeatherRow } from './WeatherRow';
+
+interface Section {
+  group: FavoriteGroup | null;
+  favorites: FavoriteLocation[];
+}
+
+/** Where a dragged favorite would land: a position within a group (null for ungrouped) */
+interface DropTarget {
+  groupId: string | null;
+  index: number;
+}
+
+/**
+ * Main Dashboard: the favorites, ungrouped first and then by group. The city
+ * detail route renders into the outlet, on top of the dashboard.
+ */
+export const Dashboard = () => {
+  const favoritesState = useAppSelector((state) => state.favorites);
+  const { sort, density } = useAppSelector((state) => state.settings.dashboard);
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { t, locale } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const [compareIds, setCompareIds] = useState<string[] | null>(null); // null when not picking
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const focusAfterMove = useRef<string | null>(null);
+
+  const { locations: favorites, groups } = favoritesState;
+  const needsForecasts = sort !== 'manual' && sort !== 'name';
+  const forecasts = useForecasts(needsForecasts ? favorites.map(({ lat, lon }) => ({ lat, lon })) : []);
+  const sorted = sortFavorites(favorites, sort, (favorite) => forecasts[favorites.indexOf(favorite)]?.data, locale);
+  const sections: Section[] = [
+    { group: null, favorites: sorted.filter((favorite) => !groupOf(favoritesState, favorite)) },
+    ...groups.map((group) => ({ group, favorites: sorted.filter((favorite) => favorite.groupId === group.id) })),
+  ];
+  const canReorder = sort === 'manual';
+
+  // Keyboard moves can carry a favorite into another section, which remounts it
+  useEffect(() => {
+    const id = focusAfterMove.current;
+    if (id) {
+      focusAfterMove.current = null;
+      [...containerRef.current?.querySelectorAll<HTMLElement>('[data-reorder-handle]') ?? []]
+        .find((handle) => handle.dataset.reorderHandle === id)
+        ?.focus();
+    }
+  });
+
+  const handleCardClick = (favorite: FavoriteLocation) => {
+    if (!compareIds) {
+      navigate(cityPath(favorite, searchParams));
+    } else if (compareIds.includes(favorite.id)) {
+      setCompareIds(compareIds.filter((id) => id !== favorite.id));
+    } else if (compareIds.length < MAX_COMPARED) {
+      setCompareIds([...compareIds, favorite.id]);
+    }
+  };
+
+  const move = (favorite: FavoriteLocation, target: Section, index: number) => {
+    const groupId = target.group?.id ?? null;
+    dispatch(favoriteMoved({ id: favorite.id, groupId, index }));
+    const count = target.favorites.filter((other) => other.id !== favorite.id).length + 1;
+    const values = { name: favoriteLabel(favorite), position: Math.min(index, count - 1) + 1, count };
+    setAnnouncement(groups.length > 0
+      ? t('dashboard.movedInGroup', { ...values, group: target.group?.name ?? t('dashboard.ungrouped') })
+      : t('dashboard.moved', values));
+  };
+
+  /**
+   * One place back or forward, crossing into the neighbouring open section at either end
+   */
+  const moveBy = (favorite: FavoriteLocation, sectionIndex: number, step: -1 | 1) => {
+    const section = sections[sectionIndex];
+    const index = section.favorites.indexOf(favorite) + step;
+    focusAfterMove.current = favorite.id;
+    if (index >= 0 && index < section.favorites.length) {
+      move(favorite, section, index);
+      return;
+    }
+    const neighbours = step < 0 ? sections.slice(0, sectionIndex).reverse() : sections.slice(sectionIndex + 1);
+    const next = neighbours.find((candidate) => !candidate.group?.collapsed);
+    if (next) {
+      move(favorite, next, step < 0 ? next.favorites.length : 0);
+    }
+  };
+
+  const handleDrop = (target: Section, index: number) => {
+    const favorite = favorites.find((candidate) => candidate.id === dragging);
+    if (favorite) {
+      move(favorite, target, index);
+    }
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const dragOver = (groupId: string | null, index: number) => {
+    if (dropTarget?.groupId !== groupId || dropTarget.index !== index) {
+      setDropTarget({ groupId, index });
+    }
+  };
+
+  const Item = density === 'cards' ? WeatherCard : WeatherRow;
+
+  return (
+    <>
+      {favorites.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <ViewControls />
+          {favorites.length >= MIN_COMPARED && (
+            <div className="flex flex-wrap items-center justify-end gap-3">
+              {compareIds ? (
+                <>
+                  <span className="text-sm text-muted">
+                    {t('compare.selectCities', { min: MIN_COMPARED, max: MAX_COMPARED, count: compareIds.length })}
+                  </span>
+                  <button
+                    onClick={() => setCompareIds(null)}
+                    className="px-4 py-2 bg-raised hover:bg-raised-hover rounded-lg text-fg font-medium transition-colors"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    onClick={() => navigate(comparePath(compareIds, searchParams))}
+                    disabled={compareIds.length < MIN_COMPARED}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white font-medium transition-colors disabled:bg-raised-hover disabled:text-muted disabled:cursor-not-allowed"
+                  >
+                    {t('compare.compare')}
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setCompareIds([])}
+                  className="px-4 py-2 bg-raised hover:bg-raised-hover rounded-lg text-fg font-medium transition-colors"
+                >
+                  {t('compare.compareCities')}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+      {density === 'list' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-6">
+          <CurrentLocationCard />
+        </div>
+      )}
+      <div ref={containerRef}>
+        {sections.map((section, sectionIndex) => {
+          const groupId = section.group?.id ?? null;
+          return (
+            <FavoriteSection
+              key={groupId ?? 'ungrouped'}
+              group={section.group}
+              count={section.favorites.length}
+              density={density}
+              isDropTarget={dragging !== null && dropTarget?.groupId === groupId && dropTarget.index >= section.favorites.length}
+              onDragOver={canReorder && dragging ? () => dragOver(groupId, section.favorites.length) : undefined}
+              onDrop={() => handleDrop(section, section.favorites.length)}
+            >
+              {/* Pinned ahead of the favorites */}
+              {!section.group && density === 'cards' && <CurrentLocationCard />}
+              {section.favorites.map((favorite, index) => (
+                <ReorderableItem
+                  key={favorite.id}
+                  id={favorite.id}
+                  label={favoriteLabel(favorite)}
+                  enabled={canReorder}
+                  isDragging={dragging === favorite.id}
+                  isDropTarget={dragging !== null && dragging !== favorite.id
+                    && dropTarget?.groupId === groupId && dropTarget.index === index}
+                  onDragStart={() => setDragging(favorite.id)}
+                  onDragEnd={() => {
+                    setDragging(null);
+                    setDropTarget(null);
+                  }}
+                  onDragOver={() => dragOver(groupId, index)}
+                  onDrop={() => handleDrop(section, index)}
+                  onMove={(step) => moveBy(favorite, sectionIndex, step)}
+                >
+                  <Item
+                    favorite={favorite}
+                    onClick={() => handleCardClick(favorite)}
+                    selected={compareIds?.includes(favorite.id)}
+                  />
+                </ReorderableItem>
+              ))}
+            </FavoriteSection>
+          );
+        })}
+      </div>
+      <p aria-live="polite" className="sr-only">{announcement}</p>
+      {favorites.length === 0 && (
+        <div className="text-center text-muted p-10">
+          <p>{t('dashboard.empty')}</p>
+          <p>{t('dashboard.emptyHint')}</p>
+        </div>
+      )}
+      <Outlet />
+    </>
+  );
+};
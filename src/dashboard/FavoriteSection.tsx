@@ -0,0 +1,119 @@
+import React, { useId, useState } from 'react';
+import { ChevronDown, ChevronRight, Pencil, Trash2 } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import { useAppDispatch } from '../store/hooks';
+import { groupRemoved, groupRenamed, groupToggled } from '../store/slices/favorites';
+import type { FavoriteGroup } from '../store/slices/favorites';
+import type { DashboardDensity } from '../store/slices/settings';
+
+const LAYOUTS: Record<DashboardDensity, string> = {
+  cards: 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6',
+  list: 'flex flex-col gap-2',
+};
+
+/**
+ * One block of the dashboard: the ungrouped favorites, or a named group
+ * that can be collapsed, renamed and removed. Dropping a dragged favorite
+ * anywhere in it, outside the other favorites, adds it at the end.
+ */
+export const FavoriteSection = ({ group, count, density, isDropTarget, onDragOver, onDrop, children }: {
+  /** Null for the favorites outside any group */
+  group: FavoriteGroup | null;
+  count: number;
+  density: DashboardDensity;
+  isDropTarget: boolean;
+  /** Undefined while favorites can't be moved */
+  onDragOver?: () => void;
+  onDrop: () => void;
+  children: React.ReactNode;
+}) => {
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const listId = useId();
+  const [name, setName] = useState<string | null>(null); // null when not renaming
+
+  const handleFinishRename = () => {
+    if (group && name !== null) {
+      dispatch(groupRenamed({ id: group.id, name }));
+      setName(null);
+    }
+  };
+
+  return (
+    <section
+      aria-label={group?.name}
+      onDragOver={(e) => {
+        if (onDragOver) {
+          e.preventDefault();
+          onDragOver();
+        }
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      className={`rounded-lg transition-shadow ${group ? 'mt-8' : ''} ${
+        isDropTarget ? 'ring-2 ring-blue-400 ring-offset-4 ring-offset-canvas' : ''
+      }`}
+    >
+      {group && (
+        <div className="flex items-center gap-3 mb-4 group">
+          {name !== null ? (
+            <input
+              autoFocus
+              aria-label={t('group.newName', { name: group.name })}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={handleFinishRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleFinishRename();
+                if (e.key === 'Escape') setName(null);
+              }}
+              className="px-2 py-1 bg-raised text-fg border border-line-strong rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          ) : (
+            <h2>
+              <button
+                onClick={() => dispatch(groupToggled(group.id))}
+                aria-expanded={!group.collapsed}
+                aria-controls={listId}
+                className="flex items-center gap-2 text-xl font-semibold text-fg hover:text-blue-300 light:hover:text-blue-700"
+              >
+                {group.collapsed ? <ChevronRight size={20} className="rtl:rotate-180" /> : <ChevronDown size={20} />}
+                {group.name}{' '}
+                <span className="text-sm font-normal text-muted">({count})</span>
+              </button>
+            </h2>
+          )}
+          <div className="flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            <button
+              onClick={() => setName(group.name)}
+              aria-label={t('group.rename', { name: group.name })}
+              className="text-subtle hover:text-blue-400 light:hover:text-blue-600"
+            >
+              <Pencil size={16} />
+            </button>
+            <button
+              onClick={() => dispatch(groupRemoved(group.id))}
+              aria-label={t('group.remove', { name: group.name })}
+              title={t('group.removeHint')}
+              className="text-subtle hover:text-red-500"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+      {!group?.collapsed && (
+        <div id={listId} className={LAYOUTS[density]}>
+          {children}
+          {group && count === 0 && (
+            <p className="p-6 text-sm text-muted border border-dashed border-line rounded-lg">
+              {t('group.empty', { name: group.name })}
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from '../i18n';
+import { useFormatter } from '../routing';
+import { useOnlineStatus } from '../shared';
+import { useAppSelector } from '../store/hooks';
+import { HOURLY_REQUEST_BUDGET, HOUR_MS, refreshBlockedUntil } from '../store/slices/providerHealth';
+
+/**
+ * Header pill with provider request volume and health
+ */
+export const ProviderHealthIndicator = () => {
+  const health = useAppSelector((state) => state.providerHealth);
+  const isOnline = useOnlineStatus();
+  const format = useFormatter();
+  const { t } = useTranslation();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const requestCount = health.recentRequests.filter(time => time > now - HOUR_MS).length;
+  const blockedUntil = refreshBlockedUntil(health, now);
+  const budget = HOURLY_REQUEST_BUDGET === null ? '' : `/${format.number(HOURLY_REQUEST_BUDGET)}`;
+  const requests = `${format.number(requestCount)}${budget}`;
+
+  let status: { label: string; dot: string };
+  if (!isOnline) {
+    status = { label: t('health.offline'), dot: 'bg-gray-400' };
+  } else if (health.backoffUntil > now) {
+    status = {
+      label: t(health.lastErrorStatus === 429 ? 'health.rateLimited' : 'health.providerErrors', {
+        time: format.time(blockedUntil / 1000),
+      }),
+      dot: 'bg-orange-500',
+    };
+  } else if (blockedUntil > now) {
+    status = { label: t('health.budgetUsed', { time: format.time(blockedUntil / 1000) }), dot: 'bg-yellow-400' };
+  } else {
+    status = { label: t('health.healthy'), dot: 'bg-green-500' };
+  }
+
+  return (
+    <div
+      title={t('health.requests', { requests })}
+      className="flex items-center gap-2 px-3 py-2 bg-surface rounded-lg text-sm text-fg-soft whitespace-nowrap"
+    >
+      <span className={`w-2 h-2 rounded-full ${status.dot}`} />
+      <span>{status.label}</span>
+      <span className="text-subtle">{t('health.perHour', { requests })}</span>
+    </div>
+  );
+};
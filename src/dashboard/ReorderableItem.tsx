@@ -0,0 +1,78 @@
+import React from 'react';
+import { GripVertical } from 'lucide-react';
+import { useTranslation } from '../i18n';
+
+/**
+ * Wraps a dashboard card or row so it can be dragged to a new place, or
+ * moved with the arrow keys from its handle
+ */
+export const ReorderableItem = ({
+  id, label, enabled, isDragging, isDropTarget, onDragStart, onDragEnd, onDragOver, onDrop, onMove, children,
+}: {
+  id: string;
+  label: string;
+  /** Off while the dashboard is sorted */
+  enabled: boolean;
+  isDragging: boolean;
+  /** Another favorite is being dragged over this one */
+  isDropTarget: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  /** One place back (-1) or forward (1) */
+  onMove: (step: -1 | 1) => void;
+  children: React.ReactNode;
+}) => {
+  const { t } = useTranslation();
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Right-to-left layouts run the other way
+    const [back, forward] = document.dir === 'rtl' ? ['ArrowRight', 'ArrowLeft'] : ['ArrowLeft', 'ArrowRight'];
+    const step = e.key === 'ArrowUp' || e.key === back ? -1 : e.key === 'ArrowDown' || e.key === forward ? 1 : 0;
+    if (step !== 0) {
+      e.preventDefault();
+      onMove(step);
+    }
+  };
+
+  return (
+    <div
+      draggable={enabled}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', label);
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      onDragOver={(e) => {
+        if (enabled) {
+          e.preventDefault(); // Allows the drop
+          e.stopPropagation(); // The item takes the drop, not its section
+          onDragOver();
+        }
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onDrop();
+      }}
+      className={`relative group/item rounded-lg ${isDragging ? 'opacity-50' : ''} ${
+        isDropTarget ? 'ring-2 ring-blue-400 ring-offset-2 ring-offset-canvas' : ''
+      }`}
+    >
+      {children}
+      {enabled && (
+        <button
+          data-reorder-handle={id}
+          onKeyDown={handleKeyDown}
+          aria-label={t('reorder.label', { name: label })}
+          title={t('reorder.hint')}
+          className="absolute top-2 start-2 p-1 text-subtle hover:text-blue-400 light:hover:text-blue-600 cursor-grab opacity-0 group-hover/item:opacity-100 focus:opacity-100 transition-opacity"
+        >
+          <GripVertical size={16} />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { FolderPlus, LayoutGrid, List } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { groupAdded } from '../store/slices/favorites';
+import { setDashboardView } from '../store/slices/settings';
+import type { DashboardDensity, DashboardSort } from '../store/slices/settings';
+import { SORT_OPTIONS } from './sorting';
+
+const DENSITIES: { value: DashboardDensity; label: MessageKey; Icon: LucideIcon }[] = [
+  { value: 'cards', label: 'view.cards', Icon: LayoutGrid },
+  { value: 'list', label: 'view.list', Icon: List },
+];
+
+/**
+ * Dashboard toolbar controls: sort order, card or list density, and adding a group
+ */
+export const ViewControls = () => {
+  const { sort, density } = useAppSelector((state) => state.settings.dashboard);
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const [groupName, setGroupName] = useState<string | null>(null); // null when not adding
+
+  const handleAddGroup = () => {
+    if (groupName?.trim()) {
+      dispatch(groupAdded(groupName));
+    }
+    setGroupName(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <label className="flex items-center gap-2 text-sm text-muted">
+        {t('view.sort')}
+        <select
+          value={sort}
+          onChange={(e) => dispatch(setDashboardView({ sort: e.target.value as DashboardSort }))}
+          className="px-2 py-2 bg-raised text-fg border border-line-strong rounded-lg"
+        >
+          {SORT_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{t(label)}</option>)}
+        </select>
+      </label>
+      <div role="group" aria-label={t('view.layout')} className="flex bg-raised rounded-lg p-1">
+        {DENSITIES.map(({ value, label, Icon }) => (
+          <button
+            key={value}
+            onClick={() => dispatch(setDashboardView({ density: value }))}
+            aria-label={t(label)}
+            aria-pressed={density === value}
+            title={t(label)}
+            className={`p-1.5 rounded-md transition-colors ${
+              density === value ? 'bg-blue-600 text-white' : 'text-fg-soft hover:text-fg'
+            }`}
+          >
+            <Icon size={18} />
+          </button>
+        ))}
+      </div>
+      {groupName !== null ? (
+        <input
+          autoFocus
+          aria-label={t('view.newGroupName')}
+          placeholder={t('view.newGroupPlaceholder')}
+          value={groupName}
+          onChange={(e) => setGroupName(e.target.value)}
+          onBlur={handleAddGroup}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur(); // Adds it, once
+            if (e.key === 'Escape') setGroupName(null);
+          }}
+          className="px-2 py-2 bg-raised text-fg border border-line-strong rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      ) : (
+        <button
+          onClick={() => setGroupName('')}
+          className="flex items-center gap-2 px-4 py-2 bg-raised hover:bg-raised-hover rounded-lg text-fg font-medium transition-colors"
+        >
+          <FolderPlus size={18} /> {t('view.newGroup')}
+        </button>
+      )}
+    </div>
+  );
+};
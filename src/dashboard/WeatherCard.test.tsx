@@ -0,0 +1,70 @@
+import { screen } from '@testing-library/react';
+import { http, HttpResponse } from 'msw';
+import { describe, expect, it, vi } from 'vitest';
+import { renderWithProviders } from '../test/renderWithProviders';
+import { forecastResponse } from '../test/fixtures';
+import { server, WEATHER_API } from '../test/server';
+import { DEFAULT_UNITS } from '../weather/units';
+import type { Locale } from '../i18n';
+import { WeatherCard } from './WeatherCard';
+
+const london = {
+  id: '2801268', name: 'London', region: 'City of London, Greater London', country: 'United Kingdom', lat: 51.52, lon: -0.11,
+};
+
+const renderCard = (locale: Locale = 'en') => renderWithProviders(<WeatherCard favorite={london} onClick={vi.fn()} />, {
+  preloadedState: { settings: { units: DEFAULT_UNITS, dashboard: { sort: 'manual', density: 'cards' }, theme: 'dark', locale, accuracyRetentionDays: 90 } },
+});
+
+describe('WeatherCard', () => {
+  it('shows a spinner while the forecast loads', () => {
+    const { container } = renderCard();
+    expect(container.querySelector('.animate-spin')).toBeInTheDocument();
+  });
+
+  it('shows the current conditions once loaded', async () => {
+    server.use(
+      http.get(`${WEATHER_API}/forecast.json`, () => HttpResponse.json(forecastResponse({ tempC: 21 }))),
+    );
+    renderCard();
+
+    expect(await screen.findByText('London')).toBeInTheDocument();
+    expect(screen.getByText('21°')).toBeInTheDocument();
+    expect(screen.getByText('Partly cloudy')).toBeInTheDocument();
+  });
+
+  it('explains a response it cannot read', async () => {
+    server.use(
+      http.get(`${WEATHER_API}/forecast.json`, () => HttpResponse.json({ location: {} })),
+    );
+    renderCard();
+
+    expect(await screen.findByText("The weather service sent data we couldn't read.")).toBeInTheDocument();
+  });
+
+  it('explains a failed request and offers to remove the city', async () => {
+    server.use(
+      http.get(`${WEATHER_API}/forecast.json`, () => new HttpResponse(null, { status: 500 })),
+    );
+    renderCard();
+
+    expect(await screen.findByText('Could not load data for London.')).toBeInTheDocument();
+    expect(screen.getByText('The weather service returned an error (500).')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Remove' })).toBeInTheDocument();
+  });
+
+  it('asks for conditions in the chosen language and shows the interface in it', async () => {
+    let lang: string | null = null;
+    server.use(
+      http.get(`${WEATHER_API}/forecast.json`, ({ request }) => {
+        lang = new URL(request.url).searchParams.get('lang');
+        return HttpResponse.json(forecastResponse({ tempC: -0.4 }));
+      }),
+    );
+    renderCard('fr');
+
+    expect(await screen.findByText('0°')).toBeInTheDocument();
+    expect(lang).toBe('fr');
+    expect(screen.getByRole('button', { name: 'Retirer London' })).toBeInTheDocument();
+  });
+});
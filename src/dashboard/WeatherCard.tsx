@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Droplet, Pencil, Wind, X } from 'lucide-react';
+import { BestTimeHint } from '../activities';
+import { AlertBadge } from '../alerts';
+import { ExportMenu } from '../export';
+import { useTranslation } from '../i18n';
+import { useFormatter } from '../routing';
+import { conditionBackdrop, describeForecastError, Spinner, StaleBadge, WeatherIcon } from '../shared';
+import { useAppDispatch } from '../store/hooks';
+import { favoriteLabel, removeFavorite, renameFavorite } from '../store/slices/favorites';
+import type { FavoriteLocation } from '../store/slices/favorites';
+import { useGetForecastQuery } from '../weather/api';
+import { AqiChip } from './AqiChip';
+
+/**
+ * Summary card for the main dashboard
+ */
+export const WeatherCard = ({ favorite, onClick, selected = false }: {
+  favorite: FavoriteLocation;
+  onClick: () => void;
+  /** Highlighted while picking cities to compare */
+  selected?: boolean;
+}) => {
+  // Kept fresh by the refresh scheduler, faster for cities with notification rules
+  const { data, error, isLoading } = useGetForecastQuery({ lat: favorite.lat, lon: favorite.lon });
+  const format = useFormatter();
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const [nickname, setNickname] = useState<string | null>(null); // null when not renaming
+
+  const handleRemove = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent modal from opening
+    dispatch(removeFavorite(favorite.id));
+  };
+
+  const handleStartRename = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setNickname(favorite.nickname ?? '');
+  };
+
+  const handleFinishRename = () => {
+    if (nickname !== null) {
+      dispatch(renameFavorite({ id: favorite.id, nickname }));
+      setNickname(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 bg-surface rounded-lg shadow-lg flex justify-center items-center min-h-[180px]">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="p-6 bg-surface rounded-lg shadow-lg text-red-400 light:text-red-600">
+        <p>{t('card.loadFailed', { name: favoriteLabel(favorite) })}</p>
+        <p className="mt-1 text-sm text-muted">{describeForecastError(error, t)}</p>
+        <button
+          onClick={handleRemove}
+          className="mt-2 text-xs text-red-400 light:text-red-600 hover:text-red-300 light:hover:text-red-700"
+        >
+          {t('common.remove')}
+        </button>
+      </div>
+    );
+  }
+
+  const { current } = data;
+
+  return (
+    <div
+      onClick={onClick}
+      className={`p-6 bg-surface ${conditionBackdrop(current.condition, current.isDay)} rounded-lg shadow-lg ${
+        selected ? 'ring-2 ring-blue-500' : ''
+      } cursor-pointer hover:bg-raised transition-colors group`}
+    >
+      <div className="flex justify-between items-start">
+        <div>
+          {nickname !== null ? (
+            <input
+              autoFocus
+              aria-label={t('card.nicknameFor', { name: favorite.name })}
+              value={nickname}
+              onChange={(e) => setNickname(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={handleFinishRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleFinishRename();
+                if (e.key === 'Escape') setNickname(null);
+              }}
+              placeholder={favorite.name}
+              className="px-2 py-1 bg-raised text-fg border border-line-strong rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          ) : (
+            <h3 className="flex items-center gap-2 text-xl font-bold text-fg">
+              {favoriteLabel(favorite)}
+              <AlertBadge alerts={data.alerts} />
+            </h3>
+          )}
+          <p className="text-sm text-muted">
+            {[favorite.nickname && favorite.name, favorite.region, favorite.country].filter(Boolean).join(', ')}
+          </p>
+          {data.stale && <p className="mt-1"><StaleBadge forecast={data} format={format} /></p>}
+        </div>
+        <div className="flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          <ExportMenu forecast={data} label={favoriteLabel(favorite)} />
+          <button
+            onClick={handleStartRename}
+            aria-label={t('card.rename', { name: favoriteLabel(favorite) })}
+            className="text-subtle hover:text-blue-400 light:hover:text-blue-600"
+          >
+            <Pencil size={16} />
+          </button>
+          <button
+            onClick={handleRemove}
+            aria-label={t('card.remove', { name: favoriteLabel(favorite) })}
+            className="text-subtle hover:text-red-500"
+          >
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+      
+      <div className="flex items-center justify-between mt-4">
+        <div className="flex items-center">
+          <WeatherIcon condition={current.condition} isDay={current.isDay} className="w-16 h-16" />
+          <div className="ms-3">
+            <span className="text-4xl font-thin text-fg">{format.temperature(current.tempC)}</span>
+            <span className="text-xl text-muted">{format.temperatureUnit}</span>
+          </div>
+        </div>
+        <div className="text-end text-sm text-fg-soft">
+          <p>{current.condition.text}</p>
+          <p className="flex items-center justify-end gap-1"><Droplet size={14} /> {format.percent(current.humidity)}</p>
+          <p className="flex items-center justify-end gap-1"><Wind size={14} /> {format.wind(current.windKph)}</p>
+          <p className="mt-1"><AqiChip airQuality={current.airQuality} /></p>
+        </div>
+      </div>
+      <div className="mt-3">
+        <BestTimeHint forecast={data} format={format} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { http, HttpResponse } from 'msw';
+import { describe, expect, it } from 'vitest';
+import AppRoutes from '../AppRoutes';
+import { renderWithProviders } from '../test/renderWithProviders';
+import { forecastResponse } from '../test/fixtures';
+import { server, WEATHER_API } from '../test/server';
+
+const london = {
+  id: '2801268', name: 'London', region: 'City of London, Greater London', country: 'United Kingdom', lat: 51.52, lon: -0.11,
+};
+const paris = { id: '2802985', name: 'Paris', region: 'Ile-de-France', country: 'France', lat: 48.87, lon: 2.33 };
+
+/**
+ * The provider doesn't know London any more; every other city loads
+ */
+const failLondon = () => server.use(
+  http.get(`${WEATHER_API}/forecast.json`, ({ request }) => {
+    const q = new URL(request.url).searchParams.get('q');
+    return q === `${london.lat},${london.lon}`
+      ? HttpResponse.json({ error: { code: 1006, message: 'No matching location found.' } }, { status: 400 })
+      : HttpResponse.json(forecastResponse({ name: paris.name, lat: paris.lat, lon: paris.lon }));
+  }),
+);
+
+const renderDashboard = (route: string) => renderWithProviders(<AppRoutes />, {
+  route,
+  preloadedState: { favorites: { locations: [london, paris], groups: [], legacyNames: [] } },
+});
+
+describe('WeatherDashboard', () => {
+  it('offers to remove a favorite that no longer loads, then returns to the dashboard', async () => {
+    failLondon();
+    const user = userEvent.setup();
+    const { store } = renderDashboard(`/city/${london.id}`);
+
+    expect(await screen.findByText('No weather for London')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Remove from favorites' }));
+
+    expect(store.getState().favorites.locations).toEqual([paris]);
+    await waitFor(() => expect(screen.queryByText('No weather for London')).not.toBeInTheDocument());
+    expect(await screen.findByRole('heading', { name: 'Paris' })).toBeInTheDocument();
+    expect(screen.queryByText(/London/)).not.toBeInTheDocument();
+  });
+
+  it('keeps a failing favorite until the user removes it', async () => {
+    failLondon();
+    const { store } = renderDashboard(`/city/${london.id}`);
+
+    expect(await screen.findByText('No weather for London')).toBeInTheDocument();
+    expect(store.getState().favorites.locations).toEqual([london, paris]);
+  });
+
+  it("doesn't offer removal for a shared city that isn't a favorite", async () => {
+    failLondon();
+    renderWithProviders(<AppRoutes />, {
+      route: `/city/somewhere?lat=${london.lat}&lon=${london.lon}`,
+      preloadedState: { favorites: { locations: [paris], groups: [], legacyNames: [] } },
+    });
+
+    expect(await screen.findByText('No weather for this location')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Remove from favorites' })).not.toBeInTheDocument();
+  });
+
+  it('opens a city as a dialog that closes with Escape', async () => {
+    const user = userEvent.setup();
+    renderDashboard(`/city/${paris.id}?lat=${paris.lat}&lon=${paris.lon}`);
+
+    expect(await screen.findByRole('dialog', { name: /Paris/ })).toBeInTheDocument();
+    await user.keyboard('{Escape}');
+
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+  });
+
+  it('shows the heat index on a hot day, and no wind chill', async () => {
+    server.use(http.get(`${WEATHER_API}/forecast.json`, () =>
+      HttpResponse.json(forecastResponse({ name: paris.name, lat: paris.lat, lon: paris.lon, tempC: 32 }))));
+    renderDashboard(`/city/${paris.id}?lat=${paris.lat}&lon=${paris.lon}`);
+
+    expect(await screen.findByText('Heat Index')).toBeInTheDocument();
+    expect(screen.queryByText('Wind Chill')).not.toBeInTheDocument();
+  });
+
+  it('limits the forecast range to the days the provider returns', async () => {
+    const futureRequests: string[] = [];
+    server.use(
+      // WeatherAPI.com's free plan answers a 14-day request with 3 days
+      http.get(`${WEATHER_API}/forecast.json`, () =>
+        HttpResponse.json(forecastResponse({ name: paris.name, lat: paris.lat, lon: paris.lon, days: 3 }))),
+      http.get(`${WEATHER_API}/future.json`, ({ request }) => {
+        futureRequests.push(request.url);
+        return HttpResponse.json({ error: { code: 2008, message: 'Not available on your plan.' } }, { status: 403 });
+      }),
+    );
+    renderDashboard(`/city/${paris.id}?lat=${paris.lat}&lon=${paris.lon}&days=30`);
+
+    expect(await screen.findByText('3-Day Trend')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '3 days' })).toHaveAttribute('aria-pressed', 'true');
+    ['7 days', '14 days', '30 days'].forEach((name) => expect(screen.getByRole('button', { name })).toBeDisabled());
+    expect(screen.getByText(
+      "This weather service only gives 3 days of forecast here, so longer ranges aren't available."
+    )).toBeInTheDocument();
+    expect(futureRequests).toEqual([]);
+  });
+
+  it('explains a weather proxy without an API key instead of showing the dashboard', async () => {
+    server.use(
+      http.get(`${WEATHER_API}/forecast.json`, () => HttpResponse.json(
+        { error: { code: 'not_configured', message: 'The weather proxy has no WEATHER_API_KEY.' } },
+        { status: 503 },
+      )),
+    );
+    renderDashboard('/');
+
+    expect(await screen.findByRole('heading', { name: "The weather service isn't set up" })).toBeInTheDocument();
+    expect(screen.getByText(/no WeatherAPI.com key/)).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Paris' })).not.toBeInTheDocument();
+  });
+});
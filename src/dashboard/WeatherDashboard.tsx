@@ -0,0 +1,62 @@
+import { Link, Outlet } from 'react-router-dom';
+import { NotificationToasts } from '../alerts';
+import { useAppliedLocale, useTranslation } from '../i18n';
+import { AccountMenu } from '../cloud/AccountMenu';
+import { UpdatePrompt } from '../pwa';
+import { SearchBar } from '../search';
+import { SettingsComponent, useAppliedTheme } from '../settings';
+import { useOnlineStatus } from '../shared';
+import { useAppSelector } from '../store/hooks';
+import { ConfigurationError } from './ConfigurationError';
+import { ProviderHealthIndicator } from './ProviderHealthIndicator';
+
+/**
+ * Header, page content and in-app notifications shared by every route
+ */
+export function WeatherDashboard() {
+  const isOnline = useOnlineStatus();
+  const { t } = useTranslation();
+  const configurationError = useAppSelector((state) => state.providerHealth.configurationError);
+  useAppliedTheme();
+  useAppliedLocale();
+
+  if (configurationError) {
+    return (
+      <div className="min-h-screen bg-canvas text-fg p-6 sm:p-8">
+        <ConfigurationError code={configurationError} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-canvas text-fg p-6 sm:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <header className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-8">
+          <Link to="/" className="text-3xl font-bold text-fg">{t('app.title')}</Link>
+          <div className="flex items-center gap-4 w-full sm:w-auto">
+            <SearchBar />
+            <ProviderHealthIndicator />
+            <SettingsComponent />
+            <AccountMenu />
+          </div>
+        </header>
+
+        {!isOnline && (
+          <div className="mb-6 px-4 py-3 bg-yellow-900 light:bg-yellow-100 bg-opacity-50 border border-yellow-700 light:border-yellow-400 rounded-lg text-yellow-200 light:text-yellow-800">
+            {t('app.offline')}
+          </div>
+        )}
+
+        {/* Main Content */}
+        <main>
+          <Outlet />
+        </main>
+      </div>
+
+      {/* In-app notifications */}
+      <NotificationToasts />
+      <UpdatePrompt />
+    </div>
+  );
+}
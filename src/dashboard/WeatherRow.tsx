@@ -0,0 +1,78 @@
+import React from 'react';
+import { Clock, Umbrella, X } from 'lucide-react';
+import { BestTimeHint } from '../activities';
+import { AlertBadge } from '../alerts';
+import { useTranslation } from '../i18n';
+import { useFormatter } from '../routing';
+import { conditionBackdrop, Spinner, WeatherIcon } from '../shared';
+import { useAppDispatch } from '../store/hooks';
+import { favoriteLabel, removeFavorite } from '../store/slices/favorites';
+import type { FavoriteLocation } from '../store/slices/favorites';
+import { useGetForecastQuery } from '../weather/api';
+
+/**
+ * One line per city for the compact dashboard: temperature, today's chance
+ * of rain, the local time and the best time for the selected activity
+ */
+export const WeatherRow = ({ favorite, onClick, selected = false }: {
+  favorite: FavoriteLocation;
+  onClick: () => void;
+  /** Highlighted while picking cities to compare */
+  selected?: boolean;
+}) => {
+  const { data, error, isLoading } = useGetForecastQuery({ lat: favorite.lat, lon: favorite.lon });
+  const format = useFormatter();
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const label = favoriteLabel(favorite);
+
+  const handleRemove = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent modal from opening
+    dispatch(removeFavorite(favorite.id));
+  };
+
+  return (
+    <div
+      onClick={onClick}
+      className={`flex items-center gap-4 min-h-14 ps-10 pe-4 py-2 bg-surface ${
+        data ? conditionBackdrop(data.current.condition, data.current.isDay) : ''
+      } rounded-lg shadow cursor-pointer hover:bg-raised transition-colors group ${selected ? 'ring-2 ring-blue-500' : ''}`}
+    >
+      <div className="flex-1 min-w-0">
+        <h3 className="flex items-center gap-2 font-semibold text-fg truncate">
+          {label}
+          {data && <AlertBadge alerts={data.alerts} />}
+        </h3>
+        <p className="text-xs text-muted truncate">
+          {[favorite.nickname && favorite.name, favorite.region, favorite.country].filter(Boolean).join(', ')}
+        </p>
+      </div>
+      {isLoading ? (
+        <Spinner />
+      ) : error || !data ? (
+        <p className="text-sm text-red-400 light:text-red-600">{t('row.loadFailed')}</p>
+      ) : (
+        <>
+          <WeatherIcon condition={data.current.condition} isDay={data.current.isDay} className="w-8 h-8" />
+          <span className="w-14 text-2xl font-thin text-fg">{format.temperature(data.current.tempC)}</span>
+          <span className="hidden sm:flex items-center gap-1 w-16 text-sm text-fg-soft" title={t('row.chanceOfRainToday')}>
+            <Umbrella size={14} /> {format.percent(data.days[0]?.chanceOfRain ?? 0)}
+          </span>
+          <span className="hidden md:flex items-center gap-1 w-24 text-sm text-fg-soft" title={t('row.localTime')}>
+            <Clock size={14} /> {format.hour(Date.now() / 1000, data.location.utcOffsetSeconds)}
+          </span>
+          <span className="hidden lg:flex w-36">
+            <BestTimeHint forecast={data} format={format} compact />
+          </span>
+        </>
+      )}
+      <button
+        onClick={handleRemove}
+        aria-label={t('card.remove', { name: label })}
+        className="text-subtle hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+      >
+        <X size={18} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,3 @@
+export { WeatherDashboard } from './WeatherDashboard';
+export { Dashboard } from './Dashboard';
+export { WeatherCard } from './WeatherCard';
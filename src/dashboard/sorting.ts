@@ -0,0 +1,50 @@
+import type { MessageKey } from '../i18n';
+import { favoriteLabel } from '../store/slices/favorites';
+import type { FavoriteLocation } from '../store/slices/favorites';
+import type { DashboardSort } from '../store/slices/settings';
+import type { Forecast } from '../weather/types';
+
+export const SORT_OPTIONS: { value: DashboardSort; label: MessageKey }[] = [
+  { value: 'manual', label: 'sort.manual' },
+  { value: 'name', label: 'sort.name' },
+  { value: 'temperature', label: 'sort.temperature' },
+  { value: 'chanceOfRain', label: 'sort.chanceOfRain' },
+  { value: 'localTime', label: 'sort.localTime' },
+];
+
+/**
+ * What each forecast-based sort compares; lower sorts first
+ */
+const SORT_KEYS: Record<Exclude<DashboardSort, 'manual' | 'name'>, (forecast: Forecast) => number> = {
+  temperature: (forecast) => -forecast.current.tempC,
+  chanceOfRain: (forecast) => -(forecast.days[0]?.chanceOfRain ?? 0),
+  // Cities further west are earlier in their day
+  localTime: (forecast) => forecast.location.utcOffsetSeconds,
+};
+
+/**
+ * Favorites in the chosen order. Ties, and cities still loading (which go
+ * last), keep the custom order.
+ */
+export const sortFavorites = (
+  favorites: FavoriteLocation[],
+  sort: DashboardSort,
+  forecastFor: (favorite: FavoriteLocation) => Forecast | undefined,
+  locale?: string
+): FavoriteLocation[] => {
+  if (sort === 'manual') {
+    return favorites;
+  }
+  if (sort === 'name') {
+    return [...favorites].sort((a, b) => favoriteLabel(a).localeCompare(favoriteLabel(b), locale));
+  }
+  const key = SORT_KEYS[sort];
+  const keyFor = (favorite: FavoriteLocation) => {
+    const forecast = forecastFor(favorite);
+    return forecast ? key(forecast) : Infinity;
+  };
+  return [...favorites].sort((a, b) => {
+    const difference = keyFor(a) - keyFor(b);
+    return Number.isNaN(difference) ? 0 : difference;
+  });
+};
@@ -0,0 +1,46 @@
+import { useTranslation } from '../i18n';
+import { POLLUTANTS, defraBand, pollutantIndex, usEpaBand } from '../weather/airQuality';
+import type { AirQuality } from '../weather/types';
+
+/**
+ * Current air quality: both indices plus each pollutant in its DEFRA band
+ */
+export const AirQualitySection = ({ airQuality }: { airQuality: AirQuality }) => {
+  const { t } = useTranslation();
+  const epa = usEpaBand(airQuality.usEpaIndex);
+  const defra = defraBand(airQuality.gbDefraIndex);
+
+  return (
+    <div className="p-6 space-y-4 border-b border-line">
+      <h3 className="text-xl font-semibold text-fg">{t('airQuality.title')}</h3>
+      <div className="flex flex-wrap gap-3">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted">US EPA</span>
+          <span className={`px-2 py-0.5 rounded-full text-sm font-semibold ${epa.className}`}>
+            {airQuality.usEpaIndex} · {t(`aqi.epa.${epa.category}`)}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted">UK DEFRA</span>
+          <span className={`px-2 py-0.5 rounded-full text-sm font-semibold ${defra.className}`}>
+            {airQuality.gbDefraIndex} · {t(`aqi.defra.${defra.category}`)}
+          </span>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {POLLUTANTS.map(({ key, label }) => {
+          const band = defraBand(pollutantIndex(key, airQuality[key]));
+          return (
+            <div key={key} className="flex items-center justify-between p-3 bg-surface rounded-lg">
+              <div>
+                <p className="text-sm text-muted">{label}</p>
+                <p className="font-semibold">{airQuality[key]} <span className="text-xs text-muted">µg/m³</span></p>
+              </div>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${band.className}`}>{t(`aqi.defra.${band.category}`)}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import { useId } from 'react';
+import { Moon, Sun, Sunrise, Sunset } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import type { Translate } from '../i18n';
+import { localDayStart, moonInfo, sunAltitude, sunTimes } from '../weather/astronomy';
+import type { SunTimes } from '../weather/astronomy';
+import type { DailyForecast, ForecastLocation } from '../weather/types';
+import type { Formatter } from '../weather/units';
+
+const DAY = 24 * 3600;
+
+// Sun path drawing, in viewBox units
+const WIDTH = 240;
+const HEIGHT = 100;
+const HORIZON = 62;
+const SAMPLE_MINUTES = 20;
+
+/** "12 h 5 min" */
+const duration = (seconds: number, t: Translate) => {
+  const minutes = Math.round(seconds / 60);
+  return t('astro.duration', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+};
+
+/** How much longer or shorter today is, e.g. "2 min 31 s longer than yesterday" */
+const dayLengthChange = (today: SunTimes, yesterday: SunTimes, t: Translate) => {
+  const change = Math.round(today.dayLength - yesterday.dayLength);
+  if (change === 0) {
+    return t('astro.same');
+  }
+  const size = Math.abs(change);
+  const value = t('astro.change', { minutes: Math.floor(size / 60), seconds: size % 60 });
+  return change > 0 ? t('astro.longer', { value }) : t('astro.shorter', { value });
+};
+
+/**
+ * The sun's altitude across the local day, with the horizon and where the
+ * sun is now
+ */
+const SunPath = ({ dayStart, location, now, format }: {
+  dayStart: number;
+  location: ForecastLocation;
+  now: number;
+  format: Formatter;
+}) => {
+  const { t } = useTranslation();
+  const clipId = useId();
+  const samples = Array.from({ length: (24 * 60) / SAMPLE_MINUTES + 1 }, (_, i) => {
+    const time = dayStart + i * SAMPLE_MINUTES * 60;
+    return { time, altitude: sunAltitude(time, location.lat, location.lon) };
+  });
+  // The highest point reaches near the top; low winter suns still read as an arc
+  const scale = (HORIZON - 8) / Math.max(15, ...samples.map((sample) => sample.altitude));
+  const x = (time: number) => ((time - dayStart) / DAY) * WIDTH;
+  const y = (altitude: number) => Math.min(HEIGHT - 2, HORIZON - altitude * scale);
+  const curve = samples.map((sample, i) => `${i === 0 ? 'M' : 'L'}${x(sample.time).toFixed(1)},${y(sample.altitude).toFixed(1)}`).join(' ');
+  const isToday = now >= dayStart && now < dayStart + DAY;
+  const altitude = sunAltitude(now, location.lat, location.lon);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-28"
+      role="img"
+      aria-label={isToday ? t('astro.sunNow', { degrees: format.number(altitude, 0) }) : t('astro.sunPath')}
+    >
+      <clipPath id={clipId}>
+        <rect x="0" y="0" width={WIDTH} height={HORIZON} />
+      </clipPath>
+      <path d={`${curve} L${WIDTH},${HORIZON} L0,${HORIZON} Z`} className="fill-amber-400/20" clipPath={`url(#${clipId})`} />
+      <path d={curve} fill="none" className="stroke-amber-400" strokeWidth="1.5" />
+      <line x1="0" y1={HORIZON} x2={WIDTH} y2={HORIZON} className="stroke-muted" strokeWidth="1" strokeDasharray="3 3" />
+      {isToday && (
+        <circle cx={x(now)} cy={y(altitude)} r="5" className={altitude > 0 ? 'fill-amber-300' : 'fill-slate-400'} />
+      )}
+    </svg>
+  );
+};
+
+/**
+ * The moon's lit part, as seen from the location's hemisphere
+ */
+const MoonDisc = ({ cycle, illumination, southern }: { cycle: number; illumination: number; southern: boolean }) => {
+  const r = 20;
+  // Waxing moons are lit on the right in the northern hemisphere
+  const litRight = (cycle < 0.5) !== southern;
+  const terminator = Math.abs(2 * illumination - 1) * r;
+  const gibbous = illumination > 0.5;
+  const outerSweep = litRight ? 1 : 0;
+  const innerSweep = litRight === gibbous ? 1 : 0;
+
+  return (
+    <svg viewBox="-22 -22 44 44" className="w-12 h-12 shrink-0" aria-hidden="true">
+      <circle r={r} className="fill-slate-700 light:fill-slate-300" />
+      <path
+        d={`M0,${-r} A${r},${r} 0 0 ${outerSweep} 0,${r} A${terminator},${r} 0 0 ${innerSweep} 0,${-r} Z`}
+        className="fill-slate-100 light:fill-amber-100 stroke-slate-400"
+        strokeWidth="0.5"
+      />
+    </svg>
+  );
+};
+
+const Row = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex justify-between gap-4">
+    <dt className="text-muted">{label}</dt>
+    <dd className="font-semibold">{value}</dd>
+  </div>
+);
+
+/**
+ * Sun and moon for the location's today: day length, sun path, golden and
+ * blue hours, moonrise, moonset and phase. Worked out from the coordinates,
+ * with every time in the location's own time zone.
+ */
+export const AstronomySection = ({ location, today, format }: {
+  location: ForecastLocation;
+  today: DailyForecast;
+  format: Formatter;
+}) => {
+  const { t } = useTranslation();
+  const { lat, lon } = location;
+  const dayStart = localDayStart(today.date, location.utcOffsetSeconds);
+  const now = Date.now() / 1000;
+  const sun = sunTimes(dayStart, lat, lon);
+  const yesterday = sunTimes(dayStart - DAY, lat, lon);
+  const moon = moonInfo(dayStart, lat, lon, now >= dayStart && now < dayStart + DAY ? now : undefined);
+  const time = (epochSeconds: number | null) => format.zonedTime(epochSeconds, location);
+  const span = (times: { start: number; end: number } | null) =>
+    (times ? t('astro.span', { from: time(times.start), to: time(times.end) }) : '—');
+  const isPolar = sun.sunrise === null || sun.sunset === null;
+
+  return (
+    <div className="p-6 border-b border-line">
+      <h3 className="text-xl font-semibold mb-4 text-fg">{t('astro.title')}</h3>
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="p-4 bg-surface rounded-lg">
+          <p className="flex items-center gap-2 text-sm text-muted">
+            <Sun size={16} className="text-amber-400" />
+            {t('astro.dayLength')}
+          </p>
+          <p className="text-2xl font-semibold">
+            {isPolar ? t(sun.dayLength > 0 ? 'astro.polarDay' : 'astro.polarNight') : duration(sun.dayLength, t)}
+          </p>
+          <p className="text-sm text-fg-soft">{dayLengthChange(sun, yesterday, t)}</p>
+          <SunPath dayStart={dayStart} location={location} now={now} format={format} />
+        </div>
+        <dl className="p-4 bg-surface rounded-lg space-y-2 text-sm">
+          <div className="flex justify-between gap-4">
+            <dt className="flex items-center gap-2 text-muted"><Sunrise size={16} className="text-amber-400" />{t('detail.sunrise')}</dt>
+            <dd className="font-semibold">{time(sun.sunrise)}</dd>
+          </div>
+          <div className="flex justify-between gap-4">
+            <dt className="flex items-center gap-2 text-muted"><Sunset size={16} className="text-orange-400" />{t('detail.sunset')}</dt>
+            <dd className="font-semibold">{time(sun.sunset)}</dd>
+          </div>
+          <Row label={t('astro.solarNoon')} value={time(sun.solarNoon)} />
+          <Row label={t('astro.goldenMorning')} value={span(sun.goldenHour.morning)} />
+          <Row label={t('astro.goldenEvening')} value={span(sun.goldenHour.evening)} />
+          <Row label={t('astro.blueMorning')} value={span(sun.blueHour.morning)} />
+          <Row label={t('astro.blueEvening')} value={span(sun.blueHour.evening)} />
+        </dl>
+        <div className="p-4 bg-surface rounded-lg space-y-3 text-sm">
+          <div className="flex items-center gap-3">
+            <MoonDisc cycle={moon.cycle} illumination={moon.illumination} southern={lat < 0} />
+            <div>
+              <p className="text-base font-semibold">{t(`astro.phase.${moon.phase}`)}</p>
+              <p className="text-fg-soft">{t('astro.illumination', { value: format.percent(Math.round(moon.illumination * 100)) })}</p>
+            </div>
+          </div>
+          <dl className="space-y-2">
+            <div className="flex justify-between gap-4">
+              <dt className="flex items-center gap-2 text-muted"><Moon size={16} className="text-slate-300" />{t('astro.moonrise')}</dt>
+              <dd className="font-semibold">{time(moon.rise)}</dd>
+            </div>
+            <Row label={t('astro.moonset')} value={time(moon.set)} />
+          </dl>
+        </div>
+      </div>
+    </div>
+  );
+};
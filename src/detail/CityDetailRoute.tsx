@@ -0,0 +1,44 @@
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useTranslation } from '../i18n';
+import { dashboardPath } from '../routing';
+import { Dialog, NotFound } from '../shared';
+import { useAppSelector } from '../store/hooks';
+import { DetailedViewModal } from './DetailedViewModal';
+
+/**
+ * `/city/:locationId`: a saved favorite, or any place given by `?lat=&lon=`
+ */
+export const CityDetailRoute = () => {
+  const { locationId } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const favorite = useAppSelector(
+    (state) => state.favorites.locations.find((location) => location.id === locationId)
+  );
+
+  const lat = Number(searchParams.get('lat') ?? NaN);
+  const lon = Number(searchParams.get('lon') ?? NaN);
+  const coordinates = favorite
+    ?? (Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180
+      ? { lat, lon }
+      : null);
+
+  const handleClose = () => navigate(dashboardPath(searchParams));
+
+  if (!coordinates) {
+    return (
+      <Dialog label={t('detail.cityNotFound')} onClose={handleClose}>
+        <NotFound title={t('detail.cityNotFound')} message={t('detail.cityNotFoundMessage')} />
+      </Dialog>
+    );
+  }
+
+  return (
+    <DetailedViewModal
+      coordinates={{ lat: coordinates.lat, lon: coordinates.lon }}
+      favorite={favorite}
+      onClose={handleClose}
+    />
+  );
+};
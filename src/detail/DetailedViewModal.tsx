@@ -0,0 +1,229 @@
+import { useId } from 'react';
+import { skipToken } from '@reduxjs/toolkit/query/react';
+import {
+  Droplet, Droplets, Eye, Gauge, Smile, Sun, Thermometer, ThermometerSnowflake, ThermometerSun, Wind, X,
+} from 'lucide-react';
+import { AccuracySection } from '../accuracy';
+import { ActivityPlanner, activityWindows, profileName, remainingHoursToday } from '../activities';
+import { AlertRulesPanel, AlertsSection } from '../alerts';
+import { DailyChart, HourlyChart, PollutantChart } from '../charts';
+import { ExportMenu, SnapshotFrame } from '../export';
+import { useTranslation } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { FORECAST_RANGES, useForecastRange, useFormatter } from '../routing';
+import {
+  conditionBackdrop, describeForecastError, Dialog, NotFound, Spinner, StaleBadge, WeatherIcon,
+} from '../shared';
+import { useFocusedRefresh } from '../store/forecastRefresh';
+import { useAppSelector } from '../store/hooks';
+import { selectedActivityProfile } from '../store/slices/activityProfiles';
+import { favoriteLabel } from '../store/slices/favorites';
+import type { Coordinates, FavoriteLocation } from '../store/slices/favorites';
+import { FORECAST_DAYS, useGetForecastQuery, useGetFutureQuery } from '../weather/api';
+import { hourComfort } from '../weather/comfort';
+import { addDays } from '../weather/dates';
+import { AirQualitySection } from './AirQualitySection';
+import { AstronomySection } from './AstronomySection';
+import { HistoryExplorer } from './HistoryExplorer';
+import { RemoveFavoriteButton } from './RemoveFavoriteButton';
+
+/**
+ * Detailed View Modal. `favorite` is missing when the city came from a
+ * shared link rather than the user's own favorites.
+ */
+export const DetailedViewModal = ({ coordinates, favorite, onClose }: {
+  coordinates: Coordinates;
+  favorite?: FavoriteLocation;
+  onClose: () => void;
+}) => {
+  const [range, setRange] = useForecastRange();
+  const { data, error, isLoading } = useGetForecastQuery(coordinates);
+  // Ranges past the regular forecast continue with the long-range endpoint, when the forecast came back whole
+  const extended = useGetFutureQuery(data && data.days.length >= FORECAST_DAYS && range > FORECAST_DAYS ? {
+    ...coordinates,
+    from: addDays(data.days[data.days.length - 1].date, 1),
+    to: addDays(data.days[0].date, range - 1),
+  } : skipToken);
+  // Refreshed every 60 seconds while open
+  useFocusedRefresh(coordinates);
+  const format = useFormatter();
+  const { t } = useTranslation();
+  const titleId = useId();
+  const activityProfile = useAppSelector((state) => selectedActivityProfile(state.activityProfiles));
+
+  if (isLoading) {
+    return (
+      <Dialog label={t('detail.loading')} onClose={onClose}>
+        <Spinner />
+      </Dialog>
+    );
+  }
+
+  if (error || !data) {
+    const title = favorite ? t('detail.noWeatherFor', { name: favoriteLabel(favorite) }) : t('detail.noWeather');
+    return (
+      <Dialog label={title} onClose={onClose}>
+        <NotFound title={title} message={describeForecastError(error, t)}>
+          {favorite && <RemoveFavoriteButton favorite={favorite} />}
+        </NotFound>
+      </Dialog>
+    );
+  }
+
+  const { location, current } = data;
+  const label = favorite ? favoriteLabel(favorite) : location.name;
+  const place = `${label}, ${location.country}`;
+  // Some plans forecast fewer days than asked for (WeatherAPI.com's free plan has 3); the range stops there
+  const forecastDays = data.days.length;
+  const isRangeLimited = forecastDays < FORECAST_DAYS;
+  const shownRange = isRangeLimited ? Math.min(range, forecastDays) : range;
+  const days = [...data.days, ...(extended.currentData?.days ?? [])].slice(0, shownRange);
+  // The long-range forecast failed, or only came back in part
+  const isExtensionMissing = !isRangeLimited && range > FORECAST_DAYS && !extended.isFetching && days.length < range;
+  const todayForecast = days[0];
+  // Show only hours from now onwards, across the whole range
+  const upcomingHours = days.flatMap((day) => day.hours).filter((hour) => hour.time > new Date().getTime() / 1000);
+  const todayHours = upcomingHours.filter((hour) => hour.time < todayForecast.dateEpoch + 24 * 3600);
+  const remainingToday = remainingHoursToday(data);
+  const windows = activityWindows(activityProfile, remainingToday);
+  // Current conditions, with the chance of rain of the hour under way
+  const comfort = hourComfort({ ...current, chanceOfRain: remainingToday[0]?.chanceOfRain ?? 0 });
+
+  const details: { label: MessageKey; value: string; Icon: typeof Sun }[] = [
+    { label: 'detail.feelsLike', value: format.temperature(current.feelsLikeC), Icon: Thermometer },
+    { label: 'detail.wind', value: format.wind(current.windKph), Icon: Wind },
+    { label: 'detail.humidity', value: format.percent(current.humidity), Icon: Droplet },
+    { label: 'detail.uvIndex', value: format.number(current.uv, 1), Icon: Sun },
+    { label: 'detail.dewPoint', value: format.temperature(comfort.dewPointC), Icon: Droplets },
+    // At most one of these applies: heat index when it's hot, wind chill when it's cold and windy
+    ...(comfort.heatIndexC === null ? [] : [
+      { label: 'detail.heatIndex' as const, value: format.temperature(comfort.heatIndexC), Icon: ThermometerSun },
+    ]),
+    ...(comfort.windChillC === null ? [] : [
+      { label: 'detail.windChill' as const, value: format.temperature(comfort.windChillC), Icon: ThermometerSnowflake },
+    ]),
+    { label: 'detail.comfort', value: t('detail.comfortScore', { score: comfort.score }), Icon: Smile },
+    { label: 'detail.pressure', value: current.pressureMb === null ? '—' : format.pressure(current.pressureMb), Icon: Gauge },
+    { label: 'detail.visibility', value: current.visKm === null ? '—' : format.distance(current.visKm), Icon: Eye },
+  ];
+
+  return (
+    <Dialog
+      labelledBy={titleId}
+      onClose={onClose}
+      className="relative w-full max-w-4xl max-h-[90vh] bg-canvas rounded-lg shadow-xl text-fg overflow-y-auto"
+    >
+      <ExportMenu forecast={{ ...data, days }} label={label} className="absolute top-5 end-14" />
+      <button
+        onClick={onClose}
+        aria-label={t('common.close')}
+        className="absolute top-4 end-4 text-muted hover:text-fg"
+      >
+        <X size={24} />
+      </button>
+
+      {/* Header */}
+      <div className={`p-6 border-b border-line ${conditionBackdrop(current.condition, current.isDay)}`}>
+        <h2 id={titleId} className="text-3xl font-bold">{place}</h2>
+        <p className="flex items-center gap-2 text-muted">
+          {format.localDateTime(location.localtime)}
+          <StaleBadge forecast={data} format={format} />
+        </p>
+        <div className="flex items-center mt-4">
+          <WeatherIcon condition={current.condition} isDay={current.isDay} className="w-20 h-20" />
+          <div className="ms-4">
+            <span className="text-6xl font-thin">{format.temperature(current.tempC)}</span>
+            <span className="text-2xl text-muted">{format.temperatureUnit}</span>
+          </div>
+          <div className="ms-6 text-fg-soft">
+            <p>{current.condition.text}</p>
+            <p>
+              {t('detail.highLow', {
+                high: format.temperature(todayForecast.maxTempC), low: format.temperature(todayForecast.minTempC),
+              })}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Alerts */}
+      {data.alerts.length > 0 && <AlertsSection alerts={data.alerts} format={format} />}
+
+      {/* Details Grid */}
+      <div className="p-6 grid grid-cols-2 md:grid-cols-4 gap-4 border-b border-line">
+        {details.map(({ label, value, Icon }) => (
+          <div key={label} className="flex items-center gap-3 p-3 bg-surface rounded-lg">
+            <Icon size={20} className="text-blue-400 light:text-blue-600" />
+            <div>
+              <p className="text-sm text-muted">{t(label)}</p>
+              <p className="font-semibold">{value}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Sun & Moon */}
+      <AstronomySection location={location} today={todayForecast} format={format} />
+
+      {/* Air Quality */}
+      {current.airQuality && <AirQualitySection airQuality={current.airQuality} />}
+
+      {/* Best Times for Activities */}
+      <ActivityPlanner windows={windows} utcOffsetSeconds={location.utcOffsetSeconds} format={format} />
+
+      {/* Notification Rules (only for saved cities, since rules belong to a favorite) */}
+      {favorite && <AlertRulesPanel favorite={favorite} format={format} />}
+
+      {/* Forecast Accuracy (history is only recorded for saved cities) */}
+      {favorite && (
+        <AccuracySection favoriteId={favorite.id} label={label} today={location.localtime.slice(0, 10)} format={format} />
+      )}
+
+      {/* Charts */}
+      <div className="p-6 space-y-8">
+        <div className="grid gap-8 lg:grid-cols-2">
+          <SnapshotFrame title={t('charts.hourly')} place={place}>
+            <HourlyChart
+              hourlyData={upcomingHours.length > 0 ? upcomingHours : todayForecast.hours}
+              format={format}
+              utcOffsetSeconds={location.utcOffsetSeconds}
+              highlights={{ label: profileName(activityProfile, t), spans: windows }}
+            />
+          </SnapshotFrame>
+          <PollutantChart hourlyData={todayHours.length > 0 ? todayHours : todayForecast.hours} format={format} />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted">{t('detail.range')}</span>
+          {FORECAST_RANGES.map((option) => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              disabled={isRangeLimited && option > forecastDays}
+              aria-pressed={shownRange === option}
+              className={`px-3 py-1 rounded-md text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                shownRange === option
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-raised hover:bg-raised-hover disabled:hover:bg-raised text-fg-soft'
+              }`}
+            >
+              {t('detail.days', { count: option })}
+            </button>
+          ))}
+        </div>
+        {isRangeLimited && (
+          <p className="-mt-6 text-sm text-muted">{t('detail.rangeLimited', { count: forecastDays })}</p>
+        )}
+        <SnapshotFrame title={t('charts.dailyTrend', { count: days.length })} place={place}>
+          <DailyChart dailyData={days} format={format} location={location} />
+        </SnapshotFrame>
+        {isExtensionMissing && (
+          <p className="pt-8 text-sm text-muted">
+            {t('detail.extensionMissing', { count: days.length })}
+          </p>
+        )}
+      </div>
+
+      <HistoryExplorer coordinates={coordinates} today={todayForecast} format={format} />
+    </Dialog>
+  );
+};
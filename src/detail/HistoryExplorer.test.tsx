@@ -0,0 +1,114 @@
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { http, HttpResponse } from 'msw';
+import { describe, expect, it } from 'vitest';
+import { createFormatter, DEFAULT_UNITS } from '../weather/units';
+import type { DailyForecast } from '../weather/types';
+import { dateRangeResponse } from '../test/fixtures';
+import { renderWithProviders } from '../test/renderWithProviders';
+import { server, WEATHER_API } from '../test/server';
+import { HistoryExplorer } from './HistoryExplorer';
+
+const TODAY = '2025-06-15';
+
+const today: DailyForecast = {
+  date: TODAY,
+  dateEpoch: Date.parse(TODAY) / 1000,
+  maxTempC: 25,
+  minTempC: 14,
+  maxWindKph: 20,
+  totalPrecipMm: 0,
+  chanceOfRain: 10,
+  uv: 6,
+  condition: { text: 'Sunny', code: 1000, kind: 'clear' },
+  sunrise: '04:43',
+  sunset: '21:20',
+  hours: [],
+};
+
+const format = createFormatter(DEFAULT_UNITS);
+
+/**
+ * Records the dates of every history request
+ */
+const recordHistoryRequests = () => {
+  const requests: string[] = [];
+  server.use(http.get(`${WEATHER_API}/history.json`, ({ request }) => {
+    const params = new URL(request.url).searchParams;
+    const from = params.get('dt') ?? '';
+    const to = params.get('end_dt') ?? from;
+    requests.push(`${from}..${to}`);
+    return HttpResponse.json(dateRangeResponse({ from, to, tempC: 15 }));
+  }));
+  return requests;
+};
+
+const renderExplorer = (route = '/') => renderWithProviders(
+  <HistoryExplorer coordinates={{ lat: 51.52, lon: -0.11 }} today={today} format={format} />,
+  { route }
+);
+
+describe('HistoryExplorer', () => {
+  it('charts the last week hour by hour and compares today with a year ago', async () => {
+    const requests = recordHistoryRequests();
+    renderExplorer();
+
+    expect(await screen.findByRole('heading', { name: 'Hourly History' })).toBeInTheDocument();
+    const comparison = screen.getByRole('table');
+    expect(within(comparison).getByRole('row', { name: /High/ })).toHaveTextContent('25°20°+5°');
+    expect(requests).toContain('2025-06-08..2025-06-14');
+    expect(requests).toContain('2024-06-15..2024-06-15');
+  });
+
+  it('summarizes a year by week, fetched in 30-day pieces', async () => {
+    const requests = recordHistoryRequests();
+    const user = userEvent.setup();
+    renderExplorer();
+
+    await user.click(screen.getByRole('button', { name: 'Last year' }));
+
+    expect(await screen.findByRole('heading', { name: 'Weekly Summary' })).toBeInTheDocument();
+    expect(requests).toContain('2024-06-15..2024-07-14');
+    expect(requests).toContain('2025-06-10..2025-06-14');
+    // 365 days in pieces of at most 30, next to the week and the comparison fetched first
+    expect(requests).toHaveLength(13 + 2);
+    expect(screen.getByRole('button', { name: 'Last year' })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('fetches a long range one piece at a time and keeps what loaded before a failure', async () => {
+    const user = userEvent.setup();
+    recordHistoryRequests();
+    renderExplorer();
+    expect(await screen.findByRole('heading', { name: 'Hourly History' })).toBeInTheDocument();
+
+    let inFlight = 0;
+    let mostInFlight = 0;
+    let pieces = 0;
+    server.use(http.get(`${WEATHER_API}/history.json`, async ({ request }) => {
+      inFlight += 1;
+      mostInFlight = Math.max(mostInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      pieces += 1;
+      if (pieces === 3) {
+        return HttpResponse.json({ error: { code: 9999, message: 'Try again later.' } }, { status: 429 });
+      }
+      const params = new URL(request.url).searchParams;
+      return HttpResponse.json(dateRangeResponse({ from: params.get('dt') ?? '', to: params.get('end_dt') ?? '', tempC: 15 }));
+    }));
+    await user.click(screen.getByRole('button', { name: 'Last year' }));
+
+    expect(await screen.findByText('Only the first 60 days of this range could be loaded.')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Weekly Summary' })).toBeInTheDocument();
+    expect(pieces).toBe(3);
+    expect(mostInFlight).toBe(1);
+  });
+
+  it('explains a range that runs backwards instead of fetching it', async () => {
+    const requests = recordHistoryRequests();
+    renderExplorer('/?from=2025-06-10&to=2025-06-01');
+
+    expect(await screen.findByText('The start date must come before the end date.')).toBeInTheDocument();
+    expect(requests.every((range) => range.startsWith('2024-06-15'))).toBe(true);
+  });
+});
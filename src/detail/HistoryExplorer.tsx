@@ -0,0 +1,134 @@
+import { useId } from 'react';
+import { skipToken } from '@reduxjs/toolkit/query/react';
+import { HourlyChart, SummaryChart } from '../charts';
+import { useTranslation } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { useHistoryRange } from '../routing';
+import { describeForecastError, Spinner } from '../shared';
+import type { Coordinates } from '../store/slices/favorites';
+import { useGetHistoryQuery } from '../weather/api';
+import { addDays, countDays, isIsoDate } from '../weather/dates';
+import { MAX_HISTORY_DAYS, resolutionFor, summarizePeriods } from '../weather/summaries';
+import type { DailyForecast } from '../weather/types';
+import type { Formatter } from '../weather/units';
+import { LastYearComparison } from './LastYearComparison';
+
+const PRESETS: { label: MessageKey; days: number }[] = [
+  { label: 'history.last7Days', days: 7 },
+  { label: 'history.last30Days', days: 30 },
+  { label: 'history.lastYear', days: 365 },
+];
+
+/**
+ * Past weather for a chosen span of dates. Short spans are charted hour by
+ * hour; longer ones are summarized per day or per week.
+ */
+export const HistoryExplorer = ({ coordinates, today, format }: {
+  coordinates: Coordinates;
+  /** First day of the forecast; history ends the day before */
+  today: DailyForecast;
+  format: Formatter;
+}) => {
+  const yesterday = addDays(today.date, -1);
+  const [{ from, to }, setRange] = useHistoryRange({ from: addDays(yesterday, -6), to: yesterday });
+  const headingId = useId();
+  const { t } = useTranslation();
+
+  const isComplete = isIsoDate(from) && isIsoDate(to);
+  const dayCount = isComplete ? countDays(from, to) : 0;
+  let problem: string | null = null;
+  if (!isComplete) {
+    problem = t('history.incomplete');
+  } else if (from > to) {
+    problem = t('history.reversed');
+  } else if (to > yesterday) {
+    problem = t('history.future');
+  } else if (dayCount > MAX_HISTORY_DAYS) {
+    problem = t('history.tooLong', { count: MAX_HISTORY_DAYS });
+  }
+
+  const { currentData, error, isFetching } = useGetHistoryQuery(problem ? skipToken : { ...coordinates, from, to });
+  const resolution = resolutionFor(dayCount);
+
+  const presetFor = (days: number) => ({ from: addDays(yesterday, 1 - days), to: yesterday });
+  const inputClass = 'px-2 py-1 rounded-md bg-raised text-fg border border-line-strong';
+
+  return (
+    <section aria-labelledby={headingId} className="p-6 space-y-4 border-t border-line">
+      <h3 id={headingId} className="text-xl font-semibold">{t('history.title')}</h3>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col text-sm text-muted">
+          {t('history.from')}
+          <input
+            type="date"
+            value={from}
+            max={yesterday}
+            onChange={(e) => setRange({ from: e.target.value, to })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col text-sm text-muted">
+          {t('history.to')}
+          <input
+            type="date"
+            value={to}
+            max={yesterday}
+            onChange={(e) => setRange({ from, to: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        {PRESETS.map(({ label, days }) => {
+          const preset = presetFor(days);
+          const isActive = preset.from === from && preset.to === to;
+          return (
+            <button
+              key={label}
+              onClick={() => setRange(preset)}
+              aria-pressed={isActive}
+              className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                isActive ? 'bg-blue-600 text-white' : 'bg-raised hover:bg-raised-hover text-fg-soft'
+              }`}
+            >
+              {t(label)}
+            </button>
+          );
+        })}
+      </div>
+
+      <LastYearComparison coordinates={coordinates} today={today} format={format} />
+
+      {problem ? (
+        <p className="text-yellow-300 light:text-yellow-700">{problem}</p>
+      ) : isFetching && !currentData ? (
+        <div className="flex justify-center py-8"><Spinner /></div>
+      ) : error || !currentData ? (
+        <div className="text-red-400 light:text-red-600">
+          <p>{t('history.loadFailed')}</p>
+          <p className="mt-1 text-sm text-muted">{describeForecastError(error, t)}</p>
+        </div>
+      ) : resolution === 'hourly' ? (
+        <HourlyChart
+          hourlyData={currentData.days.flatMap((day) => day.hours)}
+          format={format}
+          title={t('history.hourly')}
+          utcOffsetSeconds={currentData.location.utcOffsetSeconds}
+        />
+      ) : (
+        <>
+          <SummaryChart
+            summaries={summarizePeriods(currentData.days, resolution)}
+            format={format}
+            title={t(resolution === 'daily' ? 'history.dailySummary' : 'history.weeklySummary')}
+          />
+          <p className="pt-8 text-sm text-muted">
+            {t(resolution === 'daily' ? 'history.perDay' : 'history.perWeek', { count: dayCount })}
+          </p>
+        </>
+      )}
+      {!problem && currentData && currentData.days.length < dayCount && (
+        <p className="text-sm text-muted">{t('history.partial', { count: currentData.days.length })}</p>
+      )}
+    </section>
+  );
+};
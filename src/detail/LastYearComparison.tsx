@@ -0,0 +1,82 @@
+import { useTranslation } from '../i18n';
+import { Spinner } from '../shared';
+import type { Coordinates } from '../store/slices/favorites';
+import { useGetHistoryQuery } from '../weather/api';
+import { sameDateLastYear } from '../weather/dates';
+import type { DailyForecast } from '../weather/types';
+import type { Formatter } from '../weather/units';
+
+/**
+ * Today's forecast next to what was observed on the same date a year ago
+ */
+export const LastYearComparison = ({ coordinates, today, format }: {
+  coordinates: Coordinates;
+  today: DailyForecast;
+  format: Formatter;
+}) => {
+  const { t } = useTranslation();
+  const date = sameDateLastYear(today.date);
+  const { currentData, error, isFetching } = useGetHistoryQuery({ ...coordinates, from: date, to: date });
+  const lastYear = currentData?.days[0];
+
+  const temperatureChange = (nowC: number, thenC: number) => {
+    const change = Math.round(format.temperatureValue(nowC) - format.temperatureValue(thenC));
+    return `${new Intl.NumberFormat(format.locale, { signDisplay: 'exceptZero' }).format(change)}°`;
+  };
+
+  const rows = lastYear ? [
+    {
+      label: t('lastYear.high'),
+      today: format.temperature(today.maxTempC),
+      lastYear: format.temperature(lastYear.maxTempC),
+      change: temperatureChange(today.maxTempC, lastYear.maxTempC),
+    },
+    {
+      label: t('lastYear.low'),
+      today: format.temperature(today.minTempC),
+      lastYear: format.temperature(lastYear.minTempC),
+      change: temperatureChange(today.minTempC, lastYear.minTempC),
+    },
+    {
+      label: t('lastYear.precipitation'),
+      today: format.precipitation(today.totalPrecipMm),
+      lastYear: format.precipitation(lastYear.totalPrecipMm),
+      change: null,
+    },
+  ] : [];
+
+  return (
+    <div className="p-4 bg-surface rounded-lg">
+      <h4 className="font-semibold">
+        {t('lastYear.title', { date: format.date(date, { year: 'numeric', month: 'short', day: 'numeric' }) })}
+      </h4>
+      {isFetching && !currentData ? (
+        <div className="flex justify-center py-4"><Spinner /></div>
+      ) : error || !lastYear ? (
+        // Free plans often stop short of a year of history
+        <p className="mt-2 text-sm text-muted">{t('lastYear.unavailable')}</p>
+      ) : (
+        <table className="w-full mt-2 text-sm">
+          <thead>
+            <tr className="text-muted text-start">
+              <th scope="col" className="font-normal"><span className="sr-only">{t('lastYear.measure')}</span></th>
+              <th scope="col" className="font-normal">{t('lastYear.today')}</th>
+              <th scope="col" className="font-normal">{t('lastYear.aYearAgo')}</th>
+              <th scope="col" className="font-normal">{t('lastYear.change')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label}>
+                <th scope="row" className="py-1 text-start font-normal text-muted">{row.label}</th>
+                <td>{row.today}</td>
+                <td>{row.lastYear}</td>
+                <td>{row.change ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useTranslation } from '../i18n';
+import { dashboardPath } from '../routing';
+import { useAppDispatch } from '../store/hooks';
+import { removeFavorite } from '../store/slices/favorites';
+import type { FavoriteLocation } from '../store/slices/favorites';
+
+/**
+ * Removes a favorite that no longer loads, then heads back to the dashboard
+ */
+export const RemoveFavoriteButton = ({ favorite }: { favorite: FavoriteLocation }) => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+
+  return (
+    <button
+      onClick={() => {
+        dispatch(removeFavorite(favorite.id));
+        navigate(dashboardPath(searchParams));
+      }}
+      className="px-4 py-2 bg-red-600 hover:bg-red-500 rounded-lg text-white font-medium transition-colors"
+    >
+      {t('detail.removeFavorite')}
+    </button>
+  );
+};
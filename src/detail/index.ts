@@ -0,0 +1,2 @@
+export { CityDetailRoute } from './CityDetailRoute';
+export { DetailedViewModal } from './DetailedViewModal';
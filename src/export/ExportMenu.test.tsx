@@ -0,0 +1,65 @@
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Dialog } from '../shared';
+import { parseWeatherApiForecast } from '../weather/providers/weatherApiCom';
+import { forecastResponse } from '../test/fixtures';
+import { renderWithProviders } from '../test/renderWithProviders';
+import { ExportMenu } from './ExportMenu';
+
+const forecast = parseWeatherApiForecast(forecastResponse({ name: 'London', tempC: 20 }));
+
+describe('ExportMenu', () => {
+  let downloads: { blob: Blob; fileName: string }[];
+
+  beforeEach(() => {
+    downloads = [];
+    // jsdom has no object URLs and doesn't download; record what would have been saved
+    let pending: Blob;
+    URL.createObjectURL = vi.fn((blob: Blob) => {
+      pending = blob;
+      return 'blob:export';
+    });
+    URL.revokeObjectURL = vi.fn();
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloads.push({ blob: pending, fileName: this.download });
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('downloads the daily table as CSV in the units from the URL', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<ExportMenu forecast={forecast} label="Home" />, { route: '/?unit=f' });
+
+    await user.click(screen.getByRole('button', { name: 'Export Home' }));
+    await user.click(screen.getByRole('menuitem', { name: 'Daily data (CSV)' }));
+
+    expect(downloads).toHaveLength(1);
+    expect(downloads[0].fileName).toMatch(/^home-daily-\d{4}-\d{2}-\d{2}-\d{4}\.csv$/);
+    expect(await downloads[0].blob.text()).toContain('High (°F)');
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+  });
+
+  it('closes on Escape without closing the dialog around it', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    renderWithProviders(
+      <Dialog label="London" onClose={onClose}>
+        <ExportMenu forecast={forecast} label="London" />
+      </Dialog>
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Export London' }));
+    expect(screen.getByRole('menuitem', { name: 'Hourly data (CSV)' })).toHaveFocus();
+    await user.keyboard('{ArrowDown}');
+    expect(screen.getByRole('menuitem', { name: 'Daily data (CSV)' })).toHaveFocus();
+
+    await user.keyboard('{Escape}');
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Export London' })).toHaveFocus();
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,153 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { useFormatter } from '../routing';
+import type { Forecast } from '../weather/types';
+import { CSV_BOM, downloadFile, exportFileName } from './download';
+import { forecastToCsv, forecastToJson } from './serialize';
+import { cardSnapshot, snapshotCaption, snapshotToPng } from './snapshot';
+
+/**
+ * Download menu for one city's forecast: the hourly and daily tables as CSV
+ * or JSON, or the city card as an image. Everything is in the user's units.
+ */
+export const ExportMenu = ({ forecast, label, className = '' }: {
+  forecast: Forecast;
+  /** City name as the user sees it, e.g. a nickname */
+  label: string;
+  className?: string;
+}) => {
+  const format = useFormatter();
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const menuId = useId();
+  const menuRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const place = [label, forecast.location.country].filter(Boolean).join(', ');
+
+  useEffect(() => {
+    const menu = menuRef.current;
+    if (!isOpen || !menu) {
+      return;
+    }
+    menu.querySelector<HTMLElement>('[role="menuitem"]')?.focus();
+    // Listening natively, so Escape is caught before a surrounding dialog's focus trap closes the dialog
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.stopPropagation();
+        setIsOpen(false);
+        buttonRef.current?.focus();
+      }
+    };
+    menu.addEventListener('keydown', handleEscape);
+    return () => menu.removeEventListener('keydown', handleEscape);
+  }, [isOpen]);
+
+  const items: { label: MessageKey; run: (at: number) => void | Promise<void> }[] = [
+    {
+      label: 'export.hourlyCsv',
+      run: (at: number) => downloadFile(
+        CSV_BOM + forecastToCsv(forecast, 'hourly', format), exportFileName(label, 'hourly', 'csv', at), 'text/csv'
+      ),
+    },
+    {
+      label: 'export.dailyCsv',
+      run: (at: number) => downloadFile(
+        CSV_BOM + forecastToCsv(forecast, 'daily', format), exportFileName(label, 'daily', 'csv', at), 'text/csv'
+      ),
+    },
+    {
+      label: 'export.json',
+      run: (at: number) => downloadFile(
+        forecastToJson(forecast, format, at), exportFileName(label, 'forecast', 'json', at), 'application/json'
+      ),
+    },
+    {
+      label: 'export.png',
+      run: async (at: number) => downloadFile(
+        await snapshotToPng(cardSnapshot(forecast, label, format, t, snapshotCaption(place, at, format))),
+        exportFileName(label, 'card', 'png', at)
+      ),
+    },
+    {
+      label: 'export.svg',
+      run: (at: number) => downloadFile(
+        cardSnapshot(forecast, label, format, t, snapshotCaption(place, at, format)).svg,
+        exportFileName(label, 'card', 'svg', at),
+        'image/svg+xml'
+      ),
+    },
+  ];
+
+  const choose = async (run: (at: number) => void | Promise<void>) => {
+    setIsOpen(false);
+    buttonRef.current?.focus();
+    setError(null);
+    try {
+      await run(Date.now());
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError('export.failed');
+    }
+  };
+
+  const handleMenuKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const menuItems = [...(menuRef.current?.querySelectorAll<HTMLElement>('[role="menuitem"]') ?? [])];
+    const index = menuItems.indexOf(document.activeElement as HTMLElement);
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      menuItems[(index + step + menuItems.length) % menuItems.length]?.focus();
+    }
+  };
+
+  return (
+    <div
+      className={`relative ${className}`}
+      // Cards open the city on click; exporting shouldn't
+      onClick={(e) => e.stopPropagation()}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget)) {
+          setIsOpen(false);
+        }
+      }}
+    >
+      <button
+        ref={buttonRef}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={t('export.label', { name: label })}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? menuId : undefined}
+        className="text-subtle hover:text-blue-400 light:hover:text-blue-600"
+      >
+        <Download size={16} />
+      </button>
+      {isOpen && (
+        <div
+          ref={menuRef}
+          id={menuId}
+          role="menu"
+          aria-label={t('export.label', { name: label })}
+          onKeyDown={handleMenuKeyDown}
+          className="absolute end-0 z-50 mt-2 w-48 py-1 bg-surface border border-line rounded-lg shadow-lg"
+        >
+          {items.map((item) => (
+            <button
+              key={item.label}
+              role="menuitem"
+              tabIndex={-1}
+              onClick={() => choose(item.run)}
+              className="block w-full px-4 py-2 text-start text-sm text-fg-soft hover:bg-raised focus:bg-raised focus:outline-none"
+            >
+              {t(item.label)}
+            </button>
+          ))}
+        </div>
+      )}
+      {error && <p role="alert" className="absolute end-0 mt-1 w-48 text-end text-xs text-red-400 light:text-red-600">{t(error)}</p>}
+    </div>
+  );
+};
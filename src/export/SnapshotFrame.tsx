@@ -0,0 +1,67 @@
+import React, { useRef, useState } from 'react';
+import { Image } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { useFormatter } from '../routing';
+import { downloadFile, exportFileName } from './download';
+import { chartSnapshot, snapshotCaption, snapshotToPng } from './snapshot';
+
+/**
+ * Wraps a Recharts chart with buttons that save it as a PNG or SVG image,
+ * captioned with the place and the time it was taken
+ */
+export const SnapshotFrame = ({ title, place, children }: {
+  /** Chart name, used in the button labels and the file name */
+  title: string;
+  place: string;
+  children: React.ReactNode;
+}) => {
+  const format = useFormatter();
+  const { t } = useTranslation();
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  const save = async (kind: 'png' | 'svg') => {
+    // Legend swatches are SVGs too; the plot is the wrapper's own
+    const chart = frameRef.current?.querySelector<SVGSVGElement>('.recharts-wrapper > svg');
+    setError(null);
+    if (!chart) {
+      setError('snapshot.notReady');
+      return;
+    }
+    const at = Date.now();
+    const snapshot = chartSnapshot(chart, `${title} · ${snapshotCaption(place, at, format)}`);
+    const fileName = exportFileName(place, title, kind, at);
+    try {
+      if (kind === 'png') {
+        downloadFile(await snapshotToPng(snapshot), fileName);
+      } else {
+        downloadFile(snapshot.svg, fileName, 'image/svg+xml');
+      }
+    } catch (err) {
+      console.error('Snapshot failed:', err);
+      setError('snapshot.failed');
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-raised hover:bg-raised-hover text-fg-soft';
+
+  return (
+    <div ref={frameRef} className="relative min-w-0">
+      <div className="absolute top-0 end-0 z-10 flex items-center gap-1">
+        {error && <span role="alert" className="text-xs text-red-400 light:text-red-600">{t(error)}</span>}
+        {(['png', 'svg'] as const).map((kind) => (
+          <button
+            key={kind}
+            onClick={() => save(kind)}
+            aria-label={t('snapshot.save', { title, kind: kind.toUpperCase() })}
+            className={buttonClass}
+          >
+            <Image size={12} /> {kind.toUpperCase()}
+          </button>
+        ))}
+      </div>
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+// --- FILE DOWNLOADS ---
+
+const slug = (text: string) => text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * "london-hourly-2026-10-19-1505.csv", stamped with the local time of the export
+ */
+export const exportFileName = (place: string, what: string, extension: string, at: number) => {
+  const date = new Date(at);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `${slug(place)}-${slug(what)}-${stamp}.${extension}`;
+};
+
+/**
+ * Saves `content` through a temporary link, the only way to name a download from a page
+ */
+export const downloadFile = (content: Blob | string, fileName: string, type = 'text/plain') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked once the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Excel only reads CSV as UTF-8 (°, city names) when the file starts with a byte-order mark
+export const CSV_BOM = '\uFEFF';
@@ -0,0 +1,4 @@
+export { ExportMenu } from './ExportMenu';
+export { SnapshotFrame } from './SnapshotFrame';
+export { CSV_BOM, downloadFile, exportFileName } from './download';
+export { csvField } from './serialize';
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseWeatherApiForecast } from '../weather/providers/weatherApiCom';
+import { createFormatter, DEFAULT_UNITS } from '../weather/units';
+import { forecastResponse } from '../test/fixtures';
+import { forecastToCsv, forecastToJson } from './serialize';
+
+const forecast = parseWeatherApiForecast(forecastResponse({ name: 'London', tempC: 20 }));
+const imperial = createFormatter({ ...DEFAULT_UNITS, temperature: 'f', wind: 'mph', precipitation: 'in' });
+
+describe('forecastToCsv', () => {
+  it('writes one row per day in the chosen units, with the units in the header', () => {
+    const [header, row, ...rest] = forecastToCsv(forecast, 'daily', imperial).split('\r\n');
+
+    expect(header).toBe(
+      'Date,High (°F),Low (°F),Condition,Max wind (mph),Precipitation (in),Chance of rain (%),UV index,Sunrise,Sunset'
+    );
+    // 25°C / 16°C, 20 km/h and 0.4 mm from the fixture
+    expect(row).toMatch(/^\d{4}-\d{2}-\d{2},77,60.8,Partly cloudy,12.4,0.02,20,4,06:45,19:30$/);
+    expect(rest).toEqual([]);
+  });
+
+  it('quotes fields holding commas or quotes', () => {
+    const condition = { text: 'Rain, "heavy"', code: 1195, kind: 'rain' as const };
+    const odd = { ...forecast, days: [{ ...forecast.days[0], condition }] };
+    expect(forecastToCsv(odd, 'daily', imperial).split('\r\n')[1]).toContain('"Rain, ""heavy"""');
+  });
+
+  it('lists every hour with its local time', () => {
+    const lines = forecastToCsv(forecast, 'hourly', createFormatter(DEFAULT_UNITS)).split('\r\n');
+    expect(lines).toHaveLength(1 + 24);
+    expect(lines[1]).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:00,20,19,Partly cloudy,60,12,0,10$/);
+  });
+});
+
+describe('forecastToJson', () => {
+  it('names the units once and keeps both tables', () => {
+    const json = JSON.parse(forecastToJson(forecast, imperial, Date.parse('2026-10-19T12:00:00Z')));
+
+    expect(json.units).toEqual({ temperature: '°F', wind: 'mph', precipitation: 'in' });
+    expect(json.exportedAt).toBe('2026-10-19T12:00:00.000Z');
+    expect(json.hourly).toHaveLength(24);
+    expect(json.daily[0]).toMatchObject({ high: 77, low: 60.8, maxWind: 12.4 });
+  });
+});
@@ -0,0 +1,97 @@
+import { localDateTime } from '../weather/dates';
+import type { DailyForecast, Forecast, HourlyForecast } from '../weather/types';
+import type { Formatter } from '../weather/units';
+
+// --- FORECAST EXPORT ---
+// Hourly and daily tables in the user's units. CSV headers name the unit of
+// each column; JSON carries the units once, next to the rows.
+
+interface Column<Row> {
+  /** JSON key */
+  key: string;
+  /** CSV header */
+  label: (format: Formatter) => string;
+  value: (row: Row, format: Formatter, utcOffsetSeconds: number) => string | number | null;
+}
+
+const temperatureLabel = (name: string) => (format: Formatter) => `${name} (°${format.temperatureUnit})`;
+
+const HOURLY_COLUMNS: Column<HourlyForecast>[] = [
+  { key: 'time', label: () => 'Local time', value: (hour, _, offset) => localDateTime(hour.time, offset) },
+  { key: 'temperature', label: temperatureLabel('Temperature'), value: (hour, format) => format.temperatureValue(hour.tempC) },
+  { key: 'feelsLike', label: temperatureLabel('Feels like'), value: (hour, format) => format.temperatureValue(hour.feelsLikeC) },
+  { key: 'condition', label: () => 'Condition', value: (hour) => hour.condition.text },
+  { key: 'humidity', label: () => 'Humidity (%)', value: (hour) => hour.humidity },
+  { key: 'wind', label: (format) => `Wind (${format.windUnit})`, value: (hour, format) => format.windValue(hour.windKph) },
+  {
+    key: 'precipitation',
+    label: (format) => `Precipitation (${format.units.precipitation})`,
+    value: (hour, format) => format.precipitationValue(hour.precipMm),
+  },
+  { key: 'chanceOfRain', label: () => 'Chance of rain (%)', value: (hour) => hour.chanceOfRain },
+];
+
+const DAILY_COLUMNS: Column<DailyForecast>[] = [
+  { key: 'date', label: () => 'Date', value: (day) => day.date },
+  { key: 'high', label: temperatureLabel('High'), value: (day, format) => format.temperatureValue(day.maxTempC) },
+  { key: 'low', label: temperatureLabel('Low'), value: (day, format) => format.temperatureValue(day.minTempC) },
+  { key: 'condition', label: () => 'Condition', value: (day) => day.condition.text },
+  { key: 'maxWind', label: (format) => `Max wind (${format.windUnit})`, value: (day, format) => format.windValue(day.maxWindKph) },
+  {
+    key: 'precipitation',
+    label: (format) => `Precipitation (${format.units.precipitation})`,
+    value: (day, format) => format.precipitationValue(day.totalPrecipMm),
+  },
+  { key: 'chanceOfRain', label: () => 'Chance of rain (%)', value: (day) => day.chanceOfRain },
+  { key: 'uv', label: () => 'UV index', value: (day) => day.uv },
+  { key: 'sunrise', label: () => 'Sunrise', value: (day) => day.sunrise },
+  { key: 'sunset', label: () => 'Sunset', value: (day) => day.sunset },
+];
+
+export type ExportTable = 'hourly' | 'daily';
+
+/**
+ * Quotes a CSV field when it holds a separator, quote or line break
+ */
+export const csvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLines = <Row>(columns: Column<Row>[], rows: Row[], format: Formatter, offset: number) => [
+  columns.map((column) => csvField(column.label(format))).join(','),
+  ...rows.map((row) => columns.map((column) => csvField(column.value(row, format, offset))).join(',')),
+];
+
+const records = <Row>(columns: Column<Row>[], rows: Row[], format: Formatter, offset: number) =>
+  rows.map((row) => Object.fromEntries(columns.map((column) => [column.key, column.value(row, format, offset)])));
+
+export const forecastToCsv = (forecast: Forecast, table: ExportTable, format: Formatter): string => {
+  const offset = forecast.location.utcOffsetSeconds;
+  const lines = table === 'hourly'
+    ? csvLines(HOURLY_COLUMNS, forecast.days.flatMap((day) => day.hours), format, offset)
+    : csvLines(DAILY_COLUMNS, forecast.days, format, offset);
+  return lines.join('\r\n');
+};
+
+export const forecastToJson = (forecast: Forecast, format: Formatter, exportedAt: number): string => {
+  const { location } = forecast;
+  return JSON.stringify({
+    location: {
+      name: location.name,
+      region: location.region,
+      country: location.country,
+      lat: location.lat,
+      lon: location.lon,
+      timeZone: location.tzId,
+    },
+    exportedAt: new Date(exportedAt).toISOString(),
+    units: {
+      temperature: `°${format.temperatureUnit}`,
+      wind: format.windUnit,
+      precipitation: format.units.precipitation,
+    },
+    hourly: records(HOURLY_COLUMNS, forecast.days.flatMap((day) => day.hours), format, location.utcOffsetSeconds),
+    daily: records(DAILY_COLUMNS, forecast.days, format, location.utcOffsetSeconds),
+  }, null, 2);
+};
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createTranslator } from '../i18n/translate';
+import { forecastResponse } from '../test/fixtures';
+import { parseWeatherApiForecast } from '../weather/providers/weatherApiCom';
+import { createFormatter, DEFAULT_UNITS } from '../weather/units';
+import { cardSnapshot } from './snapshot';
+
+const forecast = parseWeatherApiForecast(forecastResponse({ name: 'London' }));
+const format = createFormatter(DEFAULT_UNITS);
+const t = createTranslator('en');
+
+const LIGHT_THEME = {
+  '--color-canvas': '#f3f4f6', '--color-surface': '#ffffff', '--color-fg': '#111827', '--color-fg-soft': '#374151',
+  '--color-muted': '#4b5563',
+};
+
+const fills = (svg: string) => [...svg.matchAll(/fill="([^"]+)"/g)].map(([, fill]) => fill);
+
+describe('cardSnapshot', () => {
+  afterEach(() => {
+    document.documentElement.removeAttribute('style');
+  });
+
+  it('draws in the colors of the theme in use', () => {
+    Object.entries(LIGHT_THEME).forEach(([name, value]) => document.documentElement.style.setProperty(name, value));
+    const { svg } = cardSnapshot(forecast, 'London', format, t, 'London · now');
+    expect(new Set(fills(svg))).toEqual(new Set(Object.values(LIGHT_THEME)));
+  });
+
+  it('falls back to the dark theme without theme styles', () => {
+    const { svg } = cardSnapshot(forecast, 'London', format, t, 'London · now');
+    expect(fills(svg).slice(0, 3)).toEqual(['#111827', '#1f2937', '#ffffff']);
+  });
+});
@@ -0,0 +1,160 @@
+import type { Translate } from '../i18n';
+import type { Forecast } from '../weather/types';
+import type { Formatter } from '../weather/units';
+
+// --- SNAPSHOT IMAGES ---
+// Charts are already SVG, so a snapshot is a copy of the chart's SVG with a
+// caption strip added. Cards are HTML, so their snapshot is drawn as SVG
+// from the forecast instead. PNGs are rasterized from the SVG in a canvas.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CAPTION_HEIGHT = 32;
+const FONT = 'system-ui, -apple-system, Segoe UI, sans-serif';
+
+export interface Snapshot {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * "London, United Kingdom · Oct 19, 2026, 3:05 PM"
+ */
+export const snapshotCaption = (place: string, takenAt: number, format: Formatter) =>
+  `${place} · ${format.timestamp(takenAt / 1000)}`;
+
+/** The dark theme's colors, for when the page has no theme styles (tests) */
+const DARK_PALETTE = { canvas: '#111827', surface: '#1f2937', fg: '#ffffff', fgSoft: '#d1d5db', muted: '#9ca3af' };
+
+type Palette = typeof DARK_PALETTE;
+
+/**
+ * The active theme's colors (src/index.css), so a snapshot taken in the
+ * light theme comes out light
+ */
+const themePalette = (): Palette => {
+  const style = getComputedStyle(document.documentElement);
+  const color = (name: string, fallback: string) => style.getPropertyValue(name).trim() || fallback;
+  return {
+    canvas: color('--color-canvas', DARK_PALETTE.canvas),
+    surface: color('--color-surface', DARK_PALETTE.surface),
+    fg: color('--color-fg', DARK_PALETTE.fg),
+    fgSoft: color('--color-fg-soft', DARK_PALETTE.fgSoft),
+    muted: color('--color-muted', DARK_PALETTE.muted),
+  };
+};
+
+/**
+ * Theme colors are CSS variables, which mean nothing outside the page, so
+ * the copy gets the colors they stand for right now
+ */
+const resolveThemeColors = (chart: SVGSVGElement, copy: SVGSVGElement) => {
+  const originals = chart.querySelectorAll('*');
+  copy.querySelectorAll('*').forEach((element, i) => {
+    (['stroke', 'fill'] as const).forEach((attribute) => {
+      if (element.getAttribute(attribute)?.includes('var(')) {
+        const color = getComputedStyle(originals[i])[attribute];
+        if (color) {
+          element.setAttribute(attribute, color);
+        }
+      }
+    });
+  });
+};
+
+/**
+ * Copies a rendered chart and adds the theme's background and a caption below it
+ */
+export const chartSnapshot = (chart: SVGSVGElement, caption: string): Snapshot => {
+  const { width, height } = chart.getBoundingClientRect();
+  const chartWidth = Math.round(width) || Number(chart.getAttribute('width')) || 600;
+  const chartHeight = Math.round(height) || Number(chart.getAttribute('height')) || 300;
+  const totalHeight = chartHeight + CAPTION_HEIGHT;
+
+  const copy = chart.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute('x', '0');
+  copy.setAttribute('y', '0');
+  resolveThemeColors(chart, copy);
+  const palette = themePalette();
+
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('xmlns', SVG_NS);
+  svg.setAttribute('width', String(chartWidth));
+  svg.setAttribute('height', String(totalHeight));
+  svg.setAttribute('viewBox', `0 0 ${chartWidth} ${totalHeight}`);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', palette.canvas);
+
+  const text = document.createElementNS(SVG_NS, 'text');
+  text.setAttribute('x', '12');
+  text.setAttribute('y', String(chartHeight + 21));
+  text.setAttribute('fill', palette.muted);
+  text.setAttribute('font-family', FONT);
+  text.setAttribute('font-size', '13');
+  text.textContent = caption;
+
+  svg.append(background, copy, text);
+  return { svg: new XMLSerializer().serializeToString(svg), width: chartWidth, height: totalHeight };
+};
+
+/**
+ * A dashboard card drawn from the forecast: place, temperature, condition and the day's range
+ */
+export const cardSnapshot = (
+  forecast: Forecast, label: string, format: Formatter, t: Translate, caption: string
+): Snapshot => {
+  const width = 360;
+  const height = 180 + CAPTION_HEIGHT;
+  const { current, location } = forecast;
+  const today = forecast.days[0];
+  const palette = themePalette();
+  const line = (x: number, y: number, size: number, fill: string, content: string, weight = 'normal') =>
+    `<text x="${x}" y="${y}" font-family="${FONT}" font-size="${size}" font-weight="${weight}" fill="${fill}">${escapeXml(content)}</text>`;
+
+  const svg = [
+    `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="${palette.canvas}"/>`,
+    `<rect x="8" y="8" width="${width - 16}" height="164" rx="8" fill="${palette.surface}"/>`,
+    line(24, 42, 20, palette.fg, label, 'bold'),
+    line(24, 62, 12, palette.muted, [location.region, location.country].filter(Boolean).join(', ')),
+    line(24, 124, 44, palette.fg, format.temperature(current.tempC, { withUnit: true }), '300'),
+    line(200, 100, 14, palette.fgSoft, current.condition.text),
+    line(200, 122, 13, palette.fgSoft, t('detail.highLow', {
+      high: format.temperature(today.maxTempC), low: format.temperature(today.minTempC),
+    })),
+    line(200, 144, 13, palette.fgSoft, t('snapshot.humidityWind', {
+      humidity: format.percent(current.humidity), wind: format.wind(current.windKph),
+    })),
+    line(12, 180 + 21, 13, palette.muted, caption),
+    '</svg>',
+  ].join('');
+  return { svg, width, height };
+};
+
+/**
+ * Rasterizes a snapshot at twice its size, for sharp images on high-density screens
+ */
+export const snapshotToPng = (snapshot: Snapshot, scale = 2): Promise<Blob> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = snapshot.width * scale;
+    canvas.height = snapshot.height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Canvas is not available.'));
+      return;
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+    canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error('Could not encode the image.')), 'image/png');
+  };
+  image.onerror = () => reject(new Error('Could not draw the snapshot.'));
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(snapshot.svg)}`;
+});
@@ -0,0 +1,7 @@
+export { LOCALES, DEFAULT_LOCALE, textDirection } from './locales';
+export type { Locale } from './locales';
+export { createTranslator } from './translate';
+export type { Translate } from './translate';
+export type { MessageKey } from './messages/en';
+export { useTranslation } from './useTranslation';
+export { useAppliedLocale } from './useAppliedLocale';
@@ -0,0 +1,18 @@
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+import { LOCALIZED_TAG, weatherApi } from '../weather/api';
+import type { RootState } from '../store';
+
+// --- LANGUAGE CHANGES ---
+// Condition text and place names come from the provider in the language
+// asked for, so a new language (here or from another tab) refetches them.
+// What's on screen stays until the translated data arrives.
+
+export const localeListener = createListenerMiddleware();
+
+localeListener.startListening({
+  predicate: (_action, currentState, previousState) =>
+    (currentState as RootState).settings.locale !== (previousState as RootState).settings.locale,
+  effect: (_action, api) => {
+    api.dispatch(weatherApi.util.invalidateTags([LOCALIZED_TAG]));
+  },
+});
@@ -0,0 +1,35 @@
+// --- LOCALES ---
+// Languages the interface is translated into. The code doubles as the
+// Intl locale for numbers and dates and as the provider's `lang` parameter.
+
+export type Locale = 'en' | 'es' | 'fr' | 'de' | 'ar';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Choices offered in the settings panel, each named in its own language
+ */
+export const LOCALES: { value: Locale; label: string; dir: TextDirection }[] = [
+  { value: 'en', label: 'English', dir: 'ltr' },
+  { value: 'es', label: 'Español', dir: 'ltr' },
+  { value: 'fr', label: 'Français', dir: 'ltr' },
+  { value: 'de', label: 'Deutsch', dir: 'ltr' },
+  { value: 'ar', label: 'العربية', dir: 'rtl' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some((locale) => locale.value === value);
+
+export const textDirection = (locale: Locale): TextDirection =>
+  LOCALES.find((candidate) => candidate.value === locale)?.dir ?? 'ltr';
+
+/**
+ * First of the browser's preferred languages that we have, e.g. "fr-CA" -> "fr"
+ */
+export const detectLocale = (
+  languages: readonly string[] = typeof navigator === 'undefined' ? [] : navigator.languages ?? []
+): Locale => {
+  const match = languages.map((language) => language.split('-')[0].toLowerCase()).find(isLocale);
+  return match ?? DEFAULT_LOCALE;
+};
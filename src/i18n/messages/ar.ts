@@ -0,0 +1,405 @@
+import type { Messages } from './en';
+
+// --- ARABIC ---
+// Written right to left; counted messages use all six Arabic plural forms.
+
+export const ar: Messages = {
+  'app.title': 'لوحة الطقس',
+  'app.offline': 'أنت غير متصل. تُعرض التوقعات المحفوظة وستُحدَّث عند عودة الاتصال.',
+
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.remove': 'إزالة',
+
+  'account.signIn': 'تسجيل الدخول',
+  'account.signInHint': 'سجّل الدخول لمزامنة المفضلة والإعدادات بين أجهزتك',
+  'account.signOut': 'تسجيل الخروج',
+  'account.syncFailed': 'تعذّرت مزامنة حسابك',
+  'account.syncFailedBody': 'لم تُرفع المفضلة والإعدادات الموجودة على هذا الجهاز بعد. ستُستأنف المزامنة عند عودة الاتصال.',
+
+  'settings.title': 'الإعدادات',
+  'settings.temperature': 'درجة الحرارة',
+  'settings.wind': 'سرعة الرياح',
+  'settings.pressure': 'الضغط',
+  'settings.distance': 'المسافة',
+  'settings.precipitation': 'الهطول',
+  'settings.clock': 'تنسيق الوقت',
+  'settings.theme': 'المظهر',
+  'settings.themeSystem': 'النظام',
+  'settings.themeLight': 'فاتح',
+  'settings.themeDark': 'داكن',
+  'settings.language': 'اللغة',
+
+  'search.label': 'ابحث عن مدينة',
+  'search.placeholder': 'ابحث عن مدينة...',
+  'search.recent': 'عمليات البحث الأخيرة',
+  'search.clear': 'مسح',
+  'search.results': 'نتائج البحث',
+  'search.noResults': 'لا توجد نتائج.',
+  'search.resultCount': {
+    zero: 'لا توجد نتائج.',
+    one: 'نتيجة واحدة متاحة.',
+    two: 'نتيجتان متاحتان.',
+    few: '{count} نتائج متاحة.',
+    many: '{count} نتيجة متاحة.',
+    other: '{count} نتيجة متاحة.',
+  },
+  'search.alreadyFavorite': 'موجودة في المفضلة',
+  'search.add': 'إضافة',
+
+  'location.current': 'الموقع الحالي',
+  'location.chosen': 'الموقع المختار',
+  'location.refresh': 'تحديث الموقع الحالي',
+  'location.locating': 'جارٍ تحديد موقعك...',
+  'location.unsupported': 'لا يستطيع هذا المتصفح مشاركة موقعك.',
+  'location.denied': 'تم رفض إذن الوصول إلى الموقع.',
+  'location.timeout': 'استغرق تحديد موقعك وقتًا طويلًا.',
+  'location.unavailable': 'موقعك غير متاح حاليًا.',
+  'location.tryAgain': 'حاول مرة أخرى',
+  'location.choose': 'اختر مكانًا',
+  'location.pickerPlaceholder': 'أين أنت؟',
+  'location.loadFailed': 'تعذّر تحميل الطقس هنا.',
+  'location.lastPosition': 'يُعرض آخر موقع لك.',
+  'location.inFavorites': 'في المفضلة',
+  'location.addFavorite': 'إضافة إلى المفضلة',
+  'location.change': 'تغيير المكان',
+  'location.notHere': 'لست هنا؟',
+  'location.usePosition': 'استخدم موقعي',
+
+  'dashboard.empty': 'لا توجد لديك مدن مفضلة بعد.',
+  'dashboard.emptyHint': 'استخدم شريط البحث للعثور على مدنك المفضلة وإضافتها.',
+  'dashboard.ungrouped': 'بلا مجموعة',
+  'dashboard.moved': 'نُقلت {name} إلى الموضع {position} من {count}.',
+  'dashboard.movedInGroup': 'نُقلت {name} إلى الموضع {position} من {count} في {group}.',
+
+  'view.sort': 'الترتيب',
+  'view.layout': 'العرض',
+  'view.cards': 'بطاقات',
+  'view.list': 'قائمة مضغوطة',
+  'view.newGroup': 'مجموعة جديدة',
+  'view.newGroupName': 'اسم المجموعة الجديدة',
+  'view.newGroupPlaceholder': 'مثل: المكاتب',
+
+  'sort.manual': 'ترتيب مخصص',
+  'sort.name': 'الاسم',
+  'sort.temperature': 'الأدفأ أولًا',
+  'sort.chanceOfRain': 'الأرجح مطرًا أولًا',
+  'sort.localTime': 'التوقيت المحلي',
+
+  'group.newName': 'اسم جديد لـ {name}',
+  'group.rename': 'إعادة تسمية المجموعة {name}',
+  'group.remove': 'إزالة المجموعة {name}',
+  'group.removeHint': 'إزالة المجموعة؛ تبقى مدنها في اللوحة',
+  'group.empty': 'اسحب المدن إلى هنا لإضافتها إلى {name}.',
+
+  'reorder.label': 'نقل {name}',
+  'reorder.hint': 'اسحب، أو استخدم مفاتيح الأسهم، للنقل',
+
+  'card.loadFailed': 'تعذّر تحميل بيانات {name}.',
+  'card.nicknameFor': 'اسم مستعار لـ {name}',
+  'card.rename': 'إعادة تسمية {name}',
+  'card.remove': 'إزالة {name}',
+
+  'row.loadFailed': 'تعذّر التحميل',
+  'row.chanceOfRainToday': 'احتمال المطر اليوم',
+  'row.localTime': 'التوقيت المحلي',
+
+  'health.healthy': 'يعمل بشكل جيد',
+  'health.offline': 'غير متصل',
+  'health.rateLimited': 'تم بلوغ حد الطلبات، إعادة المحاولة {time}',
+  'health.providerErrors': 'أخطاء لدى المزوّد، إعادة المحاولة {time}',
+  'health.budgetUsed': 'استُنفدت حصة الساعة، الاستئناف {time}',
+  'health.requests': '{requests} طلب إلى المزوّد في الساعة الأخيرة',
+  'health.perHour': '{requests} طلب/ساعة',
+
+  'compare.compare': 'مقارنة',
+  'compare.compareCities': 'مقارنة المدن',
+  'compare.selectCities': 'اختر من {min} إلى {max} مدن ({count} مختارة)',
+  'compare.nothing': 'لا شيء للمقارنة',
+  'compare.pickFavorites': 'اختر من {min} إلى {max} من المفضلة في اللوحة لمقارنتها.',
+  'compare.comparing': 'مقارنة {count} مدن',
+  'compare.loadFailed': 'تعذّر تحميل {names}.',
+  'compare.cityLocalTime': '{name} · {time} بالتوقيت المحلي',
+  'compare.dailyLowHigh': 'الصغرى / العظمى اليومية',
+  'compare.date': 'التاريخ',
+
+  'detail.cityNotFound': 'المدينة غير موجودة',
+  'detail.cityNotFoundMessage': 'لا يشير هذا الرابط إلى مدينة محفوظة أو موقع صالح.',
+  'detail.removeFavorite': 'إزالة من المفضلة',
+  'detail.loading': 'جارٍ تحميل التوقعات',
+  'detail.noWeatherFor': 'لا يتوفر طقس لـ {name}',
+  'detail.noWeather': 'لا يتوفر طقس لهذا الموقع',
+  'detail.highLow': 'العظمى: {high} / الصغرى: {low}',
+  'detail.feelsLike': 'الإحساس الفعلي',
+  'detail.wind': 'الرياح',
+  'detail.humidity': 'الرطوبة',
+  'detail.uvIndex': 'مؤشر الأشعة فوق البنفسجية',
+  'detail.dewPoint': 'نقطة الندى',
+  'detail.heatIndex': 'مؤشر الحرارة',
+  'detail.windChill': 'برودة الرياح',
+  'detail.comfort': 'الراحة',
+  'detail.comfortScore': '{score}/100',
+  'detail.pressure': 'الضغط',
+  'detail.visibility': 'مدى الرؤية',
+  'detail.sunrise': 'الشروق',
+  'detail.sunset': 'الغروب',
+  'detail.range': 'المدة',
+  'detail.days': {
+    zero: '{count} يوم',
+    one: 'يوم واحد',
+    two: 'يومان',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  'detail.extensionMissing': 'لا تستطيع خدمة الطقس هذه التنبؤ بأكثر من {count} يومًا هنا، لذا يتوقف الاتجاه عند ذلك.',
+  'detail.rangeLimited': {
+    zero: 'لا تقدم خدمة الطقس هذه هنا أي أيام من التوقعات، لذا لا تتوفر فترات أطول.',
+    one: 'لا تقدم خدمة الطقس هذه هنا سوى توقعات يوم واحد، لذا لا تتوفر فترات أطول.',
+    two: 'لا تقدم خدمة الطقس هذه هنا سوى توقعات يومين، لذا لا تتوفر فترات أطول.',
+    few: 'لا تقدم خدمة الطقس هذه هنا سوى توقعات {count} أيام، لذا لا تتوفر فترات أطول.',
+    many: 'لا تقدم خدمة الطقس هذه هنا سوى توقعات {count} يومًا، لذا لا تتوفر فترات أطول.',
+    other: 'لا تقدم خدمة الطقس هذه هنا سوى توقعات {count} يوم، لذا لا تتوفر فترات أطول.',
+  },
+
+  'charts.hourly': 'التوقعات كل ساعة',
+  'charts.dailyTrend': 'اتجاه {count} أيام',
+  'charts.temperature': 'درجة الحرارة',
+  'charts.chanceOfRain': 'احتمال المطر',
+  'charts.precipitation': 'الهطول',
+  'charts.maxTemp': 'العظمى',
+  'charts.minTemp': 'الصغرى',
+  'charts.daylight': 'ساعات النهار',
+  'charts.pollutants': 'الملوثات (ميكروغرام/م³)',
+
+  'tooltip.temperature': 'الحرارة: {value}',
+  'tooltip.feelsLike': 'الإحساس الفعلي: {value}',
+  'tooltip.high': 'العظمى: {value}',
+  'tooltip.low': 'الصغرى: {value}',
+  'tooltip.mean': 'المتوسط: {value}',
+  'tooltip.rain': 'المطر: {value}',
+  'tooltip.precipitation': 'الهطول: {value}',
+  'tooltip.wind': 'الرياح: {value}',
+  'tooltip.comfort': 'الراحة: {value}/100',
+  'tooltip.daylight': 'ساعات النهار: {value}',
+
+  'airQuality.title': 'جودة الهواء',
+  'aqi.title': 'جودة الهواء: {category}',
+  'aqi.chip': 'مؤشر جودة الهواء {index}',
+  'aqi.epa.good': 'جيدة',
+  'aqi.epa.moderate': 'متوسطة',
+  'aqi.epa.sensitive': 'غير صحية للفئات الحساسة',
+  'aqi.epa.unhealthy': 'غير صحية',
+  'aqi.epa.veryUnhealthy': 'غير صحية جدًا',
+  'aqi.epa.hazardous': 'خطرة',
+  'aqi.defra.low': 'منخفض',
+  'aqi.defra.moderate': 'متوسط',
+  'aqi.defra.high': 'مرتفع',
+  'aqi.defra.veryHigh': 'مرتفع جدًا',
+
+  'history.title': 'السجل',
+  'history.last7Days': 'آخر 7 أيام',
+  'history.last30Days': 'آخر 30 يومًا',
+  'history.lastYear': 'العام الماضي',
+  'history.from': 'من',
+  'history.to': 'إلى',
+  'history.incomplete': 'اختر تاريخ بداية وتاريخ نهاية.',
+  'history.reversed': 'يجب أن يسبق تاريخ البداية تاريخ النهاية.',
+  'history.future': 'ينتهي السجل بالأمس؛ تغطي التوقعات أعلاه من اليوم فصاعدًا.',
+  'history.tooLong': 'اختر مدة لا تزيد على {count} يومًا.',
+  'history.loadFailed': 'تعذّر تحميل الطقس السابق لهذه التواريخ.',
+  'history.hourly': 'السجل كل ساعة',
+  'history.dailySummary': 'ملخص يومي',
+  'history.weeklySummary': 'ملخص أسبوعي',
+  'history.perDay': '{count} يومًا أكثر من أن تُعرض ساعة بساعة، لذا تمثل كل نقطة يومًا واحدًا.',
+  'history.perWeek': '{count} يومًا أكثر من أن تُعرض ساعة بساعة، لذا تمثل كل نقطة أسبوعًا واحدًا.',
+  'history.partial': {
+    zero: 'تعذّر تحميل أي يوم من هذه الفترة.',
+    one: 'تعذّر تحميل هذه الفترة سوى يومها الأول.',
+    two: 'تعذّر تحميل هذه الفترة سوى أول يومين منها.',
+    few: 'تعذّر تحميل هذه الفترة سوى أول {count} أيام منها.',
+    many: 'تعذّر تحميل هذه الفترة سوى أول {count} يومًا منها.',
+    other: 'تعذّر تحميل هذه الفترة سوى أول {count} يوم منها.',
+  },
+
+  'lastYear.title': 'اليوم مقارنة بـ {date}',
+  'lastYear.unavailable': 'طقس العام الماضي غير متاح من خدمة الطقس هذه.',
+  'lastYear.measure': 'المقياس',
+  'lastYear.today': 'اليوم',
+  'lastYear.aYearAgo': 'قبل عام',
+  'lastYear.change': 'التغيّر',
+  'lastYear.high': 'العظمى',
+  'lastYear.low': 'الصغرى',
+  'lastYear.precipitation': 'الهطول',
+
+  'alerts.title': 'التنبيهات',
+  'alerts.from': 'من {from}',
+  'alerts.until': 'حتى {until}',
+  'alerts.fromUntil': 'من {from} حتى {until}',
+
+  'severity.extreme': 'شديد جدًا',
+  'severity.severe': 'شديد',
+  'severity.moderate': 'متوسط',
+  'severity.minor': 'طفيف',
+  'severity.unknown': 'غير معروف',
+
+  'notifications.dismiss': 'تجاهل',
+
+  'rules.title': 'نبّهني',
+  'rules.windAbove': 'رياح أعلى من ({unit})',
+  'rules.tempAbove': 'حرارة أعلى من (°{unit})',
+  'rules.tempBelow': 'حرارة أقل من (°{unit})',
+  'rules.rainAbove': 'احتمال مطر أعلى من (%)',
+  'rules.officialAlerts': 'عند صدور تنبيه رسمي',
+  'rules.off': 'متوقف',
+  'rules.save': 'حفظ القواعد',
+  'rules.savedBrowser': 'تم الحفظ. ستصلك إشعارات المتصفح.',
+  'rules.savedInApp': 'تم الحفظ. ستظهر الإشعارات داخل اللوحة.',
+  'rules.savedInactive': 'تم الحفظ. لا توجد قواعد مفعّلة.',
+  'rules.windTitle': '{place}: رياح قوية',
+  'rules.windBody': 'سرعة الرياح {wind}، أعلى من حدك البالغ {limit}.',
+  'rules.heatTitle': '{place}: حرارة مرتفعة',
+  'rules.heatBody': 'الحرارة {temperature}، أعلى من {limit}.',
+  'rules.coldTitle': '{place}: حرارة منخفضة',
+  'rules.coldBody': 'الحرارة {temperature}، أقل من {limit}.',
+  'rules.rainTitle': '{place}: مطر مرجّح',
+  'rules.rainBody': {
+    zero: 'احتمال المطر {chance} خلال الساعات القادمة.',
+    one: 'احتمال المطر {chance} خلال الساعة القادمة.',
+    two: 'احتمال المطر {chance} خلال الساعتين القادمتين.',
+    few: 'احتمال المطر {chance} خلال الساعات الـ {count} القادمة.',
+    many: 'احتمال المطر {chance} خلال الـ {count} ساعة القادمة.',
+    other: 'احتمال المطر {chance} خلال الـ {count} ساعة القادمة.',
+  },
+
+  'export.label': 'تصدير {name}',
+  'export.hourlyCsv': 'بيانات كل ساعة (CSV)',
+  'export.dailyCsv': 'بيانات يومية (CSV)',
+  'export.json': 'كل البيانات (JSON)',
+  'export.png': 'صورة البطاقة (PNG)',
+  'export.svg': 'صورة البطاقة (SVG)',
+  'export.failed': 'تعذّر إنشاء الملف.',
+
+  'snapshot.save': 'حفظ {title} بصيغة {kind}',
+  'snapshot.notReady': 'الرسم البياني غير جاهز بعد.',
+  'snapshot.failed': 'تعذّر إنشاء الصورة.',
+  'snapshot.humidityWind': 'الرطوبة {humidity} · الرياح {wind}',
+
+  'error.offline': 'أنت غير متصل ولا توجد توقعات محفوظة بعد.',
+  'error.unknownLocation': 'لا تعرف خدمة الطقس هذا الموقع.',
+  'error.unreadable': 'أرسلت خدمة الطقس بيانات تعذّرت قراءتها.',
+  'error.unreachable': 'تعذّر الوصول إلى خدمة الطقس.',
+  'error.status': 'أعادت خدمة الطقس خطأ ({status}).',
+  'error.generic': 'حدث خطأ أثناء تحميل التوقعات.',
+
+  'stale.title': 'تُعرض آخر توقعات محفوظة وستُحدَّث عند عودة الاتصال.',
+  'stale.label': 'حتى {time}، قديمة',
+
+  'condition.clear': 'صافٍ',
+  'condition.partlyCloudy': 'غائم جزئيًا',
+  'condition.cloudy': 'غائم',
+  'condition.fog': 'ضباب',
+  'condition.drizzle': 'رذاذ',
+  'condition.rain': 'مطر',
+  'condition.freezingRain': 'مطر متجمد',
+  'condition.sleet': 'مطر مع ثلج',
+  'condition.snow': 'ثلج',
+  'condition.thunderstorm': 'عاصفة رعدية',
+  'condition.unknown': 'غير معروف',
+
+  'notFound.title': 'الصفحة غير موجودة',
+  'notFound.message': 'لا يوجد شيء في هذا العنوان.',
+  'notFound.back': 'العودة إلى اللوحة',
+
+  'config.title': 'خدمة الطقس غير مُعدّة',
+  'config.notConfigured': 'لا يملك الخادم مفتاح WeatherAPI.com، لذا لا يمكن تحميل أي توقعات.',
+  'config.invalidKey': 'لا يقبل WeatherAPI.com مفتاح الخادم، لذا لا يمكن تحميل أي توقعات.',
+  'config.hint': 'اضبط WEATHER_API_KEY حيث يعمل وكيل الطقس (راجع ملف README)، ثم أعد التحميل.',
+  'config.reload': 'إعادة التحميل',
+
+  'update.ready': 'إصدار جديد من لوحة الطقس جاهز.',
+  'update.reload': 'إعادة التحميل',
+  'update.later': 'لاحقًا',
+
+  'activities.title': 'أفضل وقت للخروج',
+  'activities.running': 'الجري',
+  'activities.cycling': 'ركوب الدراجة',
+  'activities.siteWork': 'العمل الميداني',
+  'activities.window': '{from}–{to}',
+  'activities.comfort': 'الراحة {score}/100',
+  'activities.best': 'الأفضل',
+  'activities.bestToday': 'أفضل وقت لـ{activity} اليوم: {window}',
+  'activities.noneToday': 'لم يعد هناك وقت مناسب اليوم لـ{activity}',
+  'activities.edit': 'تعديل {activity}',
+  'activities.add': 'نشاط جديد',
+  'activities.newName': 'نشاطي',
+  'activities.name': 'الاسم',
+  'activities.minTemp': 'درجة الحرارة من (°{unit})',
+  'activities.maxTemp': 'درجة الحرارة حتى (°{unit})',
+  'activities.maxRain': 'احتمال المطر حتى (%)',
+  'activities.maxWind': 'الرياح حتى ({unit})',
+  'activities.maxUv': 'مؤشر الأشعة فوق البنفسجية حتى',
+  'activities.noLimit': 'أي قيمة',
+  'activities.daylightOnly': 'في ساعات النهار فقط',
+  'activities.save': 'حفظ',
+  'activities.remove': 'حذف النشاط',
+
+  'astro.title': 'الشمس والقمر',
+  'astro.dayLength': 'طول النهار',
+  'astro.duration': '{hours} س {minutes} د',
+  'astro.change': '{minutes} د {seconds} ث',
+  'astro.longer': 'أطول من أمس بـ {value}',
+  'astro.shorter': 'أقصر من أمس بـ {value}',
+  'astro.same': 'بطول أمس نفسه',
+  'astro.polarDay': 'الشمس ظاهرة طوال اليوم',
+  'astro.polarNight': 'لا تشرق الشمس اليوم',
+  'astro.sunPath': 'مسار الشمس خلال اليوم',
+  'astro.sunNow': 'مسار الشمس خلال اليوم؛ الشمس الآن على ارتفاع {degrees}°',
+  'astro.solarNoon': 'الظهر الشمسي',
+  'astro.span': '{from}–{to}',
+  'astro.goldenMorning': 'الساعة الذهبية (صباحًا)',
+  'astro.goldenEvening': 'الساعة الذهبية (مساءً)',
+  'astro.blueMorning': 'الساعة الزرقاء (صباحًا)',
+  'astro.blueEvening': 'الساعة الزرقاء (مساءً)',
+  'astro.moonrise': 'شروق القمر',
+  'astro.moonset': 'غروب القمر',
+  'astro.illumination': 'مضاء بنسبة {value}',
+  'astro.phase.new': 'محاق',
+  'astro.phase.waxingCrescent': 'هلال متزايد',
+  'astro.phase.firstQuarter': 'تربيع أول',
+  'astro.phase.waxingGibbous': 'أحدب متزايد',
+  'astro.phase.full': 'بدر',
+  'astro.phase.waningGibbous': 'أحدب متناقص',
+  'astro.phase.lastQuarter': 'تربيع أخير',
+  'astro.phase.waningCrescent': 'هلال متناقص',
+
+  'accuracy.title': 'دقة التوقعات',
+  'accuracy.retention': 'الاحتفاظ بالسجل لمدة',
+  'accuracy.exportCsv': 'تصدير CSV',
+  'accuracy.exportJson': 'تصدير JSON',
+  'accuracy.empty': 'لا توجد أيام مكتملة بعد. تُسجَّل توقعات هذه المدينة أثناء فتح اللوحة، ويُحتسب اليوم بعد متابعته {hours} ساعات على الأقل.',
+  'accuracy.basedOn': {
+    zero: 'استنادًا إلى {count} يوم مرصود. يُعد المطر متوقعًا عند احتمال {threshold} أو أكثر.',
+    one: 'استنادًا إلى يوم مرصود واحد. يُعد المطر متوقعًا عند احتمال {threshold} أو أكثر.',
+    two: 'استنادًا إلى يومين مرصودين. يُعد المطر متوقعًا عند احتمال {threshold} أو أكثر.',
+    few: 'استنادًا إلى {count} أيام مرصودة. يُعد المطر متوقعًا عند احتمال {threshold} أو أكثر.',
+    many: 'استنادًا إلى {count} يومًا مرصودًا. يُعد المطر متوقعًا عند احتمال {threshold} أو أكثر.',
+    other: 'استنادًا إلى {count} يوم مرصود. يُعد المطر متوقعًا عند احتمال {threshold} أو أكثر.',
+  },
+  'accuracy.lead': 'وقت التوقع',
+  'accuracy.days': 'الأيام',
+  'accuracy.highError': 'خطأ العظمى',
+  'accuracy.lowError': 'خطأ الصغرى',
+  'accuracy.rainRight': 'صحة توقع المطر',
+  'accuracy.rainMissed': 'مطر لم يُتوقع',
+  'accuracy.falseAlarms': 'إنذارات كاذبة',
+  'accuracy.sameDay': 'في اليوم نفسه',
+  'accuracy.daysAhead': {
+    zero: 'قبل {count} يوم',
+    one: 'قبل يوم',
+    two: 'قبل يومين',
+    few: 'قبل {count} أيام',
+    many: 'قبل {count} يومًا',
+    other: 'قبل {count} يوم',
+  },
+};
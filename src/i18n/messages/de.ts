@@ -0,0 +1,367 @@
+import type { Messages } from './en';
+
+// --- GERMAN ---
+
+export const de: Messages = {
+  'app.title': 'Wetter-Dashboard',
+  'app.offline': 'Du bist offline. Gespeicherte Vorhersagen werden angezeigt und aktualisiert, sobald die Verbindung zurück ist.',
+
+  'common.cancel': 'Abbrechen',
+  'common.close': 'Schließen',
+  'common.remove': 'Entfernen',
+
+  'account.signIn': 'Anmelden',
+  'account.signInHint': 'Melde dich an, um Favoriten und Einstellungen geräteübergreifend zu synchronisieren',
+  'account.signOut': 'Abmelden',
+  'account.syncFailed': 'Konto konnte nicht synchronisiert werden',
+  'account.syncFailedBody': 'Deine Favoriten und Einstellungen auf diesem Gerät wurden noch nicht hochgeladen. Die Synchronisierung wird fortgesetzt, sobald du wieder online bist.',
+
+  'settings.title': 'Einstellungen',
+  'settings.temperature': 'Temperatur',
+  'settings.wind': 'Windgeschwindigkeit',
+  'settings.pressure': 'Luftdruck',
+  'settings.distance': 'Entfernung',
+  'settings.precipitation': 'Niederschlag',
+  'settings.clock': 'Zeitformat',
+  'settings.theme': 'Design',
+  'settings.themeSystem': 'System',
+  'settings.themeLight': 'Hell',
+  'settings.themeDark': 'Dunkel',
+  'settings.language': 'Sprache',
+
+  'search.label': 'Nach einer Stadt suchen',
+  'search.placeholder': 'Nach einer Stadt suchen...',
+  'search.recent': 'Letzte Suchen',
+  'search.clear': 'Löschen',
+  'search.results': 'Suchergebnisse',
+  'search.noResults': 'Keine Ergebnisse gefunden.',
+  'search.resultCount': { one: '{count} Ergebnis verfügbar.', other: '{count} Ergebnisse verfügbar.' },
+  'search.alreadyFavorite': 'Bereits in den Favoriten',
+  'search.add': 'Hinzufügen',
+
+  'location.current': 'Aktueller Standort',
+  'location.chosen': 'Gewählter Ort',
+  'location.refresh': 'Aktuellen Standort aktualisieren',
+  'location.locating': 'Standort wird ermittelt...',
+  'location.unsupported': 'Dieser Browser kann deinen Standort nicht teilen.',
+  'location.denied': 'Der Zugriff auf den Standort wurde verweigert.',
+  'location.timeout': 'Die Standortermittlung hat zu lange gedauert.',
+  'location.unavailable': 'Dein Standort ist gerade nicht verfügbar.',
+  'location.tryAgain': 'Erneut versuchen',
+  'location.choose': 'Ort wählen',
+  'location.pickerPlaceholder': 'Wo bist du?',
+  'location.loadFailed': 'Das Wetter hier konnte nicht geladen werden.',
+  'location.lastPosition': 'Deine letzte Position wird angezeigt.',
+  'location.inFavorites': 'In den Favoriten',
+  'location.addFavorite': 'Zu Favoriten hinzufügen',
+  'location.change': 'Ort ändern',
+  'location.notHere': 'Nicht hier?',
+  'location.usePosition': 'Meine Position verwenden',
+
+  'dashboard.empty': 'Du hast noch keine Lieblingsstädte.',
+  'dashboard.emptyHint': 'Nutze die Suchleiste, um deine Lieblingsstädte zu finden und hinzuzufügen.',
+  'dashboard.ungrouped': 'Ohne Gruppe',
+  'dashboard.moved': '{name} auf Position {position} von {count} verschoben.',
+  'dashboard.movedInGroup': '{name} auf Position {position} von {count} in {group} verschoben.',
+
+  'view.sort': 'Sortieren',
+  'view.layout': 'Ansicht',
+  'view.cards': 'Karten',
+  'view.list': 'Kompakte Liste',
+  'view.newGroup': 'Neue Gruppe',
+  'view.newGroupName': 'Name der neuen Gruppe',
+  'view.newGroupPlaceholder': 'z. B. Büros',
+
+  'sort.manual': 'Eigene Reihenfolge',
+  'sort.name': 'Name',
+  'sort.temperature': 'Wärmste zuerst',
+  'sort.chanceOfRain': 'Regen am wahrscheinlichsten zuerst',
+  'sort.localTime': 'Ortszeit',
+
+  'group.newName': 'Neuer Name für {name}',
+  'group.rename': 'Gruppe {name} umbenennen',
+  'group.remove': 'Gruppe {name} entfernen',
+  'group.removeHint': 'Entfernt die Gruppe; ihre Städte bleiben auf dem Dashboard',
+  'group.empty': 'Ziehe Städte hierher, um sie zu {name} hinzuzufügen.',
+
+  'reorder.label': '{name} verschieben',
+  'reorder.hint': 'Ziehen oder mit den Pfeiltasten verschieben',
+
+  'card.loadFailed': 'Daten für {name} konnten nicht geladen werden.',
+  'card.nicknameFor': 'Spitzname für {name}',
+  'card.rename': '{name} umbenennen',
+  'card.remove': '{name} entfernen',
+
+  'row.loadFailed': 'Laden fehlgeschlagen',
+  'row.chanceOfRainToday': 'Regenwahrscheinlichkeit heute',
+  'row.localTime': 'Ortszeit',
+
+  'health.healthy': 'Läuft',
+  'health.offline': 'Offline',
+  'health.rateLimited': 'Anfragelimit erreicht, neuer Versuch {time}',
+  'health.providerErrors': 'Fehler beim Anbieter, neuer Versuch {time}',
+  'health.budgetUsed': 'Stundenkontingent aufgebraucht, weiter {time}',
+  'health.requests': '{requests} Anfragen an den Anbieter in der letzten Stunde',
+  'health.perHour': '{requests} Anfr./h',
+
+  'compare.compare': 'Vergleichen',
+  'compare.compareCities': 'Städte vergleichen',
+  'compare.selectCities': '{min}-{max} Städte wählen ({count} gewählt)',
+  'compare.nothing': 'Nichts zu vergleichen',
+  'compare.pickFavorites': 'Wähle {min}-{max} Favoriten auf dem Dashboard, um sie zu vergleichen.',
+  'compare.comparing': 'Vergleich von {count} Städten',
+  'compare.loadFailed': '{names} konnte nicht geladen werden.',
+  'compare.cityLocalTime': '{name} · {time} Ortszeit',
+  'compare.dailyLowHigh': 'Tagestief / -hoch',
+  'compare.date': 'Datum',
+
+  'detail.cityNotFound': 'Stadt nicht gefunden',
+  'detail.cityNotFoundMessage': 'Dieser Link führt weder zu einer gespeicherten Stadt noch zu einem gültigen Ort.',
+  'detail.removeFavorite': 'Aus Favoriten entfernen',
+  'detail.loading': 'Vorhersage wird geladen',
+  'detail.noWeatherFor': 'Kein Wetter für {name}',
+  'detail.noWeather': 'Kein Wetter für diesen Ort',
+  'detail.highLow': 'H: {high} / T: {low}',
+  'detail.feelsLike': 'Gefühlt',
+  'detail.wind': 'Wind',
+  'detail.humidity': 'Luftfeuchtigkeit',
+  'detail.uvIndex': 'UV-Index',
+  'detail.dewPoint': 'Taupunkt',
+  'detail.heatIndex': 'Hitzeindex',
+  'detail.windChill': 'Windchill',
+  'detail.comfort': 'Komfort',
+  'detail.comfortScore': '{score}/100',
+  'detail.pressure': 'Luftdruck',
+  'detail.visibility': 'Sichtweite',
+  'detail.sunrise': 'Sonnenaufgang',
+  'detail.sunset': 'Sonnenuntergang',
+  'detail.range': 'Zeitraum',
+  'detail.days': { one: '{count} Tag', other: '{count} Tage' },
+  'detail.extensionMissing': 'Dieser Wetterdienst kann hier nicht über {count} Tage hinaus vorhersagen, daher endet der Trend dort.',
+  'detail.rangeLimited': {
+    one: 'Dieser Wetterdienst liefert hier nur {count} Tag Vorhersage, längere Zeiträume gibt es daher nicht.',
+    other: 'Dieser Wetterdienst liefert hier nur {count} Tage Vorhersage, längere Zeiträume gibt es daher nicht.',
+  },
+
+  'charts.hourly': 'Stündliche Vorhersage',
+  'charts.dailyTrend': '{count}-Tage-Trend',
+  'charts.temperature': 'Temperatur',
+  'charts.chanceOfRain': 'Regenwahrscheinlichkeit',
+  'charts.precipitation': 'Niederschlag',
+  'charts.maxTemp': 'Höchsttemp.',
+  'charts.minTemp': 'Tiefsttemp.',
+  'charts.daylight': 'Tageslicht (h)',
+  'charts.pollutants': 'Schadstoffe (µg/m³)',
+
+  'tooltip.temperature': 'Temp.: {value}',
+  'tooltip.feelsLike': 'Gefühlt: {value}',
+  'tooltip.high': 'Hoch: {value}',
+  'tooltip.low': 'Tief: {value}',
+  'tooltip.mean': 'Mittel: {value}',
+  'tooltip.rain': 'Regen: {value}',
+  'tooltip.precipitation': 'Niederschlag: {value}',
+  'tooltip.wind': 'Wind: {value}',
+  'tooltip.comfort': 'Komfort: {value}/100',
+  'tooltip.daylight': 'Tageslicht: {value}',
+
+  'airQuality.title': 'Luftqualität',
+  'aqi.title': 'Luftqualität: {category}',
+  'aqi.chip': 'LQI {index}',
+  'aqi.epa.good': 'Gut',
+  'aqi.epa.moderate': 'Mäßig',
+  'aqi.epa.sensitive': 'Ungesund für empfindliche Gruppen',
+  'aqi.epa.unhealthy': 'Ungesund',
+  'aqi.epa.veryUnhealthy': 'Sehr ungesund',
+  'aqi.epa.hazardous': 'Gefährlich',
+  'aqi.defra.low': 'Niedrig',
+  'aqi.defra.moderate': 'Mäßig',
+  'aqi.defra.high': 'Hoch',
+  'aqi.defra.veryHigh': 'Sehr hoch',
+
+  'history.title': 'Verlauf',
+  'history.last7Days': 'Letzte 7 Tage',
+  'history.last30Days': 'Letzte 30 Tage',
+  'history.lastYear': 'Letztes Jahr',
+  'history.from': 'Von',
+  'history.to': 'Bis',
+  'history.incomplete': 'Wähle ein Start- und ein Enddatum.',
+  'history.reversed': 'Das Startdatum muss vor dem Enddatum liegen.',
+  'history.future': 'Der Verlauf endet gestern; die Vorhersage oben deckt ab heute ab.',
+  'history.tooLong': 'Wähle einen Zeitraum von höchstens {count} Tagen.',
+  'history.loadFailed': 'Das vergangene Wetter für diese Daten konnte nicht geladen werden.',
+  'history.hourly': 'Stündlicher Verlauf',
+  'history.dailySummary': 'Tagesübersicht',
+  'history.weeklySummary': 'Wochenübersicht',
+  'history.perDay': '{count} Tage sind zu viele für ein Stundendiagramm, daher steht jeder Punkt für einen Tag.',
+  'history.perWeek': '{count} Tage sind zu viele für ein Stundendiagramm, daher steht jeder Punkt für eine Woche.',
+  'history.partial': {
+    one: 'Nur der erste Tag dieses Zeitraums konnte geladen werden.',
+    other: 'Nur die ersten {count} Tage dieses Zeitraums konnten geladen werden.',
+  },
+
+  'lastYear.title': 'Heute im Vergleich zum {date}',
+  'lastYear.unavailable': 'Das Wetter vom letzten Jahr ist bei diesem Wetterdienst nicht verfügbar.',
+  'lastYear.measure': 'Messwert',
+  'lastYear.today': 'Heute',
+  'lastYear.aYearAgo': 'Vor einem Jahr',
+  'lastYear.change': 'Änderung',
+  'lastYear.high': 'Höchstwert',
+  'lastYear.low': 'Tiefstwert',
+  'lastYear.precipitation': 'Niederschlag',
+
+  'alerts.title': 'Warnungen',
+  'alerts.from': 'Ab {from}',
+  'alerts.until': 'Bis {until}',
+  'alerts.fromUntil': 'Von {from} bis {until}',
+
+  'severity.extreme': 'extrem',
+  'severity.severe': 'schwer',
+  'severity.moderate': 'mäßig',
+  'severity.minor': 'gering',
+  'severity.unknown': 'unbekannt',
+
+  'notifications.dismiss': 'Schließen',
+
+  'rules.title': 'Benachrichtige mich',
+  'rules.windAbove': 'Wind über ({unit})',
+  'rules.tempAbove': 'Temperatur über (°{unit})',
+  'rules.tempBelow': 'Temperatur unter (°{unit})',
+  'rules.rainAbove': 'Regenwahrscheinlichkeit über (%)',
+  'rules.officialAlerts': 'Bei einer amtlichen Warnung',
+  'rules.off': 'Aus',
+  'rules.save': 'Regeln speichern',
+  'rules.savedBrowser': 'Gespeichert. Du erhältst Browser-Benachrichtigungen.',
+  'rules.savedInApp': 'Gespeichert. Benachrichtigungen erscheinen im Dashboard.',
+  'rules.savedInactive': 'Gespeichert. Keine Regel ist aktiv.',
+  'rules.windTitle': '{place}: starker Wind',
+  'rules.windBody': 'Der Wind weht mit {wind}, über deinem Grenzwert von {limit}.',
+  'rules.heatTitle': '{place}: hohe Temperatur',
+  'rules.heatBody': 'Es sind {temperature}, über {limit}.',
+  'rules.coldTitle': '{place}: niedrige Temperatur',
+  'rules.coldBody': 'Es sind {temperature}, unter {limit}.',
+  'rules.rainTitle': '{place}: Regen wahrscheinlich',
+  'rules.rainBody': {
+    one: '{chance} Regenwahrscheinlichkeit in der nächsten Stunde.',
+    other: '{chance} Regenwahrscheinlichkeit in den nächsten {count} Stunden.',
+  },
+
+  'export.label': '{name} exportieren',
+  'export.hourlyCsv': 'Stündliche Daten (CSV)',
+  'export.dailyCsv': 'Tägliche Daten (CSV)',
+  'export.json': 'Alle Daten (JSON)',
+  'export.png': 'Kartenbild (PNG)',
+  'export.svg': 'Kartenbild (SVG)',
+  'export.failed': 'Die Datei konnte nicht erstellt werden.',
+
+  'snapshot.save': '{title} als {kind} speichern',
+  'snapshot.notReady': 'Das Diagramm ist noch nicht bereit.',
+  'snapshot.failed': 'Das Bild konnte nicht erstellt werden.',
+  'snapshot.humidityWind': 'Luftfeuchtigkeit {humidity} · Wind {wind}',
+
+  'error.offline': 'Du bist offline und es gibt noch keine gespeicherte Vorhersage.',
+  'error.unknownLocation': 'Der Wetterdienst kennt diesen Ort nicht.',
+  'error.unreadable': 'Der Wetterdienst hat unlesbare Daten gesendet.',
+  'error.unreachable': 'Der Wetterdienst war nicht erreichbar.',
+  'error.status': 'Der Wetterdienst hat einen Fehler gemeldet ({status}).',
+  'error.generic': 'Beim Laden der Vorhersage ist etwas schiefgelaufen.',
+
+  'stale.title': 'Die zuletzt gespeicherte Vorhersage wird angezeigt und aktualisiert, sobald die Verbindung zurück ist.',
+  'stale.label': 'Stand {time}, veraltet',
+
+  'condition.clear': 'Klar',
+  'condition.partlyCloudy': 'Teilweise bewölkt',
+  'condition.cloudy': 'Bewölkt',
+  'condition.fog': 'Nebel',
+  'condition.drizzle': 'Nieselregen',
+  'condition.rain': 'Regen',
+  'condition.freezingRain': 'Gefrierender Regen',
+  'condition.sleet': 'Schneeregen',
+  'condition.snow': 'Schnee',
+  'condition.thunderstorm': 'Gewitter',
+  'condition.unknown': 'Unbekannt',
+
+  'notFound.title': 'Seite nicht gefunden',
+  'notFound.message': 'Unter dieser Adresse gibt es nichts.',
+  'notFound.back': 'Zurück zum Dashboard',
+
+  'config.title': 'Der Wetterdienst ist nicht eingerichtet',
+  'config.notConfigured': 'Der Server hat keinen WeatherAPI.com-Schlüssel, daher können keine Vorhersagen geladen werden.',
+  'config.invalidKey': 'WeatherAPI.com akzeptiert den Schlüssel des Servers nicht, daher können keine Vorhersagen geladen werden.',
+  'config.hint': 'Setze WEATHER_API_KEY dort, wo der Wetter-Proxy läuft (siehe README), und lade neu.',
+  'config.reload': 'Neu laden',
+
+  'update.ready': 'Eine neue Version des Dashboards ist bereit.',
+  'update.reload': 'Neu laden',
+  'update.later': 'Später',
+
+  'activities.title': 'Beste Zeit draußen',
+  'activities.running': 'Laufen',
+  'activities.cycling': 'Radfahren',
+  'activities.siteWork': 'Baustellenarbeit',
+  'activities.window': '{from}–{to}',
+  'activities.comfort': 'Komfort {score}/100',
+  'activities.best': 'Am besten',
+  'activities.bestToday': 'Heute am besten für {activity}: {window}',
+  'activities.noneToday': 'Heute keine gute Zeit mehr für {activity}',
+  'activities.edit': '{activity} bearbeiten',
+  'activities.add': 'Neue Aktivität',
+  'activities.newName': 'Meine Aktivität',
+  'activities.name': 'Name',
+  'activities.minTemp': 'Temperatur ab (°{unit})',
+  'activities.maxTemp': 'Temperatur bis (°{unit})',
+  'activities.maxRain': 'Regenwahrscheinlichkeit bis (%)',
+  'activities.maxWind': 'Wind bis ({unit})',
+  'activities.maxUv': 'UV-Index bis',
+  'activities.noLimit': 'Beliebig',
+  'activities.daylightOnly': 'Nur bei Tageslicht',
+  'activities.save': 'Speichern',
+  'activities.remove': 'Aktivität löschen',
+
+  'astro.title': 'Sonne & Mond',
+  'astro.dayLength': 'Tageslänge',
+  'astro.duration': '{hours} Std. {minutes} Min.',
+  'astro.change': '{minutes} Min. {seconds} Sek.',
+  'astro.longer': '{value} länger als gestern',
+  'astro.shorter': '{value} kürzer als gestern',
+  'astro.same': 'So lang wie gestern',
+  'astro.polarDay': 'Sonne den ganzen Tag',
+  'astro.polarNight': 'Keine Sonne heute',
+  'astro.sunPath': 'Sonnenbahn über den Tag',
+  'astro.sunNow': 'Sonnenbahn über den Tag; die Sonne steht jetzt bei {degrees}°',
+  'astro.solarNoon': 'Sonnenhöchststand',
+  'astro.span': '{from}–{to}',
+  'astro.goldenMorning': 'Goldene Stunde (morgens)',
+  'astro.goldenEvening': 'Goldene Stunde (abends)',
+  'astro.blueMorning': 'Blaue Stunde (morgens)',
+  'astro.blueEvening': 'Blaue Stunde (abends)',
+  'astro.moonrise': 'Mondaufgang',
+  'astro.moonset': 'Monduntergang',
+  'astro.illumination': '{value} beleuchtet',
+  'astro.phase.new': 'Neumond',
+  'astro.phase.waxingCrescent': 'Zunehmende Sichel',
+  'astro.phase.firstQuarter': 'Erstes Viertel',
+  'astro.phase.waxingGibbous': 'Zunehmender Mond',
+  'astro.phase.full': 'Vollmond',
+  'astro.phase.waningGibbous': 'Abnehmender Mond',
+  'astro.phase.lastQuarter': 'Letztes Viertel',
+  'astro.phase.waningCrescent': 'Abnehmende Sichel',
+
+  'accuracy.title': 'Vorhersagegenauigkeit',
+  'accuracy.retention': 'Verlauf behalten für',
+  'accuracy.exportCsv': 'Als CSV exportieren',
+  'accuracy.exportJson': 'Als JSON exportieren',
+  'accuracy.empty': 'Noch keine abgeschlossenen Tage. Vorhersagen für diesen Ort werden aufgezeichnet, solange das Dashboard geöffnet ist, und ein Tag zählt, sobald er mindestens {hours} Stunden lang beobachtet wurde.',
+  'accuracy.basedOn': {
+    one: 'Basierend auf {count} beobachteten Tag. Regen gilt ab {threshold} Wahrscheinlichkeit als vorhergesagt.',
+    other: 'Basierend auf {count} beobachteten Tagen. Regen gilt ab {threshold} Wahrscheinlichkeit als vorhergesagt.',
+  },
+  'accuracy.lead': 'Vorhersage von',
+  'accuracy.days': 'Tage',
+  'accuracy.highError': 'Abweichung Max.',
+  'accuracy.lowError': 'Abweichung Min.',
+  'accuracy.rainRight': 'Regen richtig',
+  'accuracy.rainMissed': 'Regen verpasst',
+  'accuracy.falseAlarms': 'Fehlalarme',
+  'accuracy.sameDay': 'Am selben Tag',
+  'accuracy.daysAhead': { one: '{count} Tag vorher', other: '{count} Tage vorher' },
+};
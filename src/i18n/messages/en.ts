@@ -0,0 +1,373 @@
+// --- ENGLISH ---
+// The source catalog: every other language translates these keys. Messages
+// that depend on a number are keyed by Intl plural category.
+
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export const en = {
+  'app.title': 'Weather Dashboard',
+  'app.offline': "You're offline. Showing saved forecasts; they'll refresh when the connection is back.",
+
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.remove': 'Remove',
+
+  'account.signIn': 'Sign in',
+  'account.signInHint': 'Sign in to sync favorites and settings across devices',
+  'account.signOut': 'Sign out',
+  'account.syncFailed': "Couldn't sync your account",
+  'account.syncFailedBody': "Your favorites and settings on this device haven't been uploaded yet. Sync will resume once you're back online.",
+
+  'settings.title': 'Settings',
+  'settings.temperature': 'Temperature',
+  'settings.wind': 'Wind speed',
+  'settings.pressure': 'Pressure',
+  'settings.distance': 'Distance',
+  'settings.precipitation': 'Precipitation',
+  'settings.clock': 'Time format',
+  'settings.theme': 'Theme',
+  'settings.themeSystem': 'System',
+  'settings.themeLight': 'Light',
+  'settings.themeDark': 'Dark',
+  'settings.language': 'Language',
+
+  'search.label': 'Search for a city',
+  'search.placeholder': 'Search for a city...',
+  'search.recent': 'Recent searches',
+  'search.clear': 'Clear',
+  'search.results': 'Search results',
+  'search.noResults': 'No results found.',
+  'search.resultCount': { one: '{count} result available.', other: '{count} results available.' },
+  'search.alreadyFavorite': 'Already in favorites',
+  'search.add': 'Add',
+
+  'location.current': 'Current location',
+  'location.chosen': 'Chosen location',
+  'location.refresh': 'Refresh current location',
+  'location.locating': 'Finding your location...',
+  'location.unsupported': "This browser can't share your location.",
+  'location.denied': 'Location permission was denied.',
+  'location.timeout': 'Finding your location took too long.',
+  'location.unavailable': 'Your location is unavailable right now.',
+  'location.tryAgain': 'Try again',
+  'location.choose': 'Choose a place',
+  'location.pickerPlaceholder': 'Where are you?',
+  'location.loadFailed': 'Could not load the weather here.',
+  'location.lastPosition': 'Showing your last position.',
+  'location.inFavorites': 'In favorites',
+  'location.addFavorite': 'Add to favorites',
+  'location.change': 'Change place',
+  'location.notHere': 'Not here?',
+  'location.usePosition': 'Use my position',
+
+  'dashboard.empty': 'You have no favorite cities yet.',
+  'dashboard.emptyHint': 'Use the search bar to find and add your favorite cities.',
+  'dashboard.ungrouped': 'Ungrouped',
+  'dashboard.moved': '{name} moved to position {position} of {count}.',
+  'dashboard.movedInGroup': '{name} moved to position {position} of {count} in {group}.',
+
+  'view.sort': 'Sort',
+  'view.layout': 'Layout',
+  'view.cards': 'Cards',
+  'view.list': 'Compact list',
+  'view.newGroup': 'New group',
+  'view.newGroupName': 'New group name',
+  'view.newGroupPlaceholder': 'e.g. Offices',
+
+  'sort.manual': 'Custom order',
+  'sort.name': 'Name',
+  'sort.temperature': 'Warmest first',
+  'sort.chanceOfRain': 'Most likely rain first',
+  'sort.localTime': 'Local time',
+
+  'group.newName': 'New name for {name}',
+  'group.rename': 'Rename group {name}',
+  'group.remove': 'Remove group {name}',
+  'group.removeHint': 'Remove the group; its cities stay on the dashboard',
+  'group.empty': 'Drag cities here to add them to {name}.',
+
+  'reorder.label': 'Reorder {name}',
+  'reorder.hint': 'Drag, or use the arrow keys, to move',
+
+  'card.loadFailed': 'Could not load data for {name}.',
+  'card.nicknameFor': 'Nickname for {name}',
+  'card.rename': 'Rename {name}',
+  'card.remove': 'Remove {name}',
+
+  'row.loadFailed': 'Could not load',
+  'row.chanceOfRainToday': 'Chance of rain today',
+  'row.localTime': 'Local time',
+
+  'health.healthy': 'Healthy',
+  'health.offline': 'Offline',
+  'health.rateLimited': 'Rate limited, retrying {time}',
+  'health.providerErrors': 'Provider errors, retrying {time}',
+  'health.budgetUsed': 'Hourly budget used, resumes {time}',
+  'health.requests': '{requests} provider requests in the last hour',
+  'health.perHour': '{requests} req/h',
+
+  'compare.compare': 'Compare',
+  'compare.compareCities': 'Compare cities',
+  'compare.selectCities': 'Select {min}-{max} cities ({count} selected)',
+  'compare.nothing': 'Nothing to compare',
+  'compare.pickFavorites': 'Pick {min}-{max} favorites on the dashboard to compare them.',
+  'compare.comparing': 'Comparing {count} cities',
+  'compare.loadFailed': 'Could not load {names}.',
+  'compare.cityLocalTime': '{name} · {time} local',
+  'compare.dailyLowHigh': 'Daily Low / High',
+  'compare.date': 'Date',
+
+  'detail.cityNotFound': 'City not found',
+  'detail.cityNotFoundMessage': "This link doesn't point to a saved city or a valid location.",
+  'detail.removeFavorite': 'Remove from favorites',
+  'detail.loading': 'Loading forecast',
+  'detail.noWeatherFor': 'No weather for {name}',
+  'detail.noWeather': 'No weather for this location',
+  'detail.highLow': 'H: {high} / L: {low}',
+  'detail.feelsLike': 'Feels Like',
+  'detail.wind': 'Wind',
+  'detail.humidity': 'Humidity',
+  'detail.uvIndex': 'UV Index',
+  'detail.dewPoint': 'Dew Point',
+  'detail.heatIndex': 'Heat Index',
+  'detail.windChill': 'Wind Chill',
+  'detail.comfort': 'Comfort',
+  'detail.comfortScore': '{score}/100',
+  'detail.pressure': 'Pressure',
+  'detail.visibility': 'Visibility',
+  'detail.sunrise': 'Sunrise',
+  'detail.sunset': 'Sunset',
+  'detail.range': 'Range',
+  'detail.days': { one: '{count} day', other: '{count} days' },
+  'detail.extensionMissing': "This weather service can't forecast past {count} days here, so the trend stops there.",
+  'detail.rangeLimited': {
+    one: "This weather service only gives {count} day of forecast here, so longer ranges aren't available.",
+    other: "This weather service only gives {count} days of forecast here, so longer ranges aren't available.",
+  },
+
+  'charts.hourly': 'Hourly Forecast',
+  'charts.dailyTrend': '{count}-Day Trend',
+  'charts.temperature': 'Temperature',
+  'charts.chanceOfRain': 'Chance of Rain',
+  'charts.precipitation': 'Precipitation',
+  'charts.maxTemp': 'Max Temp',
+  'charts.minTemp': 'Min Temp',
+  'charts.daylight': 'Daylight (h)',
+  'charts.pollutants': 'Pollutants (µg/m³)',
+
+  'tooltip.temperature': 'Temp: {value}',
+  'tooltip.feelsLike': 'Feels like: {value}',
+  'tooltip.high': 'High: {value}',
+  'tooltip.low': 'Low: {value}',
+  'tooltip.mean': 'Mean: {value}',
+  'tooltip.rain': 'Rain: {value}',
+  'tooltip.precipitation': 'Precipitation: {value}',
+  'tooltip.wind': 'Wind: {value}',
+  'tooltip.comfort': 'Comfort: {value}/100',
+  'tooltip.daylight': 'Daylight: {value}',
+
+  'airQuality.title': 'Air Quality',
+  'aqi.title': 'Air quality: {category}',
+  'aqi.chip': 'AQI {index}',
+  'aqi.epa.good': 'Good',
+  'aqi.epa.moderate': 'Moderate',
+  'aqi.epa.sensitive': 'Unhealthy for Sensitive Groups',
+  'aqi.epa.unhealthy': 'Unhealthy',
+  'aqi.epa.veryUnhealthy': 'Very Unhealthy',
+  'aqi.epa.hazardous': 'Hazardous',
+  'aqi.defra.low': 'Low',
+  'aqi.defra.moderate': 'Moderate',
+  'aqi.defra.high': 'High',
+  'aqi.defra.veryHigh': 'Very High',
+
+  'history.title': 'History',
+  'history.last7Days': 'Last 7 days',
+  'history.last30Days': 'Last 30 days',
+  'history.lastYear': 'Last year',
+  'history.from': 'From',
+  'history.to': 'To',
+  'history.incomplete': 'Pick a start and an end date.',
+  'history.reversed': 'The start date must come before the end date.',
+  'history.future': 'History ends yesterday; the forecast above covers today onwards.',
+  'history.tooLong': 'Pick a range of at most {count} days.',
+  'history.loadFailed': 'Could not load past weather for these dates.',
+  'history.hourly': 'Hourly History',
+  'history.dailySummary': 'Daily Summary',
+  'history.weeklySummary': 'Weekly Summary',
+  'history.perDay': '{count} days are too many to chart hour by hour, so each point is one day.',
+  'history.perWeek': '{count} days are too many to chart hour by hour, so each point is one week.',
+  'history.partial': {
+    one: 'Only the first {count} day of this range could be loaded.',
+    other: 'Only the first {count} days of this range could be loaded.',
+  },
+
+  'lastYear.title': 'Today vs {date}',
+  'lastYear.unavailable': "Last year's weather isn't available from this weather service.",
+  'lastYear.measure': 'Measure',
+  'lastYear.today': 'Today',
+  'lastYear.aYearAgo': 'A year ago',
+  'lastYear.change': 'Change',
+  'lastYear.high': 'High',
+  'lastYear.low': 'Low',
+  'lastYear.precipitation': 'Precipitation',
+
+  'alerts.title': 'Alerts',
+  'alerts.from': 'From {from}',
+  'alerts.until': 'Until {until}',
+  'alerts.fromUntil': 'From {from} until {until}',
+
+  'severity.extreme': 'extreme',
+  'severity.severe': 'severe',
+  'severity.moderate': 'moderate',
+  'severity.minor': 'minor',
+  'severity.unknown': 'unknown',
+
+  'notifications.dismiss': 'Dismiss',
+
+  'rules.title': 'Notify Me',
+  'rules.windAbove': 'Wind above ({unit})',
+  'rules.tempAbove': 'Temperature above (°{unit})',
+  'rules.tempBelow': 'Temperature below (°{unit})',
+  'rules.rainAbove': 'Chance of rain above (%)',
+  'rules.officialAlerts': 'When an official alert is issued',
+  'rules.off': 'Off',
+  'rules.save': 'Save Rules',
+  'rules.savedBrowser': 'Saved. You will get browser notifications.',
+  'rules.savedInApp': 'Saved. Notifications will appear inside the dashboard.',
+  'rules.savedInactive': 'Saved. No rules are active.',
+  'rules.windTitle': '{place}: strong wind',
+  'rules.windBody': 'Wind is {wind}, above your limit of {limit}.',
+  'rules.heatTitle': '{place}: high temperature',
+  'rules.heatBody': "It's {temperature}, above {limit}.",
+  'rules.coldTitle': '{place}: low temperature',
+  'rules.coldBody': "It's {temperature}, below {limit}.",
+  'rules.rainTitle': '{place}: rain likely',
+  'rules.rainBody': {
+    one: '{chance} chance of rain in the next hour.',
+    other: '{chance} chance of rain in the next {count} hours.',
+  },
+
+  'export.label': 'Export {name}',
+  'export.hourlyCsv': 'Hourly data (CSV)',
+  'export.dailyCsv': 'Daily data (CSV)',
+  'export.json': 'All data (JSON)',
+  'export.png': 'Card image (PNG)',
+  'export.svg': 'Card image (SVG)',
+  'export.failed': 'Could not create the file.',
+
+  'snapshot.save': 'Save {title} as {kind}',
+  'snapshot.notReady': 'The chart is not ready yet.',
+  'snapshot.failed': 'Could not create the image.',
+  'snapshot.humidityWind': 'Humidity {humidity} · Wind {wind}',
+
+  'error.offline': "You're offline and there's no saved forecast yet.",
+  'error.unknownLocation': "The weather service doesn't know this location.",
+  'error.unreadable': "The weather service sent data we couldn't read.",
+  'error.unreachable': "The weather service couldn't be reached.",
+  'error.status': 'The weather service returned an error ({status}).',
+  'error.generic': 'Something went wrong loading the forecast.',
+
+  'stale.title': 'Showing the last saved forecast; it will refresh when the connection is back.',
+  'stale.label': 'as of {time}, stale',
+
+  'condition.clear': 'Clear',
+  'condition.partlyCloudy': 'Partly cloudy',
+  'condition.cloudy': 'Cloudy',
+  'condition.fog': 'Fog',
+  'condition.drizzle': 'Drizzle',
+  'condition.rain': 'Rain',
+  'condition.freezingRain': 'Freezing rain',
+  'condition.sleet': 'Sleet',
+  'condition.snow': 'Snow',
+  'condition.thunderstorm': 'Thunderstorm',
+  'condition.unknown': 'Unknown',
+
+  'notFound.title': 'Page not found',
+  'notFound.message': "There's nothing at this address.",
+  'notFound.back': 'Back to dashboard',
+
+  'config.title': "The weather service isn't set up",
+  'config.notConfigured': 'The server has no WeatherAPI.com key, so no forecasts can be loaded.',
+  'config.invalidKey': "WeatherAPI.com doesn't accept the server's API key, so no forecasts can be loaded.",
+  'config.hint': 'Set WEATHER_API_KEY where the weather proxy runs (see the README), then reload.',
+  'config.reload': 'Reload',
+
+  'update.ready': 'A new version of the dashboard is ready.',
+  'update.reload': 'Reload',
+  'update.later': 'Later',
+
+  'activities.title': 'Best Time Outside',
+  'activities.running': 'Running',
+  'activities.cycling': 'Cycling',
+  'activities.siteWork': 'Site work',
+  'activities.window': '{from}–{to}',
+  'activities.comfort': 'comfort {score}/100',
+  'activities.best': 'Best',
+  'activities.bestToday': 'Best for {activity} today: {window}',
+  'activities.noneToday': 'No good time left today for {activity}',
+  'activities.edit': 'Edit {activity}',
+  'activities.add': 'New activity',
+  'activities.newName': 'My activity',
+  'activities.name': 'Name',
+  'activities.minTemp': 'Temperature from (°{unit})',
+  'activities.maxTemp': 'Temperature up to (°{unit})',
+  'activities.maxRain': 'Chance of rain up to (%)',
+  'activities.maxWind': 'Wind up to ({unit})',
+  'activities.maxUv': 'UV index up to',
+  'activities.noLimit': 'Any',
+  'activities.daylightOnly': 'Daylight hours only',
+  'activities.save': 'Save',
+  'activities.remove': 'Delete activity',
+
+  'astro.title': 'Sun & Moon',
+  'astro.dayLength': 'Day length',
+  'astro.duration': '{hours} h {minutes} min',
+  'astro.change': '{minutes} min {seconds} s',
+  'astro.longer': '{value} longer than yesterday',
+  'astro.shorter': '{value} shorter than yesterday',
+  'astro.same': 'As long as yesterday',
+  'astro.polarDay': 'Sun up all day',
+  'astro.polarNight': 'Sun down all day',
+  'astro.sunPath': 'Sun path through the day',
+  'astro.sunNow': 'Sun path through the day; the sun is now at {degrees}°',
+  'astro.solarNoon': 'Solar noon',
+  'astro.span': '{from}–{to}',
+  'astro.goldenMorning': 'Golden hour (morning)',
+  'astro.goldenEvening': 'Golden hour (evening)',
+  'astro.blueMorning': 'Blue hour (morning)',
+  'astro.blueEvening': 'Blue hour (evening)',
+  'astro.moonrise': 'Moonrise',
+  'astro.moonset': 'Moonset',
+  'astro.illumination': '{value} illuminated',
+  'astro.phase.new': 'New moon',
+  'astro.phase.waxingCrescent': 'Waxing crescent',
+  'astro.phase.firstQuarter': 'First quarter',
+  'astro.phase.waxingGibbous': 'Waxing gibbous',
+  'astro.phase.full': 'Full moon',
+  'astro.phase.waningGibbous': 'Waning gibbous',
+  'astro.phase.lastQuarter': 'Last quarter',
+  'astro.phase.waningCrescent': 'Waning crescent',
+
+  'accuracy.title': 'Forecast Accuracy',
+  'accuracy.retention': 'Keep history for',
+  'accuracy.exportCsv': 'Export CSV',
+  'accuracy.exportJson': 'Export JSON',
+  'accuracy.empty': "No finished days yet. Forecasts for this city are recorded while the dashboard is open, and a day counts once it's been watched for at least {hours} hours.",
+  'accuracy.basedOn': {
+    one: 'Based on {count} observed day. Rain counts as forecast at a chance of {threshold} or more.',
+    other: 'Based on {count} observed days. Rain counts as forecast at a chance of {threshold} or more.',
+  },
+  'accuracy.lead': 'Forecast made',
+  'accuracy.days': 'Days',
+  'accuracy.highError': 'High off by',
+  'accuracy.lowError': 'Low off by',
+  'accuracy.rainRight': 'Rain call right',
+  'accuracy.rainMissed': 'Rain missed',
+  'accuracy.falseAlarms': 'False alarms',
+  'accuracy.sameDay': 'Same day',
+  'accuracy.daysAhead': { one: '{count} day ahead', other: '{count} days ahead' },
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, Message>;
@@ -0,0 +1,367 @@
+import type { Messages } from './en';
+
+// --- SPANISH ---
+
+export const es: Messages = {
+  'app.title': 'Panel del tiempo',
+  'app.offline': 'Sin conexión. Se muestran los pronósticos guardados; se actualizarán cuando vuelva la conexión.',
+
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.remove': 'Quitar',
+
+  'account.signIn': 'Iniciar sesión',
+  'account.signInHint': 'Inicia sesión para sincronizar favoritos y ajustes entre dispositivos',
+  'account.signOut': 'Cerrar sesión',
+  'account.syncFailed': 'No se pudo sincronizar tu cuenta',
+  'account.syncFailedBody': 'Tus favoritos y ajustes de este dispositivo aún no se han subido. La sincronización se reanudará cuando vuelvas a tener conexión.',
+
+  'settings.title': 'Ajustes',
+  'settings.temperature': 'Temperatura',
+  'settings.wind': 'Velocidad del viento',
+  'settings.pressure': 'Presión',
+  'settings.distance': 'Distancia',
+  'settings.precipitation': 'Precipitación',
+  'settings.clock': 'Formato de hora',
+  'settings.theme': 'Tema',
+  'settings.themeSystem': 'Sistema',
+  'settings.themeLight': 'Claro',
+  'settings.themeDark': 'Oscuro',
+  'settings.language': 'Idioma',
+
+  'search.label': 'Buscar una ciudad',
+  'search.placeholder': 'Buscar una ciudad...',
+  'search.recent': 'Búsquedas recientes',
+  'search.clear': 'Borrar',
+  'search.results': 'Resultados de la búsqueda',
+  'search.noResults': 'No se encontraron resultados.',
+  'search.resultCount': { one: '{count} resultado disponible.', other: '{count} resultados disponibles.' },
+  'search.alreadyFavorite': 'Ya está en favoritos',
+  'search.add': 'Añadir',
+
+  'location.current': 'Ubicación actual',
+  'location.chosen': 'Ubicación elegida',
+  'location.refresh': 'Actualizar la ubicación actual',
+  'location.locating': 'Buscando tu ubicación...',
+  'location.unsupported': 'Este navegador no puede compartir tu ubicación.',
+  'location.denied': 'Se denegó el permiso de ubicación.',
+  'location.timeout': 'Encontrar tu ubicación tardó demasiado.',
+  'location.unavailable': 'Tu ubicación no está disponible ahora mismo.',
+  'location.tryAgain': 'Reintentar',
+  'location.choose': 'Elegir un lugar',
+  'location.pickerPlaceholder': '¿Dónde estás?',
+  'location.loadFailed': 'No se pudo cargar el tiempo de este lugar.',
+  'location.lastPosition': 'Se muestra tu última posición.',
+  'location.inFavorites': 'En favoritos',
+  'location.addFavorite': 'Añadir a favoritos',
+  'location.change': 'Cambiar de lugar',
+  'location.notHere': '¿No estás aquí?',
+  'location.usePosition': 'Usar mi posición',
+
+  'dashboard.empty': 'Todavía no tienes ciudades favoritas.',
+  'dashboard.emptyHint': 'Usa la barra de búsqueda para encontrar y añadir tus ciudades favoritas.',
+  'dashboard.ungrouped': 'Sin grupo',
+  'dashboard.moved': '{name} pasó a la posición {position} de {count}.',
+  'dashboard.movedInGroup': '{name} pasó a la posición {position} de {count} en {group}.',
+
+  'view.sort': 'Ordenar',
+  'view.layout': 'Diseño',
+  'view.cards': 'Tarjetas',
+  'view.list': 'Lista compacta',
+  'view.newGroup': 'Nuevo grupo',
+  'view.newGroupName': 'Nombre del nuevo grupo',
+  'view.newGroupPlaceholder': 'p. ej. Oficinas',
+
+  'sort.manual': 'Orden personalizado',
+  'sort.name': 'Nombre',
+  'sort.temperature': 'Más cálidas primero',
+  'sort.chanceOfRain': 'Más probabilidad de lluvia primero',
+  'sort.localTime': 'Hora local',
+
+  'group.newName': 'Nuevo nombre para {name}',
+  'group.rename': 'Renombrar el grupo {name}',
+  'group.remove': 'Quitar el grupo {name}',
+  'group.removeHint': 'Quita el grupo; sus ciudades siguen en el panel',
+  'group.empty': 'Arrastra ciudades aquí para añadirlas a {name}.',
+
+  'reorder.label': 'Mover {name}',
+  'reorder.hint': 'Arrastra, o usa las flechas del teclado, para mover',
+
+  'card.loadFailed': 'No se pudieron cargar los datos de {name}.',
+  'card.nicknameFor': 'Apodo para {name}',
+  'card.rename': 'Renombrar {name}',
+  'card.remove': 'Quitar {name}',
+
+  'row.loadFailed': 'No se pudo cargar',
+  'row.chanceOfRainToday': 'Probabilidad de lluvia hoy',
+  'row.localTime': 'Hora local',
+
+  'health.healthy': 'Funciona bien',
+  'health.offline': 'Sin conexión',
+  'health.rateLimited': 'Límite de peticiones, reintento {time}',
+  'health.providerErrors': 'Errores del proveedor, reintento {time}',
+  'health.budgetUsed': 'Cupo por hora agotado, se reanuda {time}',
+  'health.requests': '{requests} peticiones al proveedor en la última hora',
+  'health.perHour': '{requests} pet./h',
+
+  'compare.compare': 'Comparar',
+  'compare.compareCities': 'Comparar ciudades',
+  'compare.selectCities': 'Elige {min}-{max} ciudades ({count} elegidas)',
+  'compare.nothing': 'Nada que comparar',
+  'compare.pickFavorites': 'Elige {min}-{max} favoritos en el panel para compararlos.',
+  'compare.comparing': 'Comparando {count} ciudades',
+  'compare.loadFailed': 'No se pudo cargar {names}.',
+  'compare.cityLocalTime': '{name} · {time} hora local',
+  'compare.dailyLowHigh': 'Mínima / máxima diaria',
+  'compare.date': 'Fecha',
+
+  'detail.cityNotFound': 'Ciudad no encontrada',
+  'detail.cityNotFoundMessage': 'Este enlace no lleva a una ciudad guardada ni a una ubicación válida.',
+  'detail.removeFavorite': 'Quitar de favoritos',
+  'detail.loading': 'Cargando el pronóstico',
+  'detail.noWeatherFor': 'No hay datos del tiempo para {name}',
+  'detail.noWeather': 'No hay datos del tiempo para esta ubicación',
+  'detail.highLow': 'Máx.: {high} / Mín.: {low}',
+  'detail.feelsLike': 'Sensación térmica',
+  'detail.wind': 'Viento',
+  'detail.humidity': 'Humedad',
+  'detail.uvIndex': 'Índice UV',
+  'detail.dewPoint': 'Punto de rocío',
+  'detail.heatIndex': 'Índice de calor',
+  'detail.windChill': 'Sensación por viento',
+  'detail.comfort': 'Confort',
+  'detail.comfortScore': '{score}/100',
+  'detail.pressure': 'Presión',
+  'detail.visibility': 'Visibilidad',
+  'detail.sunrise': 'Amanecer',
+  'detail.sunset': 'Atardecer',
+  'detail.range': 'Periodo',
+  'detail.days': { one: '{count} día', other: '{count} días' },
+  'detail.extensionMissing': 'Este servicio no puede pronosticar más allá de {count} días aquí, así que la tendencia se detiene ahí.',
+  'detail.rangeLimited': {
+    one: 'Este servicio solo da {count} día de pronóstico aquí, así que no hay rangos más largos.',
+    other: 'Este servicio solo da {count} días de pronóstico aquí, así que no hay rangos más largos.',
+  },
+
+  'charts.hourly': 'Pronóstico por horas',
+  'charts.dailyTrend': 'Tendencia de {count} días',
+  'charts.temperature': 'Temperatura',
+  'charts.chanceOfRain': 'Probabilidad de lluvia',
+  'charts.precipitation': 'Precipitación',
+  'charts.maxTemp': 'Temp. máx.',
+  'charts.minTemp': 'Temp. mín.',
+  'charts.daylight': 'Luz diurna (h)',
+  'charts.pollutants': 'Contaminantes (µg/m³)',
+
+  'tooltip.temperature': 'Temp.: {value}',
+  'tooltip.feelsLike': 'Sensación: {value}',
+  'tooltip.high': 'Máx.: {value}',
+  'tooltip.low': 'Mín.: {value}',
+  'tooltip.mean': 'Media: {value}',
+  'tooltip.rain': 'Lluvia: {value}',
+  'tooltip.precipitation': 'Precipitación: {value}',
+  'tooltip.wind': 'Viento: {value}',
+  'tooltip.comfort': 'Confort: {value}/100',
+  'tooltip.daylight': 'Luz diurna: {value}',
+
+  'airQuality.title': 'Calidad del aire',
+  'aqi.title': 'Calidad del aire: {category}',
+  'aqi.chip': 'ICA {index}',
+  'aqi.epa.good': 'Buena',
+  'aqi.epa.moderate': 'Moderada',
+  'aqi.epa.sensitive': 'Dañina para grupos sensibles',
+  'aqi.epa.unhealthy': 'Dañina',
+  'aqi.epa.veryUnhealthy': 'Muy dañina',
+  'aqi.epa.hazardous': 'Peligrosa',
+  'aqi.defra.low': 'Baja',
+  'aqi.defra.moderate': 'Moderada',
+  'aqi.defra.high': 'Alta',
+  'aqi.defra.veryHigh': 'Muy alta',
+
+  'history.title': 'Historial',
+  'history.last7Days': 'Últimos 7 días',
+  'history.last30Days': 'Últimos 30 días',
+  'history.lastYear': 'El año pasado',
+  'history.from': 'Desde',
+  'history.to': 'Hasta',
+  'history.incomplete': 'Elige una fecha de inicio y una de fin.',
+  'history.reversed': 'La fecha de inicio debe ser anterior a la de fin.',
+  'history.future': 'El historial termina ayer; el pronóstico de arriba cubre desde hoy.',
+  'history.tooLong': 'Elige un periodo de {count} días como máximo.',
+  'history.loadFailed': 'No se pudo cargar el tiempo pasado de estas fechas.',
+  'history.hourly': 'Historial por horas',
+  'history.dailySummary': 'Resumen diario',
+  'history.weeklySummary': 'Resumen semanal',
+  'history.perDay': '{count} días son demasiados para un gráfico por horas, así que cada punto es un día.',
+  'history.perWeek': '{count} días son demasiados para un gráfico por horas, así que cada punto es una semana.',
+  'history.partial': {
+    one: 'Solo se pudo cargar el primer día de este periodo.',
+    other: 'Solo se pudieron cargar los primeros {count} días de este periodo.',
+  },
+
+  'lastYear.title': 'Hoy frente al {date}',
+  'lastYear.unavailable': 'Este servicio no ofrece el tiempo del año pasado.',
+  'lastYear.measure': 'Medida',
+  'lastYear.today': 'Hoy',
+  'lastYear.aYearAgo': 'Hace un año',
+  'lastYear.change': 'Cambio',
+  'lastYear.high': 'Máxima',
+  'lastYear.low': 'Mínima',
+  'lastYear.precipitation': 'Precipitación',
+
+  'alerts.title': 'Avisos',
+  'alerts.from': 'Desde {from}',
+  'alerts.until': 'Hasta {until}',
+  'alerts.fromUntil': 'Desde {from} hasta {until}',
+
+  'severity.extreme': 'extremo',
+  'severity.severe': 'grave',
+  'severity.moderate': 'moderado',
+  'severity.minor': 'leve',
+  'severity.unknown': 'desconocido',
+
+  'notifications.dismiss': 'Descartar',
+
+  'rules.title': 'Avísame',
+  'rules.windAbove': 'Viento por encima de ({unit})',
+  'rules.tempAbove': 'Temperatura por encima de (°{unit})',
+  'rules.tempBelow': 'Temperatura por debajo de (°{unit})',
+  'rules.rainAbove': 'Probabilidad de lluvia por encima de (%)',
+  'rules.officialAlerts': 'Cuando se emita un aviso oficial',
+  'rules.off': 'Desactivado',
+  'rules.save': 'Guardar reglas',
+  'rules.savedBrowser': 'Guardado. Recibirás notificaciones del navegador.',
+  'rules.savedInApp': 'Guardado. Las notificaciones aparecerán dentro del panel.',
+  'rules.savedInactive': 'Guardado. No hay reglas activas.',
+  'rules.windTitle': '{place}: viento fuerte',
+  'rules.windBody': 'El viento es de {wind}, por encima de tu límite de {limit}.',
+  'rules.heatTitle': '{place}: temperatura alta',
+  'rules.heatBody': 'Hace {temperature}, por encima de {limit}.',
+  'rules.coldTitle': '{place}: temperatura baja',
+  'rules.coldBody': 'Hace {temperature}, por debajo de {limit}.',
+  'rules.rainTitle': '{place}: probable lluvia',
+  'rules.rainBody': {
+    one: '{chance} de probabilidad de lluvia en la próxima hora.',
+    other: '{chance} de probabilidad de lluvia en las próximas {count} horas.',
+  },
+
+  'export.label': 'Exportar {name}',
+  'export.hourlyCsv': 'Datos por horas (CSV)',
+  'export.dailyCsv': 'Datos diarios (CSV)',
+  'export.json': 'Todos los datos (JSON)',
+  'export.png': 'Imagen de la tarjeta (PNG)',
+  'export.svg': 'Imagen de la tarjeta (SVG)',
+  'export.failed': 'No se pudo crear el archivo.',
+
+  'snapshot.save': 'Guardar {title} como {kind}',
+  'snapshot.notReady': 'El gráfico aún no está listo.',
+  'snapshot.failed': 'No se pudo crear la imagen.',
+  'snapshot.humidityWind': 'Humedad {humidity} · Viento {wind}',
+
+  'error.offline': 'Estás sin conexión y aún no hay ningún pronóstico guardado.',
+  'error.unknownLocation': 'El servicio del tiempo no conoce esta ubicación.',
+  'error.unreadable': 'El servicio del tiempo envió datos que no pudimos leer.',
+  'error.unreachable': 'No se pudo contactar con el servicio del tiempo.',
+  'error.status': 'El servicio del tiempo devolvió un error ({status}).',
+  'error.generic': 'Algo salió mal al cargar el pronóstico.',
+
+  'stale.title': 'Se muestra el último pronóstico guardado; se actualizará cuando vuelva la conexión.',
+  'stale.label': 'de {time}, desactualizado',
+
+  'condition.clear': 'Despejado',
+  'condition.partlyCloudy': 'Parcialmente nublado',
+  'condition.cloudy': 'Nublado',
+  'condition.fog': 'Niebla',
+  'condition.drizzle': 'Llovizna',
+  'condition.rain': 'Lluvia',
+  'condition.freezingRain': 'Lluvia helada',
+  'condition.sleet': 'Aguanieve',
+  'condition.snow': 'Nieve',
+  'condition.thunderstorm': 'Tormenta',
+  'condition.unknown': 'Desconocido',
+
+  'notFound.title': 'Página no encontrada',
+  'notFound.message': 'No hay nada en esta dirección.',
+  'notFound.back': 'Volver al panel',
+
+  'config.title': 'El servicio del tiempo no está configurado',
+  'config.notConfigured': 'El servidor no tiene una clave de WeatherAPI.com, así que no se pueden cargar pronósticos.',
+  'config.invalidKey': 'WeatherAPI.com no acepta la clave del servidor, así que no se pueden cargar pronósticos.',
+  'config.hint': 'Define WEATHER_API_KEY donde se ejecuta el proxy del tiempo (consulta el README) y recarga.',
+  'config.reload': 'Recargar',
+
+  'update.ready': 'Hay una nueva versión del panel lista.',
+  'update.reload': 'Recargar',
+  'update.later': 'Más tarde',
+
+  'activities.title': 'Mejor momento para salir',
+  'activities.running': 'Correr',
+  'activities.cycling': 'Ciclismo',
+  'activities.siteWork': 'Trabajo en obra',
+  'activities.window': '{from}–{to}',
+  'activities.comfort': 'confort {score}/100',
+  'activities.best': 'El mejor',
+  'activities.bestToday': 'Mejor para {activity} hoy: {window}',
+  'activities.noneToday': 'Hoy ya no queda un buen momento para {activity}',
+  'activities.edit': 'Editar {activity}',
+  'activities.add': 'Nueva actividad',
+  'activities.newName': 'Mi actividad',
+  'activities.name': 'Nombre',
+  'activities.minTemp': 'Temperatura desde (°{unit})',
+  'activities.maxTemp': 'Temperatura hasta (°{unit})',
+  'activities.maxRain': 'Probabilidad de lluvia hasta (%)',
+  'activities.maxWind': 'Viento hasta ({unit})',
+  'activities.maxUv': 'Índice UV hasta',
+  'activities.noLimit': 'Cualquiera',
+  'activities.daylightOnly': 'Solo con luz de día',
+  'activities.save': 'Guardar',
+  'activities.remove': 'Eliminar actividad',
+
+  'astro.title': 'Sol y Luna',
+  'astro.dayLength': 'Duración del día',
+  'astro.duration': '{hours} h {minutes} min',
+  'astro.change': '{minutes} min {seconds} s',
+  'astro.longer': '{value} más que ayer',
+  'astro.shorter': '{value} menos que ayer',
+  'astro.same': 'Igual que ayer',
+  'astro.polarDay': 'Sol todo el día',
+  'astro.polarNight': 'Sin sol en todo el día',
+  'astro.sunPath': 'Recorrido del sol durante el día',
+  'astro.sunNow': 'Recorrido del sol durante el día; ahora está a {degrees}°',
+  'astro.solarNoon': 'Mediodía solar',
+  'astro.span': '{from}–{to}',
+  'astro.goldenMorning': 'Hora dorada (mañana)',
+  'astro.goldenEvening': 'Hora dorada (tarde)',
+  'astro.blueMorning': 'Hora azul (mañana)',
+  'astro.blueEvening': 'Hora azul (tarde)',
+  'astro.moonrise': 'Salida de la luna',
+  'astro.moonset': 'Puesta de la luna',
+  'astro.illumination': '{value} iluminada',
+  'astro.phase.new': 'Luna nueva',
+  'astro.phase.waxingCrescent': 'Luna creciente',
+  'astro.phase.firstQuarter': 'Cuarto creciente',
+  'astro.phase.waxingGibbous': 'Gibosa creciente',
+  'astro.phase.full': 'Luna llena',
+  'astro.phase.waningGibbous': 'Gibosa menguante',
+  'astro.phase.lastQuarter': 'Cuarto menguante',
+  'astro.phase.waningCrescent': 'Luna menguante',
+
+  'accuracy.title': 'Precisión del pronóstico',
+  'accuracy.retention': 'Guardar historial durante',
+  'accuracy.exportCsv': 'Exportar CSV',
+  'accuracy.exportJson': 'Exportar JSON',
+  'accuracy.empty': 'Aún no hay días completos. Los pronósticos de esta ciudad se registran mientras el panel está abierto, y un día cuenta cuando se ha seguido durante al menos {hours} horas.',
+  'accuracy.basedOn': {
+    one: 'Basado en {count} día observado. Se considera lluvia pronosticada con una probabilidad de {threshold} o más.',
+    other: 'Basado en {count} días observados. Se considera lluvia pronosticada con una probabilidad de {threshold} o más.',
+  },
+  'accuracy.lead': 'Pronóstico hecho',
+  'accuracy.days': 'Días',
+  'accuracy.highError': 'Error en la máxima',
+  'accuracy.lowError': 'Error en la mínima',
+  'accuracy.rainRight': 'Lluvia acertada',
+  'accuracy.rainMissed': 'Lluvia no prevista',
+  'accuracy.falseAlarms': 'Falsas alarmas',
+  'accuracy.sameDay': 'El mismo día',
+  'accuracy.daysAhead': { one: '{count} día antes', other: '{count} días antes' },
+};
@@ -0,0 +1,367 @@
+import type { Messages } from './en';
+
+// --- FRENCH ---
+
+export const fr: Messages = {
+  'app.title': 'Tableau météo',
+  'app.offline': 'Vous êtes hors ligne. Les prévisions enregistrées sont affichées ; elles seront actualisées au retour de la connexion.',
+
+  'common.cancel': 'Annuler',
+  'common.close': 'Fermer',
+  'common.remove': 'Retirer',
+
+  'account.signIn': 'Se connecter',
+  'account.signInHint': 'Connectez-vous pour synchroniser favoris et réglages entre vos appareils',
+  'account.signOut': 'Se déconnecter',
+  'account.syncFailed': 'Impossible de synchroniser votre compte',
+  'account.syncFailedBody': "Vos favoris et réglages de cet appareil n'ont pas encore été envoyés. La synchronisation reprendra dès le retour de la connexion.",
+
+  'settings.title': 'Réglages',
+  'settings.temperature': 'Température',
+  'settings.wind': 'Vitesse du vent',
+  'settings.pressure': 'Pression',
+  'settings.distance': 'Distance',
+  'settings.precipitation': 'Précipitations',
+  'settings.clock': "Format de l'heure",
+  'settings.theme': 'Thème',
+  'settings.themeSystem': 'Système',
+  'settings.themeLight': 'Clair',
+  'settings.themeDark': 'Sombre',
+  'settings.language': 'Langue',
+
+  'search.label': 'Rechercher une ville',
+  'search.placeholder': 'Rechercher une ville...',
+  'search.recent': 'Recherches récentes',
+  'search.clear': 'Effacer',
+  'search.results': 'Résultats de recherche',
+  'search.noResults': 'Aucun résultat.',
+  'search.resultCount': { one: '{count} résultat disponible.', other: '{count} résultats disponibles.' },
+  'search.alreadyFavorite': 'Déjà dans les favoris',
+  'search.add': 'Ajouter',
+
+  'location.current': 'Position actuelle',
+  'location.chosen': 'Lieu choisi',
+  'location.refresh': 'Actualiser la position actuelle',
+  'location.locating': 'Recherche de votre position...',
+  'location.unsupported': 'Ce navigateur ne peut pas partager votre position.',
+  'location.denied': "L'accès à la position a été refusé.",
+  'location.timeout': 'La recherche de votre position a pris trop de temps.',
+  'location.unavailable': "Votre position n'est pas disponible pour le moment.",
+  'location.tryAgain': 'Réessayer',
+  'location.choose': 'Choisir un lieu',
+  'location.pickerPlaceholder': 'Où êtes-vous ?',
+  'location.loadFailed': 'Impossible de charger la météo ici.',
+  'location.lastPosition': 'Votre dernière position est affichée.',
+  'location.inFavorites': 'Dans les favoris',
+  'location.addFavorite': 'Ajouter aux favoris',
+  'location.change': 'Changer de lieu',
+  'location.notHere': 'Pas ici ?',
+  'location.usePosition': 'Utiliser ma position',
+
+  'dashboard.empty': "Vous n'avez encore aucune ville favorite.",
+  'dashboard.emptyHint': 'Utilisez la barre de recherche pour trouver et ajouter vos villes favorites.',
+  'dashboard.ungrouped': 'Sans groupe',
+  'dashboard.moved': '{name} déplacée en position {position} sur {count}.',
+  'dashboard.movedInGroup': '{name} déplacée en position {position} sur {count} dans {group}.',
+
+  'view.sort': 'Trier',
+  'view.layout': 'Affichage',
+  'view.cards': 'Cartes',
+  'view.list': 'Liste compacte',
+  'view.newGroup': 'Nouveau groupe',
+  'view.newGroupName': 'Nom du nouveau groupe',
+  'view.newGroupPlaceholder': 'p. ex. Bureaux',
+
+  'sort.manual': 'Ordre personnalisé',
+  'sort.name': 'Nom',
+  'sort.temperature': "Les plus chaudes d'abord",
+  'sort.chanceOfRain': "Pluie la plus probable d'abord",
+  'sort.localTime': 'Heure locale',
+
+  'group.newName': 'Nouveau nom pour {name}',
+  'group.rename': 'Renommer le groupe {name}',
+  'group.remove': 'Retirer le groupe {name}',
+  'group.removeHint': 'Retire le groupe ; ses villes restent sur le tableau',
+  'group.empty': 'Faites glisser des villes ici pour les ajouter à {name}.',
+
+  'reorder.label': 'Déplacer {name}',
+  'reorder.hint': 'Faites glisser, ou utilisez les flèches du clavier, pour déplacer',
+
+  'card.loadFailed': 'Impossible de charger les données de {name}.',
+  'card.nicknameFor': 'Surnom pour {name}',
+  'card.rename': 'Renommer {name}',
+  'card.remove': 'Retirer {name}',
+
+  'row.loadFailed': 'Chargement impossible',
+  'row.chanceOfRainToday': "Risque de pluie aujourd'hui",
+  'row.localTime': 'Heure locale',
+
+  'health.healthy': 'Opérationnel',
+  'health.offline': 'Hors ligne',
+  'health.rateLimited': 'Limite de requêtes, nouvel essai {time}',
+  'health.providerErrors': 'Erreurs du fournisseur, nouvel essai {time}',
+  'health.budgetUsed': 'Quota horaire épuisé, reprise {time}',
+  'health.requests': '{requests} requêtes au fournisseur dans la dernière heure',
+  'health.perHour': '{requests} req./h',
+
+  'compare.compare': 'Comparer',
+  'compare.compareCities': 'Comparer des villes',
+  'compare.selectCities': 'Choisissez {min} à {max} villes ({count} choisies)',
+  'compare.nothing': 'Rien à comparer',
+  'compare.pickFavorites': 'Choisissez {min} à {max} favoris sur le tableau pour les comparer.',
+  'compare.comparing': 'Comparaison de {count} villes',
+  'compare.loadFailed': 'Impossible de charger {names}.',
+  'compare.cityLocalTime': '{name} · {time} heure locale',
+  'compare.dailyLowHigh': 'Min. / max. quotidiens',
+  'compare.date': 'Date',
+
+  'detail.cityNotFound': 'Ville introuvable',
+  'detail.cityNotFoundMessage': 'Ce lien ne mène ni à une ville enregistrée ni à un lieu valide.',
+  'detail.removeFavorite': 'Retirer des favoris',
+  'detail.loading': 'Chargement des prévisions',
+  'detail.noWeatherFor': 'Pas de météo pour {name}',
+  'detail.noWeather': 'Pas de météo pour ce lieu',
+  'detail.highLow': 'Max. : {high} / Min. : {low}',
+  'detail.feelsLike': 'Ressenti',
+  'detail.wind': 'Vent',
+  'detail.humidity': 'Humidité',
+  'detail.uvIndex': 'Indice UV',
+  'detail.dewPoint': 'Point de rosée',
+  'detail.heatIndex': 'Indice de chaleur',
+  'detail.windChill': 'Refroidissement éolien',
+  'detail.comfort': 'Confort',
+  'detail.comfortScore': '{score}/100',
+  'detail.pressure': 'Pression',
+  'detail.visibility': 'Visibilité',
+  'detail.sunrise': 'Lever du soleil',
+  'detail.sunset': 'Coucher du soleil',
+  'detail.range': 'Période',
+  'detail.days': { one: '{count} jour', other: '{count} jours' },
+  'detail.extensionMissing': 'Ce service ne peut pas prévoir au-delà de {count} jours ici, la tendance s’arrête donc là.',
+  'detail.rangeLimited': {
+    one: 'Ce service ne donne que {count} jour de prévisions ici, les périodes plus longues ne sont donc pas disponibles.',
+    other: 'Ce service ne donne que {count} jours de prévisions ici, les périodes plus longues ne sont donc pas disponibles.',
+  },
+
+  'charts.hourly': 'Prévisions heure par heure',
+  'charts.dailyTrend': 'Tendance sur {count} jours',
+  'charts.temperature': 'Température',
+  'charts.chanceOfRain': 'Risque de pluie',
+  'charts.precipitation': 'Précipitations',
+  'charts.maxTemp': 'Temp. max.',
+  'charts.minTemp': 'Temp. min.',
+  'charts.daylight': 'Durée du jour (h)',
+  'charts.pollutants': 'Polluants (µg/m³)',
+
+  'tooltip.temperature': 'Temp. : {value}',
+  'tooltip.feelsLike': 'Ressenti : {value}',
+  'tooltip.high': 'Max. : {value}',
+  'tooltip.low': 'Min. : {value}',
+  'tooltip.mean': 'Moyenne : {value}',
+  'tooltip.rain': 'Pluie : {value}',
+  'tooltip.precipitation': 'Précipitations : {value}',
+  'tooltip.wind': 'Vent : {value}',
+  'tooltip.comfort': 'Confort : {value}/100',
+  'tooltip.daylight': 'Durée du jour : {value}',
+
+  'airQuality.title': "Qualité de l'air",
+  'aqi.title': "Qualité de l'air : {category}",
+  'aqi.chip': 'IQA {index}',
+  'aqi.epa.good': 'Bonne',
+  'aqi.epa.moderate': 'Moyenne',
+  'aqi.epa.sensitive': 'Mauvaise pour les personnes sensibles',
+  'aqi.epa.unhealthy': 'Mauvaise',
+  'aqi.epa.veryUnhealthy': 'Très mauvaise',
+  'aqi.epa.hazardous': 'Dangereuse',
+  'aqi.defra.low': 'Faible',
+  'aqi.defra.moderate': 'Moyenne',
+  'aqi.defra.high': 'Élevée',
+  'aqi.defra.veryHigh': 'Très élevée',
+
+  'history.title': 'Historique',
+  'history.last7Days': '7 derniers jours',
+  'history.last30Days': '30 derniers jours',
+  'history.lastYear': "L'an dernier",
+  'history.from': 'Du',
+  'history.to': 'Au',
+  'history.incomplete': 'Choisissez une date de début et une date de fin.',
+  'history.reversed': 'La date de début doit précéder la date de fin.',
+  'history.future': "L'historique s'arrête hier ; les prévisions ci-dessus couvrent la suite.",
+  'history.tooLong': 'Choisissez une période de {count} jours au plus.',
+  'history.loadFailed': 'Impossible de charger la météo passée pour ces dates.',
+  'history.hourly': 'Historique heure par heure',
+  'history.dailySummary': 'Résumé quotidien',
+  'history.weeklySummary': 'Résumé hebdomadaire',
+  'history.perDay': '{count} jours, c’est trop pour un graphique heure par heure : chaque point est un jour.',
+  'history.perWeek': '{count} jours, c’est trop pour un graphique heure par heure : chaque point est une semaine.',
+  'history.partial': {
+    one: 'Seul le premier jour de cette période a pu être chargé.',
+    other: 'Seuls les {count} premiers jours de cette période ont pu être chargés.',
+  },
+
+  'lastYear.title': "Aujourd'hui et le {date}",
+  'lastYear.unavailable': "La météo de l'an dernier n'est pas disponible auprès de ce service.",
+  'lastYear.measure': 'Mesure',
+  'lastYear.today': "Aujourd'hui",
+  'lastYear.aYearAgo': 'Il y a un an',
+  'lastYear.change': 'Écart',
+  'lastYear.high': 'Maximale',
+  'lastYear.low': 'Minimale',
+  'lastYear.precipitation': 'Précipitations',
+
+  'alerts.title': 'Alertes',
+  'alerts.from': 'À partir du {from}',
+  'alerts.until': "Jusqu'au {until}",
+  'alerts.fromUntil': "Du {from} jusqu'au {until}",
+
+  'severity.extreme': 'extrême',
+  'severity.severe': 'sévère',
+  'severity.moderate': 'modérée',
+  'severity.minor': 'faible',
+  'severity.unknown': 'inconnue',
+
+  'notifications.dismiss': 'Ignorer',
+
+  'rules.title': 'Me prévenir',
+  'rules.windAbove': 'Vent au-dessus de ({unit})',
+  'rules.tempAbove': 'Température au-dessus de (°{unit})',
+  'rules.tempBelow': 'Température en dessous de (°{unit})',
+  'rules.rainAbove': 'Risque de pluie au-dessus de (%)',
+  'rules.officialAlerts': 'Quand une alerte officielle est émise',
+  'rules.off': 'Désactivé',
+  'rules.save': 'Enregistrer les règles',
+  'rules.savedBrowser': 'Enregistré. Vous recevrez des notifications du navigateur.',
+  'rules.savedInApp': 'Enregistré. Les notifications apparaîtront dans le tableau.',
+  'rules.savedInactive': 'Enregistré. Aucune règle active.',
+  'rules.windTitle': '{place} : vent fort',
+  'rules.windBody': 'Le vent souffle à {wind}, au-dessus de votre limite de {limit}.',
+  'rules.heatTitle': '{place} : température élevée',
+  'rules.heatBody': 'Il fait {temperature}, au-dessus de {limit}.',
+  'rules.coldTitle': '{place} : température basse',
+  'rules.coldBody': 'Il fait {temperature}, en dessous de {limit}.',
+  'rules.rainTitle': '{place} : pluie probable',
+  'rules.rainBody': {
+    one: '{chance} de risque de pluie dans la prochaine heure.',
+    other: '{chance} de risque de pluie dans les {count} prochaines heures.',
+  },
+
+  'export.label': 'Exporter {name}',
+  'export.hourlyCsv': 'Données horaires (CSV)',
+  'export.dailyCsv': 'Données quotidiennes (CSV)',
+  'export.json': 'Toutes les données (JSON)',
+  'export.png': 'Image de la carte (PNG)',
+  'export.svg': 'Image de la carte (SVG)',
+  'export.failed': 'Impossible de créer le fichier.',
+
+  'snapshot.save': 'Enregistrer {title} en {kind}',
+  'snapshot.notReady': "Le graphique n'est pas encore prêt.",
+  'snapshot.failed': "Impossible de créer l'image.",
+  'snapshot.humidityWind': 'Humidité {humidity} · Vent {wind}',
+
+  'error.offline': "Vous êtes hors ligne et aucune prévision n'est encore enregistrée.",
+  'error.unknownLocation': 'Le service météo ne connaît pas ce lieu.',
+  'error.unreadable': 'Le service météo a envoyé des données illisibles.',
+  'error.unreachable': 'Le service météo est injoignable.',
+  'error.status': 'Le service météo a renvoyé une erreur ({status}).',
+  'error.generic': 'Un problème est survenu lors du chargement des prévisions.',
+
+  'stale.title': 'Dernières prévisions enregistrées ; elles seront actualisées au retour de la connexion.',
+  'stale.label': 'à {time}, pas à jour',
+
+  'condition.clear': 'Dégagé',
+  'condition.partlyCloudy': 'Partiellement nuageux',
+  'condition.cloudy': 'Nuageux',
+  'condition.fog': 'Brouillard',
+  'condition.drizzle': 'Bruine',
+  'condition.rain': 'Pluie',
+  'condition.freezingRain': 'Pluie verglaçante',
+  'condition.sleet': 'Neige fondue',
+  'condition.snow': 'Neige',
+  'condition.thunderstorm': 'Orage',
+  'condition.unknown': 'Inconnu',
+
+  'notFound.title': 'Page introuvable',
+  'notFound.message': "Il n'y a rien à cette adresse.",
+  'notFound.back': 'Retour au tableau',
+
+  'config.title': "Le service météo n'est pas configuré",
+  'config.notConfigured': "Le serveur n'a pas de clé WeatherAPI.com : aucune prévision ne peut être chargée.",
+  'config.invalidKey': 'WeatherAPI.com refuse la clé du serveur : aucune prévision ne peut être chargée.',
+  'config.hint': 'Définissez WEATHER_API_KEY là où tourne le proxy météo (voir le README), puis rechargez.',
+  'config.reload': 'Recharger',
+
+  'update.ready': 'Une nouvelle version du tableau de bord est prête.',
+  'update.reload': 'Recharger',
+  'update.later': 'Plus tard',
+
+  'activities.title': 'Meilleur moment pour sortir',
+  'activities.running': 'Course à pied',
+  'activities.cycling': 'Vélo',
+  'activities.siteWork': 'Travaux sur site',
+  'activities.window': '{from}–{to}',
+  'activities.comfort': 'confort {score}/100',
+  'activities.best': 'Le meilleur',
+  'activities.bestToday': "Idéal pour {activity} aujourd'hui : {window}",
+  'activities.noneToday': "Plus de bon moment aujourd'hui pour {activity}",
+  'activities.edit': 'Modifier {activity}',
+  'activities.add': 'Nouvelle activité',
+  'activities.newName': 'Mon activité',
+  'activities.name': 'Nom',
+  'activities.minTemp': 'Température à partir de (°{unit})',
+  'activities.maxTemp': "Température jusqu'à (°{unit})",
+  'activities.maxRain': "Risque de pluie jusqu'à (%)",
+  'activities.maxWind': "Vent jusqu'à ({unit})",
+  'activities.maxUv': "Indice UV jusqu'à",
+  'activities.noLimit': 'Tout',
+  'activities.daylightOnly': 'De jour uniquement',
+  'activities.save': 'Enregistrer',
+  'activities.remove': "Supprimer l'activité",
+
+  'astro.title': 'Soleil et Lune',
+  'astro.dayLength': 'Durée du jour',
+  'astro.duration': '{hours} h {minutes} min',
+  'astro.change': '{minutes} min {seconds} s',
+  'astro.longer': "{value} de plus qu'hier",
+  'astro.shorter': "{value} de moins qu'hier",
+  'astro.same': "Aussi long qu'hier",
+  'astro.polarDay': 'Soleil toute la journée',
+  'astro.polarNight': 'Pas de soleil de la journée',
+  'astro.sunPath': 'Course du soleil dans la journée',
+  'astro.sunNow': 'Course du soleil dans la journée ; il est maintenant à {degrees}°',
+  'astro.solarNoon': 'Midi solaire',
+  'astro.span': '{from}–{to}',
+  'astro.goldenMorning': 'Heure dorée (matin)',
+  'astro.goldenEvening': 'Heure dorée (soir)',
+  'astro.blueMorning': 'Heure bleue (matin)',
+  'astro.blueEvening': 'Heure bleue (soir)',
+  'astro.moonrise': 'Lever de lune',
+  'astro.moonset': 'Coucher de lune',
+  'astro.illumination': '{value} éclairée',
+  'astro.phase.new': 'Nouvelle lune',
+  'astro.phase.waxingCrescent': 'Premier croissant',
+  'astro.phase.firstQuarter': 'Premier quartier',
+  'astro.phase.waxingGibbous': 'Gibbeuse croissante',
+  'astro.phase.full': 'Pleine lune',
+  'astro.phase.waningGibbous': 'Gibbeuse décroissante',
+  'astro.phase.lastQuarter': 'Dernier quartier',
+  'astro.phase.waningCrescent': 'Dernier croissant',
+
+  'accuracy.title': 'Fiabilité des prévisions',
+  'accuracy.retention': "Conserver l'historique",
+  'accuracy.exportCsv': 'Exporter en CSV',
+  'accuracy.exportJson': 'Exporter en JSON',
+  'accuracy.empty': "Aucune journée terminée pour l'instant. Les prévisions de cette ville sont enregistrées tant que le tableau de bord est ouvert, et une journée compte dès qu'elle a été suivie pendant au moins {hours} heures.",
+  'accuracy.basedOn': {
+    one: "D'après {count} jour observé. La pluie est considérée comme prévue à partir de {threshold} de risque.",
+    other: "D'après {count} jours observés. La pluie est considérée comme prévue à partir de {threshold} de risque.",
+  },
+  'accuracy.lead': 'Prévision faite',
+  'accuracy.days': 'Jours',
+  'accuracy.highError': 'Écart max.',
+  'accuracy.lowError': 'Écart min.',
+  'accuracy.rainRight': 'Pluie bien prévue',
+  'accuracy.rainMissed': 'Pluie manquée',
+  'accuracy.falseAlarms': 'Fausses alertes',
+  'accuracy.sameDay': 'Le jour même',
+  'accuracy.daysAhead': { one: '{count} jour avant', other: '{count} jours avant' },
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { detectLocale, textDirection } from './locales';
+import { createTranslator } from './translate';
+
+describe('createTranslator', () => {
+  it('fills in placeholders, writing numbers the locale way', () => {
+    expect(createTranslator('en')('card.remove', { name: 'London' })).toBe('Remove London');
+    expect(createTranslator('de')('history.tooLong', { count: 12345 })).toBe('Wähle einen Zeitraum von höchstens 12.345 Tagen.');
+    expect(createTranslator('fr')('error.status', { status: '503' })).toBe('Le service météo a renvoyé une erreur (503).');
+  });
+
+  it('picks the plural form for the count', () => {
+    const t = createTranslator('en');
+    expect(t('search.resultCount', { count: 1 })).toBe('1 result available.');
+    expect(t('search.resultCount', { count: 2 })).toBe('2 results available.');
+    expect(createTranslator('ar')('detail.days', { count: 2 })).toBe('يومان');
+  });
+});
+
+describe('locales', () => {
+  it('matches the browser language on its primary subtag', () => {
+    expect(detectLocale(['fr-CA', 'en-US'])).toBe('fr');
+    expect(detectLocale(['ja-JP'])).toBe('en');
+  });
+
+  it('lays Arabic out right to left', () => {
+    expect(textDirection('ar')).toBe('rtl');
+    expect(textDirection('es')).toBe('ltr');
+  });
+});
@@ -0,0 +1,41 @@
+import type { Locale } from './locales';
+import { ar } from './messages/ar';
+import { de } from './messages/de';
+import { en } from './messages/en';
+import type { MessageKey, Messages } from './messages/en';
+import { es } from './messages/es';
+import { fr } from './messages/fr';
+
+// --- TRANSLATION ---
+// Messages are looked up by key and filled in from `{name}` placeholders.
+// Numbers passed as values are written the locale's way.
+
+const MESSAGES: Record<Locale, Messages> = { en, es, fr, de, ar };
+
+export type TranslationValues = Record<string, string | number>;
+
+/**
+ * Builds the `t` function for one locale
+ */
+export const createTranslator = (locale: Locale) => {
+  const messages = MESSAGES[locale];
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+
+  return (key: MessageKey, values: TranslationValues = {}): string => {
+    const message = messages[key];
+    // Messages that depend on a count pick their form with the `count` value
+    const text = typeof message === 'string'
+      ? message
+      : message[plurals.select(Number(values.count))] ?? message.other;
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = values[name];
+      if (value === undefined) {
+        return placeholder;
+      }
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+  };
+};
+
+export type Translate = ReturnType<typeof createTranslator>;
@@ -0,0 +1,16 @@
+import { useEffect } from 'react';
+import { useAppSelector } from '../store/hooks';
+import { textDirection } from './locales';
+
+/**
+ * Keeps <html lang dir> in step with the language setting, which turns the
+ * layout around for right-to-left languages
+ */
+export const useAppliedLocale = () => {
+  const locale = useAppSelector((state) => state.settings.locale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = textDirection(locale);
+  }, [locale]);
+};
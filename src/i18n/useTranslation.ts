@@ -0,0 +1,12 @@
+import { useMemo } from 'react';
+import { useAppSelector } from '../store/hooks';
+import { createTranslator } from './translate';
+
+/**
+ * `t` for the chosen interface language, and the locale itself
+ */
+export const useTranslation = () => {
+  const locale = useAppSelector((state) => state.settings.locale);
+  const t = useMemo(() => createTranslator(locale), [locale]);
+  return { t, locale };
+};
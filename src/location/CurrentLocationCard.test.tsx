@@ -0,0 +1,151 @@
+import { act, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { http, HttpResponse } from 'msw';
+import { describe, expect, it, vi } from 'vitest';
+import { renderWithProviders } from '../test/renderWithProviders';
+import { forecastResponse, searchResult } from '../test/fixtures';
+import { server, WEATHER_API } from '../test/server';
+import { setLocale } from '../store/slices/settings';
+import { DEFAULT_UNITS } from '../weather/units';
+import { CurrentLocationCard } from './CurrentLocationCard';
+import { GeolocationError } from './geolocation';
+import type { GeolocationProvider } from './geolocation';
+
+const paris = searchResult({ id: 2802985, name: 'Paris', region: 'Ile-de-France', country: 'France', lat: 48.87, lon: 2.33 });
+const lyon = searchResult({ id: 2803181, name: 'Lyon', region: 'Rhone-Alpes', country: 'France', lat: 45.75, lon: 4.85 });
+
+const noFavorites = { favorites: { locations: [], groups: [], legacyNames: [] } };
+
+const mockGeolocation = (...results: (GeolocationError | { lat: number; lon: number })[]): GeolocationProvider => {
+  const locate = vi.fn();
+  results.forEach((result) => {
+    locate.mockImplementationOnce(() => result instanceof Error ? Promise.reject(result) : Promise.resolve(result));
+  });
+  return { locate };
+};
+
+/**
+ * Coordinate searches resolve to Paris, name searches to Lyon. Counts forecast requests.
+ */
+const serveFrance = () => {
+  const forecastRequests: string[] = [];
+  server.use(
+    http.get(`${WEATHER_API}/search.json`, ({ request }) => {
+      const q = new URL(request.url).searchParams.get('q') ?? '';
+      return HttpResponse.json(q.includes(',') ? [paris] : [lyon]);
+    }),
+    http.get(`${WEATHER_API}/forecast.json`, ({ request }) => {
+      const q = new URL(request.url).searchParams.get('q') ?? '';
+      forecastRequests.push(q);
+      const [lat, lon] = q.split(',').map(Number);
+      return HttpResponse.json(forecastResponse({ name: 'Forecast place', lat, lon, tempC: 24 }));
+    }),
+  );
+  return forecastRequests;
+};
+
+describe('CurrentLocationCard', () => {
+  it('shows the weather at the user position under the resolved place name', async () => {
+    const forecastRequests = serveFrance();
+    renderWithProviders(<CurrentLocationCard geolocation={mockGeolocation({ lat: 48.87, lon: 2.33 })} />, {
+      preloadedState: noFavorites,
+    });
+
+    expect(await screen.findByRole('heading', { name: 'Paris' })).toBeInTheDocument();
+    expect(screen.getByText('24°')).toBeInTheDocument();
+    expect(forecastRequests).toEqual(['48.87,2.33']);
+  });
+
+  it('adds the resolved place to favorites', async () => {
+    serveFrance();
+    const user = userEvent.setup();
+    const { store } = renderWithProviders(<CurrentLocationCard geolocation={mockGeolocation({ lat: 48.87, lon: 2.33 })} />, {
+      preloadedState: noFavorites,
+    });
+
+    await user.click(await screen.findByRole('button', { name: 'Add to favorites' }));
+
+    expect(store.getState().favorites.locations).toEqual([{
+      id: '2802985', name: 'Paris', region: 'Ile-de-France', country: 'France', lat: 48.87, lon: 2.33,
+    }]);
+    expect(screen.getByRole('button', { name: 'In favorites' })).toBeDisabled();
+  });
+
+  it('names the place in the interface language, again when it changes', async () => {
+    serveFrance();
+    const searchLanguages: (string | null)[] = [];
+    server.use(http.get(`${WEATHER_API}/search.json`, ({ request }) => {
+      searchLanguages.push(new URL(request.url).searchParams.get('lang'));
+      return HttpResponse.json([paris]);
+    }));
+    const { store } = renderWithProviders(<CurrentLocationCard geolocation={mockGeolocation({ lat: 48.87, lon: 2.33 })} />, {
+      preloadedState: {
+        ...noFavorites,
+        settings: { units: DEFAULT_UNITS, dashboard: { sort: 'manual', density: 'cards' }, theme: 'dark', locale: 'fr', accuracyRetentionDays: 90 },
+      },
+    });
+
+    expect(await screen.findByRole('heading', { name: 'Paris' })).toBeInTheDocument();
+    expect(searchLanguages).toEqual(['fr']);
+
+    act(() => {
+      store.dispatch(setLocale('de'));
+    });
+    await waitFor(() => expect(searchLanguages).toEqual(['fr', 'de']));
+  });
+
+  it('retries after a timeout', async () => {
+    serveFrance();
+    const user = userEvent.setup();
+    const geolocation = mockGeolocation(
+      new GeolocationError('timeout', 'Finding your location took too long.'),
+      { lat: 48.87, lon: 2.33 },
+    );
+    renderWithProviders(<CurrentLocationCard geolocation={geolocation} />, { preloadedState: noFavorites });
+
+    expect(await screen.findByText('Finding your location took too long.')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Try again' }));
+
+    expect(await screen.findByRole('heading', { name: 'Paris' })).toBeInTheDocument();
+    expect(geolocation.locate).toHaveBeenCalledTimes(2);
+  });
+
+  it('locates again and refetches on refresh', async () => {
+    const forecastRequests = serveFrance();
+    const user = userEvent.setup();
+    const geolocation = mockGeolocation({ lat: 48.87, lon: 2.33 }, { lat: 48.87, lon: 2.33 });
+    renderWithProviders(<CurrentLocationCard geolocation={geolocation} />, { preloadedState: noFavorites });
+
+    await screen.findByRole('heading', { name: 'Paris' });
+    await user.click(screen.getByRole('button', { name: 'Refresh current location' }));
+
+    await waitFor(() => expect(forecastRequests).toHaveLength(2));
+    expect(geolocation.locate).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets the user choose a place when permission is denied', async () => {
+    serveFrance();
+    const user = userEvent.setup();
+    const { store } = renderWithProviders(
+      <CurrentLocationCard geolocation={mockGeolocation(new GeolocationError('denied', 'Location permission was denied.'))} />,
+      { preloadedState: noFavorites },
+    );
+
+    expect(await screen.findByText('Location permission was denied.')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Choose a place' }));
+    await user.type(screen.getByPlaceholderText('Where are you?'), 'Lyon');
+    await user.click(await screen.findByRole('button', { name: 'Lyon, Rhone-Alpes, France' }));
+
+    expect(await screen.findByRole('heading', { name: 'Lyon' })).toBeInTheDocument();
+    expect(screen.getByText('Chosen location')).toBeInTheDocument();
+    expect(store.getState().currentLocation.manual?.name).toBe('Lyon');
+  });
+
+  it('falls back to manual selection without a Geolocation API', async () => {
+    renderWithProviders(<CurrentLocationCard geolocation={null} />, { preloadedState: noFavorites });
+
+    expect(screen.getByText("This browser can't share your location.")).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Try again' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Choose a place' })).toBeInTheDocument();
+  });
+});
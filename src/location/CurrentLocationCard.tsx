@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { skipToken } from '@reduxjs/toolkit/query/react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Check, LocateFixed, Plus, RefreshCw } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import { cityPath, useFormatter } from '../routing';
+import { conditionBackdrop, describeForecastError, Spinner, StaleBadge, WeatherIcon } from '../shared';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { manualLocationChosen, manualLocationCleared } from '../store/slices/currentLocation';
+import { addFavorite, isSameLocation } from '../store/slices/favorites';
+import { useGetForecastQuery, useReverseGeocodeQuery } from '../weather/api';
+import type { LocationSummary } from '../weather/types';
+import { browserGeolocation } from './geolocation';
+import type { GeolocationProvider } from './geolocation';
+import { ManualLocationPicker } from './ManualLocationPicker';
+import { useCurrentPosition } from './useCurrentPosition';
+
+/**
+ * Pinned dashboard card for wherever the user is: their browser position,
+ * or a place they picked by hand when geolocation isn't an option
+ */
+export const CurrentLocationCard = ({ geolocation = browserGeolocation }: {
+  /** Null when the browser has no Geolocation API */
+  geolocation?: GeolocationProvider | null;
+}) => {
+  const manual = useAppSelector((state) => state.currentLocation.manual);
+  const favorites = useAppSelector((state) => state.favorites.locations);
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const format = useFormatter();
+  const { t } = useTranslation();
+  const [isPicking, setIsPicking] = useState(false);
+
+  const position = useCurrentPosition(geolocation, !manual);
+  const coordinates = manual ?? position.coordinates;
+  const args = coordinates ? { lat: coordinates.lat, lon: coordinates.lon } : skipToken;
+  const forecast = useGetForecastQuery(args);
+  // A manual choice is already a named place
+  const { data: resolved } = useReverseGeocodeQuery(manual ? skipToken : args);
+
+  // The forecast names a place too, when the provider can't look one up
+  const forecastPlace = forecast.data?.location;
+  const place: LocationSummary | null = manual ?? resolved ?? (forecastPlace && coordinates ? {
+    id: forecastPlace.id,
+    name: forecastPlace.name,
+    region: forecastPlace.region,
+    country: forecastPlace.country,
+    lat: coordinates.lat,
+    lon: coordinates.lon,
+  } : null);
+  const isFavorite = place !== null && favorites.some((favorite) => isSameLocation(favorite, place));
+  const isLocating = position.status === 'locating';
+  const failure = position.failure && t(`location.${position.failure.reason}`);
+
+  const handleRefresh = () => {
+    if (!manual) {
+      position.locate();
+    }
+    if (coordinates) {
+      forecast.refetch();
+    }
+  };
+
+  const handleChoose = (location: LocationSummary) => {
+    dispatch(manualLocationChosen(location));
+    setIsPicking(false);
+  };
+
+  const picker = isPicking && <ManualLocationPicker onChoose={handleChoose} onCancel={() => setIsPicking(false)} />;
+
+  const actionButton = 'px-3 py-1 rounded-md text-sm bg-raised hover:bg-raised-hover text-fg transition-colors';
+
+  return (
+    <div
+      onClick={() => place && !isPicking && navigate(cityPath(place, searchParams))}
+      className={`p-6 bg-surface rounded-lg shadow-lg border border-blue-900 light:border-blue-200 ${
+        forecast.data ? conditionBackdrop(forecast.data.current.condition, forecast.data.current.isDay) : ''
+      } ${place && !isPicking ? 'cursor-pointer hover:bg-raised transition-colors' : ''}`}
+    >
+      <div className="flex justify-between items-center">
+        <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-blue-400 light:text-blue-600">
+          <LocateFixed size={14} />
+          {t(manual ? 'location.chosen' : 'location.current')}
+        </p>
+        {(coordinates || geolocation) && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleRefresh();
+            }}
+            aria-label={t('location.refresh')}
+            className="text-subtle hover:text-blue-400 light:hover:text-blue-600"
+          >
+            <RefreshCw size={16} className={isLocating || forecast.isFetching ? 'animate-spin' : ''} />
+          </button>
+        )}
+      </div>
+
+      {!coordinates ? (
+        <div className="mt-4">
+          {isLocating || (geolocation && position.status === 'idle') ? (
+            <div className="flex items-center gap-3 text-fg-soft">
+              <Spinner />
+              <span>{t('location.locating')}</span>
+            </div>
+          ) : (
+            <>
+              <p className="text-fg-soft">
+                {failure ?? t('location.unsupported')}
+              </p>
+              {!isPicking && (
+                <div className="flex gap-2 mt-3">
+                  {geolocation && (
+                    <button onClick={position.locate} className={actionButton}>{t('location.tryAgain')}</button>
+                  )}
+                  <button onClick={() => setIsPicking(true)} className={actionButton}>{t('location.choose')}</button>
+                </div>
+              )}
+            </>
+          )}
+          {picker}
+        </div>
+      ) : forecast.isLoading ? (
+        <div className="flex justify-center items-center min-h-[120px]">
+          <Spinner />
+        </div>
+      ) : forecast.error || !forecast.data ? (
+        <div className="mt-4 text-red-400 light:text-red-600">
+          <p>{t('location.loadFailed')}</p>
+          <p className="mt-1 text-sm text-muted">{describeForecastError(forecast.error, t)}</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex justify-between items-start mt-2">
+            <div>
+              <h3 className="text-xl font-bold text-fg">{place?.name}</h3>
+              <p className="text-sm text-muted">{[place?.region, place?.country].filter(Boolean).join(', ')}</p>
+              {forecast.data.stale && <p className="mt-1"><StaleBadge forecast={forecast.data} format={format} /></p>}
+              {failure && !manual && (
+                <p className="mt-1 text-xs text-yellow-300 light:text-yellow-700">
+                  {failure} {t('location.lastPosition')}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center">
+              <WeatherIcon
+                condition={forecast.data.current.condition}
+                isDay={forecast.data.current.isDay}
+                className="w-12 h-12"
+              />
+              <span className="ms-2 text-3xl font-thin text-fg">{format.temperature(forecast.data.current.tempC)}</span>
+            </div>
+          </div>
+          <p className="mt-2 text-sm text-fg-soft">{forecast.data.current.condition.text}</p>
+          {!isPicking && (
+            <div className="flex flex-wrap gap-2 mt-4" onClick={(e) => e.stopPropagation()}>
+              <button
+                onClick={() => place && dispatch(addFavorite(place))}
+                disabled={!place || isFavorite}
+                className={`flex items-center gap-1 ${actionButton} disabled:bg-raised disabled:text-muted disabled:cursor-not-allowed`}
+              >
+                {isFavorite
+                  ? <><Check size={14} /> {t('location.inFavorites')}</>
+                  : <><Plus size={14} /> {t('location.addFavorite')}</>}
+              </button>
+              <button onClick={() => setIsPicking(true)} className={actionButton}>
+                {t(manual ? 'location.change' : 'location.notHere')}
+              </button>
+              {manual && geolocation && (
+                <button onClick={() => dispatch(manualLocationCleared())} className={actionButton}>
+                  {t('location.usePosition')}
+                </button>
+              )}
+            </div>
+          )}
+          {picker}
+        </>
+      )}
+    </div>
+  );
+};
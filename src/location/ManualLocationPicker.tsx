@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import { useLazySearchCitiesQuery } from '../weather/api';
+import type { LocationSummary } from '../weather/types';
+
+/**
+ * Place search for when the browser can't or won't share a position
+ */
+export const ManualLocationPicker = ({ onChoose, onCancel }: {
+  onChoose: (location: LocationSummary) => void;
+  onCancel: () => void;
+}) => {
+  const [query, setQuery] = useState('');
+  const { t } = useTranslation();
+  const [triggerSearch, { data: results, isFetching }] = useLazySearchCitiesQuery();
+
+  useEffect(() => {
+    if (query.length > 2) {
+      const timer = setTimeout(() => {
+        triggerSearch(query);
+      }, 300); // Debounce search
+      return () => clearTimeout(timer);
+    }
+  }, [query, triggerSearch]);
+
+  return (
+    <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+      <div className="relative flex items-center">
+        <Search size={16} className="absolute start-3 text-muted" />
+        <input
+          autoFocus
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') onCancel();
+          }}
+          placeholder={t('location.pickerPlaceholder')}
+          className="w-full ps-9 pe-3 py-2 bg-raised text-fg border border-line-strong rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {isFetching && <div className="absolute end-3 w-4 h-4 border-2 border-muted border-t-transparent rounded-full animate-spin"></div>}
+      </div>
+      {query.length > 2 && results && (
+        <ul className="mt-2 max-h-40 overflow-y-auto">
+          {results.map((location) => (
+            <li key={location.id}>
+              <button
+                onClick={() => onChoose(location)}
+                className="w-full px-3 py-2 text-start text-sm text-fg-soft rounded-md hover:bg-raised"
+              >
+                {[location.name, location.region, location.country].filter(Boolean).join(', ')}
+              </button>
+            </li>
+          ))}
+          {results.length === 0 && <li className="px-3 py-2 text-sm text-muted">{t('search.noResults')}</li>}
+        </ul>
+      )}
+      <button onClick={onCancel} className="mt-2 text-xs text-muted hover:text-fg-soft">
+        {t('common.cancel')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { GeolocationError, createBrowserGeolocation } from './geolocation';
+
+const ERROR_CODES = { PERMISSION_DENIED: 1, POSITION_UNAVAILABLE: 2, TIMEOUT: 3 };
+
+/**
+ * A Geolocation API that answers every request with `outcome`
+ */
+const fakeGeolocation = (outcome: { latitude: number; longitude: number } | { code: number }) => ({
+  getCurrentPosition: (success: PositionCallback, failure?: PositionErrorCallback | null) => {
+    if ('code' in outcome) {
+      failure?.({ ...ERROR_CODES, code: outcome.code, message: '' } as GeolocationPositionError);
+    } else {
+      success({ coords: outcome, timestamp: Date.now() } as GeolocationPosition);
+    }
+  },
+}) as unknown as Geolocation;
+
+describe('createBrowserGeolocation', () => {
+  it('is null without a Geolocation API', () => {
+    expect(createBrowserGeolocation(undefined)).toBeNull();
+  });
+
+  it('rounds the position to two decimals', async () => {
+    const geolocation = createBrowserGeolocation(fakeGeolocation({ latitude: 48.85661, longitude: 2.35222 }));
+    await expect(geolocation?.locate()).resolves.toEqual({ lat: 48.86, lon: 2.35 });
+  });
+
+  it.each([
+    [ERROR_CODES.PERMISSION_DENIED, 'denied'],
+    [ERROR_CODES.TIMEOUT, 'timeout'],
+    [ERROR_CODES.POSITION_UNAVAILABLE, 'unavailable'],
+  ])('reports error code %i as %s', async (code, reason) => {
+    const geolocation = createBrowserGeolocation(fakeGeolocation({ code }));
+    const failure = await geolocation?.locate().catch((err: unknown) => err);
+    expect(failure).toBeInstanceOf(GeolocationError);
+    expect((failure as GeolocationError).reason).toBe(reason);
+  });
+});
@@ -0,0 +1,56 @@
+import type { Coordinates } from '../store/slices/favorites';
+
+// --- GEOLOCATION ---
+// The current-location card asks a GeolocationProvider for the user's
+// position, so tests (and browsers without the Geolocation API) can swap in
+// their own.
+
+export type GeolocationFailure = 'denied' | 'timeout' | 'unavailable';
+
+export class GeolocationError extends Error {
+  readonly reason: GeolocationFailure;
+
+  constructor(reason: GeolocationFailure, message: string) {
+    super(message);
+    this.name = 'GeolocationError';
+    this.reason = reason;
+  }
+}
+
+export interface GeolocationProvider {
+  /** Resolves with the current position, or rejects with a GeolocationError */
+  locate(): Promise<Coordinates>;
+}
+
+const LOCATE_TIMEOUT_MS = 10 * 1000;
+// A position from the last 5 minutes is good enough for a forecast
+const MAX_POSITION_AGE_MS = 5 * 60 * 1000;
+
+// Two decimals (~1 km) share a forecast cache entry between nearby fixes
+// and keep the exact position out of URLs
+const roundCoordinate = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Wraps the browser Geolocation API. Null when the browser doesn't have one.
+ */
+export const createBrowserGeolocation = (
+  geolocation: Geolocation | undefined = typeof navigator === 'undefined' ? undefined : navigator.geolocation
+): GeolocationProvider | null => geolocation ? {
+  locate: () => new Promise((resolve, reject) => {
+    geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ lat: roundCoordinate(coords.latitude), lon: roundCoordinate(coords.longitude) }),
+      (err) => {
+        if (err.code === err.PERMISSION_DENIED) {
+          reject(new GeolocationError('denied', 'Location permission was denied.'));
+        } else if (err.code === err.TIMEOUT) {
+          reject(new GeolocationError('timeout', 'Finding your location took too long.'));
+        } else {
+          reject(new GeolocationError('unavailable', 'Your location is unavailable right now.'));
+        }
+      },
+      { timeout: LOCATE_TIMEOUT_MS, maximumAge: MAX_POSITION_AGE_MS, enableHighAccuracy: false }
+    );
+  }),
+} : null;
+
+export const browserGeolocation = createBrowserGeolocation();
@@ -0,0 +1,3 @@
+export { CurrentLocationCard } from './CurrentLocationCard';
+export { GeolocationError, browserGeolocation, createBrowserGeolocation } from './geolocation';
+export type { GeolocationFailure, GeolocationProvider } from './geolocation';
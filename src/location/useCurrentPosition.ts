@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Coordinates } from '../store/slices/favorites';
+import { GeolocationError } from './geolocation';
+import type { GeolocationProvider } from './geolocation';
+
+interface PositionState {
+  status: 'idle' | 'locating' | 'located' | 'failed';
+  /** Last known position; kept when a later attempt fails */
+  coordinates: Coordinates | null;
+  failure: GeolocationError | null;
+}
+
+/**
+ * Asks `geolocation` for the user's position whenever `enabled` turns on,
+ * and again on `locate()`
+ */
+export const useCurrentPosition = (geolocation: GeolocationProvider | null, enabled: boolean) => {
+  const [state, setState] = useState<PositionState>({ status: 'idle', coordinates: null, failure: null });
+
+  const locate = useCallback(() => {
+    if (!geolocation) {
+      return;
+    }
+    setState((previous) => ({ ...previous, status: 'locating', failure: null }));
+    geolocation.locate().then(
+      (coordinates) => setState({ status: 'located', coordinates, failure: null }),
+      (err: unknown) => setState((previous) => ({
+        status: 'failed',
+        coordinates: previous.coordinates,
+        failure: err instanceof GeolocationError
+          ? err
+          : new GeolocationError('unavailable', 'Your location is unavailable right now.'),
+      }))
+    );
+  }, [geolocation]);
+
+  useEffect(() => {
+    if (enabled) {
+      locate();
+    }
+  }, [enabled, locate]);
+
+  return { ...state, locate };
+};
@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import { applyUpdate, useUpdateAvailable } from './register';
+
+/**
+ * Offers to reload onto a newly installed version, in the corner opposite the notifications
+ */
+export const UpdatePrompt = () => {
+  const updateAvailable = useUpdateAvailable();
+  const [dismissed, setDismissed] = useState(false);
+  const { t } = useTranslation();
+
+  if (!updateAvailable || dismissed) {
+    return null;
+  }
+
+  return (
+    <div role="status" className="fixed bottom-4 start-4 z-50 flex items-center gap-3 w-full max-w-sm p-4 bg-surface border border-line rounded-lg shadow-xl">
+      <RefreshCw size={18} className="shrink-0 text-blue-400 light:text-blue-600" />
+      <p className="flex-1 text-sm text-fg">{t('update.ready')}</p>
+      <button
+        onClick={applyUpdate}
+        className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm text-white font-medium transition-colors"
+      >
+        {t('update.reload')}
+      </button>
+      <button onClick={() => setDismissed(true)} aria-label={t('update.later')} className="text-muted hover:text-fg">
+        <X size={18} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import type { AlertRule } from '../alerts/rules';
+import type { Locale } from '../i18n/locales';
+import type { UnitPreferences } from '../weather/units';
+
+// --- BACKGROUND STATE ---
+// The service worker refreshes favorites while the app is closed, but it
+// can't read localStorage, so the app mirrors what it needs into IndexedDB.
+// Like the forecast cache, every call is a no-op without IndexedDB.
+
+const DB_NAME = 'weatherDashboardBackground';
+const STORE_NAME = 'state';
+const SNAPSHOT_KEY = 'snapshot';
+const TRIGGERS_KEY = 'triggers';
+
+export interface BackgroundFavorite {
+  id: string;
+  label: string;
+  lat: number;
+  lon: number;
+  /** Only active rules are mirrored */
+  rule: AlertRule | null;
+}
+
+export interface BackgroundSnapshot {
+  locale: Locale;
+  units: UnitPreferences;
+  /** Days the app requests, so background fetches hit the same cache entries */
+  forecastDays: number;
+  favorites: BackgroundFavorite[];
+}
+
+/** Favorite id -> trigger keys last announced from the background */
+export type AnnouncedTriggers = Record<string, string[]>;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Background state unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  if (!db) {
+    return undefined;
+  }
+  return new Promise<T | undefined>((resolve) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Background state request failed:', request.error);
+      resolve(undefined);
+    };
+  });
+};
+
+export const readBackgroundSnapshot = () => run<BackgroundSnapshot | undefined>('readonly', (store) => store.get(SNAPSHOT_KEY));
+
+export const writeBackgroundSnapshot = async (snapshot: BackgroundSnapshot) => {
+  await run('readwrite', (store) => store.put(snapshot, SNAPSHOT_KEY));
+};
+
+export const readAnnouncedTriggers = async (): Promise<AnnouncedTriggers> =>
+  (await run<AnnouncedTriggers | undefined>('readonly', (store) => store.get(TRIGGERS_KEY))) ?? {};
+
+export const writeAnnouncedTriggers = async (triggers: AnnouncedTriggers) => {
+  await run('readwrite', (store) => store.put(triggers, TRIGGERS_KEY));
+};
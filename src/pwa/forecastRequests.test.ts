@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import {
+  forecastCoordinates, forecastsToEvict, isForecastRequest, MAX_CACHED_FORECASTS, MAX_FORECAST_AGE_MS,
+} from './forecastRequests';
+
+describe('forecast requests', () => {
+  it('recognizes forecasts from either provider, but not searches or history', () => {
+    expect(isForecastRequest(new URL('https://app.example/api/weather/forecast.json?q=51.52,-0.11&days=14'))).toBe(true);
+    expect(isForecastRequest(new URL('https://api.open-meteo.com/v1/forecast?latitude=51.52&longitude=-0.11'))).toBe(true);
+    expect(isForecastRequest(new URL('https://air-quality-api.open-meteo.com/v1/air-quality?latitude=1&longitude=2'))).toBe(true);
+    expect(isForecastRequest(new URL('https://app.example/api/weather/search.json?q=London'))).toBe(false);
+    expect(isForecastRequest(new URL('https://archive-api.open-meteo.com/v1/archive?latitude=1&longitude=2'))).toBe(false);
+  });
+
+  it('reads back the coordinates the API slice asked for', () => {
+    expect(forecastCoordinates(new URL('https://app.example/api/weather/forecast.json?q=51.52,-0.11&days=14'))).toBe('51.52,-0.11');
+    expect(forecastCoordinates(new URL('https://api.open-meteo.com/v1/forecast?latitude=48.87&longitude=2.33'))).toBe('48.87,2.33');
+  });
+
+  it('evicts forecasts past their age, then the oldest beyond the limit', () => {
+    const now = Date.parse('2030-01-07T09:00:00Z');
+    const entries = Array.from({ length: MAX_CACHED_FORECASTS + 2 }, (_, i) => ({ url: `/forecast.json?q=${i}`, storedAt: now - i }));
+    const expired = { url: '/forecast.json?q=old', storedAt: now - MAX_FORECAST_AGE_MS };
+    const unstamped = { url: '/forecast.json?q=unknown', storedAt: NaN };
+
+    expect(forecastsToEvict([expired, ...entries, unstamped], now)).toEqual([
+      expired.url, entries[MAX_CACHED_FORECASTS].url, entries[MAX_CACHED_FORECASTS + 1].url, unstamped.url,
+    ]);
+    expect(forecastsToEvict(entries.slice(0, 3), now)).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+// --- FORECAST REQUESTS ---
+// Requests the service worker answers stale-while-revalidate. WeatherAPI.com
+// (through the weather proxy) serves forecasts from forecast.json; Open-Meteo
+// splits them over /forecast and /air-quality. Searches and history aren't
+// included: they're either typed live or never change.
+
+const FORECAST_PATH = /\/(forecast\.json|forecast|air-quality)$/;
+
+export const isForecastRequest = (url: URL) => FORECAST_PATH.test(url.pathname);
+
+/**
+ * "lat,lon" of a forecast request, written as the API slice asked for it
+ */
+export const forecastCoordinates = ({ searchParams }: URL) => {
+  const latitude = searchParams.get('latitude');
+  const longitude = searchParams.get('longitude');
+  return latitude && longitude ? `${latitude},${longitude}` : searchParams.get('q');
+};
+
+/** Forecasts the worker keeps at most; a favorite can take two (Open-Meteo's forecast and air quality) */
+export const MAX_CACHED_FORECASTS = 60;
+
+/** A cached forecast older than this is no use even offline, and is dropped */
+export const MAX_FORECAST_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CachedForecast {
+  url: string;
+  /** Epoch ms of when it was stored; NaN for a copy without the header */
+  storedAt: number;
+}
+
+/**
+ * URLs to drop from the forecast cache: anything too old, then the oldest of
+ * the rest until MAX_CACHED_FORECASTS remain
+ */
+export const forecastsToEvict = (entries: CachedForecast[], now: number) => {
+  const isFresh = ({ storedAt }: CachedForecast) => now - storedAt < MAX_FORECAST_AGE_MS;
+  const kept = entries.filter(isFresh).sort((a, b) => b.storedAt - a.storedAt).slice(0, MAX_CACHED_FORECASTS);
+  const keptUrls = new Set(kept.map(({ url }) => url));
+  return entries.filter(({ url }) => !keptUrls.has(url)).map(({ url }) => url);
+};
@@ -0,0 +1 @@
+export { UpdatePrompt } from './UpdatePrompt';
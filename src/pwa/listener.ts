@@ -0,0 +1,42 @@
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+import { isRuleActive } from '../alerts/rules';
+import { favoriteLabel } from '../store/slices/favorites';
+import { FORECAST_DAYS } from '../weather/api';
+import type { RootState } from '../store';
+import { writeBackgroundSnapshot } from './backgroundState';
+import type { BackgroundSnapshot } from './backgroundState';
+
+// --- BACKGROUND STATE MIRROR ---
+// Keeps the service worker's copy of favorites, alert rules and settings in
+// step with the store, whichever tab changed them.
+
+export const backgroundSnapshot = ({ favorites, alertRules, settings }: RootState): BackgroundSnapshot => ({
+  locale: settings.locale,
+  units: settings.units,
+  forecastDays: FORECAST_DAYS,
+  favorites: favorites.locations.map((favorite) => {
+    const rule = alertRules.rules[favorite.id];
+    return {
+      id: favorite.id,
+      label: favoriteLabel(favorite),
+      lat: favorite.lat,
+      lon: favorite.lon,
+      rule: isRuleActive(rule) ? rule : null,
+    };
+  }),
+});
+
+export const backgroundStateListener = createListenerMiddleware();
+
+backgroundStateListener.startListening({
+  predicate: (_action, currentState, previousState) => {
+    const current = currentState as RootState;
+    const previous = previousState as RootState;
+    return current.favorites.locations !== previous.favorites.locations
+      || current.alertRules.rules !== previous.alertRules.rules
+      || current.settings !== previous.settings;
+  },
+  effect: (_action, api) => {
+    void writeBackgroundSnapshot(backgroundSnapshot(api.getState() as RootState));
+  },
+});
@@ -0,0 +1,24 @@
+// --- APP <-> SERVICE WORKER MESSAGES ---
+
+export const PERIODIC_SYNC_TAG = 'refresh-favorites';
+
+/** Set on forecasts in the worker's cache: epoch ms of when they were stored */
+export const STORED_AT_HEADER = 'X-Stored-At';
+
+/**
+ * A cached forecast younger than this is served without asking the network
+ * again. Older copies are still served, but the app shows them as stale.
+ */
+export const REVALIDATE_AFTER_MS = 60 * 1000;
+
+/** Sent by the worker once a forecast it served from its cache has been refetched */
+export interface ForecastRefreshedMessage {
+  type: 'forecast-refreshed';
+  /** "lat,lon" of the refreshed forecast */
+  coordinates: string;
+}
+
+/** Sent by the app to activate a waiting worker */
+export interface SkipWaitingMessage {
+  type: 'skip-waiting';
+}
@@ -0,0 +1,113 @@
+import { useSyncExternalStore } from 'react';
+import { FORECAST_TAG, weatherApi } from '../weather/api';
+import type { AppStore } from '../store';
+import { writeBackgroundSnapshot } from './backgroundState';
+import { backgroundSnapshot } from './listener';
+import { PERIODIC_SYNC_TAG } from './protocol';
+import type { ForecastRefreshedMessage, SkipWaitingMessage } from './protocol';
+
+// --- SERVICE WORKER REGISTRATION ---
+// Production builds only: /sw.js is built by `npm run build`, and in
+// development a worker would cache the modules Vite is hot-reloading.
+
+// Browsers treat this as a lower bound and stretch it for rarely used apps
+const BACKGROUND_REFRESH_INTERVAL = 60 * 60 * 1000;
+// How often an open app looks for a new deploy
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/** Periodic Background Sync isn't in the DOM typings yet */
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>;
+}
+
+let waitingWorker: ServiceWorker | null = null;
+const updateListeners = new Set<() => void>();
+
+const setWaitingWorker = (worker: ServiceWorker) => {
+  waitingWorker = worker;
+  updateListeners.forEach((listener) => listener());
+};
+
+/**
+ * True once a new version is installed and waiting for `applyUpdate`
+ */
+export const useUpdateAvailable = () => useSyncExternalStore(
+  (listener) => {
+    updateListeners.add(listener);
+    return () => {
+      updateListeners.delete(listener);
+    };
+  },
+  () => waitingWorker !== null
+);
+
+/**
+ * Activates the waiting version; every open tab reloads onto it
+ */
+export const applyUpdate = () => {
+  waitingWorker?.postMessage({ type: 'skip-waiting' } satisfies SkipWaitingMessage);
+};
+
+const trackUpdates = (registration: ServiceWorkerRegistration) => {
+  // Without a controller this is the first install, not an update
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    setWaitingWorker(registration.waiting);
+  }
+  registration.addEventListener('updatefound', () => {
+    const worker = registration.installing;
+    worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+        setWaitingWorker(worker);
+      }
+    });
+  });
+  setInterval(() => void registration.update(), UPDATE_CHECK_INTERVAL);
+};
+
+/**
+ * Asks for background refreshes where the browser offers them. Chrome grants
+ * the permission to installed apps only.
+ */
+const registerPeriodicRefresh = async (registration: ServiceWorkerRegistration) => {
+  const { periodicSync } = registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager };
+  if (!periodicSync) {
+    return;
+  }
+  const permission = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+  if (permission.state === 'granted') {
+    await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: BACKGROUND_REFRESH_INTERVAL });
+  }
+};
+
+/**
+ * Registers the service worker and wires it to the store: forecasts it
+ * refreshed are read again, and it gets a copy of what background refreshes need
+ */
+export const startServiceWorker = (store: AppStore) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+  const { serviceWorker } = navigator;
+
+  void writeBackgroundSnapshot(backgroundSnapshot(store.getState()));
+
+  const hadController = serviceWorker.controller !== null;
+  serviceWorker.addEventListener('controllerchange', () => {
+    if (hadController) {
+      window.location.reload();
+    }
+  });
+  serviceWorker.addEventListener('message', (event) => {
+    const message = event.data as ForecastRefreshedMessage | undefined;
+    if (message?.type === 'forecast-refreshed') {
+      store.dispatch(weatherApi.util.invalidateTags([{ type: FORECAST_TAG, id: message.coordinates }]));
+    }
+  });
+
+  serviceWorker.register('/sw.js')
+    .then(async (registration) => {
+      trackUpdates(registration);
+      await registerPeriodicRefresh(registration);
+    })
+    .catch((err) => console.warn('Service worker registration failed:', err));
+};
@@ -0,0 +1,232 @@
+import { evaluateRule } from '../alerts/rules';
+import { createTranslator } from '../i18n/translate';
+import { resolveWeatherProvider } from '../weather/config';
+import { WeatherProviderError } from '../weather/provider';
+import type { FetchJson } from '../weather/provider';
+import { createFormatter } from '../weather/units';
+import { validateForecast } from '../weather/validate';
+import { readAnnouncedTriggers, readBackgroundSnapshot, writeAnnouncedTriggers } from './backgroundState';
+import { forecastCoordinates, forecastsToEvict, isForecastRequest } from './forecastRequests';
+import { PERIODIC_SYNC_TAG, REVALIDATE_AFTER_MS, STORED_AT_HEADER } from './protocol';
+import type { ForecastRefreshedMessage, SkipWaitingMessage } from './protocol';
+
+// --- SERVICE WORKER ---
+// Built on its own into /sw.js by server/serviceWorkerPlugin.ts, which fills
+// in the precache list. The app shell is precached, forecasts are served
+// stale-while-revalidate (within an entry and age limit), and where the browser allows periodic background
+// sync, favorites are refreshed and checked against their alert rules while
+// the app is closed.
+
+declare const self: ServiceWorkerGlobalScope;
+declare const __PRECACHE_URLS__: string[];
+declare const __PRECACHE_VERSION__: string;
+
+const SHELL_CACHE = `shell-${__PRECACHE_VERSION__}`;
+const FORECAST_CACHE = 'forecasts-v1';
+const INDEX_URL = '/';
+
+interface PeriodicSyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+
+declare global {
+  interface ServiceWorkerGlobalScopeEventMap {
+    periodicsync: PeriodicSyncEvent;
+  }
+}
+
+// --- LIFECYCLE ---
+
+self.addEventListener('install', (event) => {
+  // No skipWaiting: an update waits until the app's prompt activates it
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(__PRECACHE_URLS__)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    // Earlier shells and forecast cache versions this worker no longer reads
+    const current = [SHELL_CACHE, FORECAST_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => !current.includes(name)).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if ((event.data as SkipWaitingMessage | undefined)?.type === 'skip-waiting') {
+    void self.skipWaiting();
+  }
+});
+
+// --- REQUESTS ---
+
+/**
+ * Keeps the forecast cache from growing with every city ever looked at
+ */
+const pruneForecasts = async (cache: Cache) => {
+  const entries = await Promise.all((await cache.keys()).map(async (request) => {
+    const response = await cache.match(request);
+    return { url: request.url, storedAt: Number(response?.headers.get(STORED_AT_HEADER) ?? NaN) };
+  }));
+  await Promise.all(forecastsToEvict(entries, Date.now()).map((url) => cache.delete(url)));
+};
+
+const storeForecast = async (request: Request, response: Response) => {
+  if (!response.ok) {
+    return;
+  }
+  const headers = new Headers(response.headers);
+  headers.set(STORED_AT_HEADER, String(Date.now()));
+  const stamped = new Response(await response.clone().blob(), {
+    status: response.status, statusText: response.statusText, headers,
+  });
+  const cache = await caches.open(FORECAST_CACHE);
+  await cache.put(request, stamped);
+  await pruneForecasts(cache);
+};
+
+const fetchForecast = async (request: Request) => {
+  const response = await fetch(request);
+  await storeForecast(request, response);
+  return response;
+};
+
+const notifyRefreshed = async (url: URL) => {
+  const coordinates = forecastCoordinates(url);
+  if (!coordinates) {
+    return;
+  }
+  const message: ForecastRefreshedMessage = { type: 'forecast-refreshed', coordinates };
+  (await self.clients.matchAll({ type: 'window' })).forEach((client) => client.postMessage(message));
+};
+
+/**
+ * Answers from the cache straight away and refetches in the background; the
+ * app is told when newer data is in, so it can read it again
+ */
+const staleWhileRevalidate = async (event: FetchEvent) => {
+  const cached = await caches.match(event.request, { cacheName: FORECAST_CACHE });
+  if (!cached) {
+    return fetchForecast(event.request);
+  }
+  const storedAt = Number(cached.headers.get(STORED_AT_HEADER));
+  if (Date.now() - storedAt >= REVALIDATE_AFTER_MS) {
+    event.waitUntil(fetchForecast(event.request)
+      .then(async (response) => {
+        if (response.ok) {
+          await notifyRefreshed(new URL(event.request.url));
+        }
+      })
+      .catch(() => undefined)); // Offline: the cached copy is the best there is
+  }
+  return cached;
+};
+
+/**
+ * Fresh pages when online, so a deploy shows up on the next load; the
+ * precached shell when not
+ */
+const networkFirstNavigation = async (request: Request) => {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    const shell = await caches.match(INDEX_URL, { cacheName: SHELL_CACHE });
+    if (shell) {
+      return shell;
+    }
+    throw err;
+  }
+};
+
+const precached = new Set(__PRECACHE_URLS__.map((path) => new URL(path, self.location.origin).href));
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+  const url = new URL(request.url);
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstNavigation(request));
+  } else if (isForecastRequest(url)) {
+    event.respondWith(staleWhileRevalidate(event));
+  } else if (precached.has(url.href)) {
+    event.respondWith(caches.match(request, { cacheName: SHELL_CACHE }).then((cached) => cached ?? fetch(request)));
+  }
+});
+
+// --- BACKGROUND REFRESH ---
+
+/**
+ * Same transport as the API slice: fetchBaseQuery's URL, so the results land
+ * where the app's own requests will look for them
+ */
+const fetchJson: FetchJson = async (args) => {
+  const { url, params } = typeof args === 'string' ? { url: args, params: undefined } : args;
+  const query = params
+    ? new URLSearchParams(Object.entries(params).filter(([, value]) => value !== undefined)).toString()
+    : '';
+  const request = new Request(query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url);
+  const response = isForecastRequest(new URL(request.url)) ? await fetchForecast(request) : await fetch(request);
+  if (!response.ok) {
+    throw new WeatherProviderError(`Request failed with status ${response.status}`, response.status);
+  }
+  return response.json();
+};
+
+/**
+ * Refetches every favorite and announces rule triggers the user hasn't been
+ * told about, once per occurrence like the app does
+ */
+const refreshFavorites = async () => {
+  const snapshot = await readBackgroundSnapshot();
+  if (!snapshot) {
+    return;
+  }
+  const provider = resolveWeatherProvider();
+  const format = createFormatter(snapshot.units, snapshot.locale);
+  const t = createTranslator(snapshot.locale);
+  const announced = await readAnnouncedTriggers();
+  const canNotify = Notification.permission === 'granted';
+
+  for (const favorite of snapshot.favorites) {
+    try {
+      const forecast = validateForecast(await provider.getForecast(
+        { q: `${favorite.lat},${favorite.lon}`, days: snapshot.forecastDays, lang: snapshot.locale }, fetchJson
+      ));
+      const triggers = favorite.rule ? evaluateRule(favorite.rule, forecast, favorite.label, format, t) : [];
+      const previous = new Set(announced[favorite.id] ?? []);
+      if (canNotify) {
+        await Promise.all(triggers
+          .filter((trigger) => !previous.has(trigger.key))
+          .map((trigger) => self.registration.showNotification(trigger.title, {
+            body: trigger.body,
+            tag: `${favorite.id}:${trigger.key}`,
+            icon: '/icons/icon-192.png',
+          })));
+      }
+      announced[favorite.id] = triggers.map((trigger) => trigger.key);
+    } catch (err) {
+      console.warn(`Background refresh of ${favorite.label} failed:`, err);
+    }
+  }
+  await writeAnnouncedTriggers(announced);
+};
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) {
+    event.waitUntil(refreshFavorites());
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const [open] = await self.clients.matchAll({ type: 'window' });
+    if (open) {
+      await open.focus();
+    } else {
+      await self.clients.openWindow(INDEX_URL);
+    }
+  })());
+});
@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAppSelector } from '../store/hooks';
+import type { DateRange } from '../weather/dates';
+import { createFormatter } from '../weather/units';
+import type { Formatter, UnitPreferences } from '../weather/units';
+import { DEFAULT_FORECAST_RANGE, FORECAST_RANGES, isTemperatureUnit } from './paths';
+
+/**
+ * Saved unit preferences, with the temperature unit overridden by `?unit=`
+ */
+export const useUnitPreferences = (): UnitPreferences => {
+  const stored = useAppSelector((state) => state.settings.units);
+  const [searchParams] = useSearchParams();
+  const unit = searchParams.get('unit');
+  return useMemo(
+    () => (isTemperatureUnit(unit) ? { ...stored, temperature: unit } : stored),
+    [stored, unit]
+  );
+};
+
+/**
+ * Forecast range from `?days=`, falling back to the default for anything not offered
+ */
+export const useForecastRange = (): [number, (days: number) => void] => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requested = Number(searchParams.get('days'));
+  const days = FORECAST_RANGES.includes(requested) ? requested : DEFAULT_FORECAST_RANGE;
+
+  const setDays = (next: number) => setSearchParams((params) => {
+    params.set('days', String(next));
+    return params;
+  }, { replace: true });
+
+  return [days, setDays];
+};
+
+/**
+ * History explorer dates from `?from=` and `?to=`, with `fallback` for whichever is missing
+ */
+export const useHistoryRange = (fallback: DateRange): [DateRange, (range: DateRange) => void] => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const range = { from: searchParams.get('from') ?? fallback.from, to: searchParams.get('to') ?? fallback.to };
+
+  const setRange = (next: DateRange) => setSearchParams((params) => {
+    params.set('from', next.from);
+    params.set('to', next.to);
+    return params;
+  }, { replace: true });
+
+  return [range, setRange];
+};
+
+/**
+ * Formatter for the user's current unit preferences and language
+ */
+export const useFormatter = (): Formatter => {
+  const units = useUnitPreferences();
+  const locale = useAppSelector((state) => state.settings.locale);
+  return useMemo(() => createFormatter(units, locale), [units, locale]);
+};
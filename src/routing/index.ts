@@ -0,0 +1,2 @@
+export { FORECAST_RANGES, DEFAULT_FORECAST_RANGE, cityPath, dashboardPath, comparePath } from './paths';
+export { useUnitPreferences, useForecastRange, useHistoryRange, useFormatter } from './hooks';
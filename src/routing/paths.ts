@@ -0,0 +1,47 @@
+import type { LocationSummary } from '../weather/types';
+import { UNIT_OPTIONS } from '../weather/units';
+import type { TemperatureUnit } from '../weather/units';
+
+// --- ROUTES & URL STATE ---
+// `/` is the dashboard and `/city/:locationId` opens a city on top of it.
+// Links carry the coordinates too, so a shared link works for someone who
+// hasn't saved that city. `?unit=` and `?days=` hold the temperature unit
+// and forecast range, and `?from=` / `?to=` the history explorer's dates, so
+// they all survive a reload or a shared link.
+
+// Days past the regular forecast come from the provider's long-range endpoint
+export const FORECAST_RANGES = [3, 7, 14, 30];
+
+export const DEFAULT_FORECAST_RANGE = 7;
+
+export const isTemperatureUnit = (value: string | null): value is TemperatureUnit =>
+  UNIT_OPTIONS.temperature.some((option) => option.value === value);
+
+/**
+ * Link to a city's detail view, keeping the current unit and range
+ */
+export const cityPath = (location: LocationSummary, search: URLSearchParams) => {
+  const params = new URLSearchParams(search);
+  params.set('lat', String(location.lat));
+  params.set('lon', String(location.lon));
+  return `/city/${encodeURIComponent(location.id)}?${params}`;
+};
+
+/**
+ * Dashboard URL with only the view-wide parameters kept
+ */
+export const dashboardPath = (search: URLSearchParams) => {
+  const params = new URLSearchParams();
+  const unit = search.get('unit');
+  if (unit) {
+    params.set('unit', unit);
+  }
+  const query = params.toString();
+  return query ? `/?${query}` : '/';
+};
+
+export const comparePath = (ids: string[], search: URLSearchParams) => {
+  const params = new URLSearchParams(search);
+  params.set('ids', ids.join(','));
+  return `/compare?${params}`;
+};
@@ -0,0 +1,119 @@
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { http, HttpResponse } from 'msw';
+import { describe, expect, it } from 'vitest';
+import { renderWithProviders } from '../test/renderWithProviders';
+import { searchResult } from '../test/fixtures';
+import { server, WEATHER_API } from '../test/server';
+import { SearchBar } from './SearchBar';
+
+const paris = searchResult({ id: 2802985, name: 'Paris', region: 'Ile-de-France', country: 'France', lat: 48.87, lon: 2.33 });
+const parisTexas = searchResult({
+  id: 2650443, name: 'Paris', region: 'Texas', country: 'United States of America', lat: 33.66, lon: -95.56,
+});
+
+/**
+ * Answers searches with Paris and records every query sent
+ */
+const recordSearches = () => {
+  const queries: string[] = [];
+  server.use(
+    http.get(`${WEATHER_API}/search.json`, ({ request }) => {
+      queries.push(new URL(request.url).searchParams.get('q') ?? '');
+      return HttpResponse.json([paris]);
+    }),
+  );
+  return queries;
+};
+
+describe('SearchBar', () => {
+  it('sends one search after the user stops typing', async () => {
+    const queries = recordSearches();
+    const user = userEvent.setup();
+    renderWithProviders(<SearchBar />);
+
+    await user.type(screen.getByRole('combobox'), 'Paris');
+
+    expect(await screen.findByText('Paris, Ile-de-France, France')).toBeInTheDocument();
+    expect(queries).toEqual(['Paris']);
+  });
+
+  it("doesn't search for fewer than three characters", async () => {
+    const queries = recordSearches();
+    const user = userEvent.setup();
+    renderWithProviders(<SearchBar />);
+
+    await user.type(screen.getByRole('combobox'), 'Pa');
+    await new Promise(resolve => setTimeout(resolve, 400));
+
+    expect(queries).toEqual([]);
+  });
+
+  it('adds a clicked result to the favorites', async () => {
+    recordSearches();
+    const user = userEvent.setup();
+    const { store } = renderWithProviders(<SearchBar />, {
+      preloadedState: { favorites: { locations: [], groups: [], legacyNames: [] } },
+    });
+
+    await user.type(screen.getByRole('combobox', { name: 'Search for a city' }), 'Paris');
+    await user.click(await screen.findByRole('option', { name: 'Paris, Ile-de-France, France' }));
+
+    await waitFor(() => expect(store.getState().favorites.locations.map(location => location.name)).toEqual(['Paris']));
+    expect(screen.getByRole('combobox')).toHaveValue('');
+    expect(store.getState().recentSearches.queries).toEqual(['Paris']);
+  });
+
+  it('moves through results with the arrow keys and adds with Enter', async () => {
+    server.use(
+      http.get(`${WEATHER_API}/search.json`, () => HttpResponse.json([paris, parisTexas])),
+    );
+    const user = userEvent.setup();
+    const { store } = renderWithProviders(<SearchBar />, {
+      preloadedState: { favorites: { locations: [], groups: [], legacyNames: [] } },
+    });
+    const combobox = screen.getByRole('combobox');
+
+    await user.type(combobox, 'Paris');
+    await screen.findByRole('listbox');
+    expect(screen.getByRole('status')).toHaveTextContent('2 results available.');
+
+    await user.keyboard('{ArrowDown}{ArrowDown}');
+    const texas = screen.getByRole('option', { name: 'Paris, Texas, United States of America' });
+    expect(texas).toHaveAttribute('aria-selected', 'true');
+    expect(combobox).toHaveAttribute('aria-activedescendant', texas.id);
+
+    await user.keyboard('{Enter}');
+    expect(store.getState().favorites.locations.map(location => location.region)).toEqual(['Texas']);
+  });
+
+  it('closes the list on Escape', async () => {
+    recordSearches();
+    const user = userEvent.setup();
+    renderWithProviders(<SearchBar />);
+
+    await user.type(screen.getByRole('combobox'), 'Paris');
+    await screen.findByRole('listbox');
+    await user.keyboard('{Escape}');
+
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    expect(screen.getByRole('combobox')).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  it('offers searches that found a favorite when the box is empty', async () => {
+    const queries = recordSearches();
+    const user = userEvent.setup();
+    renderWithProviders(<SearchBar />, {
+      preloadedState: { recentSearches: { queries: ['Paris', 'Lyon'] } },
+    });
+
+    await user.click(screen.getByRole('combobox'));
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual(['Paris', 'Lyon']);
+
+    await user.keyboard('{ArrowDown}{Enter}');
+    expect(screen.getByRole('combobox')).toHaveValue('Paris');
+    expect(await screen.findByRole('option', { name: 'Paris, Ile-de-France, France' })).toBeInTheDocument();
+    await new Promise(resolve => setTimeout(resolve, 400));
+    expect(queries).toEqual(['Paris']);
+  });
+});
@@ -0,0 +1,187 @@
+import React, { useEffect, useId, useState } from 'react';
+import { Check, Clock, Search } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { addFavorite, isSameLocation } from '../store/slices/favorites';
+import { recentSearchesCleared, searchRecorded } from '../store/slices/recentSearches';
+import { useLazySearchCitiesQuery } from '../weather/api';
+import type { LocationSummary } from '../weather/types';
+
+type SearchOption =
+  | { kind: 'city'; city: LocationSummary }
+  | { kind: 'recent'; query: string };
+
+const MIN_QUERY_LENGTH = 3;
+
+const locationLabel = (city: LocationSummary) => [city.name, city.region, city.country].filter(Boolean).join(', ');
+
+/**
+ * Search bar with autocomplete, following the ARIA combobox pattern: arrow
+ * keys move through the results, Enter adds the highlighted city and Escape
+ * closes the list. With an empty box it offers recent searches instead.
+ */
+export const SearchBar = () => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const dispatch = useAppDispatch();
+  const { t } = useTranslation();
+  const favorites = useAppSelector((state) => state.favorites.locations);
+  const recentQueries = useAppSelector((state) => state.recentSearches.queries);
+  const listboxId = useId();
+
+  const [triggerSearch, { data: searchResults, isFetching }] = useLazySearchCitiesQuery();
+
+  useEffect(() => {
+    if (query.length >= MIN_QUERY_LENGTH) {
+      const timer = setTimeout(() => {
+        triggerSearch(query, true); // Reuse results already fetched for this query
+      }, 300); // Debounce search
+      return () => clearTimeout(timer);
+    }
+  }, [query, triggerSearch]);
+
+  const isSearching = query.length >= MIN_QUERY_LENGTH;
+  const options: SearchOption[] = isSearching
+    ? (searchResults ?? []).map((city) => ({ kind: 'city', city }))
+    : recentQueries.map((recent) => ({ kind: 'recent', query: recent }));
+  const isExpanded = isOpen && (options.length > 0 || (isSearching && searchResults !== undefined));
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+  const isAlreadyFavorite = (city: LocationSummary) =>
+    favorites.some((fav) => isSameLocation(fav, city));
+
+  const changeQuery = (value: string) => {
+    setQuery(value);
+    setActiveIndex(-1);
+    setIsOpen(true);
+  };
+
+  const choose = (option: SearchOption) => {
+    if (option.kind === 'recent') {
+      changeQuery(option.query);
+      triggerSearch(option.query, true);
+    } else if (!isAlreadyFavorite(option.city)) {
+      dispatch(addFavorite(option.city));
+      dispatch(searchRecorded(query));
+      changeQuery('');
+      setIsOpen(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setIsOpen(true);
+      if (options.length > 0) {
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((index) => index === -1
+          ? (step > 0 ? 0 : options.length - 1)
+          : (index + step + options.length) % options.length);
+      }
+    } else if (e.key === 'Enter' && isExpanded && options[activeIndex]) {
+      e.preventDefault();
+      choose(options[activeIndex]);
+    } else if (e.key === 'Escape') {
+      if (isExpanded) {
+        setIsOpen(false);
+        setActiveIndex(-1);
+      } else {
+        changeQuery('');
+      }
+    }
+  };
+
+  const resultCount = searchResults?.length ?? 0;
+  const announcement = !isOpen || !isSearching || isFetching || !searchResults
+    ? ''
+    : resultCount === 0 ? t('search.noResults') : t('search.resultCount', { count: resultCount });
+
+  return (
+    <div className="relative w-full max-w-md">
+      <div className="flex items-center">
+        <Search size={20} className="absolute start-3 text-muted" />
+        <input
+          type="text"
+          role="combobox"
+          aria-label={t('search.label')}
+          aria-autocomplete="list"
+          aria-expanded={isExpanded}
+          aria-controls={listboxId}
+          aria-activedescendant={isExpanded && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          value={query}
+          onChange={(e) => changeQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          placeholder={t('search.placeholder')}
+          className="w-full ps-10 pe-4 py-3 bg-raised text-fg border border-line-strong rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {isFetching && <div className="absolute end-3 w-5 h-5 border-2 border-muted border-t-transparent rounded-full animate-spin"></div>}
+      </div>
+
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+      {isExpanded && (
+        <div
+          className="absolute z-50 w-full mt-2 bg-surface border border-line rounded-lg shadow-lg max-h-60 overflow-y-auto"
+          // Keep focus in the input so the list doesn't close before a click lands
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {!isSearching && (
+            <div className="flex justify-between items-center px-4 pt-3 pb-1 text-xs text-muted">
+              <span>{t('search.recent')}</span>
+              <button onClick={() => dispatch(recentSearchesCleared())} className="hover:text-fg-soft">
+                {t('search.clear')}
+              </button>
+            </div>
+          )}
+          <ul id={listboxId} role="listbox" aria-label={t(isSearching ? 'search.results' : 'search.recent')}>
+            {options.map((option, index) => {
+              const isActive = index === activeIndex;
+              const isDisabled = option.kind === 'city' && isAlreadyFavorite(option.city);
+              return (
+                <li
+                  key={option.kind === 'city' ? option.city.id : option.query}
+                  id={optionId(index)}
+                  role="option"
+                  aria-selected={isActive}
+                  aria-disabled={isDisabled || undefined}
+                  onClick={() => choose(option)}
+                  onMouseMove={() => setActiveIndex(index)}
+                  className={`flex justify-between items-center px-4 py-3 ${
+                    isDisabled ? 'cursor-default text-muted' : 'cursor-pointer'
+                  } ${isActive ? 'bg-raised' : ''}`}
+                >
+                  {option.kind === 'recent' ? (
+                    <span className="flex items-center gap-2">
+                      <Clock size={14} className="text-muted" />
+                      {option.query}
+                    </span>
+                  ) : (
+                    <>
+                      <span>{locationLabel(option.city)}</span>
+                      {isDisabled ? (
+                        <span className="flex items-center gap-1 text-sm">
+                          <Check size={16} />
+                          <span className="sr-only">{t('search.alreadyFavorite')}</span>
+                        </span>
+                      ) : (
+                        <span aria-hidden="true" className="px-3 py-1 rounded-md text-sm bg-blue-600 text-white">
+                          {t('search.add')}
+                        </span>
+                      )}
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {isSearching && searchResults?.length === 0 && (
+            <div className="px-4 py-3 text-muted">{t('search.noResults')}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
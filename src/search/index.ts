@@ -0,0 +1 @@
+export { SearchBar } from './SearchBar';
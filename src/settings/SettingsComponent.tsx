@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Settings } from 'lucide-react';
+import { LOCALES, useTranslation } from '../i18n';
+import type { Locale, MessageKey } from '../i18n';
+import { useUnitPreferences } from '../routing';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { setLocale, setTheme, setUnitPreference } from '../store/slices/settings';
+import type { ThemePreference } from '../store/slices/settings';
+import { UNIT_OPTIONS } from '../weather/units';
+import type { UnitPreferences } from '../weather/units';
+
+const UNIT_LABELS: Record<keyof UnitPreferences, MessageKey> = {
+  temperature: 'settings.temperature',
+  wind: 'settings.wind',
+  pressure: 'settings.pressure',
+  distance: 'settings.distance',
+  precipitation: 'settings.precipitation',
+  clock: 'settings.clock',
+};
+
+const THEME_OPTIONS: { value: ThemePreference; label: MessageKey }[] = [
+  { value: 'system', label: 'settings.themeSystem' },
+  { value: 'light', label: 'settings.themeLight' },
+  { value: 'dark', label: 'settings.themeDark' },
+];
+
+const optionClass = (isActive: boolean) => `px-3 py-1 rounded-md text-sm transition-colors ${
+  isActive ? 'bg-blue-600 text-white' : 'bg-raised hover:bg-raised-hover text-fg-soft'
+}`;
+
+/**
+ * Settings panel with independent unit choices, the color theme and the language
+ */
+export const SettingsComponent = () => {
+  const dispatch = useAppDispatch();
+  const units = useUnitPreferences();
+  const theme = useAppSelector((state) => state.settings.theme);
+  const { t, locale } = useTranslation();
+  const [, setSearchParams] = useSearchParams();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const choose = <K extends keyof UnitPreferences>(key: K, value: UnitPreferences[K]) => {
+    dispatch(setUnitPreference({ key, value }));
+    if (key === 'temperature') {
+      // The URL wins over the saved preference, so keep it in step
+      setSearchParams((params) => {
+        params.set('unit', String(value));
+        return params;
+      }, { replace: true });
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={t('settings.title')}
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 px-4 py-2 bg-raised hover:bg-raised-hover rounded-lg text-fg font-medium transition-colors"
+      >
+        <Settings size={18} />
+        <span>
+          °{units.temperature.toUpperCase()}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute end-0 z-50 mt-2 w-72 p-4 space-y-4 bg-surface border border-line rounded-lg shadow-lg">
+          {(Object.keys(UNIT_OPTIONS) as (keyof UnitPreferences)[]).map((key) => (
+            <div key={key}>
+              <p className="text-sm text-muted mb-1">{t(UNIT_LABELS[key])}</p>
+              <div className="flex flex-wrap gap-1">
+                {UNIT_OPTIONS[key].map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => choose(key, value)}
+                    aria-pressed={units[key] === value}
+                    className={optionClass(units[key] === value)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className="pt-4 border-t border-line">
+            <p className="text-sm text-muted mb-1">{t('settings.theme')}</p>
+            <div className="flex flex-wrap gap-1">
+              {THEME_OPTIONS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => dispatch(setTheme(value))}
+                  aria-pressed={theme === value}
+                  className={optionClass(theme === value)}
+                >
+                  {t(label)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="block">
+            <span className="block text-sm text-muted mb-1">{t('settings.language')}</span>
+            <select
+              value={locale}
+              onChange={(e) => dispatch(setLocale(e.target.value as Locale))}
+              className="w-full px-2 py-1 bg-raised text-fg border border-line-strong rounded-md text-sm"
+            >
+              {LOCALES.map(({ value, label }) => (
+                <option key={value} value={value} lang={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { SettingsComponent } from './SettingsComponent';
+export { useAppliedTheme } from './useAppliedTheme';
@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { useAppSelector } from '../store/hooks';
+import type { ThemePreference } from '../store/slices/settings';
+
+const LIGHT_QUERY = '(prefers-color-scheme: light)';
+
+const resolveTheme = (preference: ThemePreference): 'light' | 'dark' => {
+  if (preference !== 'system') {
+    return preference;
+  }
+  return typeof window.matchMedia === 'function' && window.matchMedia(LIGHT_QUERY).matches ? 'light' : 'dark';
+};
+
+/**
+ * Keeps <html data-theme> in step with the theme setting and, for "system",
+ * with the operating system's light or dark mode
+ */
+export const useAppliedTheme = () => {
+  const preference = useAppSelector((state) => state.settings.theme);
+
+  useEffect(() => {
+    const apply = () => {
+      document.documentElement.dataset.theme = resolveTheme(preference);
+    };
+    apply();
+    if (preference !== 'system' || typeof window.matchMedia !== 'function') {
+      return;
+    }
+    const query = window.matchMedia(LIGHT_QUERY);
+    query.addEventListener('change', apply);
+    return () => query.removeEventListener('change', apply);
+  }, [preference]);
+};
@@ -0,0 +1,40 @@
+import type React from 'react';
+import { useRef } from 'react';
+import { useFocusTrap } from './useFocusTrap';
+
+/**
+ * Modal dialog over a dimmed backdrop. Closes on Escape or a backdrop click,
+ * and keeps keyboard focus inside while open.
+ */
+export const Dialog = ({ label, labelledBy, onClose, className = '', children }: {
+  /** Accessible name, when there's no visible heading to point at */
+  label?: string;
+  /** Id of the heading that names the dialog */
+  labelledBy?: string;
+  onClose: () => void;
+  className?: string;
+  children: React.ReactNode;
+}) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, onClose);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-center items-center bg-black bg-opacity-75 p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={label}
+        aria-labelledby={labelledBy}
+        tabIndex={-1}
+        className={`focus:outline-none ${className}`}
+        onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
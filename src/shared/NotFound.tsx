@@ -0,0 +1,34 @@
+import type React from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { TriangleAlert } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import { dashboardPath } from '../routing';
+
+/**
+ * Not-found panel, used for unknown routes and cities that fail to load
+ */
+export const NotFound = ({ title, message, children }: {
+  title?: string;
+  message?: string;
+  children?: React.ReactNode;
+}) => {
+  const [searchParams] = useSearchParams();
+  const { t } = useTranslation();
+
+  return (
+    <div className="w-full max-w-md mx-auto p-8 bg-surface rounded-lg shadow-xl text-center text-fg">
+      <TriangleAlert size={40} className="mx-auto text-yellow-400 light:text-yellow-700" />
+      <h2 className="mt-4 text-2xl font-bold">{title ?? t('notFound.title')}</h2>
+      <p className="mt-2 text-muted">{message ?? t('notFound.message')}</p>
+      <div className="flex justify-center gap-3 mt-6">
+        {children}
+        <Link
+          to={dashboardPath(searchParams)}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white font-medium transition-colors"
+        >
+          {t('notFound.back')}
+        </Link>
+      </div>
+    </div>
+  );
+};
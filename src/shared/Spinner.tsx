@@ -0,0 +1,10 @@
+
+
+/**
+ * Loading spinner
+ */
+export const Spinner = () => (
+  <div className="flex justify-center items-center w-full h-full">
+    <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+  </div>
+);
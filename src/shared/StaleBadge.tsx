@@ -0,0 +1,21 @@
+import { useTranslation } from '../i18n';
+import type { CachedForecast } from '../store/forecastCache';
+import type { Formatter } from '../weather/units';
+
+/**
+ * Shown on forecasts served from the offline cache
+ */
+export const StaleBadge = ({ forecast, format }: { forecast: CachedForecast; format: Formatter }) => {
+  const { t } = useTranslation();
+  if (!forecast.stale) {
+    return null;
+  }
+  return (
+    <span
+      title={t('stale.title')}
+      className="px-2 py-0.5 rounded-full text-xs font-semibold bg-raised-hover text-fg-soft"
+    >
+      {t('stale.label', { time: format.time(forecast.fetchedAt / 1000) })}
+    </span>
+  );
+};
@@ -0,0 +1,39 @@
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { forecastResponse } from '../test/fixtures';
+import { parseWeatherApiForecast } from '../weather/providers/weatherApiCom';
+import { WeatherIcon } from './WeatherIcon';
+
+/**
+ * Current conditions as WeatherAPI.com would report them
+ */
+const currentCondition = (text: string, code: number) => {
+  const raw = forecastResponse();
+  return parseWeatherApiForecast({ ...raw, current: { ...raw.current, condition: { text, code } } }).current.condition;
+};
+
+describe('WeatherIcon', () => {
+  it('goes by the condition code, not the wording', () => {
+    render(
+      <>
+        <WeatherIcon condition={currentCondition('Patchy light rain with thunder', 1273)} isDay />
+        <WeatherIcon condition={currentCondition('Pluie modérée', 1189)} isDay />
+        <WeatherIcon condition={currentCondition('Something new', 9999)} isDay />
+      </>
+    );
+
+    const icons = screen.getAllByRole('img');
+    expect(icons.map((icon) => icon.dataset.condition)).toEqual(['thunderstorm', 'rain', 'unknown']);
+    expect(icons[0]).toHaveAccessibleName('Patchy light rain with thunder');
+  });
+
+  it('shows a different icon by night', () => {
+    const clear = currentCondition('Clear', 1000);
+    const { container, rerender } = render(<WeatherIcon condition={clear} isDay />);
+    const dayIcon = container.innerHTML;
+
+    rerender(<WeatherIcon condition={clear} isDay={false} />);
+    expect(container.innerHTML).not.toBe(dayIcon);
+    expect(container.querySelector('svg')).toHaveClass('motion-safe:animate-spin-slow');
+  });
+});
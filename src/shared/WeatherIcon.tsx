@@ -0,0 +1,26 @@
+import type { WeatherCondition } from '../weather/types';
+import { conditionIcon } from './conditionStyles';
+
+/**
+ * Icon for a condition's kind, day or night, announced to screen readers as
+ * the condition
+ */
+export const WeatherIcon = ({ condition, className = 'w-10 h-10', isDay, animated = true, label }: {
+  condition: WeatherCondition;
+  /** Size and layout; the color comes from the condition */
+  className?: string;
+  isDay: boolean;
+  animated?: boolean;
+  /** Text alternative; defaults to the condition text */
+  label?: string;
+}) => {
+  const { Icon, color, motion } = conditionIcon(condition, isDay);
+  return (
+    <Icon
+      className={`${color} ${animated ? motion : ''} ${className}`}
+      role="img"
+      aria-label={label ?? condition.text}
+      data-condition={condition.kind}
+    />
+  );
+};
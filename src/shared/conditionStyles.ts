@@ -0,0 +1,79 @@
+import {
+  Cloud, CloudDrizzle, CloudFog, CloudHail, CloudLightning, CloudMoon, CloudMoonRain, CloudSnow, CloudSun,
+  CloudSunRain, Moon, Sun,
+} from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { ConditionKind, WeatherCondition } from '../weather/types';
+
+// --- CONDITION STYLES ---
+// Icon, icon color, motion and card tint for each kind of weather. Class
+// names are written out in full so Tailwind finds them.
+
+interface ConditionStyle {
+  day: LucideIcon;
+  night: LucideIcon;
+  /** Icon color, with a deeper shade where the light theme needs one */
+  color: string;
+  /** Gentle looping motion, skipped when the user prefers reduced motion */
+  motion: string;
+  /** Gradient start for cards showing this weather, by day and by night */
+  tint: { day: string; night: string };
+}
+
+const CONDITION_STYLES: Record<ConditionKind, ConditionStyle> = {
+  clear: {
+    day: Sun, night: Moon, color: 'text-amber-400', motion: 'motion-safe:animate-spin-slow',
+    tint: { day: 'from-amber-400/25', night: 'from-indigo-500/25' },
+  },
+  partlyCloudy: {
+    day: CloudSun, night: CloudMoon, color: 'text-amber-300 light:text-amber-500', motion: 'motion-safe:animate-drift',
+    tint: { day: 'from-sky-400/20', night: 'from-indigo-400/20' },
+  },
+  cloudy: {
+    day: Cloud, night: Cloud, color: 'text-slate-400', motion: 'motion-safe:animate-drift',
+    tint: { day: 'from-slate-400/20', night: 'from-slate-500/20' },
+  },
+  fog: {
+    day: CloudFog, night: CloudFog, color: 'text-zinc-400', motion: 'motion-safe:animate-drift',
+    tint: { day: 'from-zinc-300/25', night: 'from-zinc-500/20' },
+  },
+  drizzle: {
+    day: CloudDrizzle, night: CloudDrizzle, color: 'text-cyan-400', motion: 'motion-safe:animate-fall',
+    tint: { day: 'from-cyan-400/20', night: 'from-cyan-700/25' },
+  },
+  rain: {
+    day: CloudSunRain, night: CloudMoonRain, color: 'text-blue-400', motion: 'motion-safe:animate-fall',
+    tint: { day: 'from-blue-500/25', night: 'from-blue-800/30' },
+  },
+  freezingRain: {
+    day: CloudHail, night: CloudHail, color: 'text-cyan-300 light:text-cyan-500', motion: 'motion-safe:animate-fall',
+    tint: { day: 'from-cyan-300/25', night: 'from-cyan-800/30' },
+  },
+  sleet: {
+    day: CloudHail, night: CloudHail, color: 'text-teal-300 light:text-teal-500', motion: 'motion-safe:animate-fall',
+    tint: { day: 'from-teal-300/20', night: 'from-teal-800/25' },
+  },
+  snow: {
+    day: CloudSnow, night: CloudSnow, color: 'text-sky-200 light:text-sky-400', motion: 'motion-safe:animate-fall',
+    tint: { day: 'from-sky-100/30', night: 'from-sky-300/15' },
+  },
+  thunderstorm: {
+    day: CloudLightning, night: CloudLightning, color: 'text-violet-400', motion: 'motion-safe:animate-flash',
+    tint: { day: 'from-violet-500/30', night: 'from-violet-800/35' },
+  },
+  unknown: {
+    day: Cloud, night: Cloud, color: 'text-slate-400', motion: '',
+    tint: { day: 'from-transparent', night: 'from-transparent' },
+  },
+};
+
+export const conditionIcon = (condition: WeatherCondition, isDay: boolean) => {
+  const style = CONDITION_STYLES[condition.kind];
+  return { Icon: isDay ? style.day : style.night, color: style.color, motion: style.motion };
+};
+
+/**
+ * Background classes tinting a card by its current weather
+ */
+export const conditionBackdrop = (condition: WeatherCondition, isDay: boolean) =>
+  `bg-linear-to-br ${CONDITION_STYLES[condition.kind].tint[isDay ? 'day' : 'night']} to-transparent to-70%`;
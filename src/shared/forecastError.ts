@@ -0,0 +1,26 @@
+import type { SerializedError } from '@reduxjs/toolkit';
+import type { FetchBaseQueryError } from '@reduxjs/toolkit/query/react';
+import type { Translate } from '../i18n';
+import { isOffline } from '../weather/api';
+
+/**
+ * What went wrong with a forecast request, in words for the user
+ */
+export const describeForecastError = (error: FetchBaseQueryError | SerializedError | undefined, t: Translate) => {
+  const status = error && 'status' in error ? error.status : undefined;
+  if (isOffline()) {
+    return t('error.offline');
+  }
+  if (status === 400 || status === 404) {
+    return t('error.unknownLocation');
+  }
+  if (status === 'CUSTOM_ERROR' || status === 'PARSING_ERROR') {
+    return t('error.unreadable');
+  }
+  if (status === 'FETCH_ERROR' || status === 'TIMEOUT_ERROR') {
+    return t('error.unreachable');
+  }
+  return typeof status === 'number'
+    ? t('error.status', { status: String(status) })
+    : t('error.generic');
+};
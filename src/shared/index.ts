@@ -0,0 +1,8 @@
+export { WeatherIcon } from './WeatherIcon';
+export { conditionBackdrop } from './conditionStyles';
+export { Spinner } from './Spinner';
+export { StaleBadge } from './StaleBadge';
+export { NotFound } from './NotFound';
+export { useOnlineStatus } from './useOnlineStatus';
+export { describeForecastError } from './forecastError';
+export { Dialog } from './Dialog';
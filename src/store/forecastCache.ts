@@ -0,0 +1,90 @@
+import { validateForecast } from '../weather/validate';
+import type { Forecast } from '../weather/types';
+
+// --- OFFLINE FORECAST CACHE ---
+// Every fetched forecast is kept in IndexedDB with its fetch time, so the
+// dashboard can show last-known data after a reload, while offline, or when
+// the provider is failing. All calls degrade to no-ops where IndexedDB is
+// unavailable (private browsing in some browsers, tests).
+
+const DB_NAME = 'weatherDashboard';
+const STORE_NAME = 'forecasts';
+// Bump when the Forecast model changes shape; older entries are then ignored
+const ENTRY_VERSION = 3;
+
+export interface CacheInfo {
+  /** Epoch ms of the provider response */
+  fetchedAt: number;
+  /**
+   * True when served from this cache because fetching failed, or when the
+   * service worker answered with a copy older than its revalidate window
+   */
+  stale: boolean;
+}
+
+export type CachedForecast = Forecast & CacheInfo;
+
+interface CacheEntry {
+  key: string;
+  version: number;
+  fetchedAt: number;
+  forecast: Forecast;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Forecast cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  if (!db) {
+    return undefined;
+  }
+  return new Promise<T | undefined>((resolve) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Forecast cache request failed:', request.error);
+      resolve(undefined);
+    };
+  });
+};
+
+/**
+ * Last forecast stored under `key`, marked stale
+ */
+export const readCachedForecast = async (key: string): Promise<CachedForecast | undefined> => {
+  const entry = await run<CacheEntry | undefined>('readonly', (store) => store.get(key));
+  if (!entry || entry.version !== ENTRY_VERSION) {
+    return undefined;
+  }
+  try {
+    return { ...validateForecast(entry.forecast), fetchedAt: entry.fetchedAt, stale: true };
+  } catch (err) {
+    console.warn('Ignoring unreadable cached forecast:', err);
+    return undefined;
+  }
+};
+
+export const writeCachedForecast = async (key: string, forecast: Forecast, fetchedAt: number) => {
+  await run('readwrite', (store) => store.put({ key, version: ENTRY_VERSION, fetchedAt, forecast } satisfies CacheEntry));
+};
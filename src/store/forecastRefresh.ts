@@ -0,0 +1,70 @@
+import { useEffect } from 'react';
+import { isRuleActive } from '../alerts/rules';
+import { weatherApi } from '../weather/api';
+import type { ForecastArgs } from '../weather/api';
+import { createRefreshScheduler } from './refreshScheduler';
+import { isNearby } from './slices/favorites';
+import { refreshBlockedUntil } from './slices/providerHealth';
+import type { AppStore, RootState } from '.';
+
+// --- REFRESH SCHEDULING ---
+// Forecasts aren't polled by components. One scheduler refreshes every cached
+// forecast in turn: open city views every minute, cities with notification
+// rules every 5 minutes, everything else every 10.
+
+const FOCUSED_REFRESH_INTERVAL = 60 * 1000;
+const RULE_REFRESH_INTERVAL = 5 * 60 * 1000;
+const DEFAULT_REFRESH_INTERVAL = 10 * 60 * 1000;
+
+const coordinateKey = ({ lat, lon }: ForecastArgs) => `${lat},${lon}`;
+const focusedLocations = new Map<string, number>(); // coordinate key -> open views
+
+/**
+ * Refreshes a location at the focused rate while the calling component is mounted
+ */
+export const useFocusedRefresh = ({ lat, lon }: ForecastArgs) => {
+  useEffect(() => {
+    const key = coordinateKey({ lat, lon });
+    focusedLocations.set(key, (focusedLocations.get(key) ?? 0) + 1);
+    return () => {
+      const count = (focusedLocations.get(key) ?? 1) - 1;
+      if (count > 0) {
+        focusedLocations.set(key, count);
+      } else {
+        focusedLocations.delete(key);
+      }
+    };
+  }, [lat, lon]);
+};
+
+/**
+ * Cached forecasts with their refresh intervals. Entries only exist while
+ * something shows them (plus keepUnusedDataFor), so hidden cities aren't refreshed.
+ */
+export const forecastRefreshTargets = (state: RootState) => weatherApi.util.selectCachedArgsForQuery(state, 'getForecast')
+  .map(arg => {
+    const key = coordinateKey(arg);
+    const entry = weatherApi.endpoints.getForecast.select(arg)(state);
+    const hasRule = state.favorites.locations.some(
+      favorite => isNearby(favorite, arg) && isRuleActive(state.alertRules.rules[favorite.id])
+    );
+    return {
+      key,
+      arg,
+      intervalMs: focusedLocations.has(key)
+        ? FOCUSED_REFRESH_INTERVAL
+        : hasRule ? RULE_REFRESH_INTERVAL : DEFAULT_REFRESH_INTERVAL,
+      lastFetchedAt: entry.fulfilledTimeStamp ?? entry.startedTimeStamp,
+    };
+  });
+
+/**
+ * Starts refreshing the store's cached forecasts. Returns a stop function.
+ */
+export const startForecastRefresh = (store: AppStore) => createRefreshScheduler({
+  targets: () => forecastRefreshTargets(store.getState()),
+  refresh: (arg: ForecastArgs) => store.dispatch(
+    weatherApi.endpoints.getForecast.initiate(arg, { subscribe: false, forceRefetch: true })
+  ),
+  blockedUntil: () => refreshBlockedUntil(store.getState().providerHealth, Date.now()),
+}).start();
@@ -0,0 +1,94 @@
+import { combineReducers, configureStore } from '@reduxjs/toolkit';
+import { setupListeners } from '@reduxjs/toolkit/query/react';
+import { accuracyListener } from '../accuracy/listener';
+import { alertsListener } from '../alerts/listener';
+import { cloudSyncListener, startCloudSync } from '../cloud/listener';
+import { localeListener } from '../i18n/listener';
+import { backgroundStateListener } from '../pwa/listener';
+import { startServiceWorker } from '../pwa/register';
+import { weatherApi } from '../weather/api';
+import { startForecastRefresh } from './forecastRefresh';
+import { migrateLegacyFavorites } from './legacyFavorites';
+import { createPersistence } from './persistence';
+import { accountSlice } from './slices/account';
+import { activityProfilesHydrated, activityProfilesSchema, activityProfilesSlice } from './slices/activityProfiles';
+import { alertRulesHydrated, alertRulesSchema, alertRulesSlice } from './slices/alertRules';
+import { currentLocationHydrated, currentLocationSchema, currentLocationSlice } from './slices/currentLocation';
+import { favoritesHydrated, favoritesSchema, favoritesSlice } from './slices/favorites';
+import { notificationsSlice } from './slices/notifications';
+import { providerHealthSlice } from './slices/providerHealth';
+import { recentSearchesHydrated, recentSearchesSchema, recentSearchesSlice } from './slices/recentSearches';
+import { settingsHydrated, settingsSchema, settingsSlice } from './slices/settings';
+
+// --- REDUX STORE CONFIGURATION ---
+
+// Persisted slices are written by middleware and kept in sync across open tabs
+const persistence = createPersistence();
+persistence.persist({ name: favoritesSlice.name, schema: favoritesSchema, hydrated: favoritesHydrated });
+persistence.persist({ name: settingsSlice.name, schema: settingsSchema, hydrated: settingsHydrated });
+persistence.persist({ name: alertRulesSlice.name, schema: alertRulesSchema, hydrated: alertRulesHydrated });
+persistence.persist({
+  name: currentLocationSlice.name, schema: currentLocationSchema, hydrated: currentLocationHydrated,
+});
+persistence.persist({
+  name: recentSearchesSlice.name, schema: recentSearchesSchema, hydrated: recentSearchesHydrated,
+});
+persistence.persist({
+  name: activityProfilesSlice.name, schema: activityProfilesSchema, hydrated: activityProfilesHydrated,
+});
+
+const rootReducer = combineReducers({
+  favorites: favoritesSlice.reducer,
+  settings: settingsSlice.reducer,
+  alertRules: alertRulesSlice.reducer,
+  currentLocation: currentLocationSlice.reducer,
+  recentSearches: recentSearchesSlice.reducer,
+  activityProfiles: activityProfilesSlice.reducer,
+  notifications: notificationsSlice.reducer,
+  account: accountSlice.reducer,
+  providerHealth: providerHealthSlice.reducer,
+  [weatherApi.reducerPath]: weatherApi.reducer,
+});
+
+export type RootState = ReturnType<typeof rootReducer>;
+
+/**
+ * Creates a store. Slices without `preloadedState` load from localStorage.
+ */
+export const setupStore = (preloadedState?: Partial<RootState>) => configureStore({
+  reducer: rootReducer,
+  preloadedState,
+  middleware: (getDefaultMiddleware) =>
+    getDefaultMiddleware().concat(
+      weatherApi.middleware, persistence.middleware, alertsListener.middleware, cloudSyncListener.middleware,
+      localeListener.middleware, backgroundStateListener.middleware, accuracyListener.middleware
+    ),
+});
+
+export type AppStore = ReturnType<typeof setupStore>;
+export type AppDispatch = AppStore['dispatch'];
+
+/**
+ * Starts everything the running app does outside of components: cross-tab
+ * sync, refetch on focus/reconnect, cloud sync, scheduled refreshes, the
+ * service worker and the legacy favorites migration. Returns a function that
+ * stops what it can.
+ */
+export const startBackgroundTasks = (store: AppStore) => {
+  const stopTabSync = persistence.syncAcrossTabs(store.dispatch);
+  const stopRefetchListeners = setupListeners(store.dispatch);
+  startCloudSync(store.dispatch, store.getState);
+  const stopRefresh = startForecastRefresh(store);
+  startServiceWorker(store);
+
+  const { legacyNames } = store.getState().favorites;
+  if (legacyNames.length > 0) {
+    store.dispatch(migrateLegacyFavorites(legacyNames));
+  }
+
+  return () => {
+    stopTabSync();
+    stopRefetchListeners();
+    stopRefresh();
+  };
+};
@@ -0,0 +1,26 @@
+import { createAsyncThunk } from '@reduxjs/toolkit';
+import { weatherApi } from '../weather/api';
+import { addFavorite, legacyFavoriteSettled } from './slices/favorites';
+
+/**
+ * Resolves plain city names saved by older versions into full locations,
+ * taking the first search match for each (what the old name lookup did)
+ */
+export const migrateLegacyFavorites = createAsyncThunk(
+  'favorites/migrateLegacy',
+  async (names: string[], { dispatch }) => {
+    for (const name of names) {
+      const { data, isError } = await dispatch(weatherApi.endpoints.searchCities.initiate(name, { subscribe: false }));
+      if (isError) {
+        continue; // Try again on next load
+      }
+      const [match] = data ?? [];
+      if (match) {
+        dispatch(addFavorite(match));
+      } else {
+        console.warn(`Dropping saved favorite "${name}": no matching location.`);
+      }
+      dispatch(legacyFavoriteSettled(name));
+    }
+  }
+);
@@ -0,0 +1,147 @@
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+import type { ActionCreatorWithPayload, Dispatch, UnknownAction } from '@reduxjs/toolkit';
+
+// --- VERSIONED PERSISTENCE ---
+// Each persisted slice declares a StorageSchema. Data is written to
+// localStorage as { version, data } by a listener middleware (never from
+// reducers), upgraded through the schema's migrations on load, and pushed
+// into other open tabs via the `storage` event.
+
+export interface StorageSchema {
+  /** localStorage key holding the { version, data } envelope */
+  key: string;
+  version: number;
+  /** migrations[n] upgrades data stored at version n - 1 to version n */
+  migrations?: Record<number, (data: unknown) => unknown>;
+  /**
+   * Reads data written before this schema existed. The returned version
+   * tells the loader which migrations still need to run.
+   */
+  readLegacy?: () => { version: number; data: unknown } | undefined;
+  /** Keys removed once data has been written under `key` */
+  legacyKeys?: string[];
+}
+
+export interface PersistedSlice<S> {
+  /** The slice's key in the root state */
+  name: string;
+  schema: StorageSchema;
+  /** Replaces the slice state with data read from storage */
+  hydrated: ActionCreatorWithPayload<S>;
+}
+
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+const isEnvelope = (value: unknown): value is Envelope =>
+  typeof value === 'object' && value !== null && typeof (value as Envelope).version === 'number' && 'data' in value;
+
+/**
+ * Runs every migration between the stored version and the current one
+ */
+const migrate = <S>(schema: StorageSchema, { version, data }: Envelope): S | undefined => {
+  if (version > schema.version) {
+    // Written by a newer build (e.g. another tab after an update); don't guess at it
+    console.warn(`Ignoring "${schema.key}" stored at version ${version} (expected ${schema.version}).`);
+    return undefined;
+  }
+  let migrated = data;
+  for (let next = version + 1; next <= schema.version; next++) {
+    const step = schema.migrations?.[next];
+    if (!step) {
+      throw new Error(`No migration to version ${next} for "${schema.key}"`);
+    }
+    migrated = step(migrated);
+  }
+  return migrated as S;
+};
+
+const parse = <S>(schema: StorageSchema, serialized: string): S | undefined => {
+  const envelope: unknown = JSON.parse(serialized);
+  if (!isEnvelope(envelope)) {
+    throw new Error(`Malformed data under "${schema.key}"`);
+  }
+  return migrate<S>(schema, envelope);
+};
+
+/**
+ * Reads and migrates a slice's stored state. Returns undefined when nothing
+ * usable is stored, so callers fall back to their defaults.
+ */
+export const readPersisted = <S>(schema: StorageSchema): S | undefined => {
+  try {
+    const serialized = localStorage.getItem(schema.key);
+    if (serialized !== null) {
+      return parse<S>(schema, serialized);
+    }
+    const legacy = schema.readLegacy?.();
+    return legacy ? migrate<S>(schema, legacy) : undefined;
+  } catch (err) {
+    console.error(`Could not load "${schema.key}":`, err);
+    return undefined;
+  }
+};
+
+export const writePersisted = <S>(schema: StorageSchema, data: S) => {
+  try {
+    const envelope: Envelope = { version: schema.version, data };
+    localStorage.setItem(schema.key, JSON.stringify(envelope));
+    schema.legacyKeys?.forEach((key) => localStorage.removeItem(key));
+  } catch (err) {
+    console.error(`Could not save "${schema.key}":`, err);
+  }
+};
+
+const selectSlice = <S>(state: unknown, name: string) => (state as Record<string, S>)[name];
+
+/**
+ * Wires persisted slices into the store: `middleware` writes each slice
+ * whenever it changes, and `syncAcrossTabs` applies writes made by other tabs.
+ */
+export const createPersistence = () => {
+  const listener = createListenerMiddleware();
+  // Per storage key: turns another tab's write into a hydrate action
+  const readers = new Map<string, (serialized: string) => UnknownAction | undefined>();
+
+  const persist = <S>({ name, schema, hydrated }: PersistedSlice<S>) => {
+    listener.startListening({
+      // State that just arrived from storage doesn't need writing back
+      predicate: (action, currentState, previousState) =>
+        !hydrated.match(action) && selectSlice(currentState, name) !== selectSlice(previousState, name),
+      effect: (_action, api) => {
+        writePersisted(schema, selectSlice<S>(api.getState(), name));
+      },
+    });
+    readers.set(schema.key, (serialized) => {
+      const data = parse<S>(schema, serialized);
+      return data === undefined ? undefined : hydrated(data);
+    });
+  };
+
+  /**
+   * Listens for `storage` events from other tabs. Returns an unsubscribe function.
+   */
+  const syncAcrossTabs = (dispatch: Dispatch) => {
+    const handleStorage = (event: StorageEvent) => {
+      const read = event.key === null ? undefined : readers.get(event.key);
+      if (!read || event.newValue === null || event.storageArea !== localStorage) {
+        return;
+      }
+      try {
+        const action = read(event.newValue);
+        if (action) {
+          dispatch(action);
+        }
+      } catch (err) {
+        console.error(`Could not sync "${event.key}" from another tab:`, err);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  };
+
+  return { middleware: listener.middleware, persist, syncAcrossTabs };
+};
@@ -0,0 +1,181 @@
+import { renderHook } from '@testing-library/react';
+import { http, HttpResponse } from 'msw';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { weatherApi } from '../weather/api';
+import type { ForecastArgs } from '../weather/api';
+import { forecastResponse } from '../test/fixtures';
+import { server, WEATHER_API } from '../test/server';
+import { startForecastRefresh, useFocusedRefresh } from './forecastRefresh';
+import { backoffDelay, createRefreshScheduler, createStagger } from './refreshScheduler';
+import type { RefreshTarget } from './refreshScheduler';
+import { refreshBlockedUntil } from './slices/providerHealth';
+import { setupStore } from '.';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const DAY = 24 * 60 * MINUTE;
+
+const LONDON = { lat: 51.52, lon: -0.11 };
+const CITIES: ForecastArgs[] = [LONDON, { lat: 40.71, lon: -74.01 }, { lat: 35.69, lon: 139.69 }, { lat: 48.87, lon: 2.33 }];
+
+/**
+ * Answers forecasts with `status` (the fixture when 200), noting when each
+ * request arrived, in ms since the test started
+ */
+const serveForecasts = (status: () => number) => {
+  const requests: number[] = [];
+  server.use(http.get(`${WEATHER_API}/forecast.json`, ({ request }) => {
+    requests.push(Date.now() - start);
+    if (status() !== 200) {
+      return HttpResponse.json({ error: { code: 9999, message: 'Try again later.' } }, { status: status() });
+    }
+    const [lat, lon] = (new URL(request.url).searchParams.get('q') ?? '').split(',').map(Number);
+    return HttpResponse.json(forecastResponse({ lat, lon }));
+  }));
+  return requests;
+};
+
+// Each test starts a day after the last, so the forecast requests the API spaced out in one don't hold up the next
+let start = Date.parse('2030-01-07T09:00:00Z');
+let visibility: DocumentVisibilityState = 'visible';
+
+const setVisibility = (state: DocumentVisibilityState) => {
+  visibility = state;
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+  start += DAY;
+  vi.setSystemTime(start);
+  visibility = 'visible';
+  vi.spyOn(document, 'visibilityState', 'get').mockImplementation(() => visibility);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('createRefreshScheduler', () => {
+  const dueTargets = (count: number): RefreshTarget<number>[] => Array.from({ length: count }, (_, i) => ({
+    key: String(i), arg: i, intervalMs: 10 * MINUTE, lastFetchedAt: undefined,
+  }));
+
+  it('refreshes one target per tick', async () => {
+    const refreshed: [number, number][] = [];
+    const stop = createRefreshScheduler({
+      targets: () => dueTargets(3).filter((target) => !refreshed.some(([arg]) => arg === target.arg)),
+      refresh: async (arg) => refreshed.push([arg, Date.now() - start]),
+      blockedUntil: () => 0,
+    }).start();
+
+    await vi.advanceTimersByTimeAsync(10 * SECOND);
+    stop();
+    expect(refreshed).toEqual([[0, 0], [1, 2 * SECOND], [2, 4 * SECOND]]);
+  });
+
+  it('pauses while the tab is hidden and catches up when it comes back', async () => {
+    const refresh = vi.fn(async () => undefined);
+    const stop = createRefreshScheduler({ targets: () => dueTargets(1), refresh, blockedUntil: () => 0 }).start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    setVisibility('hidden');
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    setVisibility('visible');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(refresh).toHaveBeenCalledTimes(2);
+    stop();
+  });
+
+  it('waits while blocked', async () => {
+    const refresh = vi.fn(async () => undefined);
+    const stop = createRefreshScheduler({
+      targets: () => dueTargets(1), refresh, blockedUntil: () => start + 30 * SECOND,
+    }).start();
+    await vi.advanceTimersByTimeAsync(29 * SECOND);
+    expect(refresh).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(SECOND);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    stop();
+  });
+});
+
+describe('createStagger', () => {
+  it('spaces out calls made together, but not calls made apart', async () => {
+    const waitForTurn = createStagger(250);
+    const started: number[] = [];
+    const call = () => waitForTurn().then(() => started.push(Date.now() - start));
+    void call();
+    void call();
+    void call();
+    await vi.advanceTimersByTimeAsync(SECOND);
+    void call();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 250, 500, SECOND]);
+  });
+});
+
+describe('forecast refreshes', () => {
+  it('staggers the first load of a dashboard', async () => {
+    const requests = serveForecasts(() => 200);
+    const store = setupStore();
+    CITIES.forEach((city) => store.dispatch(weatherApi.endpoints.getForecast.initiate(city)));
+    await vi.advanceTimersByTimeAsync(5 * SECOND);
+    expect(requests).toEqual([0, 250, 500, 750]);
+  });
+
+  it.each([429, 500])('backs off after %i responses and picks up again', async (failure) => {
+    let status = failure;
+    const requests = serveForecasts(() => status);
+    const store = setupStore();
+    store.dispatch(weatherApi.endpoints.getForecast.initiate(LONDON));
+    const focus = renderHook(() => useFocusedRefresh(LONDON));
+    const stop = startForecastRefresh(store);
+
+    // An open city view refreshes every minute; each failure waits longer first
+    await vi.advanceTimersByTimeAsync(7 * MINUTE);
+    expect(requests).toEqual([0, MINUTE, 2 * MINUTE, 4 * MINUTE]);
+    expect(store.getState().providerHealth).toMatchObject({ failures: 4, lastErrorStatus: failure });
+    expect(store.getState().providerHealth.backoffUntil).toBe(start + 4 * MINUTE + backoffDelay(4));
+
+    status = 200;
+    await vi.advanceTimersByTimeAsync(3 * MINUTE);
+    expect(requests.slice(4)).toEqual([8 * MINUTE, 9 * MINUTE, 10 * MINUTE]);
+    expect(store.getState().providerHealth.failures).toBe(0);
+
+    stop();
+    focus.unmount();
+  });
+
+  it('keeps to the hourly request budget', async () => {
+    const requests = serveForecasts(() => 200);
+    const store = setupStore();
+    const subscriptions = CITIES.map((city) => store.dispatch(weatherApi.endpoints.getForecast.initiate(city)));
+    await vi.advanceTimersByTimeAsync(5 * SECOND);
+    expect(requests).toHaveLength(CITIES.length);
+
+    // Every city is due after 10 minutes, but 4 of the 6 requests an hour are spent
+    const stop = createRefreshScheduler({
+      targets: () => CITIES.map((city) => {
+        const entry = weatherApi.endpoints.getForecast.select(city)(store.getState());
+        return { key: `${city.lat},${city.lon}`, arg: city, intervalMs: 10 * MINUTE, lastFetchedAt: entry.fulfilledTimeStamp };
+      }),
+      refresh: (arg) => store.dispatch(weatherApi.endpoints.getForecast.initiate(arg, { subscribe: false, forceRefetch: true })),
+      blockedUntil: () => refreshBlockedUntil(store.getState().providerHealth, Date.now(), 6),
+    }).start();
+
+    await vi.advanceTimersByTimeAsync(60 * MINUTE - 6 * SECOND);
+    expect(requests).toEqual([0, 250, 500, 750, 10 * MINUTE + SECOND, 10 * MINUTE + 3 * SECOND]);
+
+    // An hour after the first loads, the next tick may go again
+    await vi.advanceTimersByTimeAsync(2 * SECOND);
+    expect(requests.slice(6)).toEqual([60 * MINUTE + SECOND]);
+
+    stop();
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+  });
+});
@@ -0,0 +1,119 @@
+// --- REFRESH SCHEDULER ---
+// One timer refreshes every tracked location, at most one request per tick,
+// so a large dashboard spreads its requests out instead of firing them all
+// at once. It stops while the tab is hidden or the browser is offline, and
+// waits out whatever `blockedUntil` reports (backoff, request budget).
+
+export interface RefreshTarget<Arg> {
+  /** Stable identity of the cache entry, e.g. the serialized query arg */
+  key: string;
+  arg: Arg;
+  intervalMs: number;
+  /** Epoch ms of the last successful fetch, undefined if never fetched */
+  lastFetchedAt: number | undefined;
+}
+
+export interface RefreshSchedulerOptions<Arg> {
+  targets: () => RefreshTarget<Arg>[];
+  refresh: (arg: Arg) => Promise<unknown>;
+  /** Epoch ms until which no refresh may start */
+  blockedUntil: () => number;
+  /** Gap between two refreshes */
+  staggerMs?: number;
+  now?: () => number;
+}
+
+// --- BACKOFF ---
+
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+/**
+ * Rate limits and server errors mean "slow down"; other failures don't
+ */
+export const isRetryableStatus = (status: number | string) =>
+  status === 429 || (typeof status === 'number' && status >= 500);
+
+/**
+ * Wait after `failures` consecutive retryable failures: 30 s, 1 min, 2 min, ... up to 30 min
+ */
+export const backoffDelay = (failures: number) =>
+  failures <= 0 ? 0 : Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (failures - 1));
+
+// --- STAGGER ---
+
+/**
+ * Spaces out calls that would otherwise start together: each returned
+ * promise resolves `gapMs` after the previous one
+ */
+export const createStagger = (gapMs: number) => {
+  let nextAt = 0;
+  return () => {
+    const time = Date.now();
+    const at = Math.max(time, nextAt);
+    nextAt = at + gapMs;
+    return at > time ? new Promise<void>((resolve) => setTimeout(resolve, at - time)) : Promise.resolve();
+  };
+};
+
+/**
+ * Builds a scheduler; call `start()` once the store exists. `start` returns a stop function.
+ */
+export const createRefreshScheduler = <Arg>({
+  targets, refresh, blockedUntil, staggerMs = 2000, now = Date.now,
+}: RefreshSchedulerOptions<Arg>) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight = new Set<string>();
+
+  // Refetch-on-reconnect takes over when the network comes back
+  const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+  /**
+   * The most overdue target, if any is due
+   */
+  const nextDue = () => {
+    const time = now();
+    return targets()
+      .filter((target) => !inFlight.has(target.key))
+      .map((target) => ({ target, dueAt: (target.lastFetchedAt ?? 0) + target.intervalMs }))
+      .filter(({ dueAt }) => dueAt <= time)
+      .sort((a, b) => a.dueAt - b.dueAt)[0]?.target;
+  };
+
+  const tick = () => {
+    timer = setTimeout(tick, staggerMs);
+    if (isOffline() || blockedUntil() > now()) {
+      return;
+    }
+    const target = nextDue();
+    if (target) {
+      inFlight.add(target.key);
+      refresh(target.arg).finally(() => inFlight.delete(target.key));
+    }
+  };
+
+  const stop = () => {
+    clearTimeout(timer);
+    timer = undefined;
+  };
+
+  // Hidden tabs don't refresh; coming back catches up right away
+  const handleVisibility = () => {
+    stop();
+    if (document.visibilityState === 'visible') {
+      tick();
+    }
+  };
+
+  return {
+    start: () => {
+      inFlight = new Set();
+      handleVisibility();
+      document.addEventListener('visibilitychange', handleVisibility);
+      return () => {
+        stop();
+        document.removeEventListener('visibilitychange', handleVisibility);
+      };
+    },
+  };
+};
@@ -0,0 +1,25 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { AccountUser } from '../../cloud/auth';
+import { getCloud } from '../../cloud/firebase';
+
+// --- ACCOUNT SLICE ---
+// Sign-in state for cloud sync. 'unavailable' when no Firebase project is configured.
+
+export interface AccountState {
+  status: 'unavailable' | 'loading' | 'signedOut' | 'signedIn';
+  user: AccountUser | null;
+}
+
+export const accountSlice = createSlice({
+  name: 'account',
+  initialState: (): AccountState => ({ status: getCloud() ? 'loading' : 'unavailable', user: null }),
+  reducers: {
+    accountChanged: (_state, action: PayloadAction<AccountUser | null>) => ({
+      status: action.payload ? 'signedIn' : 'signedOut',
+      user: action.payload,
+    }),
+  },
+});
+
+export const { accountChanged } = accountSlice.actions;
@@ -0,0 +1,66 @@
+import { createSlice, nanoid } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { DEFAULT_PROFILES } from '../../activities/planner';
+import type { ActivityProfile } from '../../activities/planner';
+import { readPersisted } from '../persistence';
+import type { StorageSchema } from '../persistence';
+
+// --- ACTIVITY PROFILES SLICE ---
+// Persisted to localStorage. There's always at least one profile, and one
+// of them is selected for the best-time hints.
+
+export interface ActivityProfilesState {
+  profiles: ActivityProfile[];
+  selectedId: string;
+}
+
+export const activityProfilesSchema: StorageSchema = {
+  key: 'weatherDashboard:activityProfiles',
+  version: 1,
+};
+
+export const activityProfilesSlice = createSlice({
+  name: 'activityProfiles',
+  initialState: (): ActivityProfilesState =>
+    readPersisted<ActivityProfilesState>(activityProfilesSchema) ?? { profiles: DEFAULT_PROFILES, selectedId: DEFAULT_PROFILES[0].id },
+  reducers: {
+    addActivityProfile: {
+      reducer: (state, action: PayloadAction<ActivityProfile>) => {
+        state.profiles.push(action.payload);
+        state.selectedId = action.payload.id;
+      },
+      prepare: (profile: Omit<ActivityProfile, 'id'>) => ({ payload: { ...profile, id: nanoid() } }),
+    },
+    updateActivityProfile: (state, action: PayloadAction<ActivityProfile>) => {
+      const index = state.profiles.findIndex((profile) => profile.id === action.payload.id);
+      if (index !== -1) {
+        state.profiles[index] = action.payload;
+      }
+    },
+    removeActivityProfile: (state, action: PayloadAction<string>) => {
+      if (state.profiles.length <= 1) {
+        return;
+      }
+      state.profiles = state.profiles.filter((profile) => profile.id !== action.payload);
+      if (state.selectedId === action.payload) {
+        state.selectedId = state.profiles[0].id;
+      }
+    },
+    selectActivityProfile: (state, action: PayloadAction<string>) => {
+      if (state.profiles.some((profile) => profile.id === action.payload)) {
+        state.selectedId = action.payload;
+      }
+    },
+    activityProfilesHydrated: (_state, action: PayloadAction<ActivityProfilesState>) => action.payload,
+  },
+});
+
+/**
+ * The profile the hints are for
+ */
+export const selectedActivityProfile = ({ profiles, selectedId }: ActivityProfilesState) =>
+  profiles.find((profile) => profile.id === selectedId) ?? profiles[0];
+
+export const {
+  addActivityProfile, updateActivityProfile, removeActivityProfile, selectActivityProfile, activityProfilesHydrated,
+} = activityProfilesSlice.actions;
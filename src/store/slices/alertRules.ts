@@ -0,0 +1,38 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { AlertRule } from '../../alerts/rules';
+import { readPersisted } from '../persistence';
+import type { StorageSchema } from '../persistence';
+import { removeFavorite } from './favorites';
+
+// --- ALERT RULES SLICE ---
+// Persisted to localStorage.
+
+export interface AlertRulesState {
+  /** Keyed by favorite id */
+  rules: Record<string, AlertRule>;
+}
+
+export const alertRulesSchema: StorageSchema = {
+  key: 'weatherDashboard:alertRules',
+  version: 1,
+};
+
+export const alertRulesSlice = createSlice({
+  name: 'alertRules',
+  initialState: (): AlertRulesState => readPersisted<AlertRulesState>(alertRulesSchema) ?? { rules: {} },
+  reducers: {
+    setAlertRule: (state, action: PayloadAction<{ id: string; rule: AlertRule }>) => {
+      state.rules[action.payload.id] = action.payload.rule;
+    },
+    alertRulesHydrated: (_state, action: PayloadAction<AlertRulesState>) => action.payload,
+  },
+  extraReducers: (builder) => {
+    // A removed favorite takes its rule with it
+    builder.addCase(removeFavorite, (state, action) => {
+      delete state.rules[action.payload];
+    });
+  },
+});
+
+export const { setAlertRule, alertRulesHydrated } = alertRulesSlice.actions;
@@ -0,0 +1,36 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { LocationSummary } from '../../weather/types';
+import { readPersisted } from '../persistence';
+import type { StorageSchema } from '../persistence';
+
+// --- CURRENT LOCATION SLICE ---
+// Persisted to localStorage. Only a manually chosen place is kept; positions
+// from the Geolocation API are looked up again on every visit.
+
+export interface CurrentLocationState {
+  /** Chosen by hand when geolocation is denied or unavailable */
+  manual: LocationSummary | null;
+}
+
+export const currentLocationSchema: StorageSchema = {
+  key: 'weatherDashboard:currentLocation',
+  version: 1,
+};
+
+export const currentLocationSlice = createSlice({
+  name: 'currentLocation',
+  initialState: (): CurrentLocationState =>
+    readPersisted<CurrentLocationState>(currentLocationSchema) ?? { manual: null },
+  reducers: {
+    manualLocationChosen: (state, action: PayloadAction<LocationSummary>) => {
+      state.manual = action.payload;
+    },
+    manualLocationCleared: (state) => {
+      state.manual = null;
+    },
+    currentLocationHydrated: (_state, action: PayloadAction<CurrentLocationState>) => action.payload,
+  },
+});
+
+export const { manualLocationChosen, manualLocationCleared, currentLocationHydrated } = currentLocationSlice.actions;
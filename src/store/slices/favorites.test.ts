@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addFavorite, favoriteMoved, favoritesSlice, favoritesSynced, groupAdded, groupRemoved, removeFavorite, renameFavorite,
+} from './favorites';
+import type { FavoriteLocation, FavoritesState } from './favorites';
+
+const london: FavoriteLocation = {
+  id: '2801268', name: 'London', region: 'City of London, Greater London', country: 'United Kingdom', lat: 51.52, lon: -0.11,
+};
+const paris: FavoriteLocation = { id: '2802985', name: 'Paris', region: 'Ile-de-France', country: 'France', lat: 48.87, lon: 2.33 };
+const parisTexas: FavoriteLocation = { id: '2650443', name: 'Paris', region: 'Texas', country: 'United States of America', lat: 33.66, lon: -95.56 };
+
+const reduce = (state: FavoritesState, ...actions: Parameters<typeof favoritesSlice.reducer>[1][]) =>
+  actions.reduce(favoritesSlice.reducer, state);
+
+const withLocations = (...locations: FavoriteLocation[]): FavoritesState => ({ locations, groups: [], legacyNames: [] });
+
+describe('favorites reducer', () => {
+  it('starts from the default cities when nothing is stored', () => {
+    const state = favoritesSlice.reducer(undefined, { type: 'init' });
+    expect(state.locations.map(location => location.name)).toEqual(['London', 'New York', 'Tokyo']);
+    expect(state.legacyNames).toEqual([]);
+  });
+
+  it('picks up the city names older versions saved, to be looked up', () => {
+    localStorage.setItem('favoriteCities', JSON.stringify(['London', 'Paris']));
+    try {
+      const state = favoritesSlice.reducer(undefined, { type: 'init' });
+      expect(state).toEqual({ locations: [], groups: [], legacyNames: ['London', 'Paris'] });
+    } finally {
+      localStorage.removeItem('favoriteCities');
+    }
+  });
+
+  it('adds a location once, matching by id or coordinates', () => {
+    const state = reduce(
+      withLocations(),
+      addFavorite(paris),
+      addFavorite(paris),
+      addFavorite({ ...paris, id: 'other-id', lat: 48.871 }),
+    );
+    expect(state.locations).toEqual([paris]);
+  });
+
+  it('keeps namesakes in different places apart', () => {
+    const state = reduce(withLocations(), addFavorite(paris), addFavorite(parisTexas));
+    expect(state.locations).toEqual([paris, parisTexas]);
+  });
+
+  it('removes a favorite by id', () => {
+    const state = reduce(withLocations(london, paris), removeFavorite(london.id));
+    expect(state.locations).toEqual([paris]);
+  });
+
+  it('trims nicknames and clears them when blank', () => {
+    const renamed = reduce(withLocations(london), renameFavorite({ id: london.id, nickname: '  Home  ' }));
+    expect(renamed.locations[0].nickname).toBe('Home');
+
+    const cleared = reduce(renamed, renameFavorite({ id: london.id, nickname: '   ' }));
+    expect(cleared.locations[0].nickname).toBeUndefined();
+  });
+
+  it('ignores renames of unknown favorites', () => {
+    const state = withLocations(london);
+    expect(reduce(state, renameFavorite({ id: 'missing', nickname: 'Nowhere' }))).toEqual(state);
+  });
+
+  it('replaces the list with the synced favorites', () => {
+    const state = reduce(withLocations(london), favoritesSynced([paris, parisTexas]));
+    expect(state.locations).toEqual([paris, parisTexas]);
+  });
+
+  it('moves favorites within and between groups', () => {
+    const travel = { id: 'travel', name: 'Travel', collapsed: false };
+    const state: FavoritesState = { ...withLocations(london, paris, { ...parisTexas, groupId: travel.id }), groups: [travel] };
+
+    const reordered = reduce(state, favoriteMoved({ id: london.id, groupId: null, index: 1 }));
+    expect(reordered.locations.map(location => location.id)).toEqual([paris.id, london.id, parisTexas.id]);
+
+    const grouped = reduce(state, favoriteMoved({ id: london.id, groupId: travel.id, index: 0 }));
+    expect(grouped.locations).toEqual([paris, { ...london, groupId: travel.id }, { ...parisTexas, groupId: travel.id }]);
+
+    const ungrouped = reduce(state, favoriteMoved({ id: parisTexas.id, groupId: null, index: 0 }));
+    expect(ungrouped.locations).toEqual([parisTexas, london, paris]);
+  });
+
+  it('keeps the favorites of a removed group', () => {
+    const added = reduce(withLocations(london), groupAdded('  Offices '));
+    expect(added.groups).toEqual([{ id: expect.any(String), name: 'Offices', collapsed: false }]);
+
+    const groupId = added.groups[0].id;
+    const state = reduce(added, favoriteMoved({ id: london.id, groupId, index: 0 }), groupRemoved(groupId));
+    expect(state.groups).toEqual([]);
+    expect(state.locations).toEqual([london]);
+  });
+});
@@ -0,0 +1,170 @@
+import { createSlice, nanoid } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { LocationSummary } from '../../weather/types';
+import { readPersisted } from '../persistence';
+import type { StorageSchema } from '../persistence';
+
+// --- FAVORITES SLICE ---
+// Persisted to localStorage, and synced to the cloud while signed in.
+
+/**
+ * A saved place. Identity is the search-result id plus coordinates, so
+ * "Paris, France" and "Paris, Texas" are distinct favorites.
+ */
+export interface FavoriteLocation extends LocationSummary {
+  nickname?: string;
+  /** Ungrouped when unset, or when the group no longer exists */
+  groupId?: string;
+}
+
+/**
+ * A named section of the dashboard, e.g. "Offices" or "Travel"
+ */
+export interface FavoriteGroup {
+  id: string;
+  name: string;
+  collapsed: boolean;
+}
+
+export interface FavoritesState {
+  /** In the user's chosen order; each group shows its members in this order */
+  locations: FavoriteLocation[];
+  groups: FavoriteGroup[];
+  /** Plain city names saved by older versions, waiting to be resolved to a location */
+  legacyNames: string[];
+}
+
+const DEFAULT_FAVORITES: FavoriteLocation[] = [
+  { id: '2801268', name: 'London', region: 'City of London, Greater London', country: 'United Kingdom', lat: 51.52, lon: -0.11 },
+  { id: '2618724', name: 'New York', region: 'New York', country: 'United States of America', lat: 40.71, lon: -74.01 },
+  { id: '3125553', name: 'Tokyo', region: 'Tokyo', country: 'Japan', lat: 35.69, lon: 139.69 },
+];
+
+export type Coordinates = Pick<LocationSummary, 'lat' | 'lon'>;
+
+export const isNearby = (a: Coordinates, b: Coordinates) => Math.abs(a.lat - b.lat) < 0.01 && Math.abs(a.lon - b.lon) < 0.01;
+
+export const isSameLocation = (a: LocationSummary, b: LocationSummary) => a.id === b.id || isNearby(a, b);
+
+/**
+ * The id of the group a favorite shows in, or undefined when ungrouped
+ */
+export const groupOf = ({ groups }: Pick<FavoritesState, 'groups'>, location: FavoriteLocation) =>
+  groups.some(group => group.id === location.groupId) ? location.groupId : undefined;
+
+/**
+ * Storage history: v0 was a plain array of city names under "favoriteCities";
+ * v1 added location records; v2 added groups.
+ */
+export const favoritesSchema: StorageSchema = {
+  key: 'weatherDashboard:favorites',
+  version: 2,
+  migrations: {
+    1: (names) => ({
+      locations: [],
+      legacyNames: Array.isArray(names) ? names.filter((name): name is string => typeof name === 'string') : [],
+    }),
+    2: (data) => ({ ...(data as object), groups: [] }),
+  },
+  readLegacy: () => {
+    const names = localStorage.getItem('favoriteCities');
+    return names === null ? undefined : { version: 0, data: JSON.parse(names) };
+  },
+  legacyKeys: ['favoriteCities'],
+};
+
+export const favoritesSlice = createSlice({
+  name: 'favorites',
+  initialState: (): FavoritesState =>
+    readPersisted<FavoritesState>(favoritesSchema) ?? { locations: DEFAULT_FAVORITES, groups: [], legacyNames: [] },
+  reducers: {
+    addFavorite: (state, action: PayloadAction<FavoriteLocation>) => {
+      const location = action.payload;
+      if (!state.locations.some(existing => isSameLocation(existing, location))) {
+        state.locations.push(location);
+      }
+    },
+    removeFavorite: (state, action: PayloadAction<string>) => {
+      state.locations = state.locations.filter(location => location.id !== action.payload);
+    },
+    renameFavorite: (state, action: PayloadAction<{ id: string; nickname: string }>) => {
+      const location = state.locations.find(existing => existing.id === action.payload.id);
+      if (location) {
+        location.nickname = action.payload.nickname.trim() || undefined;
+      }
+    },
+    /**
+     * Moves a favorite to `index` within a group (null for ungrouped),
+     * counting the group's other members
+     */
+    favoriteMoved: (state, action: PayloadAction<{ id: string; groupId: string | null; index: number }>) => {
+      const { id, groupId, index } = action.payload;
+      const moved = state.locations.find(location => location.id === id);
+      if (!moved) {
+        return;
+      }
+      const others = state.locations.filter(location => location.id !== id);
+      const target = groupId && state.groups.some(group => group.id === groupId) ? groupId : undefined;
+      const members = others.filter(location => groupOf(state, location) === target);
+      const before = members[Math.max(0, index)];
+      const last = members[members.length - 1];
+      // Ahead of the member it takes the place of, or after the group's last member
+      const at = before ? others.indexOf(before) : last ? others.indexOf(last) + 1 : others.length;
+      const placed = { ...moved, groupId: target };
+      if (!target) {
+        delete placed.groupId;
+      }
+      others.splice(at, 0, placed);
+      state.locations = others;
+    },
+    groupAdded: {
+      reducer: (state, action: PayloadAction<FavoriteGroup>) => {
+        state.groups.push(action.payload);
+      },
+      prepare: (name: string) => ({ payload: { id: nanoid(), name: name.trim(), collapsed: false } }),
+    },
+    groupRenamed: (state, action: PayloadAction<{ id: string; name: string }>) => {
+      const group = state.groups.find(existing => existing.id === action.payload.id);
+      const name = action.payload.name.trim();
+      if (group && name) {
+        group.name = name;
+      }
+    },
+    groupToggled: (state, action: PayloadAction<string>) => {
+      const group = state.groups.find(existing => existing.id === action.payload);
+      if (group) {
+        group.collapsed = !group.collapsed;
+      }
+    },
+    // Its favorites stay, ungrouped
+    groupRemoved: (state, action: PayloadAction<string>) => {
+      state.groups = state.groups.filter(group => group.id !== action.payload);
+      state.locations.forEach(location => {
+        if (location.groupId === action.payload) {
+          delete location.groupId;
+        }
+      });
+    },
+    legacyFavoriteSettled: (state, action: PayloadAction<string>) => {
+      state.legacyNames = state.legacyNames.filter(name => name !== action.payload);
+    },
+    favoritesHydrated: (_state, action: PayloadAction<FavoritesState>) => action.payload,
+    // The signed-in user's favorites arrived from the cloud
+    favoritesSynced: (state, action: PayloadAction<FavoriteLocation[]>) => {
+      state.locations = action.payload;
+    },
+    groupsSynced: (state, action: PayloadAction<FavoriteGroup[]>) => {
+      state.groups = action.payload;
+    },
+  },
+});
+
+export const {
+  addFavorite, removeFavorite, renameFavorite, favoriteMoved, groupAdded, groupRenamed, groupToggled, groupRemoved,
+  legacyFavoriteSettled, favoritesHydrated, favoritesSynced, groupsSynced,
+} = favoritesSlice.actions;
+
+/**
+ * Display name for a favorite: the user's nickname if set
+ */
+export const favoriteLabel = (location: FavoriteLocation) => location.nickname || location.name;
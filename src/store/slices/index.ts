@@ -0,0 +1,8 @@
+export * from './favorites';
+export * from './settings';
+export * from './alertRules';
+export * from './currentLocation';
+export * from './notifications';
+export * from './account';
+export * from './providerHealth';
+export * from './recentSearches';
@@ -0,0 +1,35 @@
+import { createSlice, nanoid } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { AlertSeverity } from '../../weather/types';
+
+// --- NOTIFICATIONS SLICE ---
+// In-app notifications, used when browser notifications are unavailable or denied.
+
+export interface AppNotification {
+  id: string;
+  title: string;
+  body: string;
+  severity: AlertSeverity;
+}
+
+export const notificationsSlice = createSlice({
+  name: 'notifications',
+  initialState: { items: [] as AppNotification[] },
+  reducers: {
+    pushNotification: {
+      reducer: (state, action: PayloadAction<AppNotification>) => {
+        // A repeat of the same notification replaces the old one
+        state.items = state.items.filter(item => item.id !== action.payload.id);
+        state.items.push(action.payload);
+      },
+      prepare: (notification: Omit<AppNotification, 'id'> & { id?: string }) => ({
+        payload: { ...notification, id: notification.id ?? nanoid() },
+      }),
+    },
+    dismissNotification: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter(item => item.id !== action.payload);
+    },
+  },
+});
+
+export const { pushNotification, dismissNotification } = notificationsSlice.actions;
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { backoffDelay } from '../refreshScheduler';
+import {
+  HOUR_MS, providerHealthSlice, providerRequestFailed, providerRequestSucceeded, refreshBlockedUntil,
+} from './providerHealth';
+import type { ProviderHealthState } from './providerHealth';
+
+const NOW = Date.parse('2030-01-07T09:00:00Z');
+const MINUTE = 60 * 1000;
+
+const { reducer } = providerHealthSlice;
+const initial = reducer(undefined, { type: 'init' });
+
+const failedAt = (at: number, status: number | string) =>
+  ({ type: providerRequestFailed.type, payload: { at, status, configurationError: null } });
+const succeededAt = (at: number) => ({ type: providerRequestSucceeded.type, payload: { at } });
+
+describe('provider health', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  /** The budget is read when the module loads */
+  const loadWithBudget = async (budget: string) => {
+    vi.stubEnv('VITE_WEATHER_HOURLY_BUDGET', budget);
+    vi.resetModules();
+    return import('./providerHealth');
+  };
+
+  it('doubles the backoff after each rate limit or server error, up to 30 minutes', () => {
+    expect([1, 2, 3, 4, 6, 7, 20].map(backoffDelay))
+      .toEqual([0.5, 1, 2, 4, 16, 30, 30].map((minutes) => minutes * MINUTE));
+
+    let state = reducer(initial, failedAt(NOW, 429));
+    expect(state).toMatchObject({ failures: 1, backoffUntil: NOW + 30 * 1000, lastErrorStatus: 429 });
+    state = reducer(state, failedAt(NOW + MINUTE, 503));
+    expect(state).toMatchObject({ failures: 2, backoffUntil: NOW + 2 * MINUTE, lastErrorStatus: 503 });
+    expect(refreshBlockedUntil(state, NOW + MINUTE)).toBe(NOW + 2 * MINUTE);
+  });
+
+  it("doesn't back off for errors that retrying won't fix", () => {
+    const state = [400, 403, 'FETCH_ERROR'].reduce(
+      (current, status, i) => reducer(current, failedAt(NOW + i, status)), initial
+    );
+    expect(state).toMatchObject({ failures: 0, backoffUntil: 0, lastErrorStatus: 'FETCH_ERROR' });
+    expect(state.recentRequests).toHaveLength(3);
+  });
+
+  it('clears the backoff on the next success', () => {
+    let state = reducer(initial, failedAt(NOW, 500));
+    state = reducer(state, failedAt(NOW + MINUTE, 500));
+    state = reducer(state, succeededAt(NOW + 3 * MINUTE));
+    expect(state).toMatchObject({ failures: 0, backoffUntil: 0, lastErrorStatus: null });
+    expect(refreshBlockedUntil(state, NOW + 3 * MINUTE)).toBe(0);
+  });
+
+  it('only counts the last hour of requests against the budget', () => {
+    const times = [0, 20, 30, 70].map((minutes) => NOW + minutes * MINUTE);
+    const state: ProviderHealthState = times.reduce((current, at) => reducer(current, succeededAt(at)), initial);
+    // The request at 0 minutes has dropped out
+    expect(state.recentRequests).toEqual(times.slice(1));
+
+    const now = NOW + 75 * MINUTE;
+    expect(refreshBlockedUntil(state, now, 4)).toBe(0);
+    // With 3 an hour, the next may go when the one at 20 minutes is an hour old
+    expect(refreshBlockedUntil(state, now, 3)).toBe(times[1] + HOUR_MS);
+    expect(refreshBlockedUntil(state, now, null)).toBe(0);
+  });
+
+  it('reads the budget from VITE_WEATHER_HOURLY_BUDGET', async () => {
+    const health = await loadWithBudget('2');
+    expect(health.HOURLY_REQUEST_BUDGET).toBe(2);
+
+    const state = [NOW, NOW + MINUTE].reduce(
+      (current, at) => health.providerHealthSlice.reducer(current, succeededAt(at)), initial
+    );
+    expect(health.refreshBlockedUntil(state, NOW + 2 * MINUTE)).toBe(NOW + HOUR_MS);
+  });
+
+  it('has no budget when VITE_WEATHER_HOURLY_BUDGET is unset', async () => {
+    const health = await loadWithBudget('');
+    expect(health.HOURLY_REQUEST_BUDGET).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { backoffDelay, isRetryableStatus } from '../refreshScheduler';
+import type { ConfigurationErrorCode } from '../../weather/proxyErrors';
+
+// --- PROVIDER HEALTH SLICE ---
+// Outcome of every provider request: drives backoff, the hourly request
+// budget and the health indicator in the header.
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+// Optional cap on requests per hour, for providers with tight quotas
+export const HOURLY_REQUEST_BUDGET = Number(import.meta.env.VITE_WEATHER_HOURLY_BUDGET) || null;
+
+export interface ProviderHealthState {
+  /** Epoch ms of the requests made in the last hour */
+  recentRequests: number[];
+  /** Consecutive rate-limit / server errors */
+  failures: number;
+  backoffUntil: number;
+  lastErrorStatus: number | string | null;
+  /** Set when the weather proxy reports it is set up wrong; cleared by the next success */
+  configurationError: ConfigurationErrorCode | null;
+}
+
+const initialProviderHealth: ProviderHealthState = {
+  recentRequests: [],
+  failures: 0,
+  backoffUntil: 0,
+  lastErrorStatus: null,
+  configurationError: null,
+};
+
+const recordRequest = (state: ProviderHealthState, at: number) => {
+  state.recentRequests = state.recentRequests.filter(time => time > at - HOUR_MS);
+  state.recentRequests.push(at);
+};
+
+export const providerHealthSlice = createSlice({
+  name: 'providerHealth',
+  initialState: initialProviderHealth,
+  reducers: {
+    providerRequestSucceeded: {
+      reducer: (state, action: PayloadAction<{ at: number }>) => {
+        recordRequest(state, action.payload.at);
+        state.failures = 0;
+        state.backoffUntil = 0;
+        state.lastErrorStatus = null;
+        state.configurationError = null;
+      },
+      prepare: () => ({ payload: { at: Date.now() } }),
+    },
+    providerRequestFailed: {
+      reducer: (state, action: PayloadAction<{
+        at: number;
+        status: number | string;
+        configurationError: ConfigurationErrorCode | null;
+      }>) => {
+        const { at, status, configurationError } = action.payload;
+        recordRequest(state, at);
+        state.lastErrorStatus = status;
+        state.configurationError = configurationError ?? state.configurationError;
+        if (isRetryableStatus(status)) {
+          state.failures += 1;
+          state.backoffUntil = at + backoffDelay(state.failures);
+        }
+      },
+      prepare: (status: number | string, configurationError: ConfigurationErrorCode | null = null) => ({
+        payload: { at: Date.now(), status, configurationError },
+      }),
+    },
+  },
+});
+
+export const { providerRequestSucceeded, providerRequestFailed } = providerHealthSlice.actions;
+
+/**
+ * Epoch ms until which background refreshes should wait, for backoff or the hourly budget
+ */
+export const refreshBlockedUntil = (
+  { recentRequests, backoffUntil }: ProviderHealthState,
+  now: number,
+  budget = HOURLY_REQUEST_BUDGET
+) => {
+  const lastHour = recentRequests.filter(time => time > now - HOUR_MS);
+  const budgetResetsAt = budget !== null && lastHour.length >= budget
+    ? lastHour[lastHour.length - budget] + HOUR_MS
+    : 0;
+  return Math.max(backoffUntil, budgetResetsAt);
+};
@@ -0,0 +1,38 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { readPersisted } from '../persistence';
+import type { StorageSchema } from '../persistence';
+
+// --- RECENT SEARCHES SLICE ---
+// Persisted to localStorage. Searches that led to a new favorite, newest first.
+
+const MAX_RECENT_SEARCHES = 5;
+
+export interface RecentSearchesState {
+  queries: string[];
+}
+
+export const recentSearchesSchema: StorageSchema = {
+  key: 'weatherDashboard:recentSearches',
+  version: 1,
+};
+
+export const recentSearchesSlice = createSlice({
+  name: 'recentSearches',
+  initialState: (): RecentSearchesState => readPersisted<RecentSearchesState>(recentSearchesSchema) ?? { queries: [] },
+  reducers: {
+    searchRecorded: (state, action: PayloadAction<string>) => {
+      const query = action.payload.trim();
+      if (query) {
+        const others = state.queries.filter(existing => existing.toLowerCase() !== query.toLowerCase());
+        state.queries = [query, ...others].slice(0, MAX_RECENT_SEARCHES);
+      }
+    },
+    recentSearchesCleared: (state) => {
+      state.queries = [];
+    },
+    recentSearchesHydrated: (_state, action: PayloadAction<RecentSearchesState>) => action.payload,
+  },
+});
+
+export const { searchRecorded, recentSearchesCleared, recentSearchesHydrated } = recentSearchesSlice.actions;
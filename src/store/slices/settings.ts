@@ -0,0 +1,116 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { detectLocale, isLocale } from '../../i18n/locales';
+import type { Locale } from '../../i18n/locales';
+import { DEFAULT_UNITS, pickUnitPreferences } from '../../weather/units';
+import type { TemperatureUnit, UnitPreferences } from '../../weather/units';
+import { readPersisted } from '../persistence';
+import type { StorageSchema } from '../persistence';
+
+// --- SETTINGS SLICE ---
+// Persisted to localStorage, and synced to the cloud while signed in.
+
+export type DashboardSort = 'manual' | 'name' | 'temperature' | 'chanceOfRain' | 'localTime';
+
+export type DashboardDensity = 'cards' | 'list';
+
+/**
+ * How the dashboard lays out favorites. Kept on this device only.
+ */
+export interface DashboardView {
+  sort: DashboardSort;
+  density: DashboardDensity;
+}
+
+export const DEFAULT_DASHBOARD_VIEW: DashboardView = { sort: 'manual', density: 'cards' };
+
+/** How long forecast history is kept for the accuracy tracker, in days */
+export const ACCURACY_RETENTION_OPTIONS = [30, 90, 180, 365] as const;
+
+export const DEFAULT_ACCURACY_RETENTION = 90;
+
+/** 'system' follows the operating system's light or dark mode */
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+export const isThemePreference = (value: unknown): value is ThemePreference =>
+  value === 'system' || value === 'light' || value === 'dark';
+
+/**
+ * The settings that follow a signed-in user across devices. The dashboard
+ * view and history retention stay with the device.
+ */
+export type SyncedSettings = Pick<SettingsState, 'units' | 'theme' | 'locale'>;
+
+/** Synced settings as they arrive from the cloud, where any of them may be missing */
+export type SyncedSettingsUpdate = Partial<Omit<SyncedSettings, 'units'>> & { units?: Partial<UnitPreferences> };
+
+export interface SettingsState {
+  units: UnitPreferences;
+  dashboard: DashboardView;
+  theme: ThemePreference;
+  /** Interface language; also the language asked of the weather provider */
+  locale: Locale;
+  /** Days of forecast history to keep, see ACCURACY_RETENTION_OPTIONS */
+  accuracyRetentionDays: number;
+}
+
+/**
+ * Storage history: v1 held only the temperature toggle as { unit: 'c' | 'f' }.
+ */
+export const settingsSchema: StorageSchema = {
+  key: 'weatherDashboard:settings',
+  version: 2,
+  migrations: {
+    2: (data) => {
+      const { unit } = (data ?? {}) as { unit?: TemperatureUnit };
+      return { units: { ...DEFAULT_UNITS, temperature: unit === 'f' ? 'f' : 'c' } };
+    },
+  },
+};
+
+export const settingsSlice = createSlice({
+  name: 'settings',
+  initialState: (): SettingsState => {
+    const stored = readPersisted<SettingsState>(settingsSchema);
+    // Fill in any setting added since the settings were saved
+    return {
+      units: { ...DEFAULT_UNITS, ...pickUnitPreferences(stored?.units) },
+      dashboard: { ...DEFAULT_DASHBOARD_VIEW, ...stored?.dashboard },
+      theme: isThemePreference(stored?.theme) ? stored.theme : 'system',
+      locale: isLocale(stored?.locale) ? stored.locale : detectLocale(),
+      accuracyRetentionDays: stored?.accuracyRetentionDays ?? DEFAULT_ACCURACY_RETENTION,
+    };
+  },
+  reducers: {
+    setUnitPreference: <K extends keyof UnitPreferences>(
+      state: SettingsState,
+      action: PayloadAction<{ key: K; value: UnitPreferences[K] }>
+    ) => {
+      state.units[action.payload.key] = action.payload.value;
+    },
+    setDashboardView: (state, action: PayloadAction<Partial<DashboardView>>) => {
+      state.dashboard = { ...state.dashboard, ...action.payload };
+    },
+    setTheme: (state, action: PayloadAction<ThemePreference>) => {
+      state.theme = action.payload;
+    },
+    setLocale: (state, action: PayloadAction<Locale>) => {
+      state.locale = action.payload;
+    },
+    setAccuracyRetention: (state, action: PayloadAction<number>) => {
+      state.accuracyRetentionDays = action.payload;
+    },
+    settingsHydrated: (_state, action: PayloadAction<SettingsState>) => action.payload,
+    // The signed-in user's settings arrived from the cloud
+    settingsSynced: (state, action: PayloadAction<SyncedSettingsUpdate>) => {
+      const { units, theme, locale } = action.payload;
+      state.units = { ...state.units, ...units };
+      state.theme = theme ?? state.theme;
+      state.locale = locale ?? state.locale;
+    },
+  },
+});
+
+export const {
+  setUnitPreference, setDashboardView, setTheme, setLocale, setAccuracyRetention, settingsHydrated, settingsSynced,
+} = settingsSlice.actions;
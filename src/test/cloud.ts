@@ -0,0 +1,67 @@
+import { http, passthrough } from 'msw';
+import { deleteApp, initializeApp } from 'firebase/app';
+import { connectAuthEmulator, createUserWithEmailAndPassword, getAuth, signInWithEmailAndPassword } from 'firebase/auth';
+import { connectFirestoreEmulator, initializeFirestore, terminate } from 'firebase/firestore';
+import type { Cloud } from '../cloud/firebase';
+import { server } from './server';
+
+// --- FIREBASE EMULATOR HELPERS ---
+// Cloud sync tests run against the Local Emulator Suite. `npm run test:cloud`
+// starts it and sets the *_EMULATOR_HOST variables; without them the tests
+// are skipped.
+
+const PROJECT_ID = 'demo-weather-dashboard';
+
+const firestoreHost: string | undefined = import.meta.env.FIRESTORE_EMULATOR_HOST;
+const authHost: string | undefined = import.meta.env.FIREBASE_AUTH_EMULATOR_HOST;
+
+export const hasEmulators = Boolean(firestoreHost && authHost);
+
+/**
+ * Lets requests to the emulators past the MSW server, which fails anything it doesn't know
+ */
+export const allowEmulatorRequests = () => server.use(
+  http.all(`http://${firestoreHost}/*`, () => passthrough()),
+  http.all(`http://${authHost}/*`, () => passthrough()),
+);
+
+let apps = 0;
+
+/**
+ * A separate Firebase app, standing in for one device. Caches in memory, so
+ * writes made offline wait in its queue like they would in a browser.
+ */
+export const createTestCloud = (): Cloud => {
+  const app = initializeApp({ apiKey: 'demo-api-key', projectId: PROJECT_ID }, `device-${apps++}`);
+  const auth = getAuth(app);
+  const db = initializeFirestore(app, { ignoreUndefinedProperties: true });
+  connectAuthEmulator(auth, `http://${authHost}`, { disableWarnings: true });
+  const [host, port] = (firestoreHost ?? '').split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+  return { auth, db };
+};
+
+export const disposeTestCloud = async ({ auth, db }: Cloud) => {
+  await terminate(db);
+  await deleteApp(auth.app);
+};
+
+/**
+ * Signs `cloud` in as a new emulator user, and any `others` in as the same
+ * user. Returns the user's id.
+ */
+export const signInTestUser = async (cloud: Cloud, ...others: Cloud[]) => {
+  const email = `user-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+  const { user } = await createUserWithEmailAndPassword(cloud.auth, email, 'password');
+  await Promise.all(others.map((other) => signInWithEmailAndPassword(other.auth, email, 'password')));
+  return user.uid;
+};
+
+/**
+ * Deletes every document in the emulator
+ */
+export const clearFirestore = async () => {
+  await fetch(`http://${firestoreHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, {
+    method: 'DELETE',
+  });
+};
@@ -0,0 +1,117 @@
+import { addDays, eachDate } from '../weather/dates';
+
+// --- WEATHERAPI.COM FIXTURES ---
+// Raw responses in WeatherAPI's shape, so tests run through the real adapter
+// and payload validation.
+
+export interface SearchResultFixture {
+  id: number;
+  name: string;
+  region: string;
+  country: string;
+  lat: number;
+  lon: number;
+}
+
+export const searchResult = (overrides: Partial<SearchResultFixture> = {}): SearchResultFixture => ({
+  id: 2801268,
+  name: 'London',
+  region: 'City of London, Greater London',
+  country: 'United Kingdom',
+  lat: 51.52,
+  lon: -0.11,
+  ...overrides,
+});
+
+const condition = { text: 'Partly cloudy', code: 1003 };
+
+const location = (name: string, lat: number, lon: number) => {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    name,
+    region: '',
+    country: 'United Kingdom',
+    lat,
+    lon,
+    tz_id: 'UTC',
+    localtime_epoch: now,
+    localtime: new Date(now * 1000).toISOString().slice(0, 16).replace('T', ' '),
+  };
+};
+
+/**
+ * One day of 24 hours from `firstHour`, UTC midnight of `date` by default
+ */
+const forecastDay = (date: string, tempC: number, firstHour = Date.parse(date) / 1000) => ({
+  date,
+  date_epoch: Date.parse(date) / 1000,
+  day: {
+    maxtemp_c: tempC + 5,
+    mintemp_c: tempC - 4,
+    maxwind_kph: 20,
+    totalprecip_mm: 0.4,
+    daily_chance_of_rain: 20,
+    uv: 4,
+    condition,
+  },
+  astro: { sunrise: '06:45 AM', sunset: '07:30 PM' },
+  hour: Array.from({ length: 24 }, (_, i) => ({
+    time_epoch: firstHour + i * 3600,
+    temp_c: tempC + (i % 6),
+    feelslike_c: tempC + (i % 6) - 1,
+    is_day: 1,
+    condition,
+    wind_kph: 12,
+    precip_mm: 0,
+    humidity: 60,
+    chance_of_rain: 10,
+    uv: 3,
+  })),
+});
+
+/**
+ * A forecast of `days` days (one by default) starting at the current hour
+ */
+export const forecastResponse = ({ name = 'London', lat = 51.52, lon = -0.11, tempC = 18, days = 1 } = {}) => {
+  const now = Math.floor(Date.now() / 1000);
+  const startOfHour = now - (now % 3600);
+  const date = new Date(startOfHour * 1000).toISOString().slice(0, 10);
+
+  return {
+    location: location(name, lat, lon),
+    current: {
+      last_updated_epoch: now,
+      temp_c: tempC,
+      feelslike_c: tempC - 1,
+      is_day: 1,
+      condition,
+      wind_kph: 12,
+      wind_degree: 220,
+      pressure_mb: 1015,
+      precip_mm: 0,
+      humidity: 60,
+      vis_km: 10,
+      uv: 3,
+    },
+    forecast: {
+      forecastday: Array.from({ length: days }, (_, i) =>
+        i === 0 ? forecastDay(date, tempC, startOfHour) : forecastDay(addDays(date, i), tempC)),
+    },
+    alerts: { alert: [] },
+  };
+};
+
+/**
+ * history.json / future.json answer: whole days from `from` to `to`
+ */
+export const dateRangeResponse = ({ name = 'London', lat = 51.52, lon = -0.11, from, to = from, tempC = 12 }: {
+  name?: string;
+  lat?: number;
+  lon?: number;
+  from: string;
+  to?: string;
+  tempC?: number;
+}) => ({
+  location: location(name, lat, lon),
+  forecast: { forecastday: eachDate(from, to).map((date) => forecastDay(date, tempC)) },
+});
@@ -0,0 +1,24 @@
+import type React from 'react';
+import { render } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { MemoryRouter } from 'react-router-dom';
+import { setupStore } from '../store';
+import type { RootState } from '../store';
+
+/**
+ * Renders `ui` with a fresh store and an in-memory router at `route`
+ */
+export const renderWithProviders = (ui: React.ReactElement, { route = '/', preloadedState }: {
+  route?: string;
+  preloadedState?: Partial<RootState>;
+} = {}) => {
+  const store = setupStore(preloadedState);
+  return {
+    store,
+    ...render(
+      <Provider store={store}>
+        <MemoryRouter initialEntries={[route]}>{ui}</MemoryRouter>
+      </Provider>
+    ),
+  };
+};
@@ -0,0 +1,28 @@
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { dateRangeResponse, forecastResponse, searchResult } from './fixtures';
+
+// The weather proxy, as configured for tests in vite.config.ts; it answers with WeatherAPI.com's bodies
+export const WEATHER_API = 'http://localhost:3000/api/weather';
+
+// Default answers; tests override them with server.use(...)
+export const handlers = [
+  http.get(`${WEATHER_API}/search.json`, () => HttpResponse.json([searchResult()])),
+  http.get(`${WEATHER_API}/forecast.json`, ({ request }) => {
+    const [lat, lon] = (new URL(request.url).searchParams.get('q') ?? '').split(',').map(Number);
+    return HttpResponse.json(forecastResponse({ lat, lon }));
+  }),
+  http.get(`${WEATHER_API}/history.json`, ({ request }) => {
+    const params = new URL(request.url).searchParams;
+    const [lat, lon] = (params.get('q') ?? '').split(',').map(Number);
+    const from = params.get('dt') ?? '';
+    return HttpResponse.json(dateRangeResponse({ lat, lon, from, to: params.get('end_dt') ?? from }));
+  }),
+  http.get(`${WEATHER_API}/future.json`, ({ request }) => {
+    const params = new URL(request.url).searchParams;
+    const [lat, lon] = (params.get('q') ?? '').split(',').map(Number);
+    return HttpResponse.json(dateRangeResponse({ lat, lon, from: params.get('dt') ?? '' }));
+  }),
+];
+
+export const server = setupServer(...handlers);
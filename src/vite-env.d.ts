@@ -0,0 +1,25 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Which weather provider backs the dashboard: 'weatherapi' (default), 'open-meteo' or 'mock'. */
+  readonly VITE_WEATHER_PROVIDER?: string;
+  /** Where the browser reaches the weather proxy; defaults to /api/weather on the same origin */
+  readonly VITE_WEATHER_API_BASE?: string;
+  readonly VITE_OPEN_METEO_BASE?: string;
+  readonly VITE_OPEN_METEO_GEOCODING_BASE?: string;
+  readonly VITE_OPEN_METEO_AIR_QUALITY_BASE?: string;
+  readonly VITE_OPEN_METEO_ARCHIVE_BASE?: string;
+  /** Optional cap on provider requests per hour */
+  readonly VITE_WEATHER_HOURLY_BUDGET?: string;
+  readonly VITE_FIREBASE_API_KEY?: string;
+  readonly VITE_FIREBASE_AUTH_DOMAIN?: string;
+  readonly VITE_FIREBASE_PROJECT_ID?: string;
+  readonly VITE_FIREBASE_APP_ID?: string;
+  /** 'true' to use the Firebase Local Emulator Suite instead of a live project */
+  readonly VITE_FIREBASE_EMULATORS?: string;
+  readonly VITE_FIREBASE_EMULATOR_HOST?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,87 @@
+import type { AirQuality } from './types';
+
+// --- AIR QUALITY BANDS ---
+// Index categories and per-pollutant health bands. Concentrations are µg/m³.
+
+export type Pollutant = 'pm2_5' | 'pm10' | 'o3' | 'no2' | 'so2' | 'co';
+
+export const POLLUTANTS: { key: Pollutant; label: string }[] = [
+  { key: 'pm2_5', label: 'PM2.5' },
+  { key: 'pm10', label: 'PM10' },
+  { key: 'o3', label: 'O₃' },
+  { key: 'no2', label: 'NO₂' },
+  { key: 'so2', label: 'SO₂' },
+  { key: 'co', label: 'CO' },
+];
+
+export type UsEpaCategory = 'good' | 'moderate' | 'sensitive' | 'unhealthy' | 'veryUnhealthy' | 'hazardous';
+
+export type DefraCategory = 'low' | 'moderate' | 'high' | 'veryHigh';
+
+export interface AqiBand<Category extends string> {
+  /** Names the band in the interface's messages */
+  category: Category;
+  /** Tailwind classes for a chip in this band */
+  className: string;
+}
+
+/**
+ * US EPA categories, index 1-6
+ */
+const US_EPA_BANDS: AqiBand<UsEpaCategory>[] = [
+  { category: 'good', className: 'bg-green-600 text-white' },
+  { category: 'moderate', className: 'bg-yellow-400 text-gray-900' },
+  { category: 'sensitive', className: 'bg-orange-500 text-white' },
+  { category: 'unhealthy', className: 'bg-red-600 text-white' },
+  { category: 'veryUnhealthy', className: 'bg-purple-700 text-white' },
+  { category: 'hazardous', className: 'bg-rose-900 text-white' },
+];
+
+/**
+ * UK DEFRA Daily Air Quality Index bands: 1-3 Low, 4-6 Moderate, 7-9 High, 10 Very High
+ */
+const DEFRA_BANDS: AqiBand<DefraCategory>[] = [
+  { category: 'low', className: 'bg-green-600 text-white' },
+  { category: 'moderate', className: 'bg-yellow-400 text-gray-900' },
+  { category: 'high', className: 'bg-red-600 text-white' },
+  { category: 'veryHigh', className: 'bg-purple-700 text-white' },
+];
+
+export const usEpaBand = (index: number): AqiBand<UsEpaCategory> =>
+  US_EPA_BANDS[Math.min(Math.max(index, 1), 6) - 1];
+
+export const defraBand = (index: number): AqiBand<DefraCategory> =>
+  DEFRA_BANDS[index >= 10 ? 3 : index >= 7 ? 2 : index >= 4 ? 1 : 0];
+
+/**
+ * Upper bounds of DEFRA index 1-9 per pollutant; above the last is 10.
+ * CO isn't part of DAQI, so its bounds are scaled from the US EPA 8-hour breakpoints.
+ */
+const DEFRA_LIMITS: Record<Pollutant, number[]> = {
+  pm2_5: [11, 23, 35, 41, 47, 53, 58, 64, 70],
+  pm10: [16, 33, 50, 58, 66, 75, 83, 91, 100],
+  o3: [33, 66, 100, 120, 140, 160, 187, 213, 240],
+  no2: [67, 134, 200, 267, 334, 400, 467, 534, 600],
+  so2: [88, 177, 266, 354, 443, 532, 710, 887, 1064],
+  co: [1700, 3400, 5000, 7000, 9000, 10800, 12600, 14400, 17600],
+};
+
+/**
+ * DEFRA index (1-10) for one pollutant concentration
+ */
+export const pollutantIndex = (pollutant: Pollutant, value: number): number => {
+  const index = DEFRA_LIMITS[pollutant].findIndex((limit) => value <= limit);
+  return index === -1 ? 10 : index + 1;
+};
+
+/**
+ * Overall DEFRA index: the worst of the individual pollutants
+ */
+export const computeDefraIndex = (pollutants: Pick<AirQuality, Pollutant>): number =>
+  Math.max(...POLLUTANTS.filter(({ key }) => key !== 'co').map(({ key }) => pollutantIndex(key, pollutants[key])));
+
+/**
+ * US AQI value (0-500) to its EPA category (1-6)
+ */
+export const usEpaIndexFromAqi = (aqi: number): number =>
+  aqi <= 50 ? 1 : aqi <= 100 ? 2 : aqi <= 150 ? 3 : aqi <= 200 ? 4 : aqi <= 300 ? 5 : 6;
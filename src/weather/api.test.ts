@@ -0,0 +1,47 @@
+import { http, HttpResponse } from 'msw';
+import { describe, expect, it } from 'vitest';
+import { weatherApi } from './api';
+import { setupStore } from '../store';
+import { REVALIDATE_AFTER_MS, STORED_AT_HEADER } from '../pwa/protocol';
+import { forecastResponse } from '../test/fixtures';
+import { WEATHER_API, server } from '../test/server';
+
+const LONDON = { lat: 51.52, lon: -0.11 };
+
+/** Answers forecasts the way the service worker does from its cache */
+const serveFromWorkerCache = (storedAt: number) => server.use(
+  http.get(`${WEATHER_API}/forecast.json`, () => HttpResponse.json(forecastResponse(LONDON), {
+    headers: { [STORED_AT_HEADER]: String(storedAt) },
+  })),
+);
+
+const fetchForecast = async () => {
+  const store = setupStore();
+  const result = await store.dispatch(weatherApi.endpoints.getForecast.initiate(LONDON));
+  return result.data;
+};
+
+describe('getForecast', () => {
+  it('is live when fetched from the network', async () => {
+    const before = Date.now();
+    const forecast = await fetchForecast();
+    expect(forecast?.stale).toBe(false);
+    expect(forecast?.fetchedAt).toBeGreaterThanOrEqual(before);
+  });
+
+  it('takes the time a service worker copy was stored', async () => {
+    const storedAt = Date.now() - 10 * 1000;
+    serveFromWorkerCache(storedAt);
+    const forecast = await fetchForecast();
+    expect(forecast?.fetchedAt).toBe(storedAt);
+    expect(forecast?.stale).toBe(false);
+  });
+
+  it('is stale when the service worker copy is past its revalidate window', async () => {
+    const storedAt = Date.now() - REVALIDATE_AFTER_MS - 5 * 60 * 1000;
+    serveFromWorkerCache(storedAt);
+    const forecast = await fetchForecast();
+    expect(forecast?.fetchedAt).toBe(storedAt);
+    expect(forecast?.stale).toBe(true);
+  });
+});
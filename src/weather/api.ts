@@ -0,0 +1,182 @@
+import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import type { BaseQueryApi } from '@reduxjs/toolkit/query/react';
+import { wordDateRangeConditions, wordForecastConditions } from './conditions';
+import { resolveWeatherProvider } from './config';
+import type { DateRange } from './dates';
+import { WeatherProviderError, toProviderError, toQueryError } from './provider';
+import { configurationErrorCode } from './proxyErrors';
+import type { DateRangeParams, FetchJson, ForecastParams, WeatherProvider } from './provider';
+import type { DateRangeWeather, LocationSummary } from './types';
+import { validateDateRangeWeather, validateForecast, validateLocation, validateLocations } from './validate';
+import type { Locale } from '../i18n/locales';
+import { REVALIDATE_AFTER_MS, STORED_AT_HEADER } from '../pwa/protocol';
+import type { SettingsState } from '../store/slices/settings';
+import { readCachedForecast, writeCachedForecast } from '../store/forecastCache';
+import type { CachedForecast } from '../store/forecastCache';
+import { createStagger } from '../store/refreshScheduler';
+import { providerRequestFailed, providerRequestSucceeded } from '../store/slices/providerHealth';
+
+// --- WEATHER API (RTK Query) ---
+// This handles all data fetching and caching for the dashboard.
+// Requests go through the active WeatherProvider, which returns normalized data;
+// fetchBaseQuery is only the transport it uses.
+
+// Chosen from VITE_WEATHER_PROVIDER; see src/weather/config.ts
+export const weatherProvider = resolveWeatherProvider();
+
+const interfaceLocale = (api: BaseQueryApi) => (api.getState() as { settings: SettingsState }).settings.locale;
+
+/**
+ * Adapts a provider call into an RTK Query queryFn. Calls are made in the
+ * interface language, which isn't part of the cache key: changing it
+ * refetches everything tagged LOCALIZED_TAG instead. `storedAt` is set when
+ * the service worker answered from its cache: when the oldest response it
+ * served was stored.
+ */
+const providerQuery = <Arg, Result>(
+  run: (provider: WeatherProvider, arg: Arg, fetchJson: FetchJson, lang: Locale) => Promise<Result>
+) => async (
+  arg: Arg,
+  api: BaseQueryApi,
+  _extraOptions: unknown,
+  baseQuery: (args: Parameters<FetchJson>[0]) => ReturnType<ReturnType<typeof fetchBaseQuery>>
+) => {
+  let storedAt: number | undefined;
+  const fetchJson: FetchJson = async (args) => {
+    const result = await baseQuery(args);
+    if (result.error) {
+      const body = 'data' in result.error ? result.error.data : undefined;
+      api.dispatch(providerRequestFailed(result.error.status, configurationErrorCode(body)));
+      throw toProviderError(result.error);
+    }
+    api.dispatch(providerRequestSucceeded());
+    const stored = Number(result.meta?.response?.headers.get(STORED_AT_HEADER));
+    if (stored) {
+      storedAt = Math.min(storedAt ?? stored, stored);
+    }
+    return result.data;
+  };
+  try {
+    const data = await run(weatherProvider, arg, fetchJson, interfaceLocale(api));
+    return { data, storedAt };
+  } catch (err) {
+    // Anything other than a provider error is the adapter tripping over an unexpected response
+    return {
+      error: toQueryError(err instanceof WeatherProviderError
+        ? err
+        : new WeatherProviderError(`Unexpected response from the weather service (${String(err)})`)),
+    };
+  }
+};
+
+// Every view reads the same forecast per location and shows as many days as it needs,
+// so a city is one cache entry and one request however many views show it
+export const FORECAST_DAYS = 14;
+
+export interface ForecastArgs {
+  lat: number;
+  lon: number;
+}
+
+export interface DateRangeArgs extends ForecastArgs, DateRange {}
+
+const toDateRangeParams = ({ lat, lon, from, to }: DateRangeArgs, lang: Locale): DateRangeParams =>
+  ({ q: `${lat},${lon}`, from, to, lang });
+
+const fetchForecast = providerQuery(async (provider, { lat, lon }: ForecastArgs, fetchJson, lang) => {
+  const forecast = validateForecast(
+    await provider.getForecast({ q: `${lat},${lon}`, days: FORECAST_DAYS, lang } satisfies ForecastParams, fetchJson)
+  );
+  return provider.localizesConditions ? forecast : wordForecastConditions(forecast, lang);
+});
+
+const fetchDateRange = (endpoint: 'getHistory' | 'getFuture') =>
+  providerQuery(async (provider, arg: DateRangeArgs, fetchJson, lang) => {
+    const weather = validateDateRangeWeather(await provider[endpoint](toDateRangeParams(arg, lang), fetchJson));
+    return provider.localizesConditions ? weather : wordDateRangeConditions(weather, lang);
+  });
+
+// A dashboard's cards all ask for their forecast as they mount; their requests start this far apart
+const FORECAST_REQUEST_GAP_MS = 250;
+const waitForForecastTurn = createStagger(FORECAST_REQUEST_GAP_MS);
+
+// The offline copy holds condition text in the language it was fetched in, so each language has its own
+const forecastCacheKey = ({ lat, lon }: ForecastArgs, lang: Locale) =>
+  `${weatherProvider.id}|${lat},${lon}|${FORECAST_DAYS}|${lang}`;
+
+/** Data with provider text in it: condition descriptions and place names */
+export const LOCALIZED_TAG = 'Localized';
+/** One location's forecast, by "lat,lon"; the service worker asks for a reread once it has newer data */
+export const FORECAST_TAG = 'Forecast';
+
+export const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+export const weatherApi = createApi({
+  reducerPath: 'weatherApi',
+  baseQuery: fetchBaseQuery(),
+  tagTypes: [LOCALIZED_TAG, FORECAST_TAG],
+  // Offline or failed forecasts are served stale from IndexedDB; this picks the live data back up
+  refetchOnReconnect: true,
+  endpoints: (builder) => ({
+    // Search for cities
+    searchCities: builder.query<LocationSummary[], string>({
+      queryFn: providerQuery(async (provider, search: string, fetchJson, lang) =>
+        validateLocations(await provider.searchLocations(search, fetchJson, lang))),
+      providesTags: [LOCALIZED_TAG],
+    }),
+    // Name of the place at some coordinates, e.g. the user's position
+    reverseGeocode: builder.query<LocationSummary | null, ForecastArgs>({
+      queryFn: providerQuery(async (provider, coordinates: ForecastArgs, fetchJson, lang) =>
+        validateLocation(await provider.reverseGeocode(coordinates, fetchJson, lang))),
+      providesTags: [LOCALIZED_TAG],
+      // Places don't move; keep the name while the app is open
+      keepUnusedDataFor: 60 * 60,
+    }),
+    // Get detailed forecast (includes current, daily, and hourly)
+    // Forecasts are always requested by coordinates so the provider can't pick a different namesake
+    // Every success is written to the offline cache, which answers whenever the provider can't
+    getForecast: builder.query<CachedForecast, ForecastArgs>({
+      queryFn: async (arg, api, extraOptions, baseQuery) => {
+        const key = forecastCacheKey(arg, interfaceLocale(api));
+        if (isOffline()) {
+          const cached = await readCachedForecast(key);
+          if (cached) {
+            return { data: cached };
+          }
+        }
+        await waitForForecastTurn();
+        const result = await fetchForecast(arg, api, extraOptions, baseQuery);
+        if (result.error) {
+          const cached = await readCachedForecast(key);
+          return cached ? { data: cached } : { error: result.error };
+        }
+        // A copy from the service worker's cache is as old as when it was stored;
+        // past the revalidate window it's stale until the worker's refetch lands
+        const fetchedAt = result.storedAt ?? Date.now();
+        void writeCachedForecast(key, result.data, fetchedAt);
+        return { data: { ...result.data, fetchedAt, stale: Date.now() - fetchedAt >= REVALIDATE_AFTER_MS } };
+      },
+      providesTags: (_result, _error, { lat, lon }) => [LOCALIZED_TAG, { type: FORECAST_TAG, id: `${lat},${lon}` }],
+      // Kept for a minute after the last card or view using it closes; the scheduler keeps open ones fresh
+      keepUnusedDataFor: 60,
+    }),
+    // Observed weather for past dates
+    getHistory: builder.query<DateRangeWeather, DateRangeArgs>({
+      queryFn: fetchDateRange('getHistory'),
+      providesTags: [LOCALIZED_TAG],
+      // The past doesn't change
+      keepUnusedDataFor: 60 * 60,
+    }),
+    // Long-range forecast for the days after FORECAST_DAYS
+    getFuture: builder.query<DateRangeWeather, DateRangeArgs>({
+      queryFn: fetchDateRange('getFuture'),
+      providesTags: [LOCALIZED_TAG],
+      keepUnusedDataFor: 10 * 60,
+    }),
+  }),
+});
+
+// Export hooks for use in components
+export const {
+  useLazySearchCitiesQuery, useGetForecastQuery, useReverseGeocodeQuery, useGetHistoryQuery, useGetFutureQuery,
+} = weatherApi;
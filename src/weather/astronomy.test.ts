@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { localDayStart, moonInfo, sunTimes } from './astronomy';
+import { createFormatter, DEFAULT_UNITS } from './units';
+
+const london = { lat: 51.5, lon: -0.12, tzId: 'Europe/London', utcOffsetSeconds: 3600 };
+const format = createFormatter({ ...DEFAULT_UNITS, clock: '24h' });
+// Midsummer 2024, a day after the full moon
+const midsummer = localDayStart('2024-06-21', london.utcOffsetSeconds);
+
+describe('astronomy', () => {
+  it('matches the published sunrise, sunset and day length for London', () => {
+    const sun = sunTimes(midsummer, london.lat, london.lon);
+
+    expect(format.zonedTime(sun.sunrise, london)).toBe('04:44');
+    expect(format.zonedTime(sun.sunset, london)).toBe('21:22');
+    expect(sun.dayLength / 3600).toBeCloseTo(16.6, 1);
+    expect(sun.goldenHour.evening!.end).toBe(sun.blueHour.evening!.start);
+    // The longest day: the next one is shorter
+    expect(sunTimes(midsummer + 86400, london.lat, london.lon).dayLength).toBeLessThan(sun.dayLength);
+  });
+
+  it('has no sunrise or sunset in polar day and night', () => {
+    const summer = sunTimes(localDayStart('2024-06-21', 7200), 78.2, 15.6);
+    const winter = sunTimes(localDayStart('2024-12-21', 3600), 78.2, 15.6);
+
+    expect(summer).toMatchObject({ sunrise: null, sunset: null, dayLength: 86400, goldenHour: { morning: null } });
+    expect(winter).toMatchObject({ sunrise: null, sunset: null, dayLength: 0 });
+  });
+
+  it('finds the moon times and phase', () => {
+    const moon = moonInfo(midsummer, london.lat, london.lon);
+
+    expect(format.zonedTime(moon.rise, london)).toBe('21:38');
+    expect(format.zonedTime(moon.set, london)).toBe('03:23');
+    expect(moon).toMatchObject({ phase: 'full' });
+    expect(moon.illumination).toBeGreaterThan(0.98);
+    expect(moonInfo(localDayStart('2024-07-06', 3600), london.lat, london.lon).phase).toBe('new');
+  });
+
+  it('falls back to the UTC offset for a time zone the browser does not know', () => {
+    expect(format.zonedTime(midsummer + 6 * 3600, { tzId: 'Nowhere/Special', utcOffsetSeconds: 3600 })).toBe('06:00');
+    expect(format.zonedTime(null, london)).toBe('—');
+  });
+});
@@ -0,0 +1,236 @@
+// --- ASTRONOMY ---
+// Sun and moon times worked out from a location's coordinates, so every
+// provider gets them (Open-Meteo has no moon data). Follows the formulas of
+// the SunCalc library, after Astronomy Answers; times are good to a minute or
+// two. Takes and returns Unix seconds; angles in degrees.
+
+const RAD = Math.PI / 180;
+const DAY_SECONDS = 86400;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+// Obliquity of the Earth's axis
+const OBLIQUITY = RAD * 23.4397;
+
+const toDays = (epochSeconds: number) => epochSeconds / DAY_SECONDS - 0.5 + J1970 - J2000;
+const fromJulian = (julian: number) => (julian + 0.5 - J1970) * DAY_SECONDS;
+
+const rightAscension = (l: number, b: number) =>
+  Math.atan2(Math.sin(l) * Math.cos(OBLIQUITY) - Math.tan(b) * Math.sin(OBLIQUITY), Math.cos(l));
+const declination = (l: number, b: number) =>
+  Math.asin(Math.sin(b) * Math.cos(OBLIQUITY) + Math.cos(b) * Math.sin(OBLIQUITY) * Math.sin(l));
+const altitude = (hourAngle: number, phi: number, dec: number) =>
+  Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle));
+const siderealTime = (days: number, lw: number) => RAD * (280.16 + 360.9856235 * days) - lw;
+
+const solarMeanAnomaly = (days: number) => RAD * (357.5291 + 0.98560028 * days);
+
+const eclipticLongitude = (meanAnomaly: number) => {
+  const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+  const perihelion = RAD * 102.9372;
+  return meanAnomaly + center + perihelion + Math.PI;
+};
+
+const sunCoords = (days: number) => {
+  const longitude = eclipticLongitude(solarMeanAnomaly(days));
+  return { dec: declination(longitude, 0), ra: rightAscension(longitude, 0) };
+};
+
+/**
+ * Height of the sun's centre above the horizon
+ */
+export const sunAltitude = (epochSeconds: number, lat: number, lon: number): number => {
+  const days = toDays(epochSeconds);
+  const { dec, ra } = sunCoords(days);
+  return altitude(siderealTime(days, RAD * -lon) - ra, RAD * lat, dec) / RAD;
+};
+
+// --- SUN TIMES ---
+
+/** Sun altitudes of the events below: sunrise allows for refraction and the sun's size */
+const SUNRISE_ANGLE = -0.833;
+const CIVIL_TWILIGHT_ANGLE = -6;
+const BLUE_GOLDEN_ANGLE = -4;
+const GOLDEN_HOUR_ANGLE = 6;
+
+/**
+ * A morning and evening crossing of one sun altitude; null when the sun
+ * doesn't cross it that day (polar day or night)
+ */
+export interface Crossing {
+  morning: number | null;
+  evening: number | null;
+}
+
+export interface SunTimes {
+  solarNoon: number;
+  sunrise: number | null;
+  sunset: number | null;
+  /** Blue hour: the sun between 6° and 4° below the horizon */
+  blueHour: { morning: { start: number; end: number } | null; evening: { start: number; end: number } | null };
+  /** Golden hour: the sun between 4° below and 6° above the horizon */
+  goldenHour: { morning: { start: number; end: number } | null; evening: { start: number; end: number } | null };
+  /** Seconds between sunrise and sunset; a full day or none when the sun doesn't rise or set */
+  dayLength: number;
+}
+
+const span = (start: number | null, end: number | null) => (start !== null && end !== null ? { start, end } : null);
+
+/**
+ * Sun times of the day starting at `dayStart` (Unix seconds of local midnight)
+ */
+export const sunTimes = (dayStart: number, lat: number, lon: number): SunTimes => {
+  const lw = RAD * -lon;
+  const phi = RAD * lat;
+  const days = toDays(dayStart + DAY_SECONDS / 2);
+  const cycle = Math.round(days - J0 - lw / (2 * Math.PI));
+  const approxTransit = (hourAngle: number) => J0 + (hourAngle + lw) / (2 * Math.PI) + cycle;
+  const meanAnomaly = solarMeanAnomaly(approxTransit(0));
+  const longitude = eclipticLongitude(meanAnomaly);
+  const dec = declination(longitude, 0);
+  const transit = (ds: number) => J2000 + ds + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * longitude);
+  const noon = transit(approxTransit(0));
+
+  const crossing = (angle: number): Crossing => {
+    const cosHourAngle = (Math.sin(RAD * angle) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+    if (Math.abs(cosHourAngle) > 1) {
+      return { morning: null, evening: null };
+    }
+    const set = transit(approxTransit(Math.acos(cosHourAngle)));
+    return { morning: fromJulian(noon - (set - noon)), evening: fromJulian(set) };
+  };
+
+  const sun = crossing(SUNRISE_ANGLE);
+  const civil = crossing(CIVIL_TWILIGHT_ANGLE);
+  const blueGolden = crossing(BLUE_GOLDEN_ANGLE);
+  const golden = crossing(GOLDEN_HOUR_ANGLE);
+  const solarNoon = fromJulian(noon);
+  const dayLength = sun.morning !== null && sun.evening !== null
+    ? sun.evening - sun.morning
+    : sunAltitude(solarNoon, lat, lon) > 0 ? DAY_SECONDS : 0;
+
+  return {
+    solarNoon,
+    sunrise: sun.morning,
+    sunset: sun.evening,
+    blueHour: { morning: span(civil.morning, blueGolden.morning), evening: span(blueGolden.evening, civil.evening) },
+    goldenHour: { morning: span(blueGolden.morning, golden.morning), evening: span(golden.evening, blueGolden.evening) },
+    dayLength,
+  };
+};
+
+// --- MOON ---
+
+export type MoonPhase =
+  | 'new' | 'waxingCrescent' | 'firstQuarter' | 'waxingGibbous' | 'full' | 'waningGibbous' | 'lastQuarter' | 'waningCrescent';
+
+const MOON_PHASES: MoonPhase[] = [
+  'new', 'waxingCrescent', 'firstQuarter', 'waxingGibbous', 'full', 'waningGibbous', 'lastQuarter', 'waningCrescent',
+];
+
+const moonCoords = (days: number) => {
+  const longitude = RAD * (218.316 + 13.176396 * days);
+  const meanAnomaly = RAD * (134.963 + 13.064993 * days);
+  const meanDistance = RAD * (93.272 + 13.22935 * days);
+  const l = longitude + RAD * 6.289 * Math.sin(meanAnomaly);
+  const b = RAD * 5.128 * Math.sin(meanDistance);
+  return { ra: rightAscension(l, b), dec: declination(l, b), distanceKm: 385001 - 20905 * Math.cos(meanAnomaly) };
+};
+
+const moonAltitude = (epochSeconds: number, lat: number, lon: number) => {
+  const days = toDays(epochSeconds);
+  const { ra, dec } = moonCoords(days);
+  const height = altitude(siderealTime(days, RAD * -lon) - ra, RAD * lat, dec);
+  // Atmospheric refraction lifts it slightly
+  const clamped = Math.max(height, 0);
+  return height + 0.0002967 / Math.tan(clamped + 0.00312536 / (clamped + 0.08901179));
+};
+
+export interface MoonInfo {
+  /** Null when the moon doesn't rise (or set) that day */
+  rise: number | null;
+  set: number | null;
+  /** Lit fraction of the disc, 0-1 */
+  illumination: number;
+  /** Position in the lunar cycle: 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter */
+  cycle: number;
+  phase: MoonPhase;
+}
+
+/**
+ * Moonrise and moonset in the day starting at `dayStart`, found by stepping
+ * through the day two hours at a time and fitting a parabola to the altitude
+ */
+const moonTimes = (dayStart: number, lat: number, lon: number) => {
+  const offset = 0.133 * RAD; // The moon's apparent radius, so rise is its upper edge
+  const at = (hours: number) => moonAltitude(dayStart + hours * 3600, lat, lon) - offset;
+  let rise: number | null = null;
+  let set: number | null = null;
+  let h0 = at(0);
+
+  for (let i = 1; i <= 24 && (rise === null || set === null); i += 2) {
+    const h1 = at(i);
+    const h2 = at(i + 1);
+    const a = (h0 + h2) / 2 - h1;
+    const b = (h2 - h0) / 2;
+    const xe = -b / (2 * a);
+    const ye = (a * xe + b) * xe + h1;
+    const discriminant = b * b - 4 * a * h1;
+    let roots = 0;
+    let x1 = 0;
+    let x2 = 0;
+    if (discriminant >= 0) {
+      const dx = Math.sqrt(discriminant) / (Math.abs(a) * 2);
+      x1 = xe - dx;
+      x2 = xe + dx;
+      if (Math.abs(x1) <= 1) roots++;
+      if (Math.abs(x2) <= 1) roots++;
+      if (x1 < -1) x1 = x2;
+    }
+    if (roots === 1) {
+      if (h0 < 0 && rise === null) {
+        rise = i + x1;
+      } else if (h0 >= 0 && set === null) {
+        set = i + x1;
+      }
+    } else if (roots === 2) {
+      rise ??= i + (ye < 0 ? x2 : x1);
+      set ??= i + (ye < 0 ? x1 : x2);
+    }
+    h0 = h2;
+  }
+
+  const toEpoch = (hours: number | null) => (hours === null ? null : dayStart + hours * 3600);
+  return { rise: toEpoch(rise), set: toEpoch(set) };
+};
+
+/**
+ * Moon times for the day starting at `dayStart`, with its phase at `at`
+ */
+export const moonInfo = (dayStart: number, lat: number, lon: number, at = dayStart + DAY_SECONDS / 2): MoonInfo => {
+  const days = toDays(at);
+  const sun = sunCoords(days);
+  const moon = moonCoords(days);
+  const sunDistanceKm = 149598000;
+  const elongation = Math.acos(Math.sin(sun.dec) * Math.sin(moon.dec)
+    + Math.cos(sun.dec) * Math.cos(moon.dec) * Math.cos(sun.ra - moon.ra));
+  const inclination = Math.atan2(sunDistanceKm * Math.sin(elongation), moon.distanceKm - sunDistanceKm * Math.cos(elongation));
+  const angle = Math.atan2(Math.cos(sun.dec) * Math.sin(sun.ra - moon.ra), Math.sin(sun.dec) * Math.cos(moon.dec)
+    - Math.cos(sun.dec) * Math.sin(moon.dec) * Math.cos(sun.ra - moon.ra));
+  const cycle = 0.5 + (0.5 * inclination * (angle < 0 ? -1 : 1)) / Math.PI;
+
+  return {
+    ...moonTimes(dayStart, lat, lon),
+    illumination: (1 + Math.cos(inclination)) / 2,
+    cycle,
+    phase: MOON_PHASES[Math.round(cycle * 8) % 8],
+  };
+};
+
+/**
+ * Unix seconds of local midnight on a location's "YYYY-MM-DD" date. Uses the
+ * location's current UTC offset, which is at most an hour out across a DST
+ * change and moves none of the times above.
+ */
+export const localDayStart = (date: string, utcOffsetSeconds: number) =>
+  Date.parse(`${date}T00:00:00Z`) / 1000 - utcOffsetSeconds;
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { dewPointC, heatIndexC, hourComfort, windChillC } from './comfort';
+
+describe('comfort metrics', () => {
+  it('matches the published dew point, heat index and wind chill tables', () => {
+    expect(dewPointC(20, 50)).toBeCloseTo(9.3, 1);
+    // 90°F at 70% humidity feels like about 105°F
+    expect(heatIndexC(32, 70)).toBeCloseTo(40.5, 0);
+    expect(windChillC(-10, 30)).toBeCloseTo(-19.5, 1);
+  });
+
+  it('only applies heat index and wind chill where they are defined', () => {
+    expect(heatIndexC(25, 90)).toBeNull();
+    expect(windChillC(15, 30)).toBeNull();
+    expect(windChillC(-5, 3)).toBeNull();
+  });
+
+  it('scores a mild dry hour as ideal and a humid heatwave as miserable', () => {
+    expect(hourComfort({ tempC: 21, humidity: 50, windKph: 10, chanceOfRain: 0, uv: 3 }).score).toBe(100);
+    expect(hourComfort({ tempC: 21, humidity: 50, windKph: 10, chanceOfRain: 60, uv: 3 }).score).toBe(70);
+    expect(hourComfort({ tempC: 33, humidity: 70, windKph: 10, chanceOfRain: 0, uv: 9 })).toMatchObject({ score: 0 });
+  });
+});
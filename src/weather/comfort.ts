@@ -0,0 +1,95 @@
+import type { HourlyForecast } from './types';
+
+// --- COMFORT METRICS ---
+// Derived from the hourly forecast rather than asked of the provider, so
+// every provider gets the same numbers. Inputs and results are metric.
+
+/** Comfortable range for the apparent temperature; outside it the score drops */
+const COMFORT_MIN_C = 18;
+const COMFORT_MAX_C = 24;
+/** Dew points above this feel muggy */
+const MUGGY_DEW_POINT_C = 16;
+const BREEZY_KPH = 20;
+const HIGH_UV = 5;
+
+/**
+ * Magnus formula (Alduchov & Eskridge constants), good to a few tenths of a
+ * degree in weather conditions
+ */
+export const dewPointC = (tempC: number, humidity: number): number => {
+  const a = 17.625;
+  const b = 243.04;
+  const gamma = Math.log(Math.max(humidity, 1) / 100) + (a * tempC) / (b + tempC);
+  return (b * gamma) / (a - gamma);
+};
+
+/**
+ * US National Weather Service heat index. Null below 80°F (26.7°C), where
+ * humidity doesn't change how warm it feels.
+ */
+export const heatIndexC = (tempC: number, humidity: number): number | null => {
+  const t = tempC * 9 / 5 + 32;
+  const rh = humidity;
+  // The simple formula decides whether the full regression applies
+  if ((0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094) + t) / 2 < 80) {
+    return null;
+  }
+  let index = -42.379 + 2.04901523 * t + 10.14333127 * rh - 0.22475541 * t * rh - 0.00683783 * t * t
+    - 0.05481717 * rh * rh + 0.00122874 * t * t * rh + 0.00085282 * t * rh * rh - 0.00000199 * t * t * rh * rh;
+  if (rh < 13 && t <= 112) {
+    index -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+  } else if (rh > 85 && t <= 87) {
+    index += ((rh - 85) / 10) * ((87 - t) / 5);
+  }
+  return (index - 32) * 5 / 9;
+};
+
+/**
+ * North American wind chill index. Null above 10°C or in near-calm air, where
+ * it isn't defined.
+ */
+export const windChillC = (tempC: number, windKph: number): number | null => {
+  if (tempC > 10 || windKph <= 4.8) {
+    return null;
+  }
+  const v = windKph ** 0.16;
+  return 13.12 + 0.6215 * tempC - 11.37 * v + 0.3965 * tempC * v;
+};
+
+export interface HourComfort {
+  dewPointC: number;
+  heatIndexC: number | null;
+  windChillC: number | null;
+  /** Heat index or wind chill where one applies, otherwise the air temperature */
+  apparentC: number;
+  /** 0 (miserable) to 100 (ideal for being outside) */
+  score: number;
+}
+
+export type ComfortInputs = Pick<HourlyForecast, 'tempC' | 'humidity' | 'windKph' | 'chanceOfRain' | 'uv'>;
+
+/**
+ * Comfort of one hour outdoors. The score starts at 100 and loses points for
+ * an apparent temperature outside 18-24°C, muggy air, wind, likely rain and
+ * strong sun.
+ */
+export const hourComfort = ({ tempC, humidity, windKph, chanceOfRain, uv }: ComfortInputs): HourComfort => {
+  const dewPoint = dewPointC(tempC, humidity);
+  const heatIndex = heatIndexC(tempC, humidity);
+  const windChill = windChillC(tempC, windKph);
+  const apparentC = heatIndex ?? windChill ?? tempC;
+
+  const penalty = 4 * Math.max(0, COMFORT_MIN_C - apparentC, apparentC - COMFORT_MAX_C)
+    + 5 * Math.max(0, dewPoint - MUGGY_DEW_POINT_C)
+    + Math.max(0, windKph - BREEZY_KPH)
+    + chanceOfRain / 2
+    + 4 * Math.max(0, uv - HIGH_UV);
+
+  return {
+    dewPointC: dewPoint,
+    heatIndexC: heatIndex,
+    windChillC: windChill,
+    apparentC,
+    score: Math.round(Math.min(100, Math.max(0, 100 - penalty))),
+  };
+};
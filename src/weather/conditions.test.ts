@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { createTranslator } from '../i18n/translate';
+import { wordDateRangeConditions, wordForecastConditions } from './conditions';
+import { createMockProvider } from './providers/mock';
+
+const provider = createMockProvider({ now: () => Date.parse('2024-06-21T12:00:00Z') });
+const fetchJson = () => Promise.reject(new Error('The mock provider makes no requests'));
+
+describe('condition text', () => {
+  it('words every condition of a forecast from its kind', async () => {
+    const forecast = wordForecastConditions(await provider.getForecast({ q: 'London', days: 2 }, fetchJson), 'fr');
+    const conditions = [
+      forecast.current.condition,
+      ...forecast.days.flatMap((day) => [day.condition, ...day.hours.map((hour) => hour.condition)]),
+    ];
+    const t = createTranslator('fr');
+    expect(conditions.find((condition) => condition.kind === 'rain')?.text).toBe('Pluie');
+    conditions.forEach((condition) => expect(condition.text).toBe(t(`condition.${condition.kind}`)));
+  });
+
+  it('keeps the condition code and kind', async () => {
+    const weather = await provider.getHistory({ q: 'Tokyo', from: '2024-06-01', to: '2024-06-02' }, fetchJson);
+    const worded = wordDateRangeConditions(weather, 'de');
+    expect(worded.days.map((day) => [day.condition.code, day.condition.kind]))
+      .toEqual(weather.days.map((day) => [day.condition.code, day.condition.kind]));
+    expect(worded.days[0].condition.text).not.toBe(weather.days[0].condition.text);
+  });
+});
@@ -0,0 +1,31 @@
+import type { Locale } from '../i18n/locales';
+import { createTranslator } from '../i18n/translate';
+import type { Translate } from '../i18n/translate';
+import type { DailyForecast, DateRangeWeather, Forecast, WeatherCondition } from './types';
+
+// --- CONDITION TEXT ---
+// Providers that only word conditions in English get their text from the
+// condition kind instead, in the interface language (condition.* messages).
+
+const wordCondition = (condition: WeatherCondition, t: Translate): WeatherCondition =>
+  ({ ...condition, text: t(`condition.${condition.kind}`) });
+
+const wordDay = (day: DailyForecast, t: Translate): DailyForecast => ({
+  ...day,
+  condition: wordCondition(day.condition, t),
+  hours: day.hours.map((hour) => ({ ...hour, condition: wordCondition(hour.condition, t) })),
+});
+
+export const wordForecastConditions = (forecast: Forecast, lang: Locale): Forecast => {
+  const t = createTranslator(lang);
+  return {
+    ...forecast,
+    current: { ...forecast.current, condition: wordCondition(forecast.current.condition, t) },
+    days: forecast.days.map((day) => wordDay(day, t)),
+  };
+};
+
+export const wordDateRangeConditions = (weather: DateRangeWeather, lang: Locale): DateRangeWeather => {
+  const t = createTranslator(lang);
+  return { ...weather, days: weather.days.map((day) => wordDay(day, t)) };
+};
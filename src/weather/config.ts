@@ -0,0 +1,38 @@
+import type { ProviderId, WeatherProvider } from './provider';
+import { createWeatherApiComProvider } from './providers/weatherApiCom';
+import { createOpenMeteoProvider } from './providers/openMeteo';
+import { createMockProvider } from './providers/mock';
+
+// --- PROVIDER SELECTION ---
+// Set VITE_WEATHER_PROVIDER in .env to 'weatherapi' (default), 'open-meteo'
+// or 'mock'. WeatherAPI.com is reached through the weather proxy, which
+// holds its key (see server/weatherProxy.ts); the browser never sees it.
+
+const PROVIDER_IDS: ProviderId[] = ['weatherapi', 'open-meteo', 'mock'];
+
+const isProviderId = (value: string): value is ProviderId => (PROVIDER_IDS as string[]).includes(value);
+
+/**
+ * Builds the provider named by the environment
+ */
+export const resolveWeatherProvider = (env: ImportMetaEnv = import.meta.env): WeatherProvider => {
+  const requested = env.VITE_WEATHER_PROVIDER?.trim().toLowerCase() || 'weatherapi';
+  const id = isProviderId(requested) ? requested : 'weatherapi';
+  if (id !== requested) {
+    console.error(`Unknown VITE_WEATHER_PROVIDER "${requested}", falling back to weatherapi.`);
+  }
+
+  switch (id) {
+    case 'open-meteo':
+      return createOpenMeteoProvider({
+        baseUrl: env.VITE_OPEN_METEO_BASE || 'https://api.open-meteo.com/v1',
+        geocodingBaseUrl: env.VITE_OPEN_METEO_GEOCODING_BASE || 'https://geocoding-api.open-meteo.com/v1',
+        airQualityBaseUrl: env.VITE_OPEN_METEO_AIR_QUALITY_BASE || 'https://air-quality-api.open-meteo.com/v1',
+        archiveBaseUrl: env.VITE_OPEN_METEO_ARCHIVE_BASE || 'https://archive-api.open-meteo.com/v1',
+      });
+    case 'mock':
+      return createMockProvider();
+    case 'weatherapi':
+      return createWeatherApiComProvider({ baseUrl: env.VITE_WEATHER_API_BASE || '/api/weather' });
+  }
+};
@@ -0,0 +1,68 @@
+// --- CALENDAR DATES ---
+// Date ranges are local calendar dates ("YYYY-MM-DD"), the way the providers
+// take them. The arithmetic runs on UTC midnights so the browser's own time
+// zone and DST changes never shift a day.
+
+export interface DateRange {
+  /** First and last local dates, inclusive, "YYYY-MM-DD" */
+  from: string;
+  to: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtcMs = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const fromUtcMs = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+/**
+ * A real "YYYY-MM-DD" date; engines roll 31 February over rather than reject it
+ */
+export const isIsoDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(toUtcMs(value)) && fromUtcMs(toUtcMs(value)) === value;
+
+export const addDays = (date: string, days: number): string => fromUtcMs(toUtcMs(date) + days * DAY_MS);
+
+/**
+ * Number of dates from `from` to `to`, counting both ends
+ */
+export const countDays = (from: string, to: string): number => Math.round((toUtcMs(to) - toUtcMs(from)) / DAY_MS) + 1;
+
+/**
+ * Every date from `from` to `to`, inclusive
+ */
+export const eachDate = (from: string, to: string): string[] =>
+  Array.from({ length: Math.max(0, countDays(from, to)) }, (_, i) => addDays(from, i));
+
+/**
+ * Splits a range into consecutive pieces of at most `size` days
+ */
+export const chunkRange = (from: string, to: string, size: number): DateRange[] => {
+  const chunks: DateRange[] = [];
+  for (let start = from; start <= to; start = addDays(start, size)) {
+    const end = addDays(start, size - 1);
+    chunks.push({ from: start, to: end < to ? end : to });
+  }
+  return chunks;
+};
+
+/**
+ * The same calendar date a year earlier; 29 February maps to the 28th
+ */
+export const sameDateLastYear = (date: string): string => {
+  const [year, month, day] = date.split('-');
+  const previous = `${Number(year) - 1}-${month}-${day}`;
+  return isIsoDate(previous) ? previous : `${Number(year) - 1}-${month}-28`;
+};
+
+/**
+ * Local calendar date of an instant, given the location's UTC offset
+ */
+export const localDate = (epochSeconds: number, utcOffsetSeconds: number): string =>
+  fromUtcMs((epochSeconds + utcOffsetSeconds) * 1000);
+
+/**
+ * Local wall-clock time of an instant, "YYYY-MM-DD HH:mm"
+ */
+export const localDateTime = (epochSeconds: number, utcOffsetSeconds: number): string =>
+  new Date((epochSeconds + utcOffsetSeconds) * 1000).toISOString().slice(0, 16).replace('T', ' ');
@@ -0,0 +1,97 @@
+import type { FetchArgs, FetchBaseQueryError } from '@reduxjs/toolkit/query/react';
+import type { DateRange } from './dates';
+import type { DateRangeWeather, Forecast, LocationSummary } from './types';
+
+// --- PROVIDER CONTRACT ---
+
+export type ProviderId = 'weatherapi' | 'open-meteo' | 'mock';
+
+/**
+ * Transport handed to providers by the API slice. Resolves with the parsed
+ * JSON body, or throws a WeatherProviderError.
+ */
+export type FetchJson = (args: string | FetchArgs) => Promise<unknown>;
+
+export interface ForecastParams {
+  /** Free-text place name or "lat,lon" */
+  q: string;
+  days: number;
+  /** Language for condition text, e.g. "fr". Providers without translations ignore it. */
+  lang?: string;
+}
+
+export interface DateRangeParams extends DateRange {
+  /** Free-text place name or "lat,lon" */
+  q: string;
+  /** Language for condition text, e.g. "fr". Providers without translations ignore it. */
+  lang?: string;
+}
+
+export interface WeatherProvider {
+  readonly id: ProviderId;
+  /** False when condition text is always English; it's then worded from the condition kind */
+  readonly localizesConditions: boolean;
+  /** Places matching `query`, named in `lang` where the provider can */
+  searchLocations(query: string, fetchJson: FetchJson, lang?: string): Promise<LocationSummary[]>;
+  /** Nearest named place to a point, named in `lang` where the provider can, or null when it can't name it */
+  reverseGeocode(
+    coordinates: Pick<LocationSummary, 'lat' | 'lon'>, fetchJson: FetchJson, lang?: string
+  ): Promise<LocationSummary | null>;
+  getForecast(params: ForecastParams, fetchJson: FetchJson): Promise<Forecast>;
+  /** Observed weather for past dates */
+  getHistory(params: DateRangeParams, fetchJson: FetchJson): Promise<DateRangeWeather>;
+  /** Forecast for dates beyond what getForecast covers */
+  getFuture(params: DateRangeParams, fetchJson: FetchJson): Promise<DateRangeWeather>;
+}
+
+/**
+ * Error raised by providers and the transport. `status` mirrors
+ * FetchBaseQueryError so callers can treat both the same way.
+ */
+export class WeatherProviderError extends Error {
+  readonly status: number | 'FETCH_ERROR' | 'CUSTOM_ERROR';
+
+  constructor(message: string, status: WeatherProviderError['status'] = 'CUSTOM_ERROR') {
+    super(message);
+    this.name = 'WeatherProviderError';
+    this.status = status;
+  }
+}
+
+/**
+ * Pulls a human-readable message out of a failed fetchBaseQuery result
+ */
+const describeQueryError = (error: FetchBaseQueryError): string => {
+  if ('error' in error) {
+    return error.error;
+  }
+  const body = error.data as { error?: { message?: string } | string; reason?: string } | undefined;
+  if (typeof body?.error === 'object' && body.error.message) {
+    return body.error.message;
+  }
+  if (typeof body?.error === 'string') {
+    return body.error;
+  }
+  return body?.reason ?? `Request failed with status ${error.status}`;
+};
+
+export const toProviderError = (error: FetchBaseQueryError): WeatherProviderError => {
+  const status = typeof error.status === 'number' || error.status === 'FETCH_ERROR'
+    ? error.status
+    : 'CUSTOM_ERROR';
+  return new WeatherProviderError(describeQueryError(error), status);
+};
+
+/**
+ * Converts anything a provider threw into an RTK Query error value
+ */
+export const toQueryError = (err: unknown): FetchBaseQueryError => {
+  if (err instanceof WeatherProviderError) {
+    if (typeof err.status === 'number') {
+      return { status: err.status, data: { message: err.message } };
+    }
+    return { status: err.status, error: err.message };
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  return { status: 'CUSTOM_ERROR', error: message };
+};
@@ -0,0 +1,288 @@
+import { WeatherProviderError } from '../provider';
+import type { DateRangeParams, ForecastParams, WeatherProvider } from '../provider';
+import { computeDefraIndex } from '../airQuality';
+import { eachDate } from '../dates';
+import type {
+  AirQuality, DailyForecast, DateRangeWeather, Forecast, ForecastLocation, HourlyForecast, LocationSummary,
+  WeatherAlert, WeatherCondition,
+} from '../types';
+
+// --- OFFLINE FIXTURE PROVIDER ---
+// Deterministic forecasts for a handful of cities, generated from fixed
+// climate parameters. Used for demos without an API key and for tests.
+
+interface FixtureCity extends LocationSummary {
+  tzId: string;
+  utcOffsetSeconds: number;
+  /** Daily mean temperature and day/night swing, °C */
+  meanTempC: number;
+  swingC: number;
+  humidity: number;
+  windKph: number;
+  /** 0-1, how rainy the fixture climate is */
+  wetness: number;
+}
+
+export const MOCK_CITIES: FixtureCity[] = [
+  {
+    id: '2801268', name: 'London', region: 'City of London, Greater London', country: 'United Kingdom',
+    lat: 51.52, lon: -0.11, tzId: 'Europe/London', utcOffsetSeconds: 0,
+    meanTempC: 11, swingC: 4, humidity: 78, windKph: 17, wetness: 0.6,
+  },
+  {
+    id: '2618724', name: 'New York', region: 'New York', country: 'United States of America',
+    lat: 40.71, lon: -74.01, tzId: 'America/New_York', utcOffsetSeconds: -5 * 3600,
+    meanTempC: 13, swingC: 6, humidity: 62, windKph: 14, wetness: 0.4,
+  },
+  {
+    id: '3125553', name: 'Tokyo', region: 'Tokyo', country: 'Japan',
+    lat: 35.69, lon: 139.69, tzId: 'Asia/Tokyo', utcOffsetSeconds: 9 * 3600,
+    meanTempC: 17, swingC: 5, humidity: 66, windKph: 11, wetness: 0.35,
+  },
+  {
+    id: '803267', name: 'Paris', region: 'Ile-de-France', country: 'France',
+    lat: 48.87, lon: 2.33, tzId: 'Europe/Paris', utcOffsetSeconds: 3600,
+    meanTempC: 12, swingC: 5, humidity: 74, windKph: 13, wetness: 0.5,
+  },
+  {
+    id: '2637394', name: 'Paris', region: 'Texas', country: 'United States of America',
+    lat: 33.66, lon: -95.56, tzId: 'America/Chicago', utcOffsetSeconds: -6 * 3600,
+    meanTempC: 18, swingC: 8, humidity: 58, windKph: 16, wetness: 0.3,
+  },
+  {
+    id: '2139716', name: 'Sydney', region: 'New South Wales', country: 'Australia',
+    lat: -33.88, lon: 151.22, tzId: 'Australia/Sydney', utcOffsetSeconds: 11 * 3600,
+    meanTempC: 21, swingC: 5, humidity: 64, windKph: 19, wetness: 0.3,
+  },
+];
+
+/**
+ * WeatherAPI.com condition codes, so fixtures look like real provider output
+ */
+const CONDITIONS: WeatherCondition[] = [
+  { code: 1000, text: 'Sunny', kind: 'clear' },
+  { code: 1003, text: 'Partly cloudy', kind: 'partlyCloudy' },
+  { code: 1006, text: 'Cloudy', kind: 'cloudy' },
+  { code: 1009, text: 'Overcast', kind: 'cloudy' },
+  { code: 1063, text: 'Patchy rain possible', kind: 'rain' },
+  { code: 1183, text: 'Light rain', kind: 'rain' },
+  { code: 1195, text: 'Heavy rain', kind: 'rain' },
+  { code: 1087, text: 'Thundery outbreaks possible', kind: 'thunderstorm' },
+];
+
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+/**
+ * Small deterministic hash in [0, 1), so every city/day pair gets stable noise
+ */
+const noise = (...parts: (string | number)[]): number => {
+  let hash = 2166136261;
+  for (const char of parts.join('|')) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 16777619);
+  }
+  return (hash >>> 0) / 2 ** 32;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * US EPA category from PM2.5 alone, using the 24-hour breakpoints
+ */
+const PM25_EPA_LIMITS = [12, 35.4, 55.4, 150.4, 250.4];
+
+/**
+ * Pollution builds up in calm air and clears when it's windy or raining
+ */
+const buildAirQuality = (city: FixtureCity, epoch: number, windKph: number, chanceOfRain: number): AirQuality => {
+  const stagnation = (1.5 - Math.min(1, windKph / 30)) * (1 - chanceOfRain / 200);
+  const level = (key: string, base: number) => round1(base * stagnation * (0.6 + 0.8 * noise(city.id, epoch, key)));
+  const pollutants = {
+    pm2_5: level('pm2_5', 14),
+    pm10: level('pm10', 22),
+    o3: level('o3', 60),
+    no2: level('no2', 35),
+    so2: level('so2', 6),
+    co: level('co', 300),
+  };
+  const epaIndex = PM25_EPA_LIMITS.findIndex((limit) => pollutants.pm2_5 <= limit);
+  return {
+    ...pollutants,
+    usEpaIndex: epaIndex === -1 ? 6 : epaIndex + 1,
+    gbDefraIndex: computeDefraIndex(pollutants),
+  };
+};
+
+const localIso = (epoch: number, offsetSeconds: number) => new Date((epoch + offsetSeconds) * 1000).toISOString();
+
+const toSummary = ({ id, name, region, country, lat, lon }: FixtureCity): LocationSummary => ({
+  id, name, region, country, lat, lon,
+});
+
+const matchCity = (q: string): FixtureCity | undefined => {
+  const needle = q.trim().toLowerCase();
+  const coordinates = needle.split(',').map(Number);
+  if (coordinates.length === 2 && coordinates.every(Number.isFinite)) {
+    const [lat, lon] = coordinates;
+    return MOCK_CITIES.find((city) => Math.abs(city.lat - lat) < 0.5 && Math.abs(city.lon - lon) < 0.5);
+  }
+  return MOCK_CITIES.find((city) => city.name.toLowerCase() === needle);
+};
+
+/**
+ * One fixture day, starting at the given local midnight
+ */
+const buildDay = (city: FixtureCity, dateEpoch: number): DailyForecast => {
+  const date = localIso(dateEpoch, city.utcOffsetSeconds).slice(0, 10);
+  const drift = (noise(city.id, date, 'drift') - 0.5) * 6;
+  const rainChance = Math.round(Math.min(1, city.wetness * 1.4 * noise(city.id, date, 'rain')) * 100);
+  const maxUv = round1(6 * (1 - city.wetness));
+
+  const hours: HourlyForecast[] = Array.from({ length: 24 }, (_, hourIndex) => {
+    // Coldest around 04:00, warmest around 16:00
+    const tempC = round1(city.meanTempC + drift + city.swingC * Math.sin(((hourIndex - 10) / 24) * 2 * Math.PI));
+    const windKph = round1(city.windKph * (0.6 + 0.8 * noise(city.id, date, hourIndex, 'wind')));
+    const chanceOfRain = Math.round(rainChance * (0.5 + noise(city.id, date, hourIndex, 'shower')));
+    const conditionIndex = Math.min(CONDITIONS.length - 1, Math.floor((chanceOfRain / 100) * CONDITIONS.length));
+    const time = dateEpoch + hourIndex * HOUR;
+    const isDay = hourIndex >= 7 && hourIndex < 19;
+    return {
+      time,
+      tempC,
+      feelsLikeC: round1(tempC - windKph / 10),
+      isDay,
+      condition: CONDITIONS[conditionIndex],
+      humidity: Math.min(100, Math.round(city.humidity + chanceOfRain / 5)),
+      windKph,
+      precipMm: chanceOfRain > 60 ? round1((chanceOfRain - 60) / 10) : 0,
+      chanceOfRain: Math.min(100, chanceOfRain),
+      // Peaks at 13:00
+      uv: isDay ? round1(maxUv * Math.sin(((hourIndex - 7) / 12) * Math.PI)) : 0,
+      airQuality: buildAirQuality(city, time, windKph, chanceOfRain),
+    };
+  });
+
+  const temps = hours.map((hour) => hour.tempC);
+  return {
+    date,
+    dateEpoch,
+    maxTempC: Math.max(...temps),
+    minTempC: Math.min(...temps),
+    maxWindKph: Math.max(...hours.map((hour) => hour.windKph)),
+    totalPrecipMm: round1(hours.reduce((sum, hour) => sum + hour.precipMm, 0)),
+    chanceOfRain: rainChance,
+    uv: maxUv,
+    condition: hours[13].condition,
+    sunrise: '07:00',
+    sunset: '19:00',
+    hours,
+  };
+};
+
+const toLocation = (city: FixtureCity, nowEpoch: number): ForecastLocation => ({
+  id: city.id,
+  name: city.name,
+  region: city.region,
+  country: city.country,
+  lat: city.lat,
+  lon: city.lon,
+  tzId: city.tzId,
+  utcOffsetSeconds: city.utcOffsetSeconds,
+  localtime: localIso(nowEpoch, city.utcOffsetSeconds).slice(0, 16).replace('T', ' '),
+});
+
+const buildForecast = (city: FixtureCity, days: number, nowEpoch: number): Forecast => {
+  const offset = city.utcOffsetSeconds;
+  const todayMidnight = Math.floor((nowEpoch + offset) / DAY) * DAY - offset;
+  const forecastDays = Array.from({ length: days }, (_, dayIndex) => buildDay(city, todayMidnight + dayIndex * DAY));
+
+  // Any fixture day wet enough for heavy rain gets a warning, like a real feed would issue
+  const alerts: WeatherAlert[] = forecastDays
+    .filter((day) => day.totalPrecipMm >= 10)
+    .map((day) => ({
+      id: `${city.id}|rain|${day.date}`,
+      event: 'Heavy Rain Warning',
+      headline: `Heavy rain expected in ${city.name} on ${day.date}`,
+      severity: day.totalPrecipMm >= 20 ? 'severe' : 'moderate',
+      areas: city.region,
+      description: `Rainfall totals of around ${Math.round(day.totalPrecipMm)} mm are expected. Surface water flooding is possible.`,
+      instruction: 'Avoid driving through flood water and allow extra time for journeys.',
+      effective: day.dateEpoch,
+      expires: day.dateEpoch + DAY,
+    }));
+
+  const currentHour = forecastDays[0].hours.find((hour) => hour.time + HOUR > nowEpoch) ?? forecastDays[0].hours[23];
+
+  return {
+    location: toLocation(city, nowEpoch),
+    current: {
+      observedAt: currentHour.time,
+      tempC: currentHour.tempC,
+      feelsLikeC: currentHour.feelsLikeC,
+      isDay: currentHour.isDay,
+      condition: currentHour.condition,
+      humidity: currentHour.humidity,
+      windKph: currentHour.windKph,
+      windDegree: Math.round(noise(city.id, currentHour.time, 'dir') * 360),
+      pressureMb: Math.round(1013 + (noise(city.id, currentHour.time, 'pressure') - 0.5) * 30),
+      visKm: currentHour.chanceOfRain > 60 ? 5 : 10,
+      precipMm: currentHour.precipMm,
+      uv: currentHour.isDay ? forecastDays[0].uv : 0,
+      airQuality: currentHour.airQuality,
+    },
+    days: forecastDays,
+    alerts,
+  };
+};
+
+/**
+ * Fixture days for any span of dates; the past is generated like the future
+ */
+const buildDateRange = (city: FixtureCity, from: string, to: string, nowEpoch: number): DateRangeWeather => ({
+  location: toLocation(city, nowEpoch),
+  days: eachDate(from, to).map((date) => buildDay(city, Date.parse(`${date}T00:00:00Z`) / 1000 - city.utcOffsetSeconds)),
+});
+
+interface MockProviderOptions {
+  /** Clock used to anchor "today"; inject a fixed one for reproducible output */
+  now?: () => number;
+}
+
+/**
+ * Offline provider backed by MOCK_CITIES
+ */
+export const createMockProvider = ({ now = Date.now }: MockProviderOptions = {}): WeatherProvider => ({
+  id: 'mock',
+  localizesConditions: false,
+  async searchLocations(query: string) {
+    const needle = query.trim().toLowerCase();
+    return MOCK_CITIES
+      .filter((city) => city.name.toLowerCase().includes(needle))
+      .map(toSummary);
+  },
+  async reverseGeocode({ lat, lon }) {
+    const city = matchCity(`${lat},${lon}`);
+    return city ? toSummary(city) : null;
+  },
+  async getForecast({ q, days }: ForecastParams) {
+    const city = matchCity(q);
+    if (!city) {
+      throw new WeatherProviderError('No matching location found.', 400);
+    }
+    return buildForecast(city, days, Math.floor(now() / 1000));
+  },
+  async getHistory({ q, from, to }: DateRangeParams) {
+    const city = matchCity(q);
+    if (!city) {
+      throw new WeatherProviderError('No matching location found.', 400);
+    }
+    return buildDateRange(city, from, to, Math.floor(now() / 1000));
+  },
+  async getFuture({ q, from, to }: DateRangeParams) {
+    const city = matchCity(q);
+    if (!city) {
+      throw new WeatherProviderError('No matching location found.', 400);
+    }
+    return buildDateRange(city, from, to, Math.floor(now() / 1000));
+  },
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { parseOpenMeteoDateRange, parseOpenMeteoForecast } from './openMeteo';
+
+const place = { id: '2801268', name: 'London', region: 'England', country: 'United Kingdom', lat: 51.52, lon: -0.11 };
+
+const MIDNIGHT = Date.parse('2030-01-07T00:00:00Z') / 1000;
+const hourTimes = [0, 1, 2].map((i) => MIDNIGHT + i * 3600);
+
+/**
+ * A day of three hours, the second of which Open-Meteo has no data for
+ */
+const response = () => ({
+  latitude: place.lat,
+  longitude: place.lon,
+  timezone: 'Europe/London',
+  utc_offset_seconds: 0,
+  current: {
+    time: MIDNIGHT + 3600,
+    temperature_2m: null, apparent_temperature: null, relative_humidity_2m: 70, is_day: 0, precipitation: 0,
+    weather_code: null, pressure_msl: null, wind_speed_10m: 12, wind_direction_10m: 200, visibility: null, uv_index: 0,
+  },
+  hourly: {
+    time: hourTimes,
+    temperature_2m: [4, null, 6],
+    apparent_temperature: [2, null, 4],
+    relative_humidity_2m: [80, null, 75],
+    precipitation_probability: [10, null, 20],
+    precipitation: [0, null, 0.2],
+    weather_code: [null, null, 61],
+    wind_speed_10m: [10, null, 14],
+    is_day: [0, null, 0],
+    uv_index: [0, null, 0],
+  },
+  daily: {
+    time: [MIDNIGHT, MIDNIGHT + 86400],
+    weather_code: [61, 3],
+    temperature_2m_max: [8, null],
+    temperature_2m_min: [3, null],
+    precipitation_sum: [1.2, null],
+    precipitation_probability_max: [40, null],
+    wind_speed_10m_max: [20, null],
+    uv_index_max: [1, null],
+    sunrise: [MIDNIGHT + 8 * 3600, MIDNIGHT + 86400 + 8 * 3600],
+    sunset: [MIDNIGHT + 16 * 3600, MIDNIGHT + 86400 + 16 * 3600],
+  },
+});
+
+describe('parseOpenMeteoForecast', () => {
+  it('leaves out hours and days without data instead of showing zeros', () => {
+    const { days } = parseOpenMeteoForecast(response(), place);
+    expect(days.map((day) => day.date)).toEqual(['2030-01-07']);
+    expect(days[0].hours.map((hour) => [hour.time, hour.tempC])).toEqual([[hourTimes[0], 4], [hourTimes[2], 6]]);
+  });
+
+  it('shows a missing condition code as unknown', () => {
+    const [day] = parseOpenMeteoForecast(response(), place).days;
+    expect(day.hours[0].condition).toEqual({ code: null, text: 'Unknown', kind: 'unknown' });
+    expect(day.hours[1].condition).toMatchObject({ code: 61, kind: 'rain' });
+  });
+
+  it('fills in missing current conditions from the hour under way', () => {
+    const { current } = parseOpenMeteoForecast(response(), place);
+    // The hour under way at 01:00 has no data, so it's the one before
+    expect(current).toMatchObject({
+      tempC: 4, feelsLikeC: 2, humidity: 70, windKph: 12, pressureMb: null, visKm: null,
+      condition: { code: null, kind: 'unknown' },
+    });
+  });
+});
+
+describe('parseOpenMeteoDateRange', () => {
+  it('counts values the archive never has, like UV, as 0', () => {
+    const raw = response();
+    const archiveHourly: Partial<typeof raw.hourly> = { ...raw.hourly };
+    delete archiveHourly.uv_index;
+    delete archiveHourly.precipitation_probability;
+    const { days } = parseOpenMeteoDateRange({ ...raw, hourly: { ...archiveHourly, time: hourTimes } }, place);
+    expect(days[0].hours.map((hour) => [hour.uv, hour.chanceOfRain])).toEqual([[0, 0], [0, 0]]);
+  });
+});
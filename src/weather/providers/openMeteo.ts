@@ -0,0 +1,388 @@
+import { WeatherProviderError } from '../provider';
+import type { DateRangeParams, FetchJson, ForecastParams, WeatherProvider } from '../provider';
+import { computeDefraIndex, usEpaIndexFromAqi } from '../airQuality';
+import type {
+  AirQuality, ConditionKind, DailyForecast, DateRangeWeather, Forecast, ForecastLocation, HourlyForecast,
+  LocationSummary, WeatherCondition,
+} from '../types';
+
+// --- OPEN-METEO ADAPTER ---
+// https://open-meteo.com/en/docs — free, no key. Forecasts are by coordinates
+// only, so free-text queries are geocoded first.
+
+/**
+ * WMO weather interpretation codes used by Open-Meteo
+ */
+const WMO_CONDITIONS: Record<number, { text: string; kind: ConditionKind }> = {
+  0: { text: 'Clear', kind: 'clear' },
+  1: { text: 'Mainly clear', kind: 'clear' },
+  2: { text: 'Partly cloudy', kind: 'partlyCloudy' },
+  3: { text: 'Overcast', kind: 'cloudy' },
+  45: { text: 'Fog', kind: 'fog' },
+  48: { text: 'Depositing rime fog', kind: 'fog' },
+  51: { text: 'Light drizzle', kind: 'drizzle' },
+  53: { text: 'Moderate drizzle', kind: 'drizzle' },
+  55: { text: 'Dense drizzle', kind: 'drizzle' },
+  56: { text: 'Light freezing drizzle', kind: 'freezingRain' },
+  57: { text: 'Dense freezing drizzle', kind: 'freezingRain' },
+  61: { text: 'Slight rain', kind: 'rain' },
+  63: { text: 'Moderate rain', kind: 'rain' },
+  65: { text: 'Heavy rain', kind: 'rain' },
+  66: { text: 'Light freezing rain', kind: 'freezingRain' },
+  67: { text: 'Heavy freezing rain', kind: 'freezingRain' },
+  71: { text: 'Slight snow fall', kind: 'snow' },
+  73: { text: 'Moderate snow fall', kind: 'snow' },
+  75: { text: 'Heavy snow fall', kind: 'snow' },
+  77: { text: 'Snow grains', kind: 'snow' },
+  80: { text: 'Slight rain showers', kind: 'rain' },
+  81: { text: 'Moderate rain showers', kind: 'rain' },
+  82: { text: 'Violent rain showers', kind: 'rain' },
+  85: { text: 'Slight snow showers', kind: 'snow' },
+  86: { text: 'Heavy snow showers', kind: 'snow' },
+  95: { text: 'Thunderstorm', kind: 'thunderstorm' },
+  96: { text: 'Thunderstorm with slight hail', kind: 'thunderstorm' },
+  99: { text: 'Thunderstorm with heavy hail', kind: 'thunderstorm' },
+};
+
+const HOURLY_FIELDS = [
+  'temperature_2m', 'apparent_temperature', 'relative_humidity_2m', 'precipitation_probability',
+  'precipitation', 'weather_code', 'wind_speed_10m', 'is_day', 'uv_index',
+] as const;
+
+const CURRENT_FIELDS = [
+  'temperature_2m', 'apparent_temperature', 'relative_humidity_2m', 'is_day', 'precipitation',
+  'weather_code', 'pressure_msl', 'wind_speed_10m', 'wind_direction_10m', 'visibility', 'uv_index',
+] as const;
+
+const DAILY_FIELDS = [
+  'weather_code', 'temperature_2m_max', 'temperature_2m_min', 'precipitation_sum',
+  'precipitation_probability_max', 'wind_speed_10m_max', 'uv_index_max', 'sunrise', 'sunset',
+] as const;
+
+// The historical archive has no probabilities or UV
+const ARCHIVE_HOURLY_FIELDS = HOURLY_FIELDS.filter((field) => field !== 'precipitation_probability' && field !== 'uv_index');
+
+const ARCHIVE_DAILY_FIELDS = DAILY_FIELDS.filter((field) => field !== 'precipitation_probability_max' && field !== 'uv_index_max');
+
+const AIR_QUALITY_FIELDS = [
+  'pm2_5', 'pm10', 'ozone', 'nitrogen_dioxide', 'sulphur_dioxide', 'carbon_monoxide', 'us_aqi',
+] as const;
+
+// Fields are optional because archive responses only carry some of them
+type Series<K extends string> = { time: number[] } & Partial<Record<K, (number | null)[]>>;
+
+type HourlySeries = Series<(typeof HOURLY_FIELDS)[number]>;
+
+type DailySeries = Series<(typeof DAILY_FIELDS)[number]>;
+
+interface RawGeocodingResult {
+  id: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  country?: string;
+  admin1?: string;
+}
+
+interface RawDateRangeResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  utc_offset_seconds: number;
+  hourly: HourlySeries;
+  daily: DailySeries;
+}
+
+interface RawForecastResponse extends RawDateRangeResponse {
+  current: { time: number } & Record<(typeof CURRENT_FIELDS)[number], number | null>;
+}
+
+type AirQualityValues = Record<(typeof AIR_QUALITY_FIELDS)[number], number | null>;
+
+interface RawAirQualityResponse {
+  current: { time: number } & AirQualityValues;
+  hourly: Series<(typeof AIR_QUALITY_FIELDS)[number]>;
+}
+
+const COORDINATES = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+// Values Open-Meteo has no data for come back as null. Hours and days with
+// one are left out, and the current conditions fill them in from the hour
+// under way, so a gap never shows as 0°C or a dry, clear day.
+
+/** The fields of a series that may be null; the condition code maps to 'unknown' instead */
+const HOURLY_VALUES = HOURLY_FIELDS.filter((field) => field !== 'weather_code' && field !== 'is_day');
+
+const DAILY_VALUES = DAILY_FIELDS.filter((field) => field !== 'weather_code' && field !== 'sunrise' && field !== 'sunset');
+
+/**
+ * Whether entry `i` has a value for every field in `fields` that the response carries
+ */
+const isComplete = <K extends string>(series: Series<K>, fields: readonly K[], i: number) =>
+  fields.every((field) => series[field]?.[i] !== null);
+
+/**
+ * Entry `i` of a field, once isComplete has ruled out nulls. A field the
+ * request didn't ask for (the archive has no probabilities or UV) counts as 0.
+ */
+const valueAt = <K extends string>(series: Series<K>, field: K, i: number): number => series[field]?.[i] ?? 0;
+
+const toCondition = (code: number | null | undefined): WeatherCondition => {
+  const known = code === null || code === undefined ? undefined : WMO_CONDITIONS[code];
+  return { code: code ?? null, text: known?.text ?? 'Unknown', kind: known?.kind ?? 'unknown' };
+};
+
+/**
+ * Formats a unix timestamp as wall-clock time at the given UTC offset
+ */
+const localIso = (epoch: number, offsetSeconds: number): string =>
+  new Date((epoch + offsetSeconds) * 1000).toISOString();
+
+const localHourMinute = (epoch: number | null, offsetSeconds: number): string | null =>
+  epoch === null ? null : localIso(epoch, offsetSeconds).slice(11, 16);
+
+const toAirQuality = (values: AirQualityValues): AirQuality | null => {
+  const { pm2_5, pm10, ozone, nitrogen_dioxide, sulphur_dioxide, carbon_monoxide, us_aqi } = values;
+  if (
+    pm2_5 === null || pm10 === null || ozone === null || nitrogen_dioxide === null || sulphur_dioxide === null
+    || carbon_monoxide === null || us_aqi === null
+  ) {
+    return null;
+  }
+  const pollutants = { pm2_5, pm10, o3: ozone, no2: nitrogen_dioxide, so2: sulphur_dioxide, co: carbon_monoxide };
+  return {
+    ...pollutants,
+    usEpaIndex: usEpaIndexFromAqi(us_aqi),
+    // Open-Meteo has no DAQI, so it's derived from the pollutant bands
+    gbDefraIndex: computeDefraIndex(pollutants),
+  };
+};
+
+/**
+ * Air quality per hour, keyed by unix time
+ */
+const hourlyAirQuality = (raw: RawAirQualityResponse | null): Map<number, AirQuality | null> => {
+  const byTime = new Map<number, AirQuality | null>();
+  raw?.hourly.time.forEach((time, i) => {
+    const values = Object.fromEntries(
+      AIR_QUALITY_FIELDS.map((field) => [field, raw.hourly[field]?.[i] ?? null])
+    ) as AirQualityValues;
+    byTime.set(time, toAirQuality(values));
+  });
+  return byTime;
+};
+
+const toSummary = (raw: RawGeocodingResult): LocationSummary => ({
+  id: String(raw.id),
+  name: raw.name,
+  region: raw.admin1 ?? '',
+  country: raw.country ?? '',
+  lat: raw.latitude,
+  lon: raw.longitude,
+});
+
+const toHours = (hourly: HourlySeries, airQualityByHour = new Map<number, AirQuality | null>()): HourlyForecast[] =>
+  hourly.time.flatMap((time, i) => isComplete(hourly, HOURLY_VALUES, i) ? [{
+    time,
+    tempC: valueAt(hourly, 'temperature_2m', i),
+    feelsLikeC: valueAt(hourly, 'apparent_temperature', i),
+    isDay: hourly.is_day?.[i] === 1,
+    condition: toCondition(hourly.weather_code?.[i]),
+    humidity: valueAt(hourly, 'relative_humidity_2m', i),
+    windKph: valueAt(hourly, 'wind_speed_10m', i),
+    precipMm: valueAt(hourly, 'precipitation', i),
+    chanceOfRain: valueAt(hourly, 'precipitation_probability', i),
+    uv: valueAt(hourly, 'uv_index', i),
+    airQuality: airQualityByHour.get(time) ?? null,
+  }] : []);
+
+const toDays = (daily: DailySeries, hours: HourlyForecast[], offset: number): DailyForecast[] =>
+  daily.time.flatMap((dateEpoch, i) => isComplete(daily, DAILY_VALUES, i) ? [{
+    date: localIso(dateEpoch, offset).slice(0, 10),
+    dateEpoch,
+    maxTempC: valueAt(daily, 'temperature_2m_max', i),
+    minTempC: valueAt(daily, 'temperature_2m_min', i),
+    maxWindKph: valueAt(daily, 'wind_speed_10m_max', i),
+    totalPrecipMm: valueAt(daily, 'precipitation_sum', i),
+    chanceOfRain: valueAt(daily, 'precipitation_probability_max', i),
+    uv: valueAt(daily, 'uv_index_max', i),
+    condition: toCondition(daily.weather_code?.[i]),
+    sunrise: localHourMinute(daily.sunrise?.[i] ?? null, offset),
+    sunset: localHourMinute(daily.sunset?.[i] ?? null, offset),
+    hours: hours.filter((hour) => hour.time >= dateEpoch && hour.time < dateEpoch + 86400),
+  }] : []);
+
+const toLocation = (raw: RawDateRangeResponse, place: LocationSummary): ForecastLocation => ({
+  ...place,
+  tzId: raw.timezone,
+  utcOffsetSeconds: raw.utc_offset_seconds,
+  localtime: localIso(Math.floor(Date.now() / 1000), raw.utc_offset_seconds).slice(0, 16).replace('T', ' '),
+});
+
+export const parseOpenMeteoForecast = (
+  raw: RawForecastResponse,
+  place: LocationSummary,
+  airQuality: RawAirQualityResponse | null = null
+): Forecast => {
+  const { current } = raw;
+  const hours = toHours(raw.hourly, hourlyAirQuality(airQuality));
+  const days = toDays(raw.daily, hours, raw.utc_offset_seconds);
+  // Stands in for any current value that's missing
+  const hourUnderWay = hours.filter((hour) => hour.time <= current.time).pop() ?? hours[0];
+  const orHourly = (value: number | null, field: 'tempC' | 'feelsLikeC' | 'humidity' | 'windKph' | 'precipMm' | 'uv') => {
+    if (value !== null) {
+      return value;
+    }
+    if (!hourUnderWay) {
+      throw new WeatherProviderError('Open-Meteo returned no current conditions for this location.');
+    }
+    return hourUnderWay[field];
+  };
+
+  return {
+    location: toLocation(raw, place),
+    current: {
+      observedAt: current.time,
+      tempC: orHourly(current.temperature_2m, 'tempC'),
+      feelsLikeC: orHourly(current.apparent_temperature, 'feelsLikeC'),
+      isDay: current.is_day === null ? hourUnderWay?.isDay ?? true : current.is_day === 1,
+      condition: current.weather_code === null && hourUnderWay ? hourUnderWay.condition : toCondition(current.weather_code),
+      humidity: orHourly(current.relative_humidity_2m, 'humidity'),
+      windKph: orHourly(current.wind_speed_10m, 'windKph'),
+      windDegree: current.wind_direction_10m,
+      pressureMb: current.pressure_msl,
+      visKm: current.visibility === null ? null : current.visibility / 1000,
+      precipMm: orHourly(current.precipitation, 'precipMm'),
+      uv: orHourly(current.uv_index, 'uv'),
+      airQuality: airQuality ? toAirQuality(airQuality.current) : null,
+    },
+    days,
+    // Open-Meteo has no warnings feed
+    alerts: [],
+  };
+};
+
+export const parseOpenMeteoDateRange = (raw: RawDateRangeResponse, place: LocationSummary): DateRangeWeather => ({
+  location: toLocation(raw, place),
+  days: toDays(raw.daily, toHours(raw.hourly), raw.utc_offset_seconds),
+});
+
+interface OpenMeteoOptions {
+  baseUrl: string;
+  geocodingBaseUrl: string;
+  airQualityBaseUrl: string;
+  archiveBaseUrl: string;
+}
+
+/**
+ * Adapter for https://open-meteo.com (no key required)
+ */
+export const createOpenMeteoProvider = ({
+  baseUrl, geocodingBaseUrl, airQualityBaseUrl, archiveBaseUrl,
+}: OpenMeteoOptions): WeatherProvider => {
+  const search = async (query: string, count: number, fetchJson: FetchJson, lang = 'en') => {
+    const raw = await fetchJson({
+      url: `${geocodingBaseUrl.replace(/\/$/, '')}/search`,
+      params: { name: query, count, language: lang, format: 'json' },
+    }) as { results?: RawGeocodingResult[] };
+    return (raw.results ?? []).map(toSummary);
+  };
+
+  const resolvePlace = async (q: string, fetchJson: FetchJson): Promise<LocationSummary> => {
+    const coordinates = COORDINATES.exec(q);
+    if (coordinates) {
+      const [lat, lon] = [Number(coordinates[1]), Number(coordinates[2])];
+      return { id: `${lat},${lon}`, name: q.trim(), region: '', country: '', lat, lon };
+    }
+    const [place] = await search(q, 1, fetchJson);
+    if (!place) {
+      throw new WeatherProviderError(`No matching location found for "${q}".`, 400);
+    }
+    return place;
+  };
+
+  /**
+   * Air quality lives in a separate API; a failure there shouldn't sink the forecast
+   */
+  const fetchAirQuality = async (place: LocationSummary, days: number, fetchJson: FetchJson) => {
+    try {
+      return await fetchJson({
+        url: `${airQualityBaseUrl.replace(/\/$/, '')}/air-quality`,
+        params: {
+          latitude: place.lat,
+          longitude: place.lon,
+          current: AIR_QUALITY_FIELDS.join(','),
+          hourly: AIR_QUALITY_FIELDS.join(','),
+          // The air-quality API forecasts at most 7 days ahead
+          forecast_days: Math.min(days, 7),
+          timezone: 'auto',
+          timeformat: 'unixtime',
+        },
+      }) as RawAirQualityResponse;
+    } catch (err) {
+      console.warn('Open-Meteo air quality unavailable:', err);
+      return null;
+    }
+  };
+
+  return {
+    id: 'open-meteo',
+    // Place names are translated; condition text (from WMO codes) is always English
+    localizesConditions: false,
+    searchLocations: (query: string, fetchJson: FetchJson, lang?: string) => search(query, 10, fetchJson, lang),
+    // Open-Meteo's geocoding API only searches by name
+    reverseGeocode: async () => null,
+    async getForecast({ q, days }: ForecastParams, fetchJson: FetchJson) {
+      const place = await resolvePlace(q, fetchJson);
+      const [raw, airQuality] = await Promise.all([fetchJson({
+        url: `${baseUrl.replace(/\/$/, '')}/forecast`,
+        params: {
+          latitude: place.lat,
+          longitude: place.lon,
+          current: CURRENT_FIELDS.join(','),
+          hourly: HOURLY_FIELDS.join(','),
+          daily: DAILY_FIELDS.join(','),
+          forecast_days: days,
+          timezone: 'auto',
+          timeformat: 'unixtime',
+        },
+      }), fetchAirQuality(place, days, fetchJson)]);
+      return parseOpenMeteoForecast(raw as RawForecastResponse, place, airQuality);
+    },
+    async getHistory({ q, from, to }: DateRangeParams, fetchJson: FetchJson) {
+      const place = await resolvePlace(q, fetchJson);
+      const raw = await fetchJson({
+        url: `${archiveBaseUrl.replace(/\/$/, '')}/archive`,
+        params: {
+          latitude: place.lat,
+          longitude: place.lon,
+          hourly: ARCHIVE_HOURLY_FIELDS.join(','),
+          daily: ARCHIVE_DAILY_FIELDS.join(','),
+          start_date: from,
+          end_date: to,
+          timezone: 'auto',
+          timeformat: 'unixtime',
+        },
+      });
+      return parseOpenMeteoDateRange(raw as RawDateRangeResponse, place);
+    },
+    async getFuture({ q, from, to }: DateRangeParams, fetchJson: FetchJson) {
+      // The forecast API reaches 16 days ahead and rejects dates past that
+      const place = await resolvePlace(q, fetchJson);
+      const raw = await fetchJson({
+        url: `${baseUrl.replace(/\/$/, '')}/forecast`,
+        params: {
+          latitude: place.lat,
+          longitude: place.lon,
+          hourly: HOURLY_FIELDS.join(','),
+          daily: DAILY_FIELDS.join(','),
+          start_date: from,
+          end_date: to,
+          timezone: 'auto',
+          timeformat: 'unixtime',
+        },
+      });
+      return parseOpenMeteoDateRange(raw as RawDateRangeResponse, place);
+    },
+  };
+};
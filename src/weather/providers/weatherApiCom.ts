@@ -0,0 +1,353 @@
+import { chunkRange, eachDate } from '../dates';
+import type { DateRangeParams, FetchJson, ForecastParams, WeatherProvider } from '../provider';
+import type {
+  AirQuality, AlertSeverity, ConditionKind, CurrentWeather, DailyForecast, DateRangeWeather, Forecast,
+  ForecastLocation, HourlyForecast, LocationSummary, WeatherAlert, WeatherCondition,
+} from '../types';
+
+// --- WEATHERAPI.COM ADAPTER ---
+// https://www.weatherapi.com/docs/
+
+interface RawCondition {
+  text: string;
+  code: number;
+}
+
+interface RawAirQuality {
+  co: number;
+  no2: number;
+  o3: number;
+  so2: number;
+  pm2_5: number;
+  pm10: number;
+  'us-epa-index': number;
+  'gb-defra-index': number;
+}
+
+interface RawSearchResult {
+  id: number;
+  name: string;
+  region: string;
+  country: string;
+  lat: number;
+  lon: number;
+}
+
+interface RawLocation {
+  name: string;
+  region: string;
+  country: string;
+  lat: number;
+  lon: number;
+  tz_id: string;
+  localtime_epoch: number;
+  localtime: string;
+}
+
+interface RawCurrent {
+  last_updated_epoch: number;
+  temp_c: number;
+  feelslike_c: number;
+  is_day: number;
+  condition: RawCondition;
+  wind_kph: number;
+  wind_degree: number;
+  pressure_mb: number;
+  precip_mm: number;
+  humidity: number;
+  vis_km: number;
+  uv: number;
+  air_quality?: RawAirQuality;
+}
+
+interface RawHour {
+  time_epoch: number;
+  temp_c: number;
+  feelslike_c: number;
+  is_day: number;
+  condition: RawCondition;
+  wind_kph: number;
+  precip_mm: number;
+  humidity: number;
+  chance_of_rain: number;
+  uv: number;
+  air_quality?: RawAirQuality;
+}
+
+interface RawForecastDay {
+  date: string;
+  date_epoch: number;
+  day: {
+    maxtemp_c: number;
+    mintemp_c: number;
+    maxwind_kph: number;
+    totalprecip_mm: number;
+    daily_chance_of_rain: number;
+    uv: number;
+    condition: RawCondition;
+  };
+  astro: {
+    sunrise: string;
+    sunset: string;
+  };
+  hour: RawHour[];
+}
+
+interface RawAlert {
+  headline: string;
+  severity: string;
+  areas: string;
+  event: string;
+  effective: string;
+  expires: string;
+  desc: string;
+  instruction: string;
+}
+
+interface RawForecastResponse {
+  location: RawLocation;
+  current: RawCurrent;
+  forecast: { forecastday: RawForecastDay[] };
+  alerts?: { alert: RawAlert[] };
+}
+
+/**
+ * history.json and future.json answer like forecast.json, minus current conditions and alerts
+ */
+type RawDateRangeResponse = Pick<RawForecastResponse, 'location' | 'forecast'>;
+
+// history.json returns at most 30 days per request (`dt` to `end_dt`)
+const HISTORY_DAYS_PER_REQUEST = 30;
+
+/**
+ * "06:45 AM" -> "06:45"; "No sunrise" / "No sunset" -> null
+ */
+const to24Hour = (value: string): string | null => {
+  const match = /^(\d{1,2}):(\d{2})\s*(AM|PM)$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const hours = (Number(match[1]) % 12) + (match[3].toUpperCase() === 'PM' ? 12 : 0);
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+};
+
+/**
+ * WeatherAPI only reports local wall-clock time, so the offset is derived from it
+ */
+const utcOffsetOf = (location: RawLocation): number => {
+  const wallClockAsUtc = Date.parse(`${location.localtime.replace(' ', 'T')}:00Z`);
+  if (Number.isNaN(wallClockAsUtc)) {
+    return 0;
+  }
+  // Round to the nearest quarter hour to drop the seconds between epoch and wall clock
+  return Math.round((wallClockAsUtc / 1000 - location.localtime_epoch) / 900) * 900;
+};
+
+/**
+ * WeatherAPI.com condition codes (https://www.weatherapi.com/docs/weather_conditions.json).
+ * Storms are matched before rain or snow, whatever the wording.
+ */
+const CONDITION_KINDS: Record<number, ConditionKind> = {
+  1000: 'clear',
+  1003: 'partlyCloudy',
+  1006: 'cloudy', 1009: 'cloudy',
+  1030: 'fog', 1135: 'fog', 1147: 'fog',
+  1063: 'rain', 1180: 'rain', 1183: 'rain', 1186: 'rain', 1189: 'rain', 1192: 'rain', 1195: 'rain',
+  1240: 'rain', 1243: 'rain', 1246: 'rain',
+  1150: 'drizzle', 1153: 'drizzle',
+  1072: 'freezingRain', 1168: 'freezingRain', 1171: 'freezingRain', 1198: 'freezingRain', 1201: 'freezingRain',
+  1069: 'sleet', 1204: 'sleet', 1207: 'sleet', 1237: 'sleet', 1249: 'sleet', 1252: 'sleet', 1261: 'sleet', 1264: 'sleet',
+  1066: 'snow', 1114: 'snow', 1117: 'snow', 1210: 'snow', 1213: 'snow', 1216: 'snow', 1219: 'snow', 1222: 'snow',
+  1225: 'snow', 1255: 'snow', 1258: 'snow',
+  1087: 'thunderstorm', 1273: 'thunderstorm', 1276: 'thunderstorm', 1279: 'thunderstorm', 1282: 'thunderstorm',
+};
+
+const toCondition = ({ text, code }: RawCondition): WeatherCondition => ({
+  text,
+  code,
+  kind: CONDITION_KINDS[code] ?? 'unknown',
+});
+
+const toAirQuality = (raw: RawAirQuality | undefined): AirQuality | null => raw ? {
+  usEpaIndex: raw['us-epa-index'],
+  gbDefraIndex: raw['gb-defra-index'],
+  pm2_5: raw.pm2_5,
+  pm10: raw.pm10,
+  o3: raw.o3,
+  no2: raw.no2,
+  so2: raw.so2,
+  co: raw.co,
+} : null;
+
+const toLocation = (raw: RawLocation): ForecastLocation => ({
+  id: `${raw.lat},${raw.lon}`,
+  name: raw.name,
+  region: raw.region,
+  country: raw.country,
+  lat: raw.lat,
+  lon: raw.lon,
+  tzId: raw.tz_id,
+  utcOffsetSeconds: utcOffsetOf(raw),
+  localtime: raw.localtime,
+});
+
+const toCurrent = (raw: RawCurrent): CurrentWeather => ({
+  observedAt: raw.last_updated_epoch,
+  tempC: raw.temp_c,
+  feelsLikeC: raw.feelslike_c,
+  isDay: raw.is_day === 1,
+  condition: toCondition(raw.condition),
+  humidity: raw.humidity,
+  windKph: raw.wind_kph,
+  windDegree: raw.wind_degree,
+  pressureMb: raw.pressure_mb,
+  visKm: raw.vis_km,
+  precipMm: raw.precip_mm,
+  uv: raw.uv,
+  airQuality: toAirQuality(raw.air_quality),
+});
+
+const toHour = (raw: RawHour): HourlyForecast => ({
+  time: raw.time_epoch,
+  tempC: raw.temp_c,
+  feelsLikeC: raw.feelslike_c,
+  isDay: raw.is_day === 1,
+  condition: toCondition(raw.condition),
+  humidity: raw.humidity,
+  windKph: raw.wind_kph,
+  precipMm: raw.precip_mm,
+  chanceOfRain: raw.chance_of_rain,
+  uv: raw.uv,
+  airQuality: toAirQuality(raw.air_quality),
+});
+
+const toDay = (raw: RawForecastDay): DailyForecast => ({
+  date: raw.date,
+  dateEpoch: raw.date_epoch,
+  maxTempC: raw.day.maxtemp_c,
+  minTempC: raw.day.mintemp_c,
+  maxWindKph: raw.day.maxwind_kph,
+  totalPrecipMm: raw.day.totalprecip_mm,
+  chanceOfRain: raw.day.daily_chance_of_rain,
+  uv: raw.day.uv,
+  condition: toCondition(raw.day.condition),
+  sunrise: to24Hour(raw.astro.sunrise),
+  sunset: to24Hour(raw.astro.sunset),
+  hours: raw.hour.map(toHour),
+});
+
+const SEVERITIES: AlertSeverity[] = ['extreme', 'severe', 'moderate', 'minor'];
+
+const toEpoch = (value: string): number | null => {
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+};
+
+const toAlert = (raw: RawAlert): WeatherAlert => {
+  const severity = raw.severity.trim().toLowerCase() as AlertSeverity;
+  return {
+    // WeatherAPI doesn't return alert ids, and re-issued alerts share event + effective time
+    id: `${raw.event}|${raw.effective}|${raw.areas}`,
+    event: raw.event,
+    headline: raw.headline || raw.event,
+    severity: SEVERITIES.includes(severity) ? severity : 'unknown',
+    areas: raw.areas,
+    description: raw.desc,
+    instruction: raw.instruction,
+    effective: toEpoch(raw.effective),
+    expires: toEpoch(raw.expires),
+  };
+};
+
+export const parseWeatherApiForecast = (raw: RawForecastResponse): Forecast => ({
+  location: toLocation(raw.location),
+  current: toCurrent(raw.current),
+  days: raw.forecast.forecastday.map(toDay),
+  alerts: (raw.alerts?.alert ?? []).map(toAlert),
+});
+
+/**
+ * Joins the responses for consecutive pieces of one date range
+ */
+export const parseWeatherApiDateRange = (raw: RawDateRangeResponse[]): DateRangeWeather => ({
+  location: toLocation(raw[0].location),
+  days: raw.flatMap((response) => response.forecast.forecastday.map(toDay)),
+});
+
+export const parseWeatherApiSearch = (raw: RawSearchResult[]): LocationSummary[] =>
+  raw.map((result) => ({
+    id: String(result.id),
+    name: result.name,
+    region: result.region,
+    country: result.country,
+    lat: result.lat,
+    lon: result.lon,
+  }));
+
+/**
+ * Sends range requests one after another, so a month of dates doesn't hit
+ * the proxy all at once. A failure keeps the days before it; only a failed
+ * first request fails the whole range.
+ */
+const fetchInTurn = async (requests: Parameters<FetchJson>[0][], fetchJson: FetchJson): Promise<unknown[]> => {
+  const responses: unknown[] = [];
+  for (const args of requests) {
+    try {
+      responses.push(await fetchJson(args));
+    } catch (err) {
+      if (responses.length === 0) {
+        throw err;
+      }
+      console.warn(`Weather range stopped after ${responses.length} of ${requests.length} requests:`, err);
+      break;
+    }
+  }
+  return responses;
+};
+
+interface WeatherApiComOptions {
+  /** The weather proxy, which adds the API key and forwards to WeatherAPI.com */
+  baseUrl: string;
+}
+
+/**
+ * Adapter for https://www.weatherapi.com, called through the weather proxy
+ */
+export const createWeatherApiComProvider = ({ baseUrl }: WeatherApiComOptions): WeatherProvider => {
+  const request = (path: string, params: Record<string, string | number>) => ({
+    url: `${baseUrl.replace(/\/$/, '')}/${path}`,
+    params,
+  });
+
+  // Condition text is English unless another language is asked for
+  const language = (lang: string | undefined): Record<string, string> => (lang && lang !== 'en' ? { lang } : {});
+
+  return {
+    id: 'weatherapi',
+    localizesConditions: true,
+    async searchLocations(query: string, fetchJson: FetchJson) {
+      const raw = await fetchJson(request('search.json', { q: query }));
+      return parseWeatherApiSearch(raw as RawSearchResult[]);
+    },
+    async reverseGeocode({ lat, lon }, fetchJson: FetchJson, lang?: string) {
+      // Searching by coordinates returns the nearest places first
+      const raw = await fetchJson(request('search.json', { q: `${lat},${lon}`, ...language(lang) }));
+      return parseWeatherApiSearch(raw as RawSearchResult[])[0] ?? null;
+    },
+    async getForecast({ q, days, lang }: ForecastParams, fetchJson: FetchJson) {
+      const raw = await fetchJson(request('forecast.json', { q, days, aqi: 'yes', alerts: 'yes', ...language(lang) }));
+      return parseWeatherApiForecast(raw as RawForecastResponse);
+    },
+    async getHistory({ q, from, to, lang }: DateRangeParams, fetchJson: FetchJson) {
+      const raw = await fetchInTurn(chunkRange(from, to, HISTORY_DAYS_PER_REQUEST).map((chunk) =>
+        request('history.json', { q, dt: chunk.from, end_dt: chunk.to, ...language(lang) })), fetchJson);
+      return parseWeatherApiDateRange(raw as RawDateRangeResponse[]);
+    },
+    async getFuture({ q, from, to, lang }: DateRangeParams, fetchJson: FetchJson) {
+      // future.json covers 14 to 300 days ahead, one date per request
+      const raw = await fetchInTurn(eachDate(from, to).map((dt) =>
+        request('future.json', { q, dt, ...language(lang) })), fetchJson);
+      return parseWeatherApiDateRange(raw as RawDateRangeResponse[]);
+    },
+  };
+};
@@ -0,0 +1,37 @@
+// --- PROXY ERRORS ---
+// Body of every error the weather proxy (server/weatherProxy.ts) sends back,
+// shared so the browser can tell a misconfigured server from a failed request.
+
+export type ProxyErrorCode =
+  | 'not_configured'
+  | 'invalid_key'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'rate_limited'
+  | 'bad_request'
+  | 'not_available'
+  | 'upstream_error'
+  | 'upstream_unreachable';
+
+export interface ProxyErrorBody {
+  error: { code: ProxyErrorCode; message: string };
+}
+
+/** Codes that mean the proxy is set up wrong, so no request can succeed */
+export type ConfigurationErrorCode = Extract<ProxyErrorCode, 'not_configured' | 'invalid_key'>;
+
+export const isProxyErrorBody = (body: unknown): body is ProxyErrorBody => {
+  const error = (body as ProxyErrorBody | null)?.error;
+  return typeof error === 'object' && error !== null && typeof error.code === 'string' && typeof error.message === 'string';
+};
+
+/**
+ * The configuration problem a failed response reports, if that's what it is
+ */
+export const configurationErrorCode = (body: unknown): ConfigurationErrorCode | null => {
+  if (!isProxyErrorBody(body)) {
+    return null;
+  }
+  const { code } = body.error;
+  return code === 'not_configured' || code === 'invalid_key' ? code : null;
+};
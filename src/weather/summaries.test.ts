@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, chunkRange, sameDateLastYear } from './dates';
+import { resolutionFor, summarizePeriods } from './summaries';
+import type { DailyForecast } from './types';
+
+const day = (date: string, maxTempC: number, minTempC: number, totalPrecipMm = 0): DailyForecast => ({
+  date,
+  dateEpoch: Date.parse(date) / 1000,
+  maxTempC,
+  minTempC,
+  maxWindKph: 10,
+  totalPrecipMm,
+  chanceOfRain: 0,
+  uv: 1,
+  condition: { text: 'Sunny', code: 1000, kind: 'clear' },
+  sunrise: '07:00',
+  sunset: '19:00',
+  hours: [],
+});
+
+describe('resolutionFor', () => {
+  it('charts two weeks hourly, about three months daily and anything longer weekly', () => {
+    expect(resolutionFor(14)).toBe('hourly');
+    expect(resolutionFor(15)).toBe('daily');
+    expect(resolutionFor(92)).toBe('daily');
+    expect(resolutionFor(93)).toBe('weekly');
+  });
+});
+
+describe('summarizePeriods', () => {
+  it('groups days into weeks counted from the first day', () => {
+    const days = Array.from({ length: 10 }, (_, i) => day(addDays('2025-03-01', i), 10 + i, i, 1));
+    const weeks = summarizePeriods(days, 'weekly');
+
+    expect(weeks).toHaveLength(2);
+    expect(weeks[0]).toMatchObject({ from: '2025-03-01', to: '2025-03-07', maxTempC: 16, minTempC: 0, totalPrecipMm: 7 });
+    // Without hours, the mean is taken from each day's extremes
+    expect(weeks[1]).toMatchObject({ from: '2025-03-08', to: '2025-03-10', meanTempC: 13 });
+  });
+});
+
+describe('date helpers', () => {
+  it('maps 29 February to the 28th of the year before', () => {
+    expect(sameDateLastYear('2024-02-29')).toBe('2023-02-28');
+    expect(sameDateLastYear('2025-10-19')).toBe('2024-10-19');
+  });
+
+  it('splits a range into pieces no longer than the limit', () => {
+    expect(chunkRange('2025-01-01', '2025-01-05', 2)).toEqual([
+      { from: '2025-01-01', to: '2025-01-02' },
+      { from: '2025-01-03', to: '2025-01-04' },
+      { from: '2025-01-05', to: '2025-01-05' },
+    ]);
+  });
+});
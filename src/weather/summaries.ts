@@ -0,0 +1,66 @@
+import type { DailyForecast } from './types';
+
+// --- PERIOD SUMMARIES ---
+// Long date ranges are charted per day or per week instead of per hour.
+
+// Ranges up to two weeks are charted hour by hour
+export const HOURLY_LIMIT_DAYS = 14;
+
+// Longer ranges get a point per day up to about three months, then one per week
+export const DAILY_LIMIT_DAYS = 92;
+
+// Longest range the explorer asks the provider for
+export const MAX_HISTORY_DAYS = 366;
+
+export type Resolution = 'hourly' | 'daily' | 'weekly';
+
+export const resolutionFor = (dayCount: number): Resolution => {
+  if (dayCount <= HOURLY_LIMIT_DAYS) {
+    return 'hourly';
+  }
+  return dayCount <= DAILY_LIMIT_DAYS ? 'daily' : 'weekly';
+};
+
+/**
+ * Weather over one or more consecutive days
+ */
+export interface PeriodSummary {
+  from: string;
+  to: string;
+  maxTempC: number;
+  minTempC: number;
+  meanTempC: number;
+  totalPrecipMm: number;
+  maxWindKph: number;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const summarize = (days: DailyForecast[]): PeriodSummary => {
+  const hours = days.flatMap((day) => day.hours);
+  // Days without hourly data fall back to the midpoint of their extremes
+  const meanTempC = hours.length > 0
+    ? hours.reduce((sum, hour) => sum + hour.tempC, 0) / hours.length
+    : days.reduce((sum, day) => sum + (day.maxTempC + day.minTempC) / 2, 0) / days.length;
+  return {
+    from: days[0].date,
+    to: days[days.length - 1].date,
+    maxTempC: Math.max(...days.map((day) => day.maxTempC)),
+    minTempC: Math.min(...days.map((day) => day.minTempC)),
+    meanTempC: round1(meanTempC),
+    totalPrecipMm: round1(days.reduce((sum, day) => sum + day.totalPrecipMm, 0)),
+    maxWindKph: Math.max(...days.map((day) => day.maxWindKph)),
+  };
+};
+
+/**
+ * One summary per day, or per run of seven days counted from the first
+ */
+export const summarizePeriods = (days: DailyForecast[], resolution: 'daily' | 'weekly'): PeriodSummary[] => {
+  const size = resolution === 'daily' ? 1 : 7;
+  const summaries: PeriodSummary[] = [];
+  for (let i = 0; i < days.length; i += size) {
+    summaries.push(summarize(days.slice(i, i + size)));
+  }
+  return summaries;
+};
@@ -0,0 +1,149 @@
+// --- NORMALIZED WEATHER MODEL ---
+// Every provider adapter maps its own payloads into these shapes, so the rest
+// of the app never sees vendor field names. All values are metric; unit
+// conversion happens at display time.
+
+/**
+ * A place returned by a location search
+ */
+export interface LocationSummary {
+  id: string;
+  name: string;
+  region: string;
+  country: string;
+  lat: number;
+  lon: number;
+}
+
+/**
+ * The resolved location a forecast belongs to
+ */
+export interface ForecastLocation extends LocationSummary {
+  /** IANA time zone, e.g. "Europe/London" */
+  tzId: string;
+  utcOffsetSeconds: number;
+  /** Local wall-clock time at fetch, "YYYY-MM-DD HH:mm" */
+  localtime: string;
+}
+
+/**
+ * Provider-independent kind of weather, mapped from each provider's condition
+ * codes. Icons and card themes key off this, never off the condition text.
+ */
+export type ConditionKind =
+  | 'clear' | 'partlyCloudy' | 'cloudy' | 'fog' | 'drizzle' | 'rain' | 'freezingRain' | 'sleet' | 'snow'
+  | 'thunderstorm' | 'unknown';
+
+export interface WeatherCondition {
+  /** As the provider words it, for display only */
+  text: string;
+  /** Provider-specific condition code; null when the provider gave none */
+  code: number | null;
+  kind: ConditionKind;
+}
+
+/**
+ * Pollutant concentrations in µg/m³ plus the two headline indices
+ */
+export interface AirQuality {
+  /** US EPA category, 1 (Good) to 6 (Hazardous) */
+  usEpaIndex: number;
+  /** UK DEFRA Daily Air Quality Index, 1 to 10 */
+  gbDefraIndex: number;
+  pm2_5: number;
+  pm10: number;
+  o3: number;
+  no2: number;
+  so2: number;
+  co: number;
+}
+
+export interface CurrentWeather {
+  /** Unix seconds of the observation */
+  observedAt: number;
+  tempC: number;
+  feelsLikeC: number;
+  isDay: boolean;
+  condition: WeatherCondition;
+  humidity: number;
+  windKph: number;
+  /** Null where the provider has no reading */
+  windDegree: number | null;
+  pressureMb: number | null;
+  visKm: number | null;
+  precipMm: number;
+  uv: number;
+  /** Null when the provider has no air-quality data for the location */
+  airQuality: AirQuality | null;
+}
+
+export interface HourlyForecast {
+  /** Unix seconds at the start of the hour */
+  time: number;
+  tempC: number;
+  feelsLikeC: number;
+  isDay: boolean;
+  condition: WeatherCondition;
+  humidity: number;
+  windKph: number;
+  precipMm: number;
+  /** 0-100 */
+  chanceOfRain: number;
+  /** 0 at night, and where the provider has no UV forecast (history) */
+  uv: number;
+  airQuality: AirQuality | null;
+}
+
+export interface DailyForecast {
+  /** Local calendar date, "YYYY-MM-DD" */
+  date: string;
+  /** Unix seconds of local midnight */
+  dateEpoch: number;
+  maxTempC: number;
+  minTempC: number;
+  maxWindKph: number;
+  totalPrecipMm: number;
+  /** 0-100 */
+  chanceOfRain: number;
+  uv: number;
+  condition: WeatherCondition;
+  /** Local "HH:mm", or null when the sun doesn't rise/set that day */
+  sunrise: string | null;
+  sunset: string | null;
+  hours: HourlyForecast[];
+}
+
+export interface Forecast {
+  location: ForecastLocation;
+  current: CurrentWeather;
+  days: DailyForecast[];
+  /** Empty when the provider has no alerts feed */
+  alerts: WeatherAlert[];
+}
+
+/**
+ * Past or long-range days for a span of dates, oldest first
+ */
+export interface DateRangeWeather {
+  location: ForecastLocation;
+  days: DailyForecast[];
+}
+
+export type AlertSeverity = 'extreme' | 'severe' | 'moderate' | 'minor' | 'unknown';
+
+/**
+ * An official warning issued for the location
+ */
+export interface WeatherAlert {
+  /** Stable across polls, so the same alert isn't announced twice */
+  id: string;
+  event: string;
+  headline: string;
+  severity: AlertSeverity;
+  areas: string;
+  description: string;
+  instruction: string;
+  /** Unix seconds, or null when the provider doesn't say */
+  effective: number | null;
+  expires: number | null;
+}
@@ -0,0 +1,248 @@
+// --- UNIT CONVERSION & FORMATTING ---
+// The weather model is metric; everything the UI shows goes through the
+// formatter built from the user's unit preferences.
+
+export type TemperatureUnit = 'c' | 'f';
+export type WindUnit = 'kph' | 'mph' | 'ms' | 'knots' | 'beaufort';
+export type PressureUnit = 'mb' | 'inHg' | 'hPa';
+export type DistanceUnit = 'km' | 'mi';
+export type PrecipitationUnit = 'mm' | 'in';
+export type ClockFormat = '12h' | '24h';
+
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  wind: WindUnit;
+  pressure: PressureUnit;
+  distance: DistanceUnit;
+  precipitation: PrecipitationUnit;
+  clock: ClockFormat;
+}
+
+export const DEFAULT_UNITS: UnitPreferences = {
+  temperature: 'c',
+  wind: 'kph',
+  pressure: 'mb',
+  distance: 'km',
+  precipitation: 'mm',
+  clock: '12h',
+};
+
+/**
+ * Choices offered in the settings panel, in display order
+ */
+export const UNIT_OPTIONS: { [K in keyof UnitPreferences]: { value: UnitPreferences[K]; label: string }[] } = {
+  temperature: [{ value: 'c', label: '°C' }, { value: 'f', label: '°F' }],
+  wind: [
+    { value: 'kph', label: 'km/h' },
+    { value: 'mph', label: 'mph' },
+    { value: 'ms', label: 'm/s' },
+    { value: 'knots', label: 'kn' },
+    { value: 'beaufort', label: 'Bft' },
+  ],
+  pressure: [{ value: 'mb', label: 'mb' }, { value: 'inHg', label: 'inHg' }, { value: 'hPa', label: 'hPa' }],
+  distance: [{ value: 'km', label: 'km' }, { value: 'mi', label: 'mi' }],
+  precipitation: [{ value: 'mm', label: 'mm' }, { value: 'in', label: 'in' }],
+  clock: [{ value: '12h', label: '12h' }, { value: '24h', label: '24h' }],
+};
+
+/**
+ * The unit preferences in `value` that are among the offered choices, e.g.
+ * from storage or another device; anything else is left out
+ */
+export const pickUnitPreferences = (value: unknown): Partial<UnitPreferences> => {
+  if (typeof value !== 'object' || value === null) {
+    return {};
+  }
+  const units = value as Record<string, unknown>;
+  return Object.fromEntries(Object.entries(UNIT_OPTIONS)
+    .filter(([key, options]) => options.some((option) => option.value === units[key]))
+    .map(([key]) => [key, units[key]]));
+};
+
+export const convertTemperature = (celsius: number, unit: TemperatureUnit): number =>
+  unit === 'c' ? celsius : celsius * 9 / 5 + 32;
+
+/**
+ * Upper bounds (km/h) of Beaufort forces 0-11; anything above is force 12
+ */
+const BEAUFORT_LIMITS_KPH = [1, 6, 12, 20, 29, 39, 50, 62, 75, 89, 103, 118];
+
+export const toBeaufort = (kph: number): number => {
+  const force = BEAUFORT_LIMITS_KPH.findIndex((limit) => kph < limit);
+  return force === -1 ? 12 : force;
+};
+
+export const convertWind = (kph: number, unit: WindUnit): number => {
+  switch (unit) {
+    case 'kph': return kph;
+    case 'mph': return kph / 1.609344;
+    case 'ms': return kph / 3.6;
+    case 'knots': return kph / 1.852;
+    case 'beaufort': return toBeaufort(kph);
+  }
+};
+
+/**
+ * Inverse conversions, for thresholds the user types in their own units
+ */
+export const toCelsius = (value: number, unit: TemperatureUnit): number =>
+  unit === 'c' ? value : (value - 32) * 5 / 9;
+
+export const toKph = (value: number, unit: WindUnit): number => {
+  switch (unit) {
+    case 'kph': return value;
+    case 'mph': return value * 1.609344;
+    case 'ms': return value * 3.6;
+    case 'knots': return value * 1.852;
+    // Lower bound of the given force
+    case 'beaufort': return value <= 0 ? 0 : BEAUFORT_LIMITS_KPH[Math.min(value, 12) - 1];
+  }
+};
+
+const WIND_LABELS: Record<WindUnit, string> = { kph: 'km/h', mph: 'mph', ms: 'm/s', knots: 'kn', beaufort: 'Bft' };
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * "HH:mm" -> hours and minutes, or null for anything else
+ */
+const parseClockTime = (value: string | null) => {
+  const match = value ? /^(\d{2}):(\d{2})$/.exec(value) : null;
+  return match ? { hours: Number(match[1]), minutes: Number(match[2]) } : null;
+};
+
+/**
+ * Builds display helpers for one set of unit preferences, writing numbers
+ * and dates the way `locale` (a BCP 47 tag such as "fr") does
+ */
+export const createFormatter = (units: UnitPreferences, locale = 'en') => {
+  const hour12 = units.clock === '12h';
+  const numberFormats = new Map<number, Intl.NumberFormat>();
+
+  /** Rounded like the model has always been, then localized; `|| 0` keeps "-0" out */
+  const number = (value: number, decimals = 0) => {
+    let numberFormat = numberFormats.get(decimals);
+    if (!numberFormat) {
+      numberFormat = new Intl.NumberFormat(locale, { maximumFractionDigits: decimals, useGrouping: false });
+      numberFormats.set(decimals, numberFormat);
+    }
+    return numberFormat.format(round(value, decimals) || 0);
+  };
+  const percentFormat = new Intl.NumberFormat(locale, { style: 'percent' });
+
+  const clock = { hour: hour12 ? 'numeric' : '2-digit', minute: '2-digit', hour12 } as const;
+
+  return {
+    units,
+    locale,
+    /** A plain localized number, e.g. "3,5" in French */
+    number,
+    /** 0-100 as a percentage, e.g. "65%" */
+    percent: (value: number) => percentFormat.format(Math.round(value) / 100),
+    /** Converted number for plotting */
+    temperatureValue: (celsius: number) => round(convertTemperature(celsius, units.temperature), 1),
+    temperatureUnit: units.temperature.toUpperCase(),
+    /** "21°", or "21°C" with `withUnit` */
+    temperature: (celsius: number, { decimals = 0, withUnit = false } = {}) =>
+      `${number(convertTemperature(celsius, units.temperature), decimals)}°${withUnit ? units.temperature.toUpperCase() : ''}`,
+    /** A temperature difference such as a forecast error, e.g. "1.4°" (no 32° offset in °F) */
+    temperatureDifference: (celsius: number) =>
+      `${number(units.temperature === 'f' ? celsius * 1.8 : celsius, 1)}°`,
+    windValue: (kph: number) => round(convertWind(kph, units.wind), 1),
+    windUnit: WIND_LABELS[units.wind],
+    wind: (kph: number) => units.wind === 'beaufort'
+      ? `Bft ${number(toBeaufort(kph))}`
+      : `${number(convertWind(kph, units.wind), units.wind === 'kph' ? 0 : 1)} ${WIND_LABELS[units.wind]}`,
+    pressure: (mb: number) => units.pressure === 'inHg'
+      ? `${number(mb * 0.02953, 2)} inHg`
+      : `${number(mb)} ${units.pressure}`,
+    distance: (km: number) => units.distance === 'mi'
+      ? `${number(km / 1.609344, 1)} mi`
+      : `${number(km, 1)} km`,
+    precipitationValue: (mm: number) => units.precipitation === 'in' ? round(mm / 25.4, 2) : round(mm, 1),
+    precipitation: (mm: number) => units.precipitation === 'in'
+      ? `${number(mm / 25.4, 2)} in`
+      : `${number(mm, 1)} mm`,
+    /**
+     * Hour label for an epoch timestamp, e.g. "3 PM" or "15:00". Uses the
+     * browser's time zone unless a location's UTC offset is given.
+     */
+    hour: (epochSeconds: number, utcOffsetSeconds?: number) => {
+      const shifted = utcOffsetSeconds === undefined ? epochSeconds : epochSeconds + utcOffsetSeconds;
+      return new Date(shifted * 1000).toLocaleTimeString(locale, {
+        ...(hour12 ? { hour: 'numeric', hour12: true } : { hour: '2-digit', minute: '2-digit', hour12: false }),
+        ...(utcOffsetSeconds === undefined ? {} : { timeZone: 'UTC' }),
+      } as const);
+    },
+    /** Time of day for an epoch timestamp, e.g. "3:05 PM" or "15:05" */
+    time: (epochSeconds: number) => new Date(epochSeconds * 1000).toLocaleTimeString(locale, clock),
+    /** Short weekday and time for an epoch timestamp, e.g. "Tue 3:00 PM" */
+    dateTime: (epochSeconds: number) => new Date(epochSeconds * 1000).toLocaleString(locale, {
+      weekday: 'short', hour: 'numeric', minute: '2-digit', hour12,
+    }),
+    /** Date and time for an epoch timestamp, e.g. "Oct 19, 2026, 3:05 PM" */
+    timestamp: (epochSeconds: number) => new Date(epochSeconds * 1000).toLocaleString(locale, {
+      year: 'numeric', month: 'short', day: 'numeric', ...clock,
+    }),
+    /**
+     * Short weekday of an epoch timestamp, e.g. "Tue". Uses the browser's
+     * time zone unless a location's UTC offset is given.
+     */
+    weekday: (epochSeconds: number, utcOffsetSeconds?: number) => {
+      const shifted = utcOffsetSeconds === undefined ? epochSeconds : epochSeconds + utcOffsetSeconds;
+      return new Date(shifted * 1000).toLocaleDateString(locale, {
+        weekday: 'short', ...(utcOffsetSeconds === undefined ? {} : { timeZone: 'UTC' }),
+      });
+    },
+    /**
+     * A calendar date ("YYYY-MM-DD"), by default like "Oct 19". It's the
+     * location's own date, so no time zone applies.
+     */
+    date: (value: string, options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }) =>
+      new Date(`${value}T00:00:00Z`).toLocaleDateString(locale, { ...options, timeZone: 'UTC' }),
+    /** A location's own "YYYY-MM-DD HH:mm" wall-clock time, e.g. "Mon, Oct 19, 3:05 PM" */
+    localDateTime: (value: string) => {
+      const [date, time] = value.split(' ');
+      const clockTime = parseClockTime(time ?? null);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !clockTime) {
+        return value;
+      }
+      const [year, month, day] = date.split('-').map(Number);
+      return new Date(Date.UTC(year, month - 1, day, clockTime.hours, clockTime.minutes)).toLocaleString(locale, {
+        weekday: 'short', month: 'short', day: 'numeric', ...clock, timeZone: 'UTC',
+      });
+    },
+    /**
+     * Time of day for an epoch timestamp in a location's time zone, e.g.
+     * "6:42 AM". Falls back to its UTC offset when the browser doesn't know
+     * the zone name; a missing time shows as a dash.
+     */
+    zonedTime: (epochSeconds: number | null, zone: { tzId: string; utcOffsetSeconds: number }) => {
+      if (epochSeconds === null) {
+        return '—';
+      }
+      try {
+        return new Date(epochSeconds * 1000).toLocaleTimeString(locale, { ...clock, timeZone: zone.tzId });
+      } catch {
+        return new Date((epochSeconds + zone.utcOffsetSeconds) * 1000).toLocaleTimeString(locale, {
+          ...clock, timeZone: 'UTC',
+        });
+      }
+    },
+    /** Formats a local "HH:mm" string such as a sunrise time */
+    clockTime: (value: string | null) => {
+      const time = parseClockTime(value);
+      if (!time) {
+        return '—';
+      }
+      return new Date(Date.UTC(1970, 0, 1, time.hours, time.minutes)).toLocaleTimeString(locale, {
+        ...clock, timeZone: 'UTC',
+      });
+    },
+  };
+};
+
+export type Formatter = ReturnType<typeof createFormatter>;
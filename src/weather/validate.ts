@@ -0,0 +1,170 @@
+import { WeatherProviderError } from './provider';
+import type {
+  AirQuality, AlertSeverity, ConditionKind, CurrentWeather, DailyForecast, DateRangeWeather, Forecast,
+  ForecastLocation, HourlyForecast, LocationSummary, WeatherAlert, WeatherCondition,
+} from './types';
+
+// --- PAYLOAD VALIDATION ---
+// Providers are checked against the normalized model before anything reaches
+// the store, so a malformed response becomes an error state with a readable
+// message instead of NaN in a chart or a crash in a component.
+
+type Check<T> = (value: unknown, path: string) => T;
+
+const fail = (path: string, expected: string): never => {
+  throw new WeatherProviderError(`Malformed weather data: ${path} should be ${expected}`);
+};
+
+const number: Check<number> = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'a number');
+
+const string: Check<string> = (value, path) => typeof value === 'string' ? value : fail(path, 'a string');
+
+const boolean: Check<boolean> = (value, path) => typeof value === 'boolean' ? value : fail(path, 'true or false');
+
+const nullable = <T>(check: Check<T>): Check<T | null> => (value, path) =>
+  value === null ? null : check(value, path);
+
+const arrayOf = <T>(check: Check<T>): Check<T[]> => (value, path) =>
+  Array.isArray(value) ? value.map((item, i) => check(item, `${path}[${i}]`)) : fail(path, 'a list');
+
+const oneOf = <T extends string>(values: readonly T[]): Check<T> => (value, path) =>
+  values.includes(value as T) ? value as T : fail(path, `one of ${values.join(', ')}`);
+
+/**
+ * Checks every field of `shape` and returns only those fields
+ */
+const object = <T>(shape: { [K in keyof T]-?: Check<T[K]> }): Check<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null) {
+    return fail(path, 'an object');
+  }
+  const record = value as Record<string, unknown>;
+  const result = {} as T;
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    result[key] = shape[key](record[key], `${path}.${key}`);
+  }
+  return result;
+};
+
+// --- MODEL SCHEMAS ---
+
+const locationShape = {
+  id: string,
+  name: string,
+  region: string,
+  country: string,
+  lat: number,
+  lon: number,
+};
+
+const location = object<LocationSummary>(locationShape);
+
+const forecastLocation = object<ForecastLocation>({
+  ...locationShape,
+  tzId: string,
+  utcOffsetSeconds: number,
+  localtime: string,
+});
+
+const CONDITION_KINDS: readonly ConditionKind[] = [
+  'clear', 'partlyCloudy', 'cloudy', 'fog', 'drizzle', 'rain', 'freezingRain', 'sleet', 'snow', 'thunderstorm', 'unknown',
+];
+
+const condition = object<WeatherCondition>({
+  text: string,
+  code: nullable(number),
+  kind: oneOf(CONDITION_KINDS),
+});
+
+const airQuality = nullable(object<AirQuality>({
+  usEpaIndex: number,
+  gbDefraIndex: number,
+  pm2_5: number,
+  pm10: number,
+  o3: number,
+  no2: number,
+  so2: number,
+  co: number,
+}));
+
+const current = object<CurrentWeather>({
+  observedAt: number,
+  tempC: number,
+  feelsLikeC: number,
+  isDay: boolean,
+  condition,
+  humidity: number,
+  windKph: number,
+  windDegree: nullable(number),
+  pressureMb: nullable(number),
+  visKm: nullable(number),
+  precipMm: number,
+  uv: number,
+  airQuality,
+});
+
+const hour = object<HourlyForecast>({
+  time: number,
+  tempC: number,
+  feelsLikeC: number,
+  isDay: boolean,
+  condition,
+  humidity: number,
+  windKph: number,
+  precipMm: number,
+  chanceOfRain: number,
+  uv: number,
+  airQuality,
+});
+
+const day = object<DailyForecast>({
+  date: string,
+  dateEpoch: number,
+  maxTempC: number,
+  minTempC: number,
+  maxWindKph: number,
+  totalPrecipMm: number,
+  chanceOfRain: number,
+  uv: number,
+  condition,
+  sunrise: nullable(string),
+  sunset: nullable(string),
+  hours: arrayOf(hour),
+});
+
+const SEVERITIES: readonly AlertSeverity[] = ['extreme', 'severe', 'moderate', 'minor', 'unknown'];
+
+const alert = object<WeatherAlert>({
+  id: string,
+  event: string,
+  headline: string,
+  severity: oneOf(SEVERITIES),
+  areas: string,
+  description: string,
+  instruction: string,
+  effective: nullable(number),
+  expires: nullable(number),
+});
+
+const forecast = object<Forecast>({
+  location: forecastLocation,
+  current,
+  days: (value, path) => {
+    const days = arrayOf(day)(value, path);
+    return days.length > 0 ? days : fail(path, 'a non-empty list');
+  },
+  alerts: arrayOf(alert),
+});
+
+const dateRangeWeather = object<DateRangeWeather>({
+  location: forecastLocation,
+  days: arrayOf(day),
+});
+
+export const validateForecast = (value: unknown): Forecast => forecast(value, 'forecast');
+
+export const validateDateRangeWeather = (value: unknown): DateRangeWeather => dateRangeWeather(value, 'dateRange');
+
+export const validateLocation = (value: unknown): LocationSummary | null => nullable(location)(value, 'location');
+
+export const validateLocations = (value: unknown): LocationSummary[] => arrayOf(location)(value, 'locations');
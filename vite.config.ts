@@ -1,8 +1,24 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, loadEnv } from 'vite'
 import tailwindcss from '@tailwindcss/vite'
+import { serviceWorkerPlugin } from './server/serviceWorkerPlugin.ts'
+import { weatherProxyPlugin } from './server/vitePlugin.ts'
 
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   plugins: [
     tailwindcss(),
+    // Serves /api/weather with the WEATHER_* variables from .env, which stay out of the bundle
+    weatherProxyPlugin(loadEnv(mode, process.cwd(), 'WEATHER_')),
+    // Emits /sw.js next to the build; see src/pwa/serviceWorker.ts
+    serviceWorkerPlugin(),
   ],
-})
\ No newline at end of file
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+    // Tests talk to the weather proxy's URLs, answered by the MSW handlers in src/test/server.ts
+    env: {
+      VITE_WEATHER_PROVIDER: 'weatherapi',
+      VITE_WEATHER_API_BASE: 'http://localhost:3000/api/weather',
+    },
+  },
+}))